@@ -1,5 +1,5 @@
 import { useEffect } from 'react';
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { onSnapshotsInSync } from 'firebase/firestore';
 import { AuthProvider, useAuth } from '@/features/auth/AuthContext';
@@ -12,12 +12,15 @@ import { useAppStore } from '@/stores/appStore';
 import { db } from '@/lib/firebase';
 import { FeedingHub } from '@/features/feeding/FeedingHub';
 import { PumpPage } from '@/features/feeding/PumpPage';
+import { PumpEquipmentView } from '@/features/feeding/PumpEquipmentView';
+import { LactationAnalyticsView } from '@/features/stats/LactationAnalyticsView';
 import { SleepView } from '@/features/sleep/SleepView';
 import { DiaperView } from '@/features/diaper/DiaperView';
 import { StatsView } from '@/features/stats/StatsView';
 import { MoreView } from '@/features/more/MoreView';
 import { BabyManagement } from '@/features/babies/BabyManagement';
 import { BabyForm } from '@/features/babies/BabyForm';
+import { JoinBabyView } from '@/features/babies/JoinBabyView';
 import { SettingsView } from '@/features/settings/SettingsView';
 import { GrowthView } from '@/features/growth/GrowthView';
 import { MilestonesView } from '@/features/growth/MilestonesView';
@@ -27,11 +30,15 @@ import { MedicineView } from '@/features/medical/MedicineView';
 import { TeethingView } from '@/features/medical/TeethingView';
 import { PediatricianNotesView } from '@/features/medical/PediatricianNotesView';
 import { MilkStashView } from '@/features/milkstash/MilkStashView';
+import { MilkLabelsView } from '@/features/milkstash/MilkLabelsView';
+import { FormulaInventoryView } from '@/features/formula/FormulaInventoryView';
 import { ExportView } from '@/features/export/ExportView';
 import { DashboardView } from '@/features/dashboard/DashboardView';
 import { PlayTimeView } from '@/features/play/PlayTimeView';
 import { WalksView } from '@/features/walks/WalksView';
 import { DiaperBagChecklistView } from '@/features/diaper/DiaperBagChecklistView';
+import { PhotoDiaryView } from '@/features/diary/PhotoDiaryView';
+import { DiaryEntryDetailView } from '@/features/diary/DiaryEntryDetailView';
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -65,6 +72,7 @@ function ConnectivityMonitor() {
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { user, loading } = useAuth();
+  const location = useLocation();
 
   if (loading) {
     return (
@@ -78,7 +86,9 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
   }
 
   if (!user) {
-    return <Navigate to="/login" replace />;
+    // Remember where we were going (e.g. an invite link, or a milk label's ?stash= scan)
+    // so sign-in can continue there
+    return <Navigate to="/login" replace state={{ from: location.pathname + location.search }} />;
   }
 
   return <>{children}</>;
@@ -86,6 +96,7 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
 
 function PublicRoute({ children }: { children: React.ReactNode }) {
   const { user, loading } = useAuth();
+  const location = useLocation();
 
   if (loading) {
     return (
@@ -96,7 +107,8 @@ function PublicRoute({ children }: { children: React.ReactNode }) {
   }
 
   if (user) {
-    return <Navigate to="/home" replace />;
+    const from = (location.state as { from?: string } | null)?.from;
+    return <Navigate to={from ?? '/home'} replace />;
   }
 
   return <>{children}</>;
@@ -132,6 +144,7 @@ function AppRoutes() {
         <Route path="/more/babies" element={<BabyManagement />} />
         <Route path="/more/babies/new" element={<BabyForm />} />
         <Route path="/more/babies/:id/edit" element={<BabyForm />} />
+        <Route path="/join/:token" element={<JoinBabyView />} />
         <Route path="/more/settings" element={<SettingsView />} />
         <Route path="/more/growth" element={<GrowthView />} />
         <Route path="/more/milestones" element={<MilestonesView />} />
@@ -141,10 +154,16 @@ function AppRoutes() {
         <Route path="/more/teething" element={<TeethingView />} />
         <Route path="/more/pediatrician" element={<PediatricianNotesView />} />
         <Route path="/more/milk-stash" element={<MilkStashView />} />
+        <Route path="/more/milk-stash/labels" element={<MilkLabelsView />} />
+        <Route path="/more/formula" element={<FormulaInventoryView />} />
         <Route path="/more/diaper-bag" element={<DiaperBagChecklistView />} />
         <Route path="/more/pump" element={<PumpPage />} />
+        <Route path="/more/pump/insights" element={<LactationAnalyticsView />} />
+        <Route path="/more/pump/parts" element={<PumpEquipmentView />} />
         <Route path="/more/play" element={<PlayTimeView />} />
         <Route path="/more/walks" element={<WalksView />} />
+        <Route path="/more/diary" element={<PhotoDiaryView />} />
+        <Route path="/more/diary/:id" element={<DiaryEntryDetailView />} />
         <Route path="/more/export" element={<ExportView />} />
       </Route>
 
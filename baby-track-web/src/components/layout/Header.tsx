@@ -4,9 +4,9 @@ import { clsx } from 'clsx';
 import { ChevronDown, Plus, Baby as BabyIcon, Check, UserPlus } from 'lucide-react';
 import { useAppStore } from '@/stores/appStore';
 import { useAuth } from '@/features/auth/AuthContext';
-import { joinBabyByShareCode } from '@/lib/firestore';
+import { joinBabyByInvite } from '@/lib/firestore';
 import { toast } from '@/stores/toastStore';
-import { BABY_COLOR_CONFIG } from '@/types';
+import { BABY_COLOR_CONFIG, parseInviteToken } from '@/types';
 
 interface HeaderProps {
   title: string;
@@ -39,7 +39,7 @@ export function Header({
   return (
     <header
       className={clsx(
-        'sticky top-0 z-40 safe-top',
+        'sticky top-0 z-40 safe-top print:hidden',
         gradient ? 'gradient-primary text-white' : 'bg-white border-b border-gray-100'
       )}
     >
@@ -161,11 +161,12 @@ export function NoBabiesHeader() {
   const [joining, setJoining] = useState(false);
 
   const handleJoinBaby = async () => {
-    if (!user || !joinCode.trim()) return;
+    const token = parseInviteToken(joinCode);
+    if (!user || !token) return;
 
     setJoining(true);
     try {
-      const baby = await joinBabyByShareCode(user.uid, joinCode);
+      const baby = await joinBabyByInvite(user.uid, token);
       toast.success(`You now have access to ${baby.name}`);
       setShowJoinForm(false);
       setJoinCode('');
@@ -207,13 +208,12 @@ export function NoBabiesHeader() {
               </button>
             ) : (
               <div className="max-w-xs mx-auto space-y-3">
-                <p className="text-sm text-gray-600">Enter the share code from your partner</p>
+                <p className="text-sm text-gray-600">Enter the invite code or link you were sent</p>
                 <input
                   type="text"
-                  placeholder="Enter 6-letter code"
+                  placeholder="Invite code or link"
                   value={joinCode}
-                  onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
-                  maxLength={6}
+                  onChange={(e) => setJoinCode(e.target.value)}
                   className="w-full px-4 py-2 text-center font-mono text-lg tracking-widest border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-primary-500"
                 />
                 <div className="flex gap-2">
@@ -228,7 +228,7 @@ export function NoBabiesHeader() {
                   </button>
                   <button
                     onClick={handleJoinBaby}
-                    disabled={joinCode.length !== 6 || joining}
+                    disabled={!parseInviteToken(joinCode) || joining}
                     className="flex-1 px-4 py-2 bg-primary-500 text-white rounded-xl font-medium hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     {joining ? 'Joining...' : 'Join'}
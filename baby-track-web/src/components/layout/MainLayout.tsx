@@ -1,18 +1,29 @@
 import { Outlet } from 'react-router-dom';
-import { useEffect } from 'react';
+import { useEffect, useMemo, useRef } from 'react';
 import { BottomNav } from './BottomNav';
 import { useAppStore } from '@/stores/appStore';
 import { useAuth } from '@/features/auth/AuthContext';
 import { useHomeDataSync } from '@/features/dashboard/homeDataSync';
-import { subscribeToBabies, subscribeToSettings, getOrCreateSettings } from '@/lib/firestore';
+import {
+  subscribeToBabies,
+  subscribeToSettings,
+  getOrCreateSettings,
+  getOrCreateUserProfile,
+  subscribeToUserProfiles,
+  migrateMilkStashToHousehold,
+  migrateFormulaContainersToHousehold,
+} from '@/lib/firestore';
 import { useNotifications } from '@/hooks/useNotifications';
+import { useBabyPermissions } from '@/hooks/useBabyPermissions';
 import { clsx } from 'clsx';
 
 export function MainLayout() {
   const { user } = useAuth();
   const {
+    babies,
     setBabies,
     setSettings,
+    setUserProfiles,
     selectedBabyId,
     nightMode,
     isLoadingBabies,
@@ -40,11 +51,13 @@ export function MainLayout() {
       setBabies(babies);
     });
 
-    // Get or create settings, then subscribe
+    // Get or create settings and profile, then subscribe. The profile reads any name
+    // left in settings, so it's created once settings exist.
     const initSettings = async () => {
       await getOrCreateSettings(user.uid);
+      await getOrCreateUserProfile(user);
     };
-    initSettings();
+    initSettings().catch((error) => console.error('Error initializing settings:', error));
 
     const unsubscribeSettings = subscribeToSettings(user.uid, (settings) => {
       setSettings(settings);
@@ -56,6 +69,37 @@ export function MainLayout() {
     };
   }, [user, setBabies, setSettings, setLoadingBabies, setLoadingSettings]);
 
+  // Everyone who can appear in history and sharing: the user, the owners of babies shared
+  // with them and the people they share with
+  const profileIdsKey = useMemo(() => {
+    const ids = new Set<string>(user ? [user.uid] : []);
+    babies.forEach((baby) => {
+      ids.add(baby.userId);
+      baby.sharedWith?.forEach((id) => ids.add(id));
+    });
+    return Array.from(ids).sort().join(',');
+  }, [user, babies]);
+
+  useEffect(() => {
+    if (!profileIdsKey) return;
+    return subscribeToUserProfiles(profileIdsKey.split(','), setUserProfiles);
+  }, [profileIdsKey, setUserProfiles]);
+
+  // Stash items and formula containers from before they were shared go to the household of
+  // the user's own baby, or the first baby shared with them. Runs once per sign-in.
+  const migratedStashUserId = useRef<string | null>(null);
+  useEffect(() => {
+    if (!user || babies.length === 0 || migratedStashUserId.current === user.uid) return;
+    migratedStashUserId.current = user.uid;
+
+    const householdBaby = babies.find((baby) => baby.userId === user.uid) ?? babies[0];
+    migrateMilkStashToHousehold(user.uid, householdBaby.id)
+      .catch((error) => console.error('Error migrating milk stash:', error));
+    migrateFormulaContainersToHousehold(user.uid, householdBaby.id)
+      .catch((error) => console.error('Error migrating formula containers:', error));
+  }, [user, babies]);
+
+  const { role } = useBabyPermissions();
   const isLoading = isLoadingBabies || isLoadingSettings;
 
   if (isLoading) {
@@ -77,6 +121,11 @@ export function MainLayout() {
       )}
     >
       <main className="max-w-lg mx-auto">
+        {role === 'viewer' && (
+          <div className="bg-blue-50 text-blue-800 text-xs text-center py-1.5 px-4">
+            You have view-only access to this baby
+          </div>
+        )}
         <Outlet />
       </main>
       <BottomNav />
@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { fireEvent, render, screen, waitFor } from '@testing-library/react';
 import { EditSessionModal } from './EditSessionModal';
-import { createMockSleepSession } from '@/test/mocks';
+import { createMockSleepSession, mockBaby } from '@/test/mocks';
+import { useAppStore } from '@/stores/appStore';
 
 const mockUpdateSleepSession = vi.fn();
 const mockToastError = vi.fn();
@@ -36,6 +37,8 @@ describe('EditSessionModal', () => {
     mockUpdateSleepSession.mockReset();
     mockUpdateSleepSession.mockResolvedValue(undefined);
     mockToastError.mockReset();
+    // Editing is gated on the signed-in user's role for the selected baby
+    useAppStore.setState({ userId: mockBaby.userId, selectedBaby: mockBaby });
   });
 
   it('allows sleep sessions that cross midnight', async () => {
@@ -5,8 +5,10 @@ import { Button } from '@/components/ui/Button';
 import { Input, Textarea } from '@/components/ui/Input';
 import { SegmentedControl } from '@/components/ui/Select';
 import { BabyMoodSelector, MomMoodSelector } from '@/components/ui/MoodSelector';
+import { PumpVolumeInput } from '@/components/ui/PumpVolumeInput';
 import {
   SleepSession,
+  NightWaking,
   FeedingSession,
   PumpSession,
   BottleSession,
@@ -21,10 +23,19 @@ import {
   MomMood,
   PlayType,
   SLEEP_TYPE_CONFIG,
+  NIGHT_WAKING_REASON_CONFIG,
   BREAST_SIDE_CONFIG,
   PUMP_SIDE_CONFIG,
   BOTTLE_CONTENT_CONFIG,
   PLAY_TYPE_CONFIG,
+  formatCaregiverAttribution,
+  formatDuration,
+  getFeedingSegments,
+  formatSleepDuration,
+  parsePumpVolumeInput,
+  parseBottleVolumeInput,
+  getBottleOfferedVolume,
+  getBottleLeftoverVolume,
 } from '@/types';
 import {
   updateSleepSession,
@@ -34,6 +45,7 @@ import {
   updatePlaySession,
   updateWalkSession,
   deleteSleepSession,
+  deleteNightWaking,
   deleteFeedingSession,
   deletePumpSession,
   deleteBottleSession,
@@ -42,6 +54,8 @@ import {
 } from '@/lib/firestore';
 import { X, Trash2, AlertTriangle, Moon, Sun, Footprints } from 'lucide-react';
 import { toast } from '@/stores/toastStore';
+import { useAppStore } from '@/stores/appStore';
+import { useBabyPermissions } from '@/hooks/useBabyPermissions';
 
 type SessionType = 'sleep' | 'breastfeeding' | 'pump' | 'bottle' | 'play' | 'walk';
 
@@ -53,6 +67,8 @@ interface EditSessionModalProps {
 }
 
 export function EditSessionModal({ isOpen, onClose, sessionType, session }: EditSessionModalProps) {
+  const { userId, userProfiles } = useAppStore();
+  const { can } = useBabyPermissions();
   const [saving, setSaving] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
@@ -61,6 +77,7 @@ export function EditSessionModal({ isOpen, onClose, sessionType, session }: Edit
   const [sleepDate, setSleepDate] = useState('');
   const [sleepStartTime, setSleepStartTime] = useState('');
   const [sleepEndTime, setSleepEndTime] = useState('');
+  const [sleepWakings, setSleepWakings] = useState<NightWaking[]>([]);
 
   // Breastfeeding fields
   const [breastSide, setBreastSide] = useState<BreastSide>('left');
@@ -74,12 +91,15 @@ export function EditSessionModal({ isOpen, onClose, sessionType, session }: Edit
   const [pumpStartTime, setPumpStartTime] = useState('');
   const [pumpEndTime, setPumpEndTime] = useState('');
   const [pumpVolume, setPumpVolume] = useState('');
+  const [pumpLeftVolume, setPumpLeftVolume] = useState('');
+  const [pumpRightVolume, setPumpRightVolume] = useState('');
   const [pumpVolumeUnit, setPumpVolumeUnit] = useState<VolumeUnit>('oz');
 
   // Bottle fields
   const [bottleDate, setBottleDate] = useState('');
   const [bottleTime, setBottleTime] = useState('');
   const [bottleVolume, setBottleVolume] = useState('');
+  const [bottleConsumedVolume, setBottleConsumedVolume] = useState('');
   const [bottleVolumeUnit, setBottleVolumeUnit] = useState<VolumeUnit>('oz');
   const [contentType, setContentType] = useState<BottleContentType>('breastMilk');
 
@@ -108,6 +128,7 @@ export function EditSessionModal({ isOpen, onClose, sessionType, session }: Edit
     if (sessionType === 'sleep') {
       const s = session as SleepSession;
       setSleepType(s.type);
+      setSleepWakings(s.wakings ?? []);
       setBabyMood(s.babyMood);
       const startDate = parseISO(s.startTime);
       setSleepDate(format(startDate, 'yyyy-MM-dd'));
@@ -137,6 +158,8 @@ export function EditSessionModal({ isOpen, onClose, sessionType, session }: Edit
         setPumpEndTime(format(parseISO(s.endTime), 'HH:mm'));
       }
       setPumpVolume(s.volume.toString());
+      setPumpLeftVolume(s.leftVolume?.toString() ?? '');
+      setPumpRightVolume(s.rightVolume?.toString() ?? '');
       setPumpVolumeUnit(s.volumeUnit);
     } else if (sessionType === 'bottle') {
       const s = session as BottleSession;
@@ -144,7 +167,8 @@ export function EditSessionModal({ isOpen, onClose, sessionType, session }: Edit
       const timestamp = parseISO(s.timestamp);
       setBottleDate(format(timestamp, 'yyyy-MM-dd'));
       setBottleTime(format(timestamp, 'HH:mm'));
-      setBottleVolume(s.volume.toString());
+      setBottleVolume(getBottleOfferedVolume(s).toString());
+      setBottleConsumedVolume(getBottleLeftoverVolume(s) > 0 ? s.volume.toString() : '');
       setBottleVolumeUnit(s.volumeUnit);
       setContentType(s.contentType);
     } else if (sessionType === 'play') {
@@ -242,7 +266,8 @@ export function EditSessionModal({ isOpen, onClose, sessionType, session }: Edit
         await updateFeedingSession(session.id, {
           startTime: times.startTime.toISOString(),
           endTime: times.endTime!.toISOString(),
-          breastSide,
+          // Sessions that switched sides keep their sides; only the times change
+          ...(feedingSegments.length < 2 && { breastSide }),
           notes: notes || null,
           babyMood,
           momMood,
@@ -254,8 +279,8 @@ export function EditSessionModal({ isOpen, onClose, sessionType, session }: Edit
           return;
         }
         // Validate volume
-        const volume = parseFloat(pumpVolume);
-        if (pumpVolume && (isNaN(volume) || volume < 0)) {
+        const volume = parsePumpVolumeInput(pumpSide, pumpVolume, pumpLeftVolume, pumpRightVolume);
+        if (!volume) {
           toast.error('Please enter a valid volume.');
           setSaving(false);
           return;
@@ -264,7 +289,7 @@ export function EditSessionModal({ isOpen, onClose, sessionType, session }: Edit
           startTime: times.startTime.toISOString(),
           endTime: times.endTime!.toISOString(),
           side: pumpSide,
-          volume: volume || 0,
+          ...volume,
           volumeUnit: pumpVolumeUnit,
           notes: notes || null,
           momMood,
@@ -281,16 +306,18 @@ export function EditSessionModal({ isOpen, onClose, sessionType, session }: Edit
           setSaving(false);
           return;
         }
-        // Validate volume
-        const volume = parseFloat(bottleVolume);
-        if (bottleVolume && (isNaN(volume) || volume < 0)) {
+        // Validate offered and consumed volumes; a blank or zero bottle is logged as 0
+        const volumes = bottleVolume && parseFloat(bottleVolume) !== 0
+          ? parseBottleVolumeInput(bottleVolume, bottleConsumedVolume)
+          : { volume: 0, offeredVolume: null };
+        if (!volumes) {
           toast.error('Please enter a valid volume.');
           setSaving(false);
           return;
         }
         await updateBottleSession(session.id, {
           timestamp: timestamp.toISOString(),
-          volume: volume || 0,
+          ...volumes,
           volumeUnit: bottleVolumeUnit,
           contentType,
           notes: notes || null,
@@ -355,6 +382,19 @@ export function EditSessionModal({ isOpen, onClose, sessionType, session }: Edit
     }
   };
 
+  const handleDeleteWaking = async (wakingId: string) => {
+    setSaving(true);
+    try {
+      await deleteNightWaking(session.id, wakingId);
+      setSleepWakings((wakings) => wakings.filter((waking) => waking.id !== wakingId));
+    } catch (error) {
+      console.error('Error deleting night waking:', error);
+      toast.error('Failed to remove waking');
+    } finally {
+      setSaving(false);
+    }
+  };
+
   if (!isOpen) return null;
 
   const getTitle = () => {
@@ -381,6 +421,8 @@ export function EditSessionModal({ isOpen, onClose, sessionType, session }: Edit
     { value: 'night', label: 'Night', icon: <Moon className="w-4 h-4" />, color: SLEEP_TYPE_CONFIG.night.color },
   ];
 
+  const feedingSegments = sessionType === 'breastfeeding' ? getFeedingSegments(session as FeedingSession) : [];
+
   const breastSideOptions = [
     { value: 'left', label: 'Left', color: BREAST_SIDE_CONFIG.left.color },
     { value: 'right', label: 'Right', color: BREAST_SIDE_CONFIG.right.color },
@@ -403,6 +445,8 @@ export function EditSessionModal({ isOpen, onClose, sessionType, session }: Edit
     label: config.emoji,
   }));
 
+  const attribution = formatCaregiverAttribution(session, userId, userProfiles);
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
       <Card className="w-full max-w-md max-h-[90vh] overflow-y-auto">
@@ -418,6 +462,16 @@ export function EditSessionModal({ isOpen, onClose, sessionType, session }: Edit
           </button>
         </div>
 
+        {attribution && (
+          <p className="text-xs text-gray-500 -mt-2 mb-4">{attribution}</p>
+        )}
+
+        {!can('editHistory') && (
+          <p className="text-sm text-gray-500 bg-gray-50 rounded-lg p-3 mb-4">
+            Your role can view this entry but not change it.
+          </p>
+        )}
+
         {showDeleteConfirm ? (
           // Delete confirmation view
           <div className="space-y-4">
@@ -480,6 +534,34 @@ export function EditSessionModal({ isOpen, onClose, sessionType, session }: Edit
                     onChange={(e) => setSleepEndTime(e.target.value)}
                   />
                 </div>
+                {sleepWakings.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium text-gray-700">Wakings</p>
+                    {sleepWakings.map((waking) => (
+                      <div
+                        key={waking.id}
+                        className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg bg-gray-50 text-sm"
+                      >
+                        <span className="text-gray-700">
+                          {format(parseISO(waking.startTime), 'h:mm a')}
+                          {waking.endTime &&
+                            ` · ${formatSleepDuration((parseISO(waking.endTime).getTime() - parseISO(waking.startTime).getTime()) / 1000)}`}
+                          {` · ${NIGHT_WAKING_REASON_CONFIG[waking.reason].label}`}
+                        </span>
+                        {can('editHistory') && (
+                          <button
+                            onClick={() => handleDeleteWaking(waking.id)}
+                            className="p-1 rounded-full hover:bg-gray-200"
+                            disabled={saving}
+                            aria-label="Remove waking"
+                          >
+                            <Trash2 className="w-4 h-4 text-red-500" />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
                 <BabyMoodSelector
                   label="Baby's mood when waking"
                   value={babyMood}
@@ -491,13 +573,21 @@ export function EditSessionModal({ isOpen, onClose, sessionType, session }: Edit
             {/* Breastfeeding fields */}
             {sessionType === 'breastfeeding' && (
               <>
-                <div className="flex justify-center">
-                  <SegmentedControl
-                    options={breastSideOptions}
-                    value={breastSide}
-                    onChange={(value) => setBreastSide(value as BreastSide)}
-                  />
-                </div>
+                {feedingSegments.length > 1 ? (
+                  <p className="text-sm text-gray-600 text-center">
+                    {feedingSegments
+                      .map((segment) => `${BREAST_SIDE_CONFIG[segment.side].label} ${formatDuration(segment.duration)}`)
+                      .join(' → ')}
+                  </p>
+                ) : (
+                  <div className="flex justify-center">
+                    <SegmentedControl
+                      options={breastSideOptions}
+                      value={breastSide}
+                      onChange={(value) => setBreastSide(value as BreastSide)}
+                    />
+                  </div>
+                )}
                 <Input
                   type="date"
                   label="Date"
@@ -561,28 +651,17 @@ export function EditSessionModal({ isOpen, onClose, sessionType, session }: Edit
                     onChange={(e) => setPumpEndTime(e.target.value)}
                   />
                 </div>
-                <div className="flex gap-3">
-                  <Input
-                    type="number"
-                    label="Volume"
-                    value={pumpVolume}
-                    onChange={(e) => setPumpVolume(e.target.value)}
-                    className="flex-1"
-                    step="0.5"
-                    min="0"
-                  />
-                  <div className="w-24 pt-6">
-                    <SegmentedControl
-                      options={[
-                        { value: 'oz', label: 'oz' },
-                        { value: 'ml', label: 'ml' },
-                      ]}
-                      value={pumpVolumeUnit}
-                      onChange={(value) => setPumpVolumeUnit(value as VolumeUnit)}
-                      size="sm"
-                    />
-                  </div>
-                </div>
+                <PumpVolumeInput
+                  side={pumpSide}
+                  volume={pumpVolume}
+                  leftVolume={pumpLeftVolume}
+                  rightVolume={pumpRightVolume}
+                  volumeUnit={pumpVolumeUnit}
+                  onVolumeChange={setPumpVolume}
+                  onLeftVolumeChange={setPumpLeftVolume}
+                  onRightVolumeChange={setPumpRightVolume}
+                  onVolumeUnitChange={setPumpVolumeUnit}
+                />
                 <MomMoodSelector
                   label="Your mood"
                   value={momMood}
@@ -618,7 +697,7 @@ export function EditSessionModal({ isOpen, onClose, sessionType, session }: Edit
                 <div className="flex gap-3">
                   <Input
                     type="number"
-                    label="Volume"
+                    label="Offered"
                     value={bottleVolume}
                     onChange={(e) => setBottleVolume(e.target.value)}
                     className="flex-1"
@@ -637,6 +716,15 @@ export function EditSessionModal({ isOpen, onClose, sessionType, session }: Edit
                     />
                   </div>
                 </div>
+                <Input
+                  type="number"
+                  label="Drank"
+                  placeholder="All of it"
+                  value={bottleConsumedVolume}
+                  onChange={(e) => setBottleConsumedVolume(e.target.value)}
+                  step="0.5"
+                  min="0"
+                />
                 <BabyMoodSelector
                   label="Baby's mood"
                   value={babyMood}
@@ -734,20 +822,24 @@ export function EditSessionModal({ isOpen, onClose, sessionType, session }: Edit
 
             {/* Action buttons */}
             <div className="flex gap-3 pt-2">
-              <Button
-                variant="outline"
-                onClick={() => setShowDeleteConfirm(true)}
-                className="text-red-600 border-red-200 hover:bg-red-50"
-                disabled={saving}
-              >
-                <Trash2 className="w-4 h-4" />
-              </Button>
+              {can('deleteHistory') && (
+                <Button
+                  variant="outline"
+                  onClick={() => setShowDeleteConfirm(true)}
+                  className="text-red-600 border-red-200 hover:bg-red-50"
+                  disabled={saving}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
               <Button variant="outline" onClick={onClose} className="flex-1" disabled={saving}>
-                Cancel
-              </Button>
-              <Button onClick={handleSave} className="flex-1" disabled={saving}>
-                {saving ? 'Saving...' : 'Save'}
+                {can('editHistory') ? 'Cancel' : 'Close'}
               </Button>
+              {can('editHistory') && (
+                <Button onClick={handleSave} className="flex-1" disabled={saving}>
+                  {saving ? 'Saving...' : 'Save'}
+                </Button>
+              )}
             </div>
           </div>
         )}
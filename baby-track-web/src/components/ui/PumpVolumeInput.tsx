@@ -0,0 +1,83 @@
+import { Input } from '@/components/ui/Input';
+import { SegmentedControl } from '@/components/ui/Select';
+import { PumpSide, VolumeUnit, parsePumpVolumeInput } from '@/types';
+
+interface PumpVolumeInputProps {
+  side: PumpSide;
+  volume: string;
+  leftVolume: string;
+  rightVolume: string;
+  volumeUnit: VolumeUnit;
+  onVolumeChange: (value: string) => void;
+  onLeftVolumeChange: (value: string) => void;
+  onRightVolumeChange: (value: string) => void;
+  onVolumeUnitChange: (unit: VolumeUnit) => void;
+}
+
+// Volume and unit for a pump session. Both-sides sessions also take the left and right
+// amounts, which add up to the total.
+export function PumpVolumeInput({
+  side,
+  volume,
+  leftVolume,
+  rightVolume,
+  volumeUnit,
+  onVolumeChange,
+  onLeftVolumeChange,
+  onRightVolumeChange,
+  onVolumeUnitChange,
+}: PumpVolumeInputProps) {
+  const isSplit = side === 'both' && !!(leftVolume.trim() || rightVolume.trim());
+  const splitTotal = isSplit ? parsePumpVolumeInput(side, volume, leftVolume, rightVolume)?.volume : null;
+
+  return (
+    <div className="space-y-3">
+      {side === 'both' && (
+        <div className="grid grid-cols-2 gap-3">
+          <Input
+            type="number"
+            label="Left"
+            placeholder="0"
+            value={leftVolume}
+            onChange={(e) => onLeftVolumeChange(e.target.value)}
+            step="0.5"
+            min="0"
+          />
+          <Input
+            type="number"
+            label="Right"
+            placeholder="0"
+            value={rightVolume}
+            onChange={(e) => onRightVolumeChange(e.target.value)}
+            step="0.5"
+            min="0"
+          />
+        </div>
+      )}
+      <div className="flex gap-3">
+        <Input
+          type="number"
+          label={side === 'both' ? 'Total' : 'Volume'}
+          placeholder="0"
+          value={isSplit ? (splitTotal ?? '').toString() : volume}
+          onChange={(e) => onVolumeChange(e.target.value)}
+          className="flex-1"
+          step="0.5"
+          min="0"
+          disabled={isSplit}
+        />
+        <div className="w-24 pt-6">
+          <SegmentedControl
+            options={[
+              { value: 'oz', label: 'oz' },
+              { value: 'ml', label: 'ml' },
+            ]}
+            value={volumeUnit}
+            onChange={(value) => onVolumeUnitChange(value as VolumeUnit)}
+            size="sm"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
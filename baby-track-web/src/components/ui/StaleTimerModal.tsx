@@ -9,7 +9,7 @@ interface StaleTimerModalProps {
   activityName: string; // e.g., "sleep", "walk", "play time"
   onContinue: () => void;
   onStopAndSave: () => void;
-  onDiscard: () => void;
+  onDiscard?: () => void; // Left out when the user's role can't delete entries
 }
 
 export function StaleTimerModal({
@@ -60,14 +60,16 @@ export function StaleTimerModal({
             Continue Timer
           </Button>
 
-          <Button
-            variant="ghost"
-            onClick={onDiscard}
-            className="w-full justify-center text-red-600 hover:bg-red-50"
-          >
-            <Trash2 className="w-4 h-4 mr-2" />
-            Discard
-          </Button>
+          {onDiscard && (
+            <Button
+              variant="ghost"
+              onClick={onDiscard}
+              className="w-full justify-center text-red-600 hover:bg-red-50"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Discard
+            </Button>
+          )}
         </div>
       </Card>
     </div>
@@ -0,0 +1,36 @@
+import { clsx } from 'clsx';
+import { BABY_COLOR_CONFIG, getProfileInitials } from '@/types';
+import type { UserProfile } from '@/types';
+
+interface UserAvatarProps {
+  profile: UserProfile | null | undefined;
+  name?: string | null; // Shown instead of the profile name, e.g. 'You'
+  size?: 'xs' | 'sm' | 'md' | 'lg';
+  className?: string;
+}
+
+const sizeClasses = {
+  xs: 'w-6 h-6 text-[10px]',
+  sm: 'w-8 h-8 text-xs',
+  md: 'w-10 h-10 text-sm',
+  lg: 'w-16 h-16 text-xl',
+};
+
+// Initials on the user's avatar color, gray for users without a profile yet
+export function UserAvatar({ profile, name, size = 'md', className }: UserAvatarProps) {
+  const color = profile ? BABY_COLOR_CONFIG[profile.avatarColor]?.hex : undefined;
+
+  return (
+    <div
+      className={clsx(
+        'rounded-full flex items-center justify-center font-semibold text-white shrink-0',
+        !color && 'bg-gray-300',
+        sizeClasses[size],
+        className
+      )}
+      style={color ? { backgroundColor: color } : undefined}
+    >
+      {getProfileInitials(name ?? profile?.displayName)}
+    </div>
+  );
+}
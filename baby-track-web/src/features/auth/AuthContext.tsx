@@ -7,7 +7,9 @@ import {
   signOut,
   User,
 } from '@/lib/firebase';
+import { getOrCreateUserProfile, updateUserProfile } from '@/lib/firestore';
 import { useAppStore } from '@/stores/appStore';
+import { USER_DISPLAY_NAME_MAX_LENGTH } from '@/types';
 
 interface AuthContextType {
   user: User | null;
@@ -15,7 +17,7 @@ interface AuthContextType {
   error: string | null;
   signInWithGoogle: () => Promise<void>;
   signInWithEmail: (email: string, password: string) => Promise<void>;
-  signUpWithEmail: (email: string, password: string) => Promise<void>;
+  signUpWithEmail: (email: string, password: string, displayName?: string) => Promise<void>;
   logout: () => Promise<void>;
   clearError: () => void;
 }
@@ -71,11 +73,17 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const handleSignUpWithEmail = async (email: string, password: string) => {
+  const handleSignUpWithEmail = async (email: string, password: string, displayName?: string) => {
     setError(null);
     setLoading(true);
     try {
-      await signUpWithEmail(email, password);
+      const newUser = await signUpWithEmail(email, password);
+      const name = displayName?.trim().slice(0, USER_DISPLAY_NAME_MAX_LENGTH);
+      const profile = await getOrCreateUserProfile({ uid: newUser.uid, email: newUser.email, displayName: name || newUser.displayName });
+      // The app shell may have created the profile first, with the email's name
+      if (name && profile.displayName !== name) {
+        await updateUserProfile(newUser.uid, { displayName: name });
+      }
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to create account';
       if (errorMessage.includes('email-already-in-use')) {
@@ -3,11 +3,13 @@ import { useAuth } from './AuthContext';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Card } from '@/components/ui/Card';
-import { Baby, Mail, Lock, Chrome, Sparkles } from 'lucide-react';
+import { USER_DISPLAY_NAME_MAX_LENGTH } from '@/types';
+import { Baby, Mail, Lock, Chrome, Sparkles, User as UserIcon } from 'lucide-react';
 
 export function LoginPage() {
   const { signInWithGoogle, signInWithEmail, signUpWithEmail, loading, error, clearError } = useAuth();
   const [isSignUp, setIsSignUp] = useState(false);
+  const [displayName, setDisplayName] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
@@ -27,7 +29,7 @@ export function LoginPage() {
         setLocalError('Password must be at least 6 characters');
         return;
       }
-      await signUpWithEmail(email, password);
+      await signUpWithEmail(email, password, displayName);
     } else {
       await signInWithEmail(email, password);
     }
@@ -74,6 +76,17 @@ export function LoginPage() {
           )}
 
           <form onSubmit={handleSubmit} className="space-y-4">
+            {isSignUp && (
+              <Input
+                type="text"
+                placeholder="Your name"
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                icon={<UserIcon className="w-5 h-5" />}
+                maxLength={USER_DISPLAY_NAME_MAX_LENGTH}
+              />
+            )}
+
             <Input
               type="email"
               placeholder="Email"
@@ -4,34 +4,69 @@ import { Header } from '@/components/layout/Header';
 import { Card, CardHeader } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import { SegmentedControl } from '@/components/ui/Select';
+import { Toggle } from '@/components/ui/Toggle';
+import { UserAvatar } from '@/components/ui/UserAvatar';
 import { useAuth } from '@/features/auth/AuthContext';
 import { useAppStore } from '@/stores/appStore';
-import { createBaby, updateBaby, deleteBaby, generateShareCode, regenerateShareCode, removeSharedUser } from '@/lib/firestore';
+import {
+  createBaby,
+  updateBaby,
+  deleteBaby,
+  removeSharedUser,
+  setSharedUserRole,
+} from '@/lib/firestore';
 import { uploadBabyPhoto } from '@/lib/storage';
-import { BabyColor, BABY_COLOR_CONFIG } from '@/types';
+import {
+  BabyColor,
+  BabyRole,
+  BabySex,
+  SharedBabyRole,
+  BABY_COLOR_CONFIG,
+  BABY_ROLE_CONFIG,
+  BABY_SEX_CONFIG,
+  DEFAULT_SHARED_ROLE,
+  USER_RELATIONSHIP_CONFIG,
+  calculateCorrectedAge,
+  getBabyRole,
+  getCaregiverName,
+  isPreterm,
+  roleCan,
+} from '@/types';
 import { clsx } from 'clsx';
 import { toast } from '@/stores/toastStore';
-import { Camera, Trash2, Share2, Copy, RefreshCw, X } from 'lucide-react';
+import { Camera, Trash2, X } from 'lucide-react';
+import { BabyInvites } from './BabyInvites';
+
+const SHARED_ROLES: SharedBabyRole[] = ['coParent', 'caregiver', 'viewer'];
 
 export function BabyForm() {
   const navigate = useNavigate();
   const { id } = useParams<{ id: string }>();
   const { user } = useAuth();
-  const { babies } = useAppStore();
+  const { babies, userProfiles } = useAppStore();
 
   const isEditing = !!id;
 
   const [name, setName] = useState('');
   const [birthDate, setBirthDate] = useState('');
+  const [sex, setSex] = useState<BabySex | null>(null);
+  const [bornEarly, setBornEarly] = useState(false);
+  const [prematurityInput, setPrematurityInput] = useState<'dueDate' | 'gestationalAge'>('dueDate');
+  const [dueDate, setDueDate] = useState('');
+  const [gestationalWeeks, setGestationalWeeks] = useState('');
+  const [gestationalDays, setGestationalDays] = useState('');
   const [color, setColor] = useState<BabyColor>('purple');
   const [photoUrl, setPhotoUrl] = useState<string | null>(null);
   const [photoFile, setPhotoFile] = useState<File | null>(null);
   const [loading, setLoading] = useState(false);
   const [deleteConfirm, setDeleteConfirm] = useState(false);
-  const [shareCode, setShareCode] = useState<string | null>(null);
   const [sharedWith, setSharedWith] = useState<string[]>([]);
-  const [generatingCode, setGeneratingCode] = useState(false);
-  const [isOwner, setIsOwner] = useState(true);
+  const [roles, setRoles] = useState<Record<string, SharedBabyRole>>({});
+  const [role, setRole] = useState<BabyRole | null>('owner');
+
+  const isOwner = role === 'owner';
+  const canEdit = !isEditing || roleCan(role, 'editBaby');
 
   // Load existing baby data
   useEffect(() => {
@@ -40,11 +75,17 @@ export function BabyForm() {
       if (baby) {
         setName(baby.name);
         setBirthDate(baby.birthDate?.split('T')[0] || '');
+        setSex(baby.sex ?? null);
+        setBornEarly(!!(baby.dueDate || baby.gestationalAgeDays));
+        setPrematurityInput(!baby.dueDate && baby.gestationalAgeDays ? 'gestationalAge' : 'dueDate');
+        setDueDate(baby.dueDate?.split('T')[0] || '');
+        setGestationalWeeks(baby.gestationalAgeDays ? String(Math.floor(baby.gestationalAgeDays / 7)) : '');
+        setGestationalDays(baby.gestationalAgeDays ? String(baby.gestationalAgeDays % 7) : '');
         setColor(baby.color);
         setPhotoUrl(baby.photoUrl);
-        setShareCode(baby.shareCode || null);
         setSharedWith(baby.sharedWith || []);
-        setIsOwner(baby.userId === user?.uid);
+        setRoles(baby.roles || {});
+        setRole(getBabyRole(baby, user?.uid ?? null));
       }
     }
   }, [id, babies, user?.uid]);
@@ -57,6 +98,16 @@ export function BabyForm() {
     }
   };
 
+  // Only one of due date or gestational age is stored, whichever was entered
+  const prematurity = {
+    dueDate: bornEarly && prematurityInput === 'dueDate' ? dueDate || null : null,
+    gestationalAgeDays: bornEarly && prematurityInput === 'gestationalAge' && gestationalWeeks
+      ? parseInt(gestationalWeeks, 10) * 7 + (parseInt(gestationalDays, 10) || 0)
+      : null,
+  };
+  const prematurityFields = { birthDate: birthDate || null, ...prematurity };
+  const correctedAge = calculateCorrectedAge(prematurityFields);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user || !name.trim()) return;
@@ -74,6 +125,8 @@ export function BabyForm() {
         await updateBaby(id, {
           name: name.trim(),
           birthDate: birthDate || null,
+          sex,
+          ...prematurity,
           color,
           photoUrl: finalPhotoUrl,
         });
@@ -81,6 +134,8 @@ export function BabyForm() {
         await createBaby(user.uid, {
           name: name.trim(),
           birthDate: birthDate || null,
+          sex,
+          ...prematurity,
           color,
           photoUrl: finalPhotoUrl,
         });
@@ -108,62 +163,34 @@ export function BabyForm() {
     }
   };
 
-  const handleGenerateShareCode = async () => {
-    if (!id) return;
-
-    setGeneratingCode(true);
-    try {
-      const code = await generateShareCode(id);
-      setShareCode(code);
-      toast.success('Share code generated');
-    } catch (error) {
-      console.error('Error generating share code:', error);
-      toast.error('Failed to generate share code');
-    } finally {
-      setGeneratingCode(false);
-    }
-  };
-
-  const handleRegenerateShareCode = async () => {
-    if (!id) return;
-
-    setGeneratingCode(true);
-    try {
-      const code = await regenerateShareCode(id);
-      setShareCode(code);
-      toast.success('Share code regenerated');
-    } catch (error) {
-      console.error('Error regenerating share code:', error);
-      toast.error('Failed to regenerate share code');
-    } finally {
-      setGeneratingCode(false);
-    }
-  };
-
-  const handleCopyShareCode = async () => {
-    if (!shareCode) return;
+  const handleRemoveSharedUser = async (userIdToRemove: string) => {
+    if (!id || !user) return;
 
     try {
-      await navigator.clipboard.writeText(shareCode);
-      toast.success('Code copied to clipboard');
+      await removeSharedUser(id, user.uid, userIdToRemove);
+      setSharedWith(prev => prev.filter(uid => uid !== userIdToRemove));
+      toast.success(`${getCaregiverName(userIdToRemove, user.uid, userProfiles)} removed`);
     } catch (error) {
-      toast.error('Failed to copy code');
+      console.error('Error removing shared user:', error);
+      toast.error('Failed to remove user');
     }
   };
 
-  const handleRemoveSharedUser = async (userIdToRemove: string) => {
+  const handleRoleChange = async (sharedUserId: string, newRole: SharedBabyRole) => {
     if (!id || !user) return;
 
     try {
-      await removeSharedUser(id, user.uid, userIdToRemove);
-      setSharedWith(prev => prev.filter(uid => uid !== userIdToRemove));
-      toast.success('User removed');
+      await setSharedUserRole(id, user.uid, sharedUserId, newRole);
+      setRoles(prev => ({ ...prev, [sharedUserId]: newRole }));
+      toast.success(`Role changed to ${BABY_ROLE_CONFIG[newRole].label}`);
     } catch (error) {
-      console.error('Error removing shared user:', error);
-      toast.error('Failed to remove user');
+      console.error('Error changing role:', error);
+      toast.error('Failed to change role');
     }
   };
 
+  const roleOptions = SHARED_ROLES.map((value) => ({ value, label: BABY_ROLE_CONFIG[value].label }));
+
   const selectedColor = BABY_COLOR_CONFIG[color]?.hex || '#9c27b0';
 
   return (
@@ -221,6 +248,91 @@ export function BabyForm() {
           onChange={(e) => setBirthDate(e.target.value)}
         />
 
+        {/* Prematurity */}
+        <Card>
+          <Toggle
+            checked={bornEarly}
+            onChange={setBornEarly}
+            label="Born early"
+            description="Track corrected age for milestones, teething, growth and sleep"
+          />
+          {bornEarly && (
+            <div className="mt-4 space-y-3">
+              <SegmentedControl
+                options={[
+                  { value: 'dueDate', label: 'Due date' },
+                  { value: 'gestationalAge', label: 'Gestational age' },
+                ]}
+                value={prematurityInput}
+                onChange={(value) => setPrematurityInput(value as 'dueDate' | 'gestationalAge')}
+                size="sm"
+                fullWidth
+              />
+              {prematurityInput === 'dueDate' ? (
+                <Input
+                  type="date"
+                  label="Original Due Date"
+                  value={dueDate}
+                  onChange={(e) => setDueDate(e.target.value)}
+                />
+              ) : (
+                <div className="grid grid-cols-2 gap-3">
+                  <Input
+                    type="number"
+                    min="22"
+                    max="42"
+                    label="Weeks at birth"
+                    placeholder="e.g., 32"
+                    value={gestationalWeeks}
+                    onChange={(e) => setGestationalWeeks(e.target.value)}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    max="6"
+                    label="Days"
+                    placeholder="0"
+                    value={gestationalDays}
+                    onChange={(e) => setGestationalDays(e.target.value)}
+                  />
+                </div>
+              )}
+              {birthDate && (prematurity.dueDate || prematurity.gestationalAgeDays) && (
+                <p className="text-xs text-gray-500">
+                  {correctedAge
+                    ? `Currently ${correctedAge.text}`
+                    : isPreterm(prematurityFields)
+                      ? 'Corrected age is shown until 24 months corrected'
+                      : 'Corrected age only applies to babies born before 37 weeks'}
+                </p>
+              )}
+            </div>
+          )}
+        </Card>
+
+        {/* Sex */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Sex (optional)
+          </label>
+          <SegmentedControl
+            options={[
+              { value: '', label: 'Not set' },
+              ...(Object.keys(BABY_SEX_CONFIG) as BabySex[]).map((sexKey) => ({
+                value: sexKey,
+                label: BABY_SEX_CONFIG[sexKey].label,
+              })),
+            ]}
+            value={sex ?? ''}
+            onChange={(value) => setSex((value as BabySex) || null)}
+            size="sm"
+            fullWidth
+          />
+          <p className="text-xs text-gray-500 mt-1.5">
+            Used to compare growth against the WHO growth standards
+          </p>
+        </div>
+
         {/* Color Picker */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -252,79 +364,60 @@ export function BabyForm() {
         </div>
 
         {/* Submit */}
-        <Button type="submit" className="w-full" disabled={loading || !name.trim()}>
-          {loading ? 'Saving...' : isEditing ? 'Save Changes' : 'Add Baby'}
-        </Button>
+        {canEdit && (
+          <Button type="submit" className="w-full" disabled={loading || !name.trim()}>
+            {loading ? 'Saving...' : isEditing ? 'Save Changes' : 'Add Baby'}
+          </Button>
+        )}
 
         {/* Partner Sharing - only show when editing and user is owner */}
         {isEditing && isOwner && (
           <Card>
             <CardHeader
               title="Partner Sharing"
-              subtitle="Share access with your partner"
+              subtitle="Invite people and choose what each person can do"
             />
             <div className="space-y-4">
-              {!shareCode ? (
-                <Button
-                  type="button"
-                  variant="outline"
-                  className="w-full"
-                  onClick={handleGenerateShareCode}
-                  disabled={generatingCode}
-                >
-                  <Share2 className="w-4 h-4 mr-2" />
-                  {generatingCode ? 'Generating...' : 'Generate Share Code'}
-                </Button>
-              ) : (
-                <>
-                  <div className="bg-gray-50 rounded-xl p-4">
-                    <p className="text-xs text-gray-500 mb-2">Share this code with your partner:</p>
-                    <div className="flex items-center gap-2">
-                      <span className="text-2xl font-mono font-bold tracking-widest flex-1">
-                        {shareCode}
-                      </span>
-                      <Button
-                        type="button"
-                        variant="ghost"
-                        size="sm"
-                        onClick={handleCopyShareCode}
-                      >
-                        <Copy className="w-4 h-4" />
-                      </Button>
-                      <Button
-                        type="button"
-                        variant="ghost"
-                        size="sm"
-                        onClick={handleRegenerateShareCode}
-                        disabled={generatingCode}
-                      >
-                        <RefreshCw className={clsx('w-4 h-4', generatingCode && 'animate-spin')} />
-                      </Button>
-                    </div>
-                  </div>
-                  <p className="text-xs text-gray-500">
-                    Your partner can enter this code in their app to access {name}'s data.
-                  </p>
-                </>
-              )}
+              {id && <BabyInvites babyId={id} babyName={name} />}
 
               {sharedWith.length > 0 && (
                 <div className="pt-3 border-t border-gray-100">
                   <p className="text-sm font-medium text-gray-700 mb-2">
-                    Shared with {sharedWith.length} partner{sharedWith.length > 1 ? 's' : ''}
+                    Shared with {sharedWith.length} {sharedWith.length > 1 ? 'people' : 'person'}
                   </p>
-                  {sharedWith.map((uid, index) => (
-                    <div key={uid} className="flex items-center justify-between py-2">
-                      <span className="text-sm text-gray-600">Partner {index + 1}</span>
-                      <Button
-                        type="button"
-                        variant="ghost"
+                  {sharedWith.map((uid) => (
+                    <div key={uid} className="py-2 space-y-2">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <UserAvatar profile={userProfiles[uid]} size="sm" />
+                          <div className="min-w-0">
+                            <p className="text-sm text-gray-900 truncate">
+                              {getCaregiverName(uid, user?.uid ?? null, userProfiles)}
+                            </p>
+                            {userProfiles[uid]?.relationship && (
+                              <p className="text-xs text-gray-500">
+                                {USER_RELATIONSHIP_CONFIG[userProfiles[uid].relationship].label}
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemoveSharedUser(uid)}
+                          className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                      <SegmentedControl
+                        options={roleOptions}
+                        value={roles[uid] ?? DEFAULT_SHARED_ROLE}
+                        onChange={(value) => handleRoleChange(uid, value as SharedBabyRole)}
                         size="sm"
-                        onClick={() => handleRemoveSharedUser(uid)}
-                        className="text-red-500 hover:text-red-700 hover:bg-red-50"
-                      >
-                        <X className="w-4 h-4" />
-                      </Button>
+                        fullWidth
+                      />
                     </div>
                   ))}
                 </div>
@@ -337,7 +430,7 @@ export function BabyForm() {
         {isEditing && !isOwner && (
           <Card className="bg-blue-50 border border-blue-200">
             <p className="text-sm text-blue-800">
-              You have shared access to {name}. Only the owner can manage sharing settings.
+              You have {role ? BABY_ROLE_CONFIG[role].label.toLowerCase() : 'shared'} access to {name}. Only the owner can manage sharing settings.
             </p>
           </Card>
         )}
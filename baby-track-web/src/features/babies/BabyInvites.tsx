@@ -0,0 +1,275 @@
+import { useState, useEffect } from 'react';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { QRCodeSVG } from 'qrcode.react';
+import { Button } from '@/components/ui/Button';
+import { SegmentedControl } from '@/components/ui/Select';
+import { useAuth } from '@/features/auth/AuthContext';
+import { createBabyInvite, revokeBabyInvite, subscribeToBabyInvites } from '@/lib/firestore';
+import {
+  BABY_ROLE_CONFIG,
+  INVITE_EXPIRY_OPTIONS,
+  INVITE_MAX_USES_OPTIONS,
+  getInviteLink,
+  getInviteRole,
+  getInviteStatus,
+} from '@/types';
+import type { BabyInvite, BabyInviteStatus, SharedBabyRole } from '@/types';
+import { toast } from '@/stores/toastStore';
+import { clsx } from 'clsx';
+import { Copy, Share2, UserPlus, X, QrCode } from 'lucide-react';
+
+const ROLE_OPTIONS = [
+  { value: 'unassigned', label: 'Later' },
+  { value: 'coParent', label: BABY_ROLE_CONFIG.coParent.label },
+  { value: 'caregiver', label: BABY_ROLE_CONFIG.caregiver.label },
+  { value: 'viewer', label: BABY_ROLE_CONFIG.viewer.label },
+];
+
+const EXPIRY_OPTIONS = INVITE_EXPIRY_OPTIONS.map((days) => ({
+  value: String(days),
+  label: days === 1 ? '1 day' : `${days} days`,
+}));
+
+const MAX_USES_OPTIONS = INVITE_MAX_USES_OPTIONS.map((uses) => ({
+  value: String(uses),
+  label: uses === 1 ? 'Single use' : `${uses} uses`,
+}));
+
+const STATUS_LABELS: Record<BabyInviteStatus, string> = {
+  pending: 'Pending',
+  used: 'Used',
+  expired: 'Expired',
+  revoked: 'Cancelled',
+};
+
+interface BabyInvitesProps {
+  babyId: string;
+  babyName: string;
+}
+
+// Owner's invite list for a baby: create expiring invites, show them as a link and QR code, revoke them
+export function BabyInvites({ babyId, babyName }: BabyInvitesProps) {
+  const { user } = useAuth();
+  const [invites, setInvites] = useState<BabyInvite[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [inviteRole, setInviteRole] = useState<SharedBabyRole | 'unassigned'>('unassigned');
+  const [expiresInDays, setExpiresInDays] = useState(INVITE_EXPIRY_OPTIONS[1]);
+  const [maxUses, setMaxUses] = useState(INVITE_MAX_USES_OPTIONS[0]);
+  const [creating, setCreating] = useState(false);
+  const [shownInviteId, setShownInviteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToBabyInvites(babyId, setInvites);
+    return () => unsubscribe();
+  }, [babyId]);
+
+  const pendingInvites = invites.filter((invite) => getInviteStatus(invite) === 'pending');
+  const pastInvites = invites.filter((invite) => getInviteStatus(invite) !== 'pending');
+  const shownInvite = pendingInvites.find((invite) => invite.id === shownInviteId) ?? null;
+
+  const handleCreate = async () => {
+    if (!user) return;
+
+    setCreating(true);
+    try {
+      const token = await createBabyInvite({ id: babyId, name: babyName }, user.uid, {
+        role: inviteRole === 'unassigned' ? null : inviteRole,
+        expiresInDays,
+        maxUses,
+      });
+      setShownInviteId(token);
+      setShowForm(false);
+      toast.success('Invite created');
+    } catch (error) {
+      console.error('Error creating invite:', error);
+      toast.error('Failed to create invite');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (invite: BabyInvite) => {
+    try {
+      await revokeBabyInvite(invite.id);
+      if (shownInviteId === invite.id) setShownInviteId(null);
+      toast.success('Invite cancelled');
+    } catch (error) {
+      console.error('Error revoking invite:', error);
+      toast.error('Failed to cancel invite');
+    }
+  };
+
+  const handleCopyLink = async (invite: BabyInvite) => {
+    try {
+      await navigator.clipboard.writeText(getInviteLink(invite.id));
+      toast.success('Link copied to clipboard');
+    } catch {
+      toast.error('Failed to copy link');
+    }
+  };
+
+  const handleShareLink = async (invite: BabyInvite) => {
+    try {
+      await navigator.share({
+        title: `Join ${babyName} on LittleRoutine`,
+        text: `Use code ${invite.id} or open this link to help track ${babyName}:`,
+        url: getInviteLink(invite.id),
+      });
+    } catch (error) {
+      // Closing the share sheet rejects with AbortError
+      if (error instanceof Error && error.name !== 'AbortError') {
+        toast.error('Failed to share link');
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Newly created or selected invite */}
+      {shownInvite && (
+        <div className="bg-gray-50 rounded-xl p-4 text-center space-y-3">
+          <div className="flex justify-end -mt-2 -mr-2">
+            <button type="button" onClick={() => setShownInviteId(null)} aria-label="Hide invite">
+              <X className="w-4 h-4 text-gray-400" />
+            </button>
+          </div>
+          <div className="inline-block bg-white p-3 rounded-xl">
+            <QRCodeSVG value={getInviteLink(shownInvite.id)} size={176} />
+          </div>
+          <p className="text-2xl font-mono font-bold tracking-widest">{shownInvite.id}</p>
+          <p className="text-xs text-gray-500">
+            Scan the code, open the link, or enter the code in the app to join as{' '}
+            {BABY_ROLE_CONFIG[getInviteRole(shownInvite)].label.toLowerCase()}.
+          </p>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" size="sm" className="flex-1" onClick={() => handleCopyLink(shownInvite)}>
+              <Copy className="w-4 h-4 mr-1" />
+              Copy link
+            </Button>
+            {'share' in navigator && (
+              <Button type="button" variant="outline" size="sm" className="flex-1" onClick={() => handleShareLink(shownInvite)}>
+                <Share2 className="w-4 h-4 mr-1" />
+                Share
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* New invite */}
+      {showForm ? (
+        <div className="space-y-3">
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Role</p>
+            <SegmentedControl
+              options={ROLE_OPTIONS}
+              value={inviteRole}
+              onChange={(value) => setInviteRole(value as SharedBabyRole | 'unassigned')}
+              size="sm"
+              fullWidth
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              {inviteRole === 'unassigned'
+                ? 'Joins as a viewer until you choose a role'
+                : BABY_ROLE_CONFIG[inviteRole].description}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Expires after</p>
+            <SegmentedControl
+              options={EXPIRY_OPTIONS}
+              value={String(expiresInDays)}
+              onChange={(value) => setExpiresInDays(Number(value))}
+              size="sm"
+              fullWidth
+            />
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Can be used</p>
+            <SegmentedControl
+              options={MAX_USES_OPTIONS}
+              value={String(maxUses)}
+              onChange={(value) => setMaxUses(Number(value))}
+              size="sm"
+              fullWidth
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" className="flex-1" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button type="button" className="flex-1" onClick={handleCreate} disabled={creating}>
+              {creating ? 'Creating...' : 'Create Invite'}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button type="button" variant="outline" className="w-full" onClick={() => setShowForm(true)}>
+          <UserPlus className="w-4 h-4 mr-2" />
+          Invite Someone
+        </Button>
+      )}
+
+      {pendingInvites.length > 0 && (
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-1">Pending invites</p>
+          {pendingInvites.map((invite) => (
+            <div key={invite.id} className="flex items-center gap-2 py-2">
+              <button
+                type="button"
+                onClick={() => setShownInviteId(invite.id)}
+                className="flex-1 flex items-center gap-3 text-left"
+              >
+                <QrCode className="w-5 h-5 text-gray-400 shrink-0" />
+                <div>
+                  <p className="text-sm font-mono text-gray-900">{invite.id}</p>
+                  <p className="text-xs text-gray-500">
+                    {BABY_ROLE_CONFIG[getInviteRole(invite)].label} · {invite.usedBy.length}/{invite.maxUses} used ·
+                    expires {formatDistanceToNow(parseISO(invite.expiresAt), { addSuffix: true })}
+                  </p>
+                </div>
+              </button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRevoke(invite)}
+                className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                aria-label="Cancel invite"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {pastInvites.length > 0 && (
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-1">Past invites</p>
+          {pastInvites.map((invite) => {
+            const status = getInviteStatus(invite);
+            return (
+              <div key={invite.id} className="flex items-center justify-between py-2">
+                <div>
+                  <p className="text-sm font-mono text-gray-500">{invite.id}</p>
+                  <p className="text-xs text-gray-400">
+                    {BABY_ROLE_CONFIG[getInviteRole(invite)].label} · {invite.usedBy.length}/{invite.maxUses} used
+                  </p>
+                </div>
+                <span
+                  className={clsx(
+                    'text-xs px-2 py-0.5 rounded-full',
+                    status === 'used' ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-500'
+                  )}
+                >
+                  {STATUS_LABELS[status]}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
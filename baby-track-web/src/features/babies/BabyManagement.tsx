@@ -4,17 +4,25 @@ import { Header } from '@/components/layout/Header';
 import { Card, CardHeader } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import { UserAvatar } from '@/components/ui/UserAvatar';
 import { useAppStore } from '@/stores/appStore';
 import { useAuth } from '@/features/auth/AuthContext';
-import { joinBabyByShareCode } from '@/lib/firestore';
-import { BABY_COLOR_CONFIG, calculateBabyAge } from '@/types';
+import { joinBabyByInvite } from '@/lib/firestore';
+import {
+  BABY_COLOR_CONFIG,
+  BABY_ROLE_CONFIG,
+  formatBabyAge,
+  getBabyRole,
+  getCaregiverName,
+  parseInviteToken,
+} from '@/types';
 import { toast } from '@/stores/toastStore';
 import { Plus, Edit, Check, UserPlus, Users } from 'lucide-react';
 
 export function BabyManagement() {
   const navigate = useNavigate();
   const { user } = useAuth();
-  const { babies, selectedBaby, setSelectedBabyId } = useAppStore();
+  const { babies, selectedBaby, setSelectedBabyId, userProfiles } = useAppStore();
   const [showJoinForm, setShowJoinForm] = useState(false);
   const [joinCode, setJoinCode] = useState('');
   const [joining, setJoining] = useState(false);
@@ -24,11 +32,12 @@ export function BabyManagement() {
   };
 
   const handleJoinBaby = async () => {
-    if (!user || !joinCode.trim()) return;
+    const token = parseInviteToken(joinCode);
+    if (!user || !token) return;
 
     setJoining(true);
     try {
-      const baby = await joinBabyByShareCode(user.uid, joinCode);
+      const baby = await joinBabyByInvite(user.uid, token);
       toast.success(`You now have access to ${baby.name}`);
       setShowJoinForm(false);
       setJoinCode('');
@@ -70,8 +79,10 @@ export function BabyManagement() {
           babies.map((baby) => {
             const color = BABY_COLOR_CONFIG[baby.color]?.hex || '#9c27b0';
             const isSelected = baby.id === selectedBaby?.id;
-            const age = baby.birthDate ? calculateBabyAge(baby.birthDate) : null;
+            const age = formatBabyAge(baby);
             const isShared = baby.userId !== user?.uid;
+            const role = getBabyRole(baby, user?.uid ?? null);
+            const sharedWith = baby.sharedWith ?? [];
 
             return (
               <Card
@@ -110,10 +121,30 @@ export function BabyManagement() {
                       {baby.name}
                     </h3>
                     {age && (
-                      <p className="text-sm text-gray-500">{age.text}</p>
+                      <p className="text-sm text-gray-500">{age}</p>
                     )}
                     {isShared && (
-                      <p className="text-xs text-blue-600">Shared with you</p>
+                      <p className="text-xs text-blue-600 truncate">
+                        Shared by {getCaregiverName(baby.userId, user?.uid ?? null, userProfiles)}
+                        {role ? ` · ${BABY_ROLE_CONFIG[role].label}` : ''}
+                      </p>
+                    )}
+                    {!isShared && sharedWith.length > 0 && (
+                      <div className="flex items-center gap-2 mt-1">
+                        <div className="flex -space-x-2">
+                          {sharedWith.slice(0, 3).map((uid) => (
+                            <UserAvatar
+                              key={uid}
+                              profile={userProfiles[uid]}
+                              size="xs"
+                              className="ring-2 ring-white"
+                            />
+                          ))}
+                        </div>
+                        <p className="text-xs text-gray-500 truncate">
+                          {sharedWith.map((uid) => getCaregiverName(uid, user?.uid ?? null, userProfiles)).join(', ')}
+                        </p>
+                      </div>
                     )}
                   </div>
 
@@ -152,13 +183,12 @@ export function BabyManagement() {
             <div className="space-y-3">
               <CardHeader
                 title="Join a Baby"
-                subtitle="Enter the share code from your partner"
+                subtitle="Enter the invite code or link you were sent"
               />
               <Input
-                placeholder="Enter 6-letter code"
+                placeholder="Invite code or link"
                 value={joinCode}
-                onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
-                maxLength={6}
+                onChange={(e) => setJoinCode(e.target.value)}
                 className="text-center font-mono text-lg tracking-widest"
               />
               <div className="flex gap-2">
@@ -175,7 +205,7 @@ export function BabyManagement() {
                 <Button
                   className="flex-1"
                   onClick={handleJoinBaby}
-                  disabled={joinCode.length !== 6 || joining}
+                  disabled={!parseInviteToken(joinCode) || joining}
                 >
                   {joining ? 'Joining...' : 'Join'}
                 </Button>
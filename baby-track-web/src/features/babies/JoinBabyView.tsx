@@ -0,0 +1,115 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Header } from '@/components/layout/Header';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { useAuth } from '@/features/auth/AuthContext';
+import { useAppStore } from '@/stores/appStore';
+import { getBabyInvite, joinBabyByInvite } from '@/lib/firestore';
+import { BABY_ROLE_CONFIG, getInviteRole, getInviteStatus, parseInviteToken } from '@/types';
+import type { BabyInvite, BabyInviteStatus } from '@/types';
+import { toast } from '@/stores/toastStore';
+import { UserPlus, AlertCircle } from 'lucide-react';
+
+const UNAVAILABLE_MESSAGES: Record<Exclude<BabyInviteStatus, 'pending'>, string> = {
+  used: 'This invite has already been used. Ask for a new one.',
+  expired: 'This invite has expired. Ask for a new one.',
+  revoked: 'This invite has been cancelled.',
+};
+
+// Landing page for /join/:token invite links and QR codes
+export function JoinBabyView() {
+  const navigate = useNavigate();
+  const { token: rawToken } = useParams<{ token: string }>();
+  const { user } = useAuth();
+  const { babies, setSelectedBabyId } = useAppStore();
+  const [invite, setInvite] = useState<BabyInvite | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [joining, setJoining] = useState(false);
+
+  const token = rawToken ? parseInviteToken(rawToken) : null;
+
+  useEffect(() => {
+    if (!token) {
+      setLoading(false);
+      return;
+    }
+
+    getBabyInvite(token)
+      .then(setInvite)
+      .catch((error) => console.error('Error loading invite:', error))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const handleJoin = async () => {
+    if (!user || !invite) return;
+
+    setJoining(true);
+    try {
+      const baby = await joinBabyByInvite(user.uid, invite.id);
+      toast.success(`You now have access to ${baby.name}`);
+      setSelectedBabyId(baby.id);
+      navigate('/home', { replace: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to join';
+      toast.error(message);
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  const status = invite ? getInviteStatus(invite) : null;
+  const alreadyJoined = invite ? babies.some((b) => b.id === invite.babyId) : false;
+
+  return (
+    <div>
+      <Header title="Join a Baby" showBabySwitcher={false} />
+
+      <div className="px-4 py-4">
+        {loading ? (
+          <Card className="text-center py-8">
+            <div className="w-8 h-8 border-4 border-primary-200 border-t-primary-500 rounded-full animate-spin mx-auto" />
+          </Card>
+        ) : !invite || !status ? (
+          <Card className="text-center py-8">
+            <AlertCircle className="w-12 h-12 mx-auto text-gray-300 mb-3" />
+            <p className="text-gray-500">This invite link isn't valid</p>
+          </Card>
+        ) : alreadyJoined ? (
+          <Card className="text-center py-8 space-y-4">
+            <p className="text-gray-700">You already have access to {invite.babyName}</p>
+            <Button
+              onClick={() => {
+                setSelectedBabyId(invite.babyId);
+                navigate('/home', { replace: true });
+              }}
+            >
+              Go to {invite.babyName}
+            </Button>
+          </Card>
+        ) : status !== 'pending' ? (
+          <Card className="text-center py-8">
+            <AlertCircle className="w-12 h-12 mx-auto text-gray-300 mb-3" />
+            <p className="text-gray-500">{UNAVAILABLE_MESSAGES[status]}</p>
+          </Card>
+        ) : (
+          <Card className="text-center py-8 space-y-4">
+            <div className="w-16 h-16 rounded-full bg-primary-100 flex items-center justify-center mx-auto">
+              <UserPlus className="w-8 h-8 text-primary-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Join {invite.babyName}</h2>
+              <p className="text-sm text-gray-500 mt-1">
+                You'll join as {BABY_ROLE_CONFIG[getInviteRole(invite)].label.toLowerCase()}:{' '}
+                {BABY_ROLE_CONFIG[getInviteRole(invite)].description.toLowerCase()}.
+              </p>
+            </div>
+            <Button onClick={handleJoin} disabled={joining}>
+              {joining ? 'Joining...' : 'Join'}
+            </Button>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -8,15 +8,21 @@ import {
   BREAST_SIDE_CONFIG,
   DIAPER_TYPE_CONFIG,
   SLEEP_TYPE_CONFIG,
-  calculateBabyAge,
+  formatBabyAge,
+  formatFeedingSides,
+  formatBottleVolume,
+  getDevelopmentalAgeMonths,
   getSuggestedBreastSide,
   getRoomTempExpirationMinutes,
+  getPumpPartName,
+  getPumpPartWear,
 } from '@/types';
 import { MedicationFrequency } from '@/types/enums';
 import { resolveFavoriteFeatures } from '@/features/featureCatalog';
 import { startFeedingSession, createSleepSession } from '@/lib/firestore';
 import { useAuth } from '@/features/auth/AuthContext';
 import { toast } from '@/stores/toastStore';
+import { useBabyPermissions } from '@/hooks/useBabyPermissions';
 import {
   Baby,
   Moon,
@@ -29,8 +35,15 @@ import {
   CheckCircle2,
   Droplets,
   Briefcase,
+  Wrench,
 } from 'lucide-react';
 import { clsx } from 'clsx';
+import {
+  EMPTY_STATS_DATA,
+  buildOutputAdequacy,
+  formatOutputShortfall,
+  type OutputAdequacy,
+} from '@/features/stats/statsProcessing';
 import {
   buildSmartSuggestion,
   type SmartSuggestion,
@@ -481,6 +494,40 @@ const SmartSuggestionCard = memo(function SmartSuggestionCard({
   );
 });
 
+const OutputWarningCard = memo(function OutputWarningCard({
+  adequacy,
+  shortfall,
+  onClick,
+}: {
+  adequacy: OutputAdequacy;
+  shortfall: string;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className="w-full text-left rounded-3xl border border-amber-200 bg-gradient-to-br from-amber-50 to-orange-50 p-5 shadow-sm"
+    >
+      <div className="flex items-start gap-3">
+        <div className="w-12 h-12 rounded-2xl flex items-center justify-center shadow-sm flex-shrink-0 bg-amber-500">
+          <Droplets className="w-6 h-6 text-white" />
+        </div>
+        <div className="min-w-0">
+          <span className="text-xs font-semibold uppercase tracking-wide text-gray-500">Day {adequacy.dayOfLife} output</span>
+          <h3 className="text-lg font-bold text-gray-900 mt-1">Fewer diapers than expected</h3>
+          <p className="text-sm text-gray-700 mt-1">{shortfall}</p>
+          <p className="text-xs text-gray-500 mt-2">
+            {adequacy.expectedFeeds !== null
+              ? `${adequacy.feedCount} feed${adequacy.feedCount !== 1 ? 's' : ''} in the same time (${adequacy.expectedFeeds}+ expected). `
+              : `${adequacy.feedCount} feed${adequacy.feedCount !== 1 ? 's' : ''} in the same time. `}
+            Low output can mean baby isn't getting enough milk. Call your pediatrician if it continues.
+          </p>
+        </div>
+      </div>
+    </button>
+  );
+});
+
 export function DashboardView() {
   const { user } = useAuth();
   const navigate = useNavigate();
@@ -496,11 +543,14 @@ export function DashboardView() {
   const medicines = useHomeStore((state) => state.medicines);
   const medicineLogs = useHomeStore((state) => state.medicineLogs);
   const milkStash = useHomeStore((state) => state.milkStash);
+  const pumpParts = useHomeStore((state) => state.pumpParts);
+  const pumpPartSessions = useHomeStore((state) => state.pumpPartSessions);
   const upsertFeedingSession = useHomeStore((state) => state.upsertFeedingSession);
   const removeFeedingSession = useHomeStore((state) => state.removeFeedingSession);
   const upsertSleepSession = useHomeStore((state) => state.upsertSleepSession);
   const removeSleepSession = useHomeStore((state) => state.removeSleepSession);
   const [smartActionBusy, setSmartActionBusy] = useState<SmartSuggestionActionKind | null>(null);
+  const { can } = useBabyPermissions();
 
   // Get all active timers
   const activeTimers = useMemo(() => {
@@ -591,7 +641,7 @@ export function DashboardView() {
         allFeedings.push({
           timestamp: s.startTime,
           type: 'breast',
-          details: `Breastfeeding - ${BREAST_SIDE_CONFIG[s.breastSide].label}`,
+          details: `Breastfeeding - ${formatFeedingSides(s)}`,
         });
       });
 
@@ -600,7 +650,7 @@ export function DashboardView() {
       allFeedings.push({
         timestamp: s.timestamp,
         type: 'bottle',
-        details: `Bottle - ${s.volume} ${s.volumeUnit}`,
+        details: `Bottle - ${formatBottleVolume(s)}`,
       });
     });
 
@@ -668,6 +718,26 @@ export function DashboardView() {
     });
   }, [medicines, medicineLogs]);
 
+  // Pump parts worn out or close to it
+  const pumpPartTodos = useMemo(() => {
+    return pumpParts
+      .map((part) => ({ part, wear: getPumpPartWear(part, pumpPartSessions) }))
+      .filter(({ wear }) => wear.isDueSoon);
+  }, [pumpParts, pumpPartSessions]);
+
+  // Wet and dirty diapers in the last 24 hours against the baby's age
+  const outputAdequacy = useMemo(
+    () =>
+      selectedBaby
+        ? buildOutputAdequacy(
+          { ...EMPTY_STATS_DATA, feedingSessions, bottleSessions, diaperChanges },
+          selectedBaby.birthDate
+        )
+        : null,
+    [selectedBaby, feedingSessions, bottleSessions, diaperChanges]
+  );
+  const outputShortfall = outputAdequacy ? formatOutputShortfall(outputAdequacy) : null;
+
   const feedingStatusCard = useMemo(() => ({
     title: 'Last Feeding',
     Icon: lastFeeding?.type === 'bottle' ? Milk : Baby,
@@ -724,8 +794,9 @@ export function DashboardView() {
         feedingTypePreference: settings?.feedingTypePreference,
         hasActiveFeeding: feedingSessions.some((session) => session.isActive),
         hasActiveSleep: sleepSessions.some((session) => session.isActive),
+        ageInMonths: selectedBaby ? getDevelopmentalAgeMonths(selectedBaby) : null,
       }),
-    [feedingSessions, bottleSessions, sleepSessions, diaperChanges, settings?.feedingTypePreference]
+    [feedingSessions, bottleSessions, sleepSessions, diaperChanges, settings?.feedingTypePreference, selectedBaby]
   );
 
   const smartSuggestionActionLabel = useMemo(() => {
@@ -790,7 +861,7 @@ export function DashboardView() {
           notes: null,
           babyMood: null,
           momMood: null,
-          loggedBy: null,
+          loggedBy: user.uid,
           createdAt: startTime,
           updatedAt: startTime,
         });
@@ -866,14 +937,15 @@ export function DashboardView() {
   }
 
   // Calculate baby's age
-  const babyAge = selectedBaby?.birthDate ? calculateBabyAge(selectedBaby.birthDate) : null;
+  const babyAge = selectedBaby ? formatBabyAge(selectedBaby) : null;
 
   // Count incomplete medicine todos
   const incompleteMedicineTodos = medicineTodos.filter(t => !t.isComplete);
+  const pendingTodoCount = incompleteMedicineTodos.length + pumpPartTodos.length;
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100">
-      <Header title="Home" subtitle={babyAge?.text} />
+      <Header title="Home" subtitle={babyAge ?? undefined} />
 
       <div className="px-4 py-4 space-y-5">
         {/* Active Timers */}
@@ -902,7 +974,15 @@ export function DashboardView() {
             suggestion={smartSuggestion}
             actionLabel={smartSuggestionActionLabel}
             actionBusy={smartActionBusy === smartSuggestion.actionKind}
-            onAction={smartSuggestionActionLabel ? handleSmartSuggestionAction : undefined}
+            onAction={smartSuggestionActionLabel && can('log') ? handleSmartSuggestionAction : undefined}
+          />
+        )}
+
+        {outputAdequacy && outputShortfall && (
+          <OutputWarningCard
+            adequacy={outputAdequacy}
+            shortfall={outputShortfall}
+            onClick={() => navigate('/diaper')}
           />
         )}
 
@@ -939,16 +1019,16 @@ export function DashboardView() {
         </div>
 
         {/* Today's To Do */}
-        {medicineTodos.length > 0 && (
+        {(medicineTodos.length > 0 || pumpPartTodos.length > 0) && (
           <div>
             <div className="flex items-center justify-between mb-3 px-1">
               <div className="flex items-center gap-2">
                 <span className="text-base">✅</span>
                 <h3 className="text-sm font-bold text-gray-700">Today's To Do</h3>
               </div>
-              {incompleteMedicineTodos.length > 0 && (
+              {pendingTodoCount > 0 && (
                 <span className="text-xs font-semibold text-amber-600 bg-amber-100 px-2.5 py-1 rounded-full">
-                  {incompleteMedicineTodos.length} pending
+                  {pendingTodoCount} pending
                 </span>
               )}
             </div>
@@ -968,6 +1048,17 @@ export function DashboardView() {
                   onClick={() => navigate('/more/medicine')}
                 />
               ))}
+              {pumpPartTodos.map(({ part, wear }) => (
+                <TodoItem
+                  key={part.id}
+                  Icon={Wrench}
+                  iconBg="#2196f3"
+                  title={`Replace ${getPumpPartName(part).toLowerCase()}`}
+                  subtitle={`${wear.used} of ${part.replaceEvery} ${part.replaceEveryUnit === 'hours' ? 'pump hours' : 'days'} used`}
+                  done={false}
+                  onClick={() => navigate('/more/pump/parts')}
+                />
+              ))}
             </div>
           </div>
         )}
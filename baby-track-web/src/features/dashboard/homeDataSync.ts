@@ -7,11 +7,15 @@ import {
   subscribeToMedicines,
   subscribeToMedicineLogs,
   subscribeToMilkStash,
+  subscribeToPumpParts,
+  subscribeToPumpPartSessions,
   subscribeToPumpSessions,
   subscribeToSleepSessions,
 } from '@/lib/firestore';
+import { useAppStore } from '@/stores/appStore';
 import { useHomeStore } from '@/stores/homeStore';
-import type { Medicine } from '@/types';
+import { getHouseholdBabyIds, getPumpPartWearStart } from '@/types';
+import type { Medicine, PumpPart } from '@/types';
 
 interface HomeSyncContext {
   userId: string;
@@ -21,6 +25,7 @@ interface HomeSyncContext {
 let activeSyncKey: string | null = null;
 let rootUnsubscribes: Array<() => void> = [];
 const medicineLogUnsubscribes = new Map<string, () => void>();
+let pumpPartSessionsSubscription: { since: string; unsubscribe: () => void } | null = null;
 
 function clearMedicineLogSubscriptions(activeMedicineIds?: Set<string>) {
   medicineLogUnsubscribes.forEach((unsubscribe, medicineId) => {
@@ -31,27 +36,32 @@ function clearMedicineLogSubscriptions(activeMedicineIds?: Set<string>) {
   });
 }
 
+function clearPumpPartSessionsSubscription() {
+  pumpPartSessionsSubscription?.unsubscribe();
+  pumpPartSessionsSubscription = null;
+}
+
 function teardownSubscriptions() {
   rootUnsubscribes.forEach((unsubscribe) => unsubscribe());
   rootUnsubscribes = [];
   clearMedicineLogSubscriptions();
+  clearPumpPartSessionsSubscription();
   activeSyncKey = null;
 }
 
 function syncMedicineLogs(medicines: Medicine[]) {
   const store = useHomeStore.getState();
-  const activeMedicineIds = new Set(
-    medicines.filter((medicine) => medicine.isActive).map((medicine) => medicine.id)
-  );
+  const activeMedicines = medicines.filter((medicine) => medicine.isActive);
+  const activeMedicineIds = new Set(activeMedicines.map((medicine) => medicine.id));
 
   clearMedicineLogSubscriptions(activeMedicineIds);
 
-  activeMedicineIds.forEach((medicineId) => {
+  activeMedicines.forEach(({ id: medicineId, babyId }) => {
     if (medicineLogUnsubscribes.has(medicineId)) {
       return;
     }
 
-    const unsubscribe = subscribeToMedicineLogs(medicineId, (logs) => {
+    const unsubscribe = subscribeToMedicineLogs(babyId, medicineId, (logs) => {
       store.setMedicineLogs(medicineId, logs);
       store.markRefreshed();
     });
@@ -60,6 +70,30 @@ function syncMedicineLogs(medicines: Medicine[]) {
   });
 }
 
+// Part wear adds up the owner's pumping for any baby since the oldest part went in
+function syncPumpPartSessions(userId: string, parts: PumpPart[]) {
+  const store = useHomeStore.getState();
+  const since = getPumpPartWearStart(parts);
+
+  if (pumpPartSessionsSubscription?.since === since) {
+    return;
+  }
+
+  clearPumpPartSessionsSubscription();
+
+  if (!since) {
+    store.setPumpPartSessions([]);
+    return;
+  }
+
+  const unsubscribe = subscribeToPumpPartSessions(userId, since, (sessions) => {
+    store.setPumpPartSessions(sessions);
+    store.markRefreshed();
+  });
+
+  pumpPartSessionsSubscription = { since, unsubscribe };
+}
+
 function startSubscriptions({ userId, babyId }: HomeSyncContext) {
   const store = useHomeStore.getState();
   store.setContext(userId, babyId);
@@ -90,10 +124,15 @@ function startSubscriptions({ userId, babyId }: HomeSyncContext) {
       syncMedicineLogs(medicines);
       store.markRefreshed();
     }),
-    subscribeToMilkStash(userId, (stash) => {
+    subscribeToMilkStash(getHouseholdBabyIds(useAppStore.getState().babies, babyId), (stash) => {
       store.setMilkStash(stash);
       store.markRefreshed();
     }),
+    subscribeToPumpParts(userId, (parts) => {
+      store.setPumpParts(parts);
+      syncPumpPartSessions(userId, parts);
+      store.markRefreshed();
+    }),
   ];
 
   activeSyncKey = `${userId}:${babyId}`;
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 import type { BottleSession, DiaperChange, FeedingSession, SleepSession } from '@/types';
-import { buildSmartSuggestion } from './smartSuggestions';
+import { buildSmartSuggestion, predictNextSleep } from './smartSuggestions';
 
 function createFeedingSession(overrides: Partial<FeedingSession> = {}): FeedingSession {
   return {
@@ -451,4 +451,61 @@ describe('buildSmartSuggestion', () => {
     expect(suggestion?.kind).toBe('feeding');
     expect(suggestion?.message).toContain('Next likely feed');
   });
+
+  it('falls back to an age-based wake window when there is no nap history', () => {
+    const input = {
+      feedingSessions: [
+        createFeedingSession({ startTime: '2026-03-23T06:30:00.000Z' }),
+        createFeedingSession({ startTime: '2026-03-24T06:15:00.000Z' }),
+      ],
+      bottleSessions: [],
+      sleepSessions: [
+        createSleepSession({
+          type: 'night',
+          startTime: '2026-03-22T20:00:00.000Z',
+          endTime: '2026-03-23T06:00:00.000Z',
+          duration: 36000,
+        }),
+        createSleepSession({
+          type: 'night',
+          startTime: '2026-03-23T20:00:00.000Z',
+          endTime: '2026-03-24T06:00:00.000Z',
+          duration: 36000,
+        }),
+      ],
+      diaperChanges: [],
+      now: new Date('2026-03-24T07:30:00.000Z'),
+    };
+
+    expect(buildSmartSuggestion(input)?.kind).not.toBe('sleep');
+
+    const suggestion = buildSmartSuggestion({ ...input, ageInMonths: 2 });
+    expect(suggestion?.title).toBe('Time for a Nap');
+    expect(suggestion?.isOverdue).toBe(true);
+    expect(suggestion?.detail).toContain('A typical wake window at this age is about 1 hr 15 min');
+  });
+});
+
+describe('predictNextSleep', () => {
+  it('predicts the next nap from an age-based wake window with little history', () => {
+    const sleepSessions = [
+      createSleepSession({
+        type: 'night',
+        startTime: '2026-03-23T20:00:00.000Z',
+        endTime: '2026-03-24T06:00:00.000Z',
+        duration: 36000,
+      }),
+    ];
+
+    const prediction = predictNextSleep(sleepSessions, 2, new Date('2026-03-24T06:30:00.000Z'));
+
+    expect(prediction?.sleepType).toBe('nap');
+    expect(prediction?.isAgeBased).toBe(true);
+    expect(prediction?.lastWakeTime).toBe('2026-03-24T06:00:00.000Z');
+    expect(prediction?.predictedSleepTime.toISOString()).toBe('2026-03-24T07:15:00.000Z');
+  });
+
+  it('returns null without a completed sleep to count from', () => {
+    expect(predictNextSleep([], 2, new Date('2026-03-24T06:30:00.000Z'))).toBeNull();
+  });
 });
@@ -41,6 +41,7 @@ interface SmartSuggestionInput {
   feedingTypePreference?: FeedingTypePreference;
   hasActiveFeeding?: boolean;
   hasActiveSleep?: boolean;
+  ageInMonths?: number | null;
   now?: Date;
 }
 
@@ -51,6 +52,18 @@ const EVENING_BEDTIME_PREDICTION_HOUR = 20;
 const FEED_BEDTIME_WINDOW_MINUTES = 45;
 const NIGHT_SLEEP_TARGET_LOOKAHEAD_HOURS = 4;
 
+// Typical wake windows by (corrected) age, used until there is enough nap history to learn from
+const AGE_WAKE_WINDOW_DEFAULTS: Array<{ maxAgeMonths: number; minutes: number }> = [
+  { maxAgeMonths: 1, minutes: 50 },
+  { maxAgeMonths: 3, minutes: 75 },
+  { maxAgeMonths: 5, minutes: 105 },
+  { maxAgeMonths: 7, minutes: 135 },
+  { maxAgeMonths: 10, minutes: 165 },
+  { maxAgeMonths: 14, minutes: 210 },
+  { maxAgeMonths: 18, minutes: 270 },
+  { maxAgeMonths: 24, minutes: 330 },
+];
+
 interface SleepDurationEstimate {
   minutes: number;
   label: string;
@@ -241,6 +254,14 @@ function calculateAverageWakeWindowMinutes(
   return Math.round(wakeWindows.reduce((sum, minutes) => sum + minutes, 0) / wakeWindows.length);
 }
 
+export function getAgeBasedWakeWindowMinutes(ageInMonths: number | null | undefined): number | null {
+  if (ageInMonths === null || ageInMonths === undefined) {
+    return null;
+  }
+
+  return AGE_WAKE_WINDOW_DEFAULTS.find((entry) => ageInMonths < entry.maxAgeMonths)?.minutes ?? null;
+}
+
 function calculateTypicalNightSleepStartMinutes(sleepSessions: SleepSession[]): number | null {
   const nightSleepStarts = sleepSessions
     .filter(
@@ -432,6 +453,94 @@ function calculateAverageSleepDurationMinutes(
   };
 }
 
+export interface SleepPrediction {
+  lastWakeTime: string;
+  predictedSleepTime: Date;
+  sleepType: 'nap' | 'night';
+  referenceWakeWindowMinutes: number;
+  wakeWindowSource: string;
+  isAgeBased: boolean;
+  typicalNightSleepStart: number | null;
+}
+
+// When the next nap or bedtime is likely to start, counted from the last wake-up.
+// Uses learned wake windows and bedtimes, falling back to age-based wake windows.
+export function predictNextSleep(
+  sleepSessions: SleepSession[],
+  ageInMonths: number | null = null,
+  now: Date = new Date()
+): SleepPrediction | null {
+  const latestCompletedSleep = getLatestCompletedSleep(sleepSessions);
+  if (!latestCompletedSleep?.endTime) {
+    return null;
+  }
+
+  const learnedWakeWindowMinutes = calculateAverageWakeWindowMinutes(sleepSessions, now);
+  const ageBasedWakeWindowMinutes = getAgeBasedWakeWindowMinutes(ageInMonths);
+  const averageWakeWindowMinutes = learnedWakeWindowMinutes ?? ageBasedWakeWindowMinutes;
+  const isAgeBased = learnedWakeWindowMinutes === null && ageBasedWakeWindowMinutes !== null;
+  const typicalNightSleepStart = calculateTypicalNightSleepStartMinutes(sleepSessions);
+  const averagePreBedWakeWindowMinutes = calculateAveragePreBedWakeWindowMinutes(sleepSessions);
+  const genericPredictedSleepTime =
+    averageWakeWindowMinutes !== null
+      ? new Date(
+          parseISO(latestCompletedSleep.endTime).getTime() + averageWakeWindowMinutes * 60 * 1000
+        )
+      : null;
+  const preBedPredictedSleepTime =
+    averagePreBedWakeWindowMinutes !== null
+      ? new Date(
+          parseISO(latestCompletedSleep.endTime).getTime() +
+            averagePreBedWakeWindowMinutes * 60 * 1000
+        )
+      : null;
+  const bedtimeClockTarget = buildTypicalNightSleepTargetTime(
+    latestCompletedSleep.endTime,
+    typicalNightSleepStart,
+    now
+  );
+  const genericNightMatch =
+    genericPredictedSleepTime !== null &&
+    typicalNightSleepStart !== null &&
+    Math.abs(normalizeSleepClockMinutes(genericPredictedSleepTime) - typicalNightSleepStart) <=
+      NIGHT_SLEEP_MATCH_WINDOW_MINUTES;
+  const isLikelyNightSleep =
+    genericNightMatch ||
+    bedtimeClockTarget !== null ||
+    (preBedPredictedSleepTime !== null &&
+      (now.getHours() >= EVENING_BEDTIME_WAKE_HOUR ||
+        parseISO(latestCompletedSleep.endTime).getHours() >= EVENING_BEDTIME_WAKE_HOUR)) ||
+    shouldUseEveningBedtimeFallback(
+      latestCompletedSleep.endTime,
+      genericPredictedSleepTime ?? preBedPredictedSleepTime ?? bedtimeClockTarget ?? new Date(),
+      sleepSessions
+    );
+  const predictedSleepTime =
+    (isLikelyNightSleep && preBedPredictedSleepTime) ||
+    (isLikelyNightSleep && bedtimeClockTarget) ||
+    genericPredictedSleepTime;
+
+  if (!predictedSleepTime) {
+    return null;
+  }
+
+  const referenceWakeWindowMinutes =
+    isLikelyNightSleep && averagePreBedWakeWindowMinutes !== null
+      ? averagePreBedWakeWindowMinutes
+      : averageWakeWindowMinutes ??
+        Math.max(15, differenceInMinutes(predictedSleepTime, parseISO(latestCompletedSleep.endTime)));
+
+  return {
+    lastWakeTime: latestCompletedSleep.endTime,
+    predictedSleepTime,
+    sleepType: isLikelyNightSleep ? 'night' : 'nap',
+    referenceWakeWindowMinutes,
+    wakeWindowSource: isAgeBased ? 'A typical wake window at this age' : 'The recent 3-day wake window',
+    isAgeBased,
+    typicalNightSleepStart,
+  };
+}
+
 export function buildSmartSuggestion({
   feedingSessions,
   bottleSessions,
@@ -439,6 +548,7 @@ export function buildSmartSuggestion({
   feedingTypePreference = 'breastfeeding',
   hasActiveFeeding = false,
   hasActiveSleep = false,
+  ageInMonths = null,
   now = new Date(),
 }: SmartSuggestionInput): SmartSuggestion | null {
   const activeSleep = sleepSessions.find((session) => session.isActive);
@@ -546,51 +656,11 @@ export function buildSmartSuggestion({
   }
 
   const latestCompletedSleep = getLatestCompletedSleep(sleepSessions);
-  const averageWakeWindowMinutes = calculateAverageWakeWindowMinutes(sleepSessions, now);
 
   if (!hasActiveSleep && !activeSleep && latestCompletedSleep?.endTime) {
     const awakeMinutes = differenceInMinutes(now, parseISO(latestCompletedSleep.endTime));
-    const typicalNightSleepStart = calculateTypicalNightSleepStartMinutes(sleepSessions);
-    const averagePreBedWakeWindowMinutes = calculateAveragePreBedWakeWindowMinutes(sleepSessions);
-    const genericPredictedSleepTime =
-      averageWakeWindowMinutes !== null
-        ? new Date(
-            parseISO(latestCompletedSleep.endTime).getTime() + averageWakeWindowMinutes * 60 * 1000
-          )
-        : null;
-    const preBedPredictedSleepTime =
-      averagePreBedWakeWindowMinutes !== null
-        ? new Date(
-            parseISO(latestCompletedSleep.endTime).getTime() +
-              averagePreBedWakeWindowMinutes * 60 * 1000
-          )
-        : null;
-    const bedtimeClockTarget = buildTypicalNightSleepTargetTime(
-      latestCompletedSleep.endTime,
-      typicalNightSleepStart,
-      now
-    );
-    const genericNightMatch =
-      genericPredictedSleepTime !== null &&
-      typicalNightSleepStart !== null &&
-      Math.abs(normalizeSleepClockMinutes(genericPredictedSleepTime) - typicalNightSleepStart) <=
-        NIGHT_SLEEP_MATCH_WINDOW_MINUTES;
-    const isLikelyNightSleep =
-      genericNightMatch ||
-      bedtimeClockTarget !== null ||
-      (preBedPredictedSleepTime !== null &&
-        (now.getHours() >= EVENING_BEDTIME_WAKE_HOUR ||
-          parseISO(latestCompletedSleep.endTime).getHours() >= EVENING_BEDTIME_WAKE_HOUR)) ||
-      shouldUseEveningBedtimeFallback(
-        latestCompletedSleep.endTime,
-        genericPredictedSleepTime ?? preBedPredictedSleepTime ?? bedtimeClockTarget ?? new Date(),
-        sleepSessions
-      );
-    const predictedSleepTime =
-      (isLikelyNightSleep && preBedPredictedSleepTime) ||
-      (isLikelyNightSleep && bedtimeClockTarget) ||
-      genericPredictedSleepTime;
-    if (!predictedSleepTime) {
+    const prediction = predictNextSleep(sleepSessions, ageInMonths, now);
+    if (!prediction) {
       return upcomingOptions[0]?.suggestion ?? {
         kind: 'learning',
         title: 'Looking Ahead',
@@ -600,11 +670,13 @@ export function buildSmartSuggestion({
         actionKind: null,
       };
     }
-    const referenceWakeWindowMinutes =
-      isLikelyNightSleep && averagePreBedWakeWindowMinutes !== null
-        ? averagePreBedWakeWindowMinutes
-        : averageWakeWindowMinutes ??
-          Math.max(15, differenceInMinutes(predictedSleepTime, parseISO(latestCompletedSleep.endTime)));
+    const {
+      predictedSleepTime,
+      referenceWakeWindowMinutes,
+      wakeWindowSource,
+      typicalNightSleepStart,
+    } = prediction;
+    const isLikelyNightSleep = prediction.sleepType === 'night';
     const minutesUntilPredictedSleep = differenceInMinutes(predictedSleepTime, now);
     const shouldSuggest =
       awakeMinutes >= referenceWakeWindowMinutes - 15 ||
@@ -638,7 +710,7 @@ export function buildSmartSuggestion({
           ? isFeedNearBedtime && feedingDueAt !== null
             ? `Baby has been awake for ${formatMinutesAsDuration(awakeMinutes)}. The next feed is likely around ${format(feedingDueAt, 'h:mm a')}, and bedtime usually follows around ${format(predictedSleepTime, 'h:mm a')}.`
             : `Baby has been awake for ${formatMinutesAsDuration(awakeMinutes)}. The recent pre-bed wake window is about ${formatMinutesAsDuration(referenceWakeWindowMinutes)}, and night sleep often starts around ${formatClockMinutesAsTime(typicalNightSleepStart)}.`
-          : `Baby has been awake for ${formatMinutesAsDuration(awakeMinutes)}. The recent 3-day wake window is about ${formatMinutesAsDuration(referenceWakeWindowMinutes)}.`,
+          : `Baby has been awake for ${formatMinutesAsDuration(awakeMinutes)}. ${wakeWindowSource} is about ${formatMinutesAsDuration(referenceWakeWindowMinutes)}.`,
         isOverdue,
         actionKind:
           isFeedNearBedtime && feedingTypePreference !== 'formula'
@@ -667,7 +739,7 @@ export function buildSmartSuggestion({
             ? isFeedNearBedtime && feedingDueAt !== null
               ? `The next feed is likely around ${format(feedingDueAt, 'h:mm a')}, and bedtime often starts around ${formatClockMinutesAsTime(typicalNightSleepStart)}.`
               : `The recent pre-bed wake window is about ${formatMinutesAsDuration(referenceWakeWindowMinutes)}, and night sleep often starts around ${formatClockMinutesAsTime(typicalNightSleepStart)}.`
-            : `The recent 3-day wake window is about ${formatMinutesAsDuration(referenceWakeWindowMinutes)}.`,
+            : `${wakeWindowSource} is about ${formatMinutesAsDuration(referenceWakeWindowMinutes)}.`,
           isOverdue: false,
           actionKind:
             isFeedNearBedtime && feedingTypePreference !== 'formula'
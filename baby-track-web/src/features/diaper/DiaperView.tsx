@@ -1,23 +1,38 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { format, isToday, parseISO } from 'date-fns';
+import { differenceInHours, format, isToday, parseISO } from 'date-fns';
 import { Header, NoBabiesHeader } from '@/components/layout/Header';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input, Textarea } from '@/components/ui/Input';
 import { SegmentedControl } from '@/components/ui/Select';
 import { BabyMoodSelector, MoodIndicator } from '@/components/ui/MoodSelector';
-import { DiaperChange, DiaperType, BabyMood, DIAPER_TYPE_CONFIG } from '@/types';
+import {
+  DiaperChange,
+  DiaperType,
+  BabyMood,
+  DIAPER_TYPE_CONFIG,
+  EMPTY_STOOL_DETAILS,
+  STOOL_COLOR_CONFIG,
+  StoolDetails,
+  formatCaregiverAttribution,
+  getStoolAlert,
+} from '@/types';
 import { createDiaperChange, deleteDiaperChange, updateDiaperChange } from '@/lib/firestore';
 import { useAuth } from '@/features/auth/AuthContext';
 import { useAppStore } from '@/stores/appStore';
+import { useBabyPermissions } from '@/hooks/useBabyPermissions';
 import { useHomeStore } from '@/stores/homeStore';
 import { prefetchHomeData } from '@/features/dashboard/homeDataSync';
 import { toast } from '@/stores/toastStore';
 import { clsx } from 'clsx';
 import { Droplet, Circle, Clock, Check, Edit3, Trash2, Zap, ChevronDown, ChevronUp } from 'lucide-react';
 import { consumeDiaperBagSupplies, DIAPER_BAG_ITEM_IDS } from './diaperBagStorage';
+import { StoolAlertBanner, StoolDetailsFields } from './StoolDetails';
 
 type EntryMode = 'quick' | 'manual';
+
+// How long a worrying stool keeps the pediatrician banner up, unless a normal one is logged after it
+const STOOL_ALERT_HOURS = 48;
 type DiaperSource = 'home' | 'bag';
 
 const entryModeOptions = [
@@ -37,7 +52,8 @@ const DIAPER_ICONS: Record<DiaperType, React.ReactNode> = {
 
 export function DiaperView() {
   const { user } = useAuth();
-  const { selectedBaby, babies } = useAppStore();
+  const { selectedBaby, babies, userId, userProfiles } = useAppStore();
+  const { can } = useBabyPermissions();
   const changes = useHomeStore((state) => state.diaperChanges);
   const addOptimisticDiaperChange = useHomeStore((state) => state.addOptimisticDiaperChange);
   const updateDiaperChangeOptimistically = useHomeStore((state) => state.updateDiaperChangeOptimistically);
@@ -45,6 +61,7 @@ export function DiaperView() {
   const [selectedType, setSelectedType] = useState<DiaperType | null>(null);
   const [notes, setNotes] = useState('');
   const [babyMood, setBabyMood] = useState<BabyMood | null>(null);
+  const [stoolDetails, setStoolDetails] = useState<StoolDetails>(EMPTY_STOOL_DETAILS);
   const [showForm, setShowForm] = useState(false);
   const [justSaved, setJustSaved] = useState(false);
   const [saving, setSaving] = useState(false);
@@ -64,6 +81,9 @@ export function DiaperView() {
   // Expandable details state
   const [showDetails, setShowDetails] = useState(false);
 
+  // Stool details only apply to full diapers, so switching to wet drops them
+  const selectedStoolDetails = selectedType === 'full' ? stoolDetails : EMPTY_STOOL_DETAILS;
+
   // Cleanup timeouts on unmount
   useEffect(() => {
     return () => {
@@ -82,6 +102,7 @@ export function DiaperView() {
     timestamp: string;
     notes: string | null;
     babyMood: BabyMood | null;
+    stoolDetails?: StoolDetails;
   }): DiaperChange | null => {
     if (!selectedBaby || !user) {
       return null;
@@ -96,6 +117,7 @@ export function DiaperView() {
       timestamp: change.timestamp,
       notes: change.notes,
       babyMood: change.babyMood,
+      ...change.stoolDetails,
       createdAt: change.timestamp,
       updatedAt: change.timestamp,
     };
@@ -160,6 +182,7 @@ export function DiaperView() {
       timestamp,
       notes: notes || null,
       babyMood,
+      stoolDetails: selectedStoolDetails,
     });
 
     setSaving(true);
@@ -172,6 +195,7 @@ export function DiaperView() {
         timestamp,
         notes: notes || null,
         babyMood,
+        ...selectedStoolDetails,
       });
 
       prefetchHomeData({ userId: user.uid, babyId: selectedBaby.id });
@@ -179,6 +203,7 @@ export function DiaperView() {
       setSelectedType(null);
       setNotes('');
       setBabyMood(null);
+      setStoolDetails(EMPTY_STOOL_DETAILS);
       setShowForm(false);
       setShowDetails(false);
       setDiaperSource('home');
@@ -222,6 +247,7 @@ export function DiaperView() {
       timestamp: timestamp.toISOString(),
       notes: notes || null,
       babyMood,
+      stoolDetails: selectedStoolDetails,
     });
 
     if (optimisticChange) {
@@ -233,6 +259,7 @@ export function DiaperView() {
         timestamp: timestamp.toISOString(),
         notes: notes || null,
         babyMood,
+        ...selectedStoolDetails,
       });
 
       prefetchHomeData({ userId: user.uid, babyId: selectedBaby.id });
@@ -240,6 +267,7 @@ export function DiaperView() {
       setSelectedType(null);
       setNotes('');
       setBabyMood(null);
+      setStoolDetails(EMPTY_STOOL_DETAILS);
       setShowDetails(false);
       setDiaperSource('home');
       setManualDate(new Date().toISOString().split('T')[0]);
@@ -262,6 +290,7 @@ export function DiaperView() {
     setSelectedType(null);
     setNotes('');
     setBabyMood(null);
+    setStoolDetails(EMPTY_STOOL_DETAILS);
     setShowForm(false);
     setShowDetails(false);
     setDiaperSource('home');
@@ -274,10 +303,18 @@ export function DiaperView() {
     setSelectedType(editType);
     setNotes(change.notes || '');
     setBabyMood(change.babyMood);
+    setStoolDetails({
+      stoolColor: change.stoolColor ?? null,
+      stoolConsistency: change.stoolConsistency ?? null,
+      stoolAmount: change.stoolAmount ?? null,
+      hasBlood: change.hasBlood ?? false,
+      hasMucus: change.hasMucus ?? false,
+    });
     setManualDate(change.timestamp.split('T')[0]);
     setManualTime(format(parseISO(change.timestamp), 'HH:mm'));
-    // Auto-expand details if there's existing mood or notes
-    setShowDetails(!!(change.babyMood || change.notes));
+    // Auto-expand details if there's existing mood, notes or stool details
+    setShowDetails(!!(change.babyMood || change.notes || change.stoolColor || change.stoolConsistency
+      || change.stoolAmount || change.hasBlood || change.hasMucus));
   };
 
   const handleEditSave = async () => {
@@ -305,6 +342,7 @@ export function DiaperView() {
       date: timestamp.toISOString().split('T')[0],
       notes: notes || null,
       babyMood,
+      ...selectedStoolDetails,
     });
     try {
       await updateDiaperChange(editingChange.id, {
@@ -312,6 +350,7 @@ export function DiaperView() {
         timestamp: timestamp.toISOString(),
         notes: notes || null,
         babyMood,
+        ...selectedStoolDetails,
       });
 
       if (user && selectedBaby) {
@@ -322,6 +361,7 @@ export function DiaperView() {
       setSelectedType(null);
       setNotes('');
       setBabyMood(null);
+      setStoolDetails(EMPTY_STOOL_DETAILS);
       setShowDetails(false);
       setManualDate(new Date().toISOString().split('T')[0]);
       setManualTime(format(new Date(), 'HH:mm'));
@@ -341,6 +381,7 @@ export function DiaperView() {
     setSelectedType(null);
     setNotes('');
     setBabyMood(null);
+    setStoolDetails(EMPTY_STOOL_DETAILS);
     setShowDetails(false);
     setDiaperSource('home');
     setManualDate(new Date().toISOString().split('T')[0]);
@@ -360,6 +401,7 @@ export function DiaperView() {
       setSelectedType(null);
       setNotes('');
       setBabyMood(null);
+      setStoolDetails(EMPTY_STOOL_DETAILS);
       setShowDetails(false);
       toast.info('Diaper change deleted');
     } catch (error) {
@@ -439,15 +481,35 @@ export function DiaperView() {
 
   // Check if we're in edit mode or detail form
   const isEditing = editingChange !== null;
+  const editingAttribution = editingChange ? formatCaregiverAttribution(editingChange, userId, userProfiles) : null;
   const isInDetailForm = showForm && selectedType !== null;
 
+  // Warn while picking details, using the entry's own time so meconium in the first days isn't flagged
+  const formTimestamp = isInDetailForm ? new Date() : new Date(`${manualDate}T${manualTime}`);
+  const formStoolAlert = selectedType === 'full' && !isNaN(formTimestamp.getTime())
+    ? getStoolAlert({ timestamp: formTimestamp.toISOString(), ...selectedStoolDetails }, selectedBaby?.birthDate ?? null)
+    : null;
+
+  // Keep the banner up for a recent worrying stool until a normal one follows it
+  const latestStool = changes.find((change) => change.type !== 'wet');
+  const latestStoolAlert = latestStool && differenceInHours(new Date(), parseISO(latestStool.timestamp)) < STOOL_ALERT_HOURS
+    ? getStoolAlert(latestStool, selectedBaby?.birthDate ?? null)
+    : null;
+
   return (
     <div>
       <Header title="Diaper" />
 
       <div className="px-4 py-4 space-y-4">
+        {latestStool && latestStoolAlert && !isInDetailForm && !isEditing && (
+          <StoolAlertBanner
+            reason={latestStoolAlert}
+            loggedAt={format(parseISO(latestStool.timestamp), 'MMM d, h:mm a')}
+          />
+        )}
+
         {/* Entry Mode Toggle - hide when in form or editing */}
-        {!isInDetailForm && !isEditing && (
+        {can('log') && !isInDetailForm && !isEditing && (
           <div className="flex justify-center">
             <SegmentedControl
               options={entryModeOptions}
@@ -458,7 +520,7 @@ export function DiaperView() {
         )}
 
         {/* Quick Log Mode */}
-        {entryMode === 'quick' && !isInDetailForm && !isEditing && (
+        {can('log') && entryMode === 'quick' && !isInDetailForm && !isEditing && (
           <Card>
             <div className="text-center mb-4">
               <h3 className="font-semibold text-gray-900">Quick Log</h3>
@@ -528,7 +590,7 @@ export function DiaperView() {
         )}
 
         {/* Manual Entry Mode */}
-        {entryMode === 'manual' && !isInDetailForm && !isEditing && (
+        {can('log') && entryMode === 'manual' && !isInDetailForm && !isEditing && (
           <Card>
             <div className="text-center mb-4">
               <h3 className="font-semibold text-gray-900">Log Past Diaper Change</h3>
@@ -616,6 +678,11 @@ export function DiaperView() {
 
               {showDetails && (
                 <div className="space-y-4 pt-2 border-t border-gray-100">
+                  {selectedType === 'full' && (
+                    <StoolDetailsFields value={stoolDetails} onChange={setStoolDetails} />
+                  )}
+                  {formStoolAlert && <StoolAlertBanner reason={formStoolAlert} />}
+
                   <BabyMoodSelector
                     label="Baby's mood"
                     value={babyMood}
@@ -683,6 +750,11 @@ export function DiaperView() {
 
               {showDetails && (
                 <div className="space-y-4 pt-2 border-t border-gray-100">
+                  {selectedType === 'full' && (
+                    <StoolDetailsFields value={stoolDetails} onChange={setStoolDetails} />
+                  )}
+                  {formStoolAlert && <StoolAlertBanner reason={formStoolAlert} />}
+
                   <BabyMoodSelector
                     label="Baby's mood"
                     value={babyMood}
@@ -707,6 +779,9 @@ export function DiaperView() {
           <Card>
             <div className="text-center mb-4">
               <h3 className="font-semibold text-gray-900">Edit Diaper Change</h3>
+              {editingAttribution && (
+                <p className="text-xs text-gray-500 mt-1">{editingAttribution}</p>
+              )}
             </div>
 
             <div className="space-y-4">
@@ -763,14 +838,16 @@ export function DiaperView() {
               </div>
 
               <div className="flex gap-2">
-                <Button
-                  variant="outline"
-                  onClick={handleDelete}
-                  className="px-3"
-                  disabled={saving}
-                >
-                  <Trash2 className="w-4 h-4 text-red-500" />
-                </Button>
+                {can('deleteHistory') && (
+                  <Button
+                    variant="outline"
+                    onClick={handleDelete}
+                    className="px-3"
+                    disabled={saving}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </Button>
+                )}
                 <Button variant="outline" onClick={handleEditCancel} className="flex-1" disabled={saving}>
                   Cancel
                 </Button>
@@ -790,6 +867,11 @@ export function DiaperView() {
 
               {showDetails && (
                 <div className="space-y-4 pt-2 border-t border-gray-100">
+                  {selectedType === 'full' && (
+                    <StoolDetailsFields value={stoolDetails} onChange={setStoolDetails} />
+                  )}
+                  {formStoolAlert && <StoolAlertBanner reason={formStoolAlert} />}
+
                   <BabyMoodSelector
                     label="Baby's mood"
                     value={babyMood}
@@ -842,7 +924,7 @@ export function DiaperView() {
           <Card padding="none">
             <div className="px-4 py-3 border-b border-gray-100">
               <h3 className="font-semibold text-gray-900">Recent Changes</h3>
-              <p className="text-xs text-gray-500">Tap to edit</p>
+              {can('editHistory') && <p className="text-xs text-gray-500">Tap to edit</p>}
             </div>
             <div className="divide-y divide-gray-50">
               {changes.slice(0, 10).map((change) => {
@@ -853,6 +935,7 @@ export function DiaperView() {
                   <button
                     key={change.id}
                     onClick={() => handleEditClick(change)}
+                    disabled={!can('editHistory')}
                     className="w-full px-4 py-3 flex items-center gap-3 hover:bg-gray-50 transition-colors text-left"
                   >
                     <div
@@ -867,6 +950,13 @@ export function DiaperView() {
                         {config.label}
                       </p>
                       <div className="flex items-center gap-2 text-sm text-gray-500">
+                        {change.stoolColor && (
+                          <span
+                            className="w-3 h-3 rounded-full border border-gray-200"
+                            style={{ backgroundColor: STOOL_COLOR_CONFIG[change.stoolColor].color }}
+                            title={STOOL_COLOR_CONFIG[change.stoolColor].label}
+                          />
+                        )}
                         <Clock className="w-3 h-3" />
                         <span>{format(parseISO(change.timestamp), 'MMM d, h:mm a')}</span>
                       </div>
@@ -0,0 +1,130 @@
+import { clsx } from 'clsx';
+import { SegmentedControl } from '@/components/ui/Select';
+import type { StoolAmount, StoolColor, StoolConsistency, StoolDetails } from '@/types';
+import { STOOL_AMOUNT_CONFIG, STOOL_COLOR_CONFIG, STOOL_CONSISTENCY_CONFIG } from '@/types';
+import { AlertTriangle, Check } from 'lucide-react';
+
+const amountOptions = (Object.keys(STOOL_AMOUNT_CONFIG) as StoolAmount[]).map((amount) => ({
+  value: amount,
+  label: STOOL_AMOUNT_CONFIG[amount].label,
+}));
+
+interface StoolDetailsFieldsProps {
+  value: StoolDetails;
+  onChange: (value: StoolDetails) => void;
+}
+
+// Color card, consistency, amount and blood/mucus flags for a full diaper. Tapping a selected option clears it.
+export function StoolDetailsFields({ value, onChange }: StoolDetailsFieldsProps) {
+  const update = (updates: Partial<StoolDetails>) => onChange({ ...value, ...updates });
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Stool color</label>
+        <div className="grid grid-cols-4 gap-2">
+          {(Object.keys(STOOL_COLOR_CONFIG) as StoolColor[]).map((color) => {
+            const config = STOOL_COLOR_CONFIG[color];
+            const isSelected = value.stoolColor === color;
+            return (
+              <button
+                key={color}
+                type="button"
+                onClick={() => update({ stoolColor: isSelected ? null : color })}
+                className={clsx(
+                  'flex flex-col items-center gap-1 p-1.5 rounded-xl border-2 transition-all duration-200',
+                  isSelected ? 'border-primary-500 bg-primary-50' : 'border-transparent'
+                )}
+                aria-pressed={isSelected}
+              >
+                <span
+                  className="w-8 h-8 rounded-full border border-gray-200 flex items-center justify-center"
+                  style={{ backgroundColor: config.color }}
+                >
+                  {isSelected && <Check className={clsx('w-4 h-4', color === 'pale' || color === 'yellow' ? 'text-gray-700' : 'text-white')} />}
+                </span>
+                <span className="text-[11px] leading-tight text-gray-600 text-center">{config.label}</span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Consistency</label>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(STOOL_CONSISTENCY_CONFIG) as StoolConsistency[]).map((consistency) => {
+            const isSelected = value.stoolConsistency === consistency;
+            return (
+              <button
+                key={consistency}
+                type="button"
+                onClick={() => update({ stoolConsistency: isSelected ? null : consistency })}
+                className={clsx(
+                  'px-3 py-1.5 rounded-full text-sm font-medium border-2 transition-all duration-200',
+                  isSelected
+                    ? 'border-primary-500 bg-primary-50 text-primary-700'
+                    : 'border-gray-200 bg-white text-gray-600 hover:border-gray-300'
+                )}
+                aria-pressed={isSelected}
+              >
+                {STOOL_CONSISTENCY_CONFIG[consistency].label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Amount</label>
+        <SegmentedControl
+          options={amountOptions}
+          value={value.stoolAmount ?? ''}
+          onChange={(amount) => update({ stoolAmount: amount === value.stoolAmount ? null : amount as StoolAmount })}
+          fullWidth
+        />
+      </div>
+
+      <div className="flex gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={value.hasBlood}
+            onChange={(e) => update({ hasBlood: e.target.checked })}
+            className="w-4 h-4 rounded border-gray-300 text-primary-500"
+          />
+          Blood
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={value.hasMucus}
+            onChange={(e) => update({ hasMucus: e.target.checked })}
+            className="w-4 h-4 rounded border-gray-300 text-primary-500"
+          />
+          Mucus
+        </label>
+      </div>
+    </div>
+  );
+}
+
+interface StoolAlertBannerProps {
+  reason: string;
+  loggedAt?: string; // Shown for a logged change, left out while picking details
+}
+
+export function StoolAlertBanner({ reason, loggedAt }: StoolAlertBannerProps) {
+  return (
+    <div role="alert" className="flex gap-3 p-4 rounded-2xl bg-red-50 border-2 border-red-300">
+      <AlertTriangle className="w-6 h-6 text-red-600 flex-shrink-0" />
+      <div>
+        <p className="font-semibold text-red-800">Contact your pediatrician</p>
+        <p className="text-sm text-red-700">
+          {reason}{loggedAt ? ` logged ${loggedAt}` : ''}. Pale, red or black stool after the first days of life,
+          or blood in the diaper, should be checked by a doctor.
+        </p>
+      </div>
+    </div>
+  );
+}
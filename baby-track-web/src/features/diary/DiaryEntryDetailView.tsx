@@ -0,0 +1,187 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Header } from '@/components/layout/Header';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { MoodIndicator } from '@/components/ui/MoodSelector';
+import { useAuth } from '@/features/auth/AuthContext';
+import { useAppStore } from '@/stores/appStore';
+import { subscribeToDiaryEntries } from '@/lib/firestore';
+import { toast } from '@/stores/toastStore';
+import { useBabyPermissions } from '@/hooks/useBabyPermissions';
+import type { CreateDiaryEntryInput, DiaryEntry } from '@/types';
+import { DiaryEntryForm } from './DiaryEntryForm';
+import { saveDiaryEntry, removeDiaryEntry } from './diaryEntryStorage';
+import { ArrowLeft, Pencil, Trash2, BookHeart } from 'lucide-react';
+
+export function DiaryEntryDetailView() {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const { selectedBaby } = useAppStore();
+  const { can } = useBabyPermissions();
+  const [entries, setEntries] = useState<DiaryEntry[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [deleteConfirm, setDeleteConfirm] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!selectedBaby) return;
+
+    const unsubscribe = subscribeToDiaryEntries(selectedBaby.id, (data) => {
+      setEntries(data);
+      setLoaded(true);
+    });
+
+    return () => unsubscribe();
+  }, [selectedBaby]);
+
+  const entry = entries.find((e) => e.id === id) || null;
+
+  const handleSave = async (input: CreateDiaryEntryInput, photoFile: File | null) => {
+    if (!user || !selectedBaby || !entry) return;
+
+    setSaving(true);
+    try {
+      await saveDiaryEntry(selectedBaby.id, user.uid, input, photoFile, entry);
+      toast.success('Diary entry updated');
+      setEditing(false);
+    } catch (error) {
+      console.error('Error updating diary entry:', error);
+      toast.error('Failed to update diary entry');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!entry) return;
+
+    setSaving(true);
+    try {
+      await removeDiaryEntry(entry);
+      toast.success('Diary entry deleted');
+      navigate('/more/diary');
+    } catch (error) {
+      console.error('Error deleting diary entry:', error);
+      toast.error('Failed to delete diary entry');
+      setSaving(false);
+    }
+  };
+
+  const backButton = (
+    <Button size="sm" variant="ghost" onClick={() => navigate('/more/diary')} aria-label="Back to diary">
+      <ArrowLeft className="w-4 h-4" />
+    </Button>
+  );
+
+  if (!selectedBaby) {
+    return (
+      <div className="p-4 text-center text-gray-500">
+        Please select a baby first
+      </div>
+    );
+  }
+
+  if (!entry) {
+    return (
+      <div>
+        <Header title="Diary Entry" showBabySwitcher={false} rightAction={backButton} />
+        <div className="px-4 py-4">
+          <Card className="text-center py-8">
+            <BookHeart className="w-12 h-12 mx-auto text-gray-300 mb-3" />
+            <p className="text-gray-500">{loaded ? 'This entry no longer exists' : 'Loading entry...'}</p>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <Header title="Diary Entry" showBabySwitcher={false} rightAction={backButton} />
+
+      <div className="px-4 py-4 space-y-4">
+        {editing && can('editHistory') ? (
+          <DiaryEntryForm
+            entry={entry}
+            saving={saving}
+            onSubmit={handleSave}
+            onCancel={() => setEditing(false)}
+          />
+        ) : (
+          <Card padding="none" className="overflow-hidden">
+            {entry.photoUrl && (
+              <img
+                src={entry.photoUrl}
+                alt={entry.title || 'Diary photo'}
+                className="w-full max-h-96 object-cover"
+              />
+            )}
+            <div className="p-5 space-y-3">
+              <div>
+                <p className="text-sm text-gray-400">
+                  {new Date(entry.date).toLocaleDateString('en-US', {
+                    weekday: 'long',
+                    month: 'long',
+                    day: 'numeric',
+                    year: 'numeric',
+                  })}
+                </p>
+                <h2 className="text-xl font-bold text-gray-900">{entry.title || 'Untitled'}</h2>
+              </div>
+              {entry.mood && <MoodIndicator babyMood={entry.mood} />}
+              {entry.notes && (
+                <p className="text-gray-700 whitespace-pre-wrap">{entry.notes}</p>
+              )}
+            </div>
+          </Card>
+        )}
+
+        {!editing && (can('editHistory') || can('deleteHistory')) && (
+          <div className="flex gap-2">
+            {can('editHistory') && (
+              <Button variant="outline" className="flex-1" onClick={() => setEditing(true)}>
+                <Pencil className="w-4 h-4 mr-2" />
+                Edit
+              </Button>
+            )}
+            {can('deleteHistory') && (
+              <Button
+                variant="outline"
+                className="flex-1 text-red-600"
+                onClick={() => setDeleteConfirm(true)}
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </Button>
+            )}
+          </div>
+        )}
+
+        {deleteConfirm && can('deleteHistory') && (
+          <Card className="border-2 border-red-300 bg-red-50">
+            <h3 className="font-semibold text-gray-900 mb-2">Delete diary entry?</h3>
+            <p className="text-sm text-red-700 mb-4">
+              This entry{entry.photoUrl ? ' and its photo' : ''} will be permanently deleted. This cannot be undone.
+            </p>
+            <div className="flex gap-2">
+              <Button variant="danger" className="flex-1" onClick={handleDelete} disabled={saving}>
+                {saving ? 'Deleting...' : 'Delete'}
+              </Button>
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => setDeleteConfirm(false)}
+                disabled={saving}
+              >
+                Cancel
+              </Button>
+            </div>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
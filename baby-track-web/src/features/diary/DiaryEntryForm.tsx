@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input, Textarea } from '@/components/ui/Input';
+import { BabyMoodSelector } from '@/components/ui/MoodSelector';
+import type { BabyMood, CreateDiaryEntryInput, DiaryEntry } from '@/types';
+import { Camera, X } from 'lucide-react';
+
+interface DiaryEntryFormProps {
+  entry?: DiaryEntry | null;
+  saving?: boolean;
+  onSubmit: (input: CreateDiaryEntryInput, photoFile: File | null) => void;
+  onCancel: () => void;
+}
+
+export function DiaryEntryForm({ entry, saving = false, onSubmit, onCancel }: DiaryEntryFormProps) {
+  const [date, setDate] = useState(entry?.date.split('T')[0] || new Date().toISOString().split('T')[0]);
+  const [title, setTitle] = useState(entry?.title || '');
+  const [notes, setNotes] = useState(entry?.notes || '');
+  const [mood, setMood] = useState<BabyMood | null>(entry?.mood ?? null);
+  const [photoUrl, setPhotoUrl] = useState<string | null>(entry?.photoUrl ?? null);
+  const [photoFile, setPhotoFile] = useState<File | null>(null);
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setPhotoFile(file);
+      setPhotoUrl(URL.createObjectURL(file));
+    }
+  };
+
+  const handleRemovePhoto = () => {
+    setPhotoFile(null);
+    setPhotoUrl(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!date) return;
+
+    onSubmit(
+      {
+        date,
+        title: title.trim() || null,
+        notes: notes.trim() || null,
+        // A new file replaces the current photo once uploaded by the caller
+        photoUrl: photoFile ? entry?.photoUrl ?? null : photoUrl,
+        mood,
+      },
+      photoFile
+    );
+  };
+
+  const hasContent = !!(title.trim() || notes.trim() || photoUrl);
+
+  return (
+    <Card>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-gray-900">{entry ? 'Edit Entry' : 'New Entry'}</h3>
+        <button type="button" onClick={onCancel} aria-label="Close diary form">
+          <X className="w-5 h-5 text-gray-400" />
+        </button>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {/* Photo */}
+        {photoUrl ? (
+          <div className="relative">
+            <img
+              src={photoUrl}
+              alt="Diary photo preview"
+              className="w-full max-h-64 object-cover rounded-xl"
+            />
+            <button
+              type="button"
+              onClick={handleRemovePhoto}
+              aria-label="Remove photo"
+              className="absolute top-2 right-2 w-8 h-8 rounded-full bg-black/50 text-white flex items-center justify-center"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ) : (
+          <label className="flex flex-col items-center justify-center gap-2 py-8 border-2 border-dashed border-gray-200 rounded-xl cursor-pointer hover:border-primary-300 transition-colors">
+            <input
+              type="file"
+              accept="image/*"
+              onChange={handlePhotoChange}
+              className="hidden"
+              aria-label="Add photo"
+            />
+            <Camera className="w-8 h-8 text-gray-400" />
+            <span className="text-sm text-gray-500">Tap to add a photo</span>
+          </label>
+        )}
+
+        <Input
+          type="date"
+          label="Date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          required
+        />
+
+        <Input
+          label="Title (optional)"
+          placeholder="e.g., First trip to the beach"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+        />
+
+        <Textarea
+          label="Notes (optional)"
+          placeholder="What happened today?"
+          rows={4}
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+        />
+
+        <BabyMoodSelector value={mood} onChange={setMood} label="Baby's Mood" />
+
+        <div className="flex gap-2">
+          <Button type="submit" className="flex-1" disabled={saving || !date || !hasContent}>
+            {saving ? 'Saving...' : entry ? 'Save Changes' : 'Add Entry'}
+          </Button>
+          <Button type="button" variant="outline" className="flex-1" onClick={onCancel} disabled={saving}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </Card>
+  );
+}
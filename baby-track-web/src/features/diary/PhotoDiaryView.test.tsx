@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { BrowserRouter } from 'react-router-dom';
+import { mockBaby, mockSettings, mockUser } from '@/test/mocks';
+import type { DiaryEntry } from '@/types';
+
+let diaryCallback: ((entries: DiaryEntry[]) => void) | null = null;
+
+const mockCreateDiaryEntry = vi.fn();
+const mockNavigate = vi.fn();
+
+vi.mock('@/lib/firestore', () => ({
+  subscribeToDiaryEntries: vi.fn((_: string, callback: (entries: DiaryEntry[]) => void) => {
+    diaryCallback = callback;
+    callback([]);
+    return vi.fn();
+  }),
+  createDiaryEntry: (...args: unknown[]) => mockCreateDiaryEntry(...args),
+  updateDiaryEntry: vi.fn(),
+  deleteDiaryEntry: vi.fn(),
+}));
+
+vi.mock('@/lib/storage', () => ({
+  uploadDiaryPhoto: vi.fn(),
+  deleteImage: vi.fn(),
+}));
+
+vi.mock('@/features/auth/AuthContext', () => ({
+  useAuth: () => ({
+    user: mockUser,
+  }),
+}));
+
+vi.mock('@/stores/appStore', () => ({
+  useAppStore: () => ({
+    settings: mockSettings,
+    babies: [mockBaby],
+    selectedBaby: mockBaby,
+    userId: mockUser.uid,
+  }),
+}));
+
+vi.mock('react-router-dom', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('react-router-dom')>()),
+  useNavigate: () => mockNavigate,
+}));
+
+import { PhotoDiaryView } from './PhotoDiaryView';
+
+const renderPhotoDiaryView = () => render(
+  <BrowserRouter>
+    <PhotoDiaryView />
+  </BrowserRouter>
+);
+
+const makeEntry = (overrides: Partial<DiaryEntry> = {}): DiaryEntry => ({
+  id: 'entry-1',
+  babyId: mockBaby.id,
+  userId: mockUser.uid,
+  date: '2024-03-10T12:00:00.000Z',
+  title: 'First bath',
+  notes: null,
+  photoUrl: null,
+  mood: null,
+  createdAt: '2024-03-10T12:00:00.000Z',
+  updatedAt: '2024-03-10T12:00:00.000Z',
+  ...overrides,
+});
+
+describe('PhotoDiaryView', () => {
+  beforeEach(() => {
+    diaryCallback = null;
+    mockNavigate.mockReset();
+    mockCreateDiaryEntry.mockReset();
+    mockCreateDiaryEntry.mockResolvedValue('entry-new');
+  });
+
+  it('groups entries into a month timeline and opens the detail view', async () => {
+    const user = userEvent.setup();
+    renderPhotoDiaryView();
+
+    act(() => {
+      diaryCallback?.([
+        makeEntry({ id: 'entry-2', title: 'Rolled over', date: '2024-04-02T12:00:00.000Z' }),
+        makeEntry({ id: 'entry-1', title: 'First bath' }),
+        makeEntry({ id: 'entry-3', title: 'Grandma visit', date: '2024-03-20T12:00:00.000Z' }),
+      ]);
+    });
+
+    const headings = screen.getAllByRole('heading', { level: 3 }).map((heading) => heading.textContent);
+    expect(headings).toEqual(['April 20241 entry', 'March 20242 entries']);
+
+    await user.click(screen.getByLabelText('Open diary entry Grandma visit'));
+    expect(mockNavigate).toHaveBeenCalledWith('/more/diary/entry-3');
+  });
+
+  it('creates an entry with the selected mood', async () => {
+    const user = userEvent.setup();
+    renderPhotoDiaryView();
+
+    await user.click(screen.getByRole('button', { name: 'Add' }));
+    await user.type(screen.getByPlaceholderText('e.g., First trip to the beach'), 'Park day');
+    await user.click(screen.getByRole('button', { name: 'Happy' }));
+    await user.click(screen.getByRole('button', { name: 'Add Entry' }));
+
+    await waitFor(() => {
+      expect(mockCreateDiaryEntry).toHaveBeenCalledWith(
+        mockBaby.id,
+        mockUser.uid,
+        expect.objectContaining({ title: 'Park day', mood: 'happy', photoUrl: null })
+      );
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Header } from '@/components/layout/Header';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { MoodIndicator } from '@/components/ui/MoodSelector';
+import { useAuth } from '@/features/auth/AuthContext';
+import { useAppStore } from '@/stores/appStore';
+import { subscribeToDiaryEntries } from '@/lib/firestore';
+import { toast } from '@/stores/toastStore';
+import { useBabyPermissions } from '@/hooks/useBabyPermissions';
+import { groupEntriesByMonth, formatMonthKey } from '@/types';
+import type { CreateDiaryEntryInput, DiaryEntry } from '@/types';
+import { DiaryEntryForm } from './DiaryEntryForm';
+import { saveDiaryEntry } from './diaryEntryStorage';
+import { BookHeart, Plus, ChevronRight, Image as ImageIcon } from 'lucide-react';
+
+export function PhotoDiaryView() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { selectedBaby } = useAppStore();
+  const { can } = useBabyPermissions();
+  const [entries, setEntries] = useState<DiaryEntry[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!selectedBaby) return;
+
+    const unsubscribe = subscribeToDiaryEntries(selectedBaby.id, (data) => {
+      setEntries(data);
+    });
+
+    return () => unsubscribe();
+  }, [selectedBaby]);
+
+  const handleCreate = async (input: CreateDiaryEntryInput, photoFile: File | null) => {
+    if (!user || !selectedBaby) return;
+
+    setSaving(true);
+    try {
+      await saveDiaryEntry(selectedBaby.id, user.uid, input, photoFile);
+      toast.success('Diary entry saved');
+      setShowForm(false);
+    } catch (error) {
+      console.error('Error adding diary entry:', error);
+      toast.error('Failed to save diary entry');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const grouped = groupEntriesByMonth(entries);
+  const monthKeys = [...grouped.keys()].sort((a, b) => b.localeCompare(a));
+  const photoCount = entries.filter((entry) => entry.photoUrl).length;
+
+  if (!selectedBaby) {
+    return (
+      <div className="p-4 text-center text-gray-500">
+        Please select a baby first
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <Header
+        title="Photo Diary"
+        showBabySwitcher={false}
+        rightAction={
+          can('log') && (
+            <Button size="sm" onClick={() => setShowForm(true)}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add
+            </Button>
+          )
+        }
+      />
+
+      <div className="px-4 py-4 space-y-4">
+        {/* Stats */}
+        {entries.length > 0 && (
+          <div className="grid grid-cols-2 gap-4">
+            <Card className="text-center">
+              <p className="text-3xl font-bold text-pink-500">{entries.length}</p>
+              <p className="text-sm text-gray-500">Entries</p>
+            </Card>
+            <Card className="text-center">
+              <p className="text-3xl font-bold text-purple-500">{photoCount}</p>
+              <p className="text-sm text-gray-500">Photos</p>
+            </Card>
+          </div>
+        )}
+
+        {/* Add Form */}
+        {can('log') && showForm && (
+          <DiaryEntryForm
+            saving={saving}
+            onSubmit={handleCreate}
+            onCancel={() => setShowForm(false)}
+          />
+        )}
+
+        {/* Timeline */}
+        {monthKeys.map((monthKey) => {
+          const monthEntries = grouped.get(monthKey) ?? [];
+
+          return (
+            <div key={monthKey}>
+              <h3 className="font-semibold text-gray-900 mb-2">
+                {formatMonthKey(monthKey)}
+                <span className="ml-2 text-sm font-normal text-gray-400">
+                  {monthEntries.length} {monthEntries.length === 1 ? 'entry' : 'entries'}
+                </span>
+              </h3>
+              <div className="relative pl-4 border-l-2 border-pink-100 space-y-3">
+                {monthEntries.map((entry) => (
+                  <DiaryEntryCard
+                    key={entry.id}
+                    entry={entry}
+                    onOpen={() => navigate(`/more/diary/${entry.id}`)}
+                  />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+
+        {entries.length === 0 && !showForm && (
+          <Card className="text-center py-8">
+            <BookHeart className="w-12 h-12 mx-auto text-gray-300 mb-3" />
+            <p className="text-gray-500">No diary entries yet</p>
+            {can('log') && <p className="text-sm text-gray-400">Tap + to capture a moment</p>}
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function DiaryEntryCard({ entry, onOpen }: { entry: DiaryEntry; onOpen: () => void }) {
+  const displayDate = new Date(entry.date).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+
+  return (
+    <div className="relative">
+      <div className="absolute -left-[23px] top-5 w-3 h-3 rounded-full bg-pink-400 ring-4 ring-white" />
+      <Card padding="sm" className="hover:shadow-md transition-shadow">
+        <button
+          type="button"
+          onClick={onOpen}
+          className="w-full flex items-center gap-3 text-left"
+          aria-label={`Open diary entry ${entry.title || displayDate}`}
+        >
+          {entry.photoUrl ? (
+            <img
+              src={entry.photoUrl}
+              alt={entry.title || 'Diary photo'}
+              className="w-16 h-16 rounded-xl object-cover shrink-0"
+            />
+          ) : (
+            <div className="w-16 h-16 rounded-xl bg-pink-50 flex items-center justify-center shrink-0">
+              <ImageIcon className="w-6 h-6 text-pink-300" />
+            </div>
+          )}
+          <div className="flex-1 min-w-0">
+            <p className="text-xs text-gray-400">{displayDate}</p>
+            <p className="font-medium text-gray-900 truncate">{entry.title || 'Untitled'}</p>
+            {entry.notes && (
+              <p className="text-sm text-gray-500 truncate">{entry.notes}</p>
+            )}
+            {entry.mood && (
+              <div className="mt-1">
+                <MoodIndicator babyMood={entry.mood} size="sm" />
+              </div>
+            )}
+          </div>
+          <ChevronRight className="w-5 h-5 text-gray-300 shrink-0" />
+        </button>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { DiaryEntry } from '@/types';
+
+const mockUpdateDiaryEntry = vi.fn();
+const mockDeleteDiaryEntry = vi.fn();
+const mockDeleteImage = vi.fn();
+
+vi.mock('@/lib/firestore', () => ({
+  createDiaryEntry: vi.fn(),
+  updateDiaryEntry: (...args: unknown[]) => mockUpdateDiaryEntry(...args),
+  deleteDiaryEntry: (...args: unknown[]) => mockDeleteDiaryEntry(...args),
+}));
+
+vi.mock('@/lib/storage', () => ({
+  uploadDiaryPhoto: vi.fn(),
+  deleteImage: (...args: unknown[]) => mockDeleteImage(...args),
+}));
+
+import { removeDiaryEntry, saveDiaryEntry } from './diaryEntryStorage';
+
+const entry: DiaryEntry = {
+  id: 'entry-1',
+  babyId: 'baby-1',
+  userId: 'user-1',
+  date: '2024-03-10T12:00:00.000Z',
+  title: 'First bath',
+  notes: null,
+  photoUrl: 'https://example.com/old.jpg',
+  mood: null,
+  createdAt: '2024-03-10T12:00:00.000Z',
+  updatedAt: '2024-03-10T12:00:00.000Z',
+};
+
+describe('diaryEntryStorage', () => {
+  beforeEach(() => {
+    mockUpdateDiaryEntry.mockReset().mockResolvedValue(undefined);
+    mockDeleteDiaryEntry.mockReset().mockResolvedValue(undefined);
+    mockDeleteImage.mockReset().mockRejectedValue(new Error('storage/unauthorized'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('saves the entry even when the replaced photo cannot be deleted', async () => {
+    await expect(
+      saveDiaryEntry('baby-1', 'user-1', { date: entry.date, title: entry.title, photoUrl: null }, null, entry)
+    ).resolves.toBe('entry-1');
+
+    expect(mockUpdateDiaryEntry).toHaveBeenCalledWith('entry-1', expect.objectContaining({ photoUrl: null }));
+    expect(mockDeleteImage).toHaveBeenCalledWith(entry.photoUrl);
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it('removes the entry even when its photo cannot be deleted', async () => {
+    await expect(removeDiaryEntry(entry)).resolves.toBeUndefined();
+    expect(mockDeleteDiaryEntry).toHaveBeenCalledWith('entry-1');
+  });
+});
@@ -0,0 +1,46 @@
+import { createDiaryEntry, updateDiaryEntry, deleteDiaryEntry } from '@/lib/firestore';
+import { uploadDiaryPhoto, deleteImage } from '@/lib/storage';
+import type { CreateDiaryEntryInput, DiaryEntry } from '@/types';
+
+// The entry is already written by the time its old photo is cleaned up, so a photo left
+// behind in storage is logged rather than reported as a failed save
+async function deleteOldPhoto(photoUrl: string): Promise<void> {
+  try {
+    await deleteImage(photoUrl);
+  } catch (error) {
+    console.error('Error deleting diary photo:', error);
+  }
+}
+
+// Create or update a diary entry, uploading a newly picked photo first.
+// Replaced or removed photos are cleaned up from storage after the write succeeds.
+export async function saveDiaryEntry(
+  babyId: string,
+  userId: string,
+  input: CreateDiaryEntryInput,
+  photoFile: File | null,
+  existing?: DiaryEntry | null
+): Promise<string> {
+  const photoUrl = photoFile ? await uploadDiaryPhoto(userId, photoFile) : input.photoUrl ?? null;
+  const payload: CreateDiaryEntryInput = { ...input, photoUrl };
+
+  if (!existing) {
+    return createDiaryEntry(babyId, userId, payload);
+  }
+
+  await updateDiaryEntry(existing.id, payload);
+
+  if (existing.photoUrl && existing.photoUrl !== photoUrl) {
+    await deleteOldPhoto(existing.photoUrl);
+  }
+
+  return existing.id;
+}
+
+export async function removeDiaryEntry(entry: DiaryEntry): Promise<void> {
+  await deleteDiaryEntry(entry.id);
+
+  if (entry.photoUrl) {
+    await deleteOldPhoto(entry.photoUrl);
+  }
+}
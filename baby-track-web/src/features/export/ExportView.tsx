@@ -111,9 +111,11 @@ export function ExportView() {
           // Add section header
           csvRows.push(`\n--- ${collectionName} ---`);
 
-          // Get headers from first item
-          const firstItem = (items as Record<string, unknown>[])[0];
-          const headers = Object.keys(firstItem);
+          // Get headers from every item, since newer fields (like per-side pump
+          // volumes) are missing on older entries
+          const headers = Array.from(
+            new Set((items as Record<string, unknown>[]).flatMap((item) => Object.keys(item)))
+          );
           csvRows.push(headers.join(','));
 
           // Add data rows
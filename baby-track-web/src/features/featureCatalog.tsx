@@ -3,6 +3,7 @@ import {
   Apple,
   Baby,
   BarChart2,
+  BookHeart,
   Briefcase,
   Droplet,
   Footprints,
@@ -10,6 +11,7 @@ import {
   Leaf,
   Milk,
   Moon,
+  Package,
   Pill,
   SmilePlus,
   Star,
@@ -26,6 +28,7 @@ export type FeatureId =
   | 'diaper'
   | 'bag'
   | 'milk-stash'
+  | 'formula'
   | 'stats'
   | 'play'
   | 'walks'
@@ -35,7 +38,8 @@ export type FeatureId =
   | 'medicine'
   | 'teething'
   | 'pediatrician'
-  | 'milestones';
+  | 'milestones'
+  | 'diary';
 
 interface FeatureDefinition {
   id: FeatureId;
@@ -67,6 +71,7 @@ export const FEATURE_DEFINITIONS: FeatureDefinition[] = [
   { id: 'diaper', label: 'Diaper', path: '/diaper', color: '#4caf50', icon: Leaf, emoji: '🧷' },
   { id: 'bag', label: 'Bag', path: '/more/diaper-bag', color: '#f59e0b', icon: Briefcase, emoji: '🎒' },
   { id: 'milk-stash', label: 'Milk Stash', path: '/more/milk-stash', color: '#3f51b5', icon: Milk, emoji: '🥛' },
+  { id: 'formula', label: 'Formula', path: '/more/formula', color: '#2196f3', icon: Package, emoji: '🥫' },
   { id: 'stats', label: 'Stats', path: '/stats', color: '#9c27b0', icon: BarChart2, emoji: '📊' },
   { id: 'play', label: 'Play', path: '/more/play', color: '#ff9800', icon: Gamepad2, emoji: '🎮' },
   { id: 'walks', label: 'Walks', path: '/more/walks', color: '#8bc34a', icon: Footprints, emoji: '🚶' },
@@ -77,6 +82,7 @@ export const FEATURE_DEFINITIONS: FeatureDefinition[] = [
   { id: 'teething', label: 'Teething', path: '/more/teething', color: '#e91e63', icon: SmilePlus, emoji: '🦷' },
   { id: 'pediatrician', label: 'Doctor', path: '/more/pediatrician', color: '#00bcd4', icon: Stethoscope, emoji: '👨‍⚕️' },
   { id: 'milestones', label: 'Milestones', path: '/more/milestones', color: '#ffc107', icon: Star, emoji: '⭐' },
+  { id: 'diary', label: 'Diary', path: '/more/diary', color: '#ec407a', icon: BookHeart, emoji: '📸' },
 ];
 
 const FEATURE_BY_ID = new Map(FEATURE_DEFINITIONS.map((feature) => [feature.id, feature]));
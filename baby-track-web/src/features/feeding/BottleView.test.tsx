@@ -2,24 +2,40 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { act, render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { mockBaby, mockSettings, mockUser } from '@/test/mocks';
-import type { BottleSession, MilkStash } from '@/types';
+import type { BottleSession, FormulaContainer, MilkStash } from '@/types';
 
 let bottleCallback: ((sessions: BottleSession[]) => void) | null = null;
 let milkStashCallback: ((stash: MilkStash[]) => void) | null = null;
+let formulaCallback: ((containers: FormulaContainer[]) => void) | null = null;
 
 const mockCreateBottleSession = vi.fn();
 const mockCreateBottleSessionFromMilkStash = vi.fn();
+const mockCreateBottleSessionFromFormula = vi.fn();
+const mockMarkFormulaBottlePrepared = vi.fn();
+const mockSubscribeToMilkStash = vi.fn((_: string[], callback: (stash: MilkStash[]) => void) => {
+  milkStashCallback = callback;
+  callback([]);
+  return vi.fn();
+});
+const mockBabies = [
+  mockBaby,
+  { ...mockBaby, id: 'baby-2', name: 'Twin' },
+  { ...mockBaby, id: 'baby-3', userId: 'user-2', name: 'Other household' },
+];
 
 vi.mock('@/lib/firestore', () => ({
   createBottleSession: (...args: unknown[]) => mockCreateBottleSession(...args),
   createBottleSessionFromMilkStash: (...args: unknown[]) => mockCreateBottleSessionFromMilkStash(...args),
+  createBottleSessionFromFormula: (...args: unknown[]) => mockCreateBottleSessionFromFormula(...args),
+  markFormulaBottlePrepared: (...args: unknown[]) => mockMarkFormulaBottlePrepared(...args),
   subscribeToBottleSessions: vi.fn((_: string, callback: (sessions: BottleSession[]) => void) => {
     bottleCallback = callback;
     callback([]);
     return vi.fn();
   }),
-  subscribeToMilkStash: vi.fn((_: string, callback: (stash: MilkStash[]) => void) => {
-    milkStashCallback = callback;
+  subscribeToMilkStash: (...args: Parameters<typeof mockSubscribeToMilkStash>) => mockSubscribeToMilkStash(...args),
+  subscribeToFormulaContainers: vi.fn((_: string[], callback: (containers: FormulaContainer[]) => void) => {
+    formulaCallback = callback;
     callback([]);
     return vi.fn();
   }),
@@ -34,6 +50,9 @@ vi.mock('@/features/auth/AuthContext', () => ({
 vi.mock('@/stores/appStore', () => ({
   useAppStore: () => ({
     settings: mockSettings,
+    babies: mockBabies,
+    selectedBaby: mockBaby,
+    userId: mockUser.uid,
   }),
 }));
 
@@ -43,10 +62,22 @@ describe('BottleView', () => {
   beforeEach(() => {
     bottleCallback = null;
     milkStashCallback = null;
+    formulaCallback = null;
     mockCreateBottleSession.mockReset();
     mockCreateBottleSession.mockResolvedValue('bottle-1');
     mockCreateBottleSessionFromMilkStash.mockReset();
     mockCreateBottleSessionFromMilkStash.mockResolvedValue('bottle-1');
+    mockCreateBottleSessionFromFormula.mockReset();
+    mockCreateBottleSessionFromFormula.mockResolvedValue('bottle-1');
+    mockMarkFormulaBottlePrepared.mockReset();
+    mockMarkFormulaBottlePrepared.mockResolvedValue(undefined);
+    mockSubscribeToMilkStash.mockClear();
+  });
+
+  it('uses the milk stash shared by the household', () => {
+    render(<BottleView baby={mockBaby} />);
+
+    expect(mockSubscribeToMilkStash).toHaveBeenCalledWith(['baby-1', 'baby-2'], expect.any(Function));
   });
 
   it('links a selected fridge bottle when logging a breast milk feeding', async () => {
@@ -100,4 +131,119 @@ describe('BottleView', () => {
 
     expect(mockCreateBottleSession).not.toHaveBeenCalled();
   });
+
+  it('records what was drunk and returns the leftover to the stash', async () => {
+    const user = userEvent.setup();
+    render(<BottleView baby={mockBaby} />);
+
+    act(() => {
+      milkStashCallback?.([
+        {
+          id: 'stash-1',
+          userId: mockUser.uid,
+          date: '2024-01-15',
+          volume: 4,
+          volumeUnit: 'oz',
+          location: 'fridge',
+          pumpedDate: '2024-01-15T09:00:00.000Z',
+          expirationDate: '2024-01-19T09:00:00.000Z',
+          isUsed: false,
+          usedDate: null,
+          isInUse: false,
+          inUseStartDate: null,
+          notes: null,
+          createdAt: '2024-01-15T09:00:00.000Z',
+          updatedAt: '2024-01-15T09:00:00.000Z',
+        },
+      ]);
+    });
+
+    await user.click(screen.getByRole('button', { name: /^4\s*oz$/i }));
+    await user.click(screen.getByRole('button', { name: /4\.0 oz/i }));
+    await user.type(screen.getByPlaceholderText('All of it'), '3');
+
+    expect(screen.getByText('1 oz left in the bottle')).toBeInTheDocument();
+    expect(screen.getByLabelText(/Return the leftover to the stash/)).toBeChecked();
+
+    await user.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => {
+      expect(mockCreateBottleSessionFromMilkStash).toHaveBeenCalledWith(
+        mockBaby.id,
+        mockUser.uid,
+        expect.objectContaining({ volume: 3, offeredVolume: 4, milkStashId: 'stash-1', keepLeftover: true })
+      );
+    });
+  });
+
+  describe('formula inventory', () => {
+    const formulaContainer: FormulaContainer = {
+      id: 'formula-1',
+      userId: mockUser.uid,
+      brand: 'Similac',
+      amountUnit: 'scoops',
+      totalAmount: 60,
+      remainingAmount: 40,
+      amountPerOz: 0.5,
+      openedDate: new Date().toISOString(),
+      openExpiryDays: 30,
+      preparedAt: null,
+      isFinished: false,
+      finishedDate: null,
+      notes: null,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    it('deducts a formula bottle from the open container', async () => {
+      const user = userEvent.setup();
+      render(<BottleView baby={mockBaby} />);
+
+      act(() => {
+        formulaCallback?.([formulaContainer]);
+      });
+
+      await user.click(screen.getByRole('button', { name: 'Formula' }));
+      await user.click(screen.getByRole('button', { name: /^4\s*oz$/i }));
+
+      expect(screen.getByText('Deduct from')).toBeInTheDocument();
+      expect(screen.getByText(/40\.0 scoops left • uses 2\.0/)).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: 'Save' }));
+
+      await waitFor(() => {
+        expect(mockCreateBottleSessionFromFormula).toHaveBeenCalledWith(
+          mockBaby.id,
+          mockUser.uid,
+          expect.objectContaining({
+            contentType: 'formula',
+            formulaContainerId: 'formula-1',
+            volume: 4,
+          })
+        );
+      });
+      expect(mockCreateBottleSession).not.toHaveBeenCalled();
+    });
+
+    it('warns when a prepared bottle has been out too long', async () => {
+      const user = userEvent.setup();
+      render(<BottleView baby={mockBaby} />);
+
+      act(() => {
+        formulaCallback?.([formulaContainer]);
+      });
+      await user.click(screen.getByRole('button', { name: 'Formula' }));
+      await user.click(screen.getByRole('button', { name: 'Mixed a bottle' }));
+
+      expect(mockMarkFormulaBottlePrepared).toHaveBeenCalledWith('formula-1', true);
+
+      act(() => {
+        formulaCallback?.([
+          { ...formulaContainer, preparedAt: new Date(Date.now() - 3 * 60 * 60 * 1000).toISOString() },
+        ]);
+      });
+
+      expect(screen.getByText('Discard the prepared bottle')).toBeInTheDocument();
+    });
+  });
 });
@@ -5,13 +5,42 @@ import { Button } from '@/components/ui/Button';
 import { Input, Textarea } from '@/components/ui/Input';
 import { SegmentedControl } from '@/components/ui/Select';
 import { BabyMoodSelector } from '@/components/ui/MoodSelector';
-import { Baby, BottleSession, BottleContentType, BabyMood, MilkStash, VolumeUnit, BOTTLE_CONTENT_CONFIG, convertVolume } from '@/types';
-import { createBottleSession, createBottleSessionFromMilkStash, subscribeToBottleSessions, subscribeToMilkStash } from '@/lib/firestore';
+import {
+  Baby,
+  BottleSession,
+  BottleContentType,
+  BabyMood,
+  MilkStash,
+  FormulaContainer,
+  VolumeUnit,
+  BOTTLE_CONTENT_CONFIG,
+  FORMULA_AMOUNT_UNIT_CONFIG,
+  PREPARED_FORMULA_ROOM_TEMP_MINUTES,
+  convertVolume,
+  formatBottleVolume,
+  getHouseholdBabyIds,
+  getLeftoverExpirationMinutes,
+  parseBottleVolumeInput,
+  getDefaultFormulaContainer,
+  getFormulaAmountForVolume,
+  getPreparedFormulaExpirationMinutes,
+  isFormulaContainerExpired,
+} from '@/types';
+import {
+  createBottleSession,
+  createBottleSessionFromMilkStash,
+  createBottleSessionFromFormula,
+  markFormulaBottlePrepared,
+  subscribeToBottleSessions,
+  subscribeToMilkStash,
+  subscribeToFormulaContainers,
+} from '@/lib/firestore';
 import { useAuth } from '@/features/auth/AuthContext';
 import { useAppStore } from '@/stores/appStore';
 import { toast } from '@/stores/toastStore';
+import { useBabyPermissions } from '@/hooks/useBabyPermissions';
 import { clsx } from 'clsx';
-import { Milk, Plus, Zap, Edit3 } from 'lucide-react';
+import { Milk, Plus, Zap, Edit3, Package, Timer } from 'lucide-react';
 
 type EntryMode = 'quick' | 'manual';
 
@@ -22,6 +51,8 @@ const entryModeOptions = [
 
 interface BottleViewProps {
   baby: Baby;
+  // Stash bag to log, e.g. one opened from its label; starts the form with it picked
+  initialMilkStashId?: string | null;
 }
 
 const contentOptions = [
@@ -30,32 +61,38 @@ const contentOptions = [
   { value: 'mixed', label: 'Mixed', color: BOTTLE_CONTENT_CONFIG.mixed.color },
 ];
 
-export function BottleView({ baby }: BottleViewProps) {
+export function BottleView({ baby, initialMilkStashId = null }: BottleViewProps) {
   const { user } = useAuth();
-  const { settings } = useAppStore();
+  const { settings, babies } = useAppStore();
+  const { can } = useBabyPermissions();
   const [sessions, setSessions] = useState<BottleSession[]>([]);
   const [milkStash, setMilkStash] = useState<MilkStash[]>([]);
+  const [milkStashLoaded, setMilkStashLoaded] = useState(false);
+  const [formulaContainers, setFormulaContainers] = useState<FormulaContainer[]>([]);
 
   // Default to formula if feeding preference is formula
   const getInitialContentType = (): BottleContentType => {
-    if (settings?.feedingTypePreference === 'formula') {
+    if (settings?.feedingTypePreference === 'formula' && !initialMilkStashId) {
       return 'formula';
     }
     return 'breastMilk';
   };
   const [contentType, setContentType] = useState<BottleContentType>(getInitialContentType);
   const [volume, setVolume] = useState('');
+  const [consumedVolume, setConsumedVolume] = useState('');
+  const [keepLeftover, setKeepLeftover] = useState(true);
   const [volumeUnit, setVolumeUnit] = useState<VolumeUnit>(settings?.preferredVolumeUnit || 'oz');
   const [notes, setNotes] = useState('');
   const [babyMood, setBabyMood] = useState<BabyMood | null>(null);
-  const [showForm, setShowForm] = useState(false);
+  const [showForm, setShowForm] = useState(!!initialMilkStashId);
   const [saving, setSaving] = useState(false);
 
   // Entry mode state
   const [entryMode, setEntryMode] = useState<EntryMode>('quick');
   const [manualDate, setManualDate] = useState(new Date().toISOString().split('T')[0]);
   const [manualTime, setManualTime] = useState(format(new Date(), 'HH:mm'));
-  const [selectedMilkStashId, setSelectedMilkStashId] = useState<string | null>(null);
+  const [selectedMilkStashId, setSelectedMilkStashId] = useState<string | null>(initialMilkStashId);
+  const [selectedFormulaContainerId, setSelectedFormulaContainerId] = useState<string | null>(null);
 
   // Subscribe to sessions
   useEffect(() => {
@@ -63,15 +100,31 @@ export function BottleView({ baby }: BottleViewProps) {
     return () => unsubscribe();
   }, [baby.id]);
 
+  // The stash is shared by every baby in the household
+  const householdKey = getHouseholdBabyIds(babies, baby.id).join(',');
+
   useEffect(() => {
     if (!user) {
       setMilkStash([]);
       return;
     }
 
-    const unsubscribe = subscribeToMilkStash(user.uid, setMilkStash);
+    const unsubscribe = subscribeToMilkStash(householdKey.split(','), (stash) => {
+      setMilkStash(stash);
+      setMilkStashLoaded(true);
+    });
     return () => unsubscribe();
-  }, [user]);
+  }, [user, householdKey]);
+
+  useEffect(() => {
+    if (!user) {
+      setFormulaContainers([]);
+      return;
+    }
+
+    const unsubscribe = subscribeToFormulaContainers(householdKey.split(','), setFormulaContainers);
+    return () => unsubscribe();
+  }, [user, householdKey]);
 
   useEffect(() => {
     if (settings?.preferredVolumeUnit) {
@@ -81,10 +134,10 @@ export function BottleView({ baby }: BottleViewProps) {
 
   // Update content type when feeding preference changes
   useEffect(() => {
-    if (settings?.feedingTypePreference === 'formula') {
+    if (settings?.feedingTypePreference === 'formula' && !initialMilkStashId) {
       setContentType('formula');
     }
-  }, [settings?.feedingTypePreference]);
+  }, [settings?.feedingTypePreference, initialMilkStashId]);
 
   useEffect(() => {
     if (contentType !== 'breastMilk' && selectedMilkStashId) {
@@ -92,13 +145,24 @@ export function BottleView({ baby }: BottleViewProps) {
     }
   }, [contentType, selectedMilkStashId]);
 
-  const availableFridgeMilk = milkStash.filter((item) => item.location === 'fridge' && !item.isInUse);
+  const availableFridgeMilk = milkStash.filter(
+    (item) =>
+      item.location === 'fridge' &&
+      !item.isInUse &&
+      !(item.leftoverSince && getLeftoverExpirationMinutes(item.leftoverSince) <= 0)
+  );
 
   useEffect(() => {
-    if (selectedMilkStashId && !availableFridgeMilk.some((item) => item.id === selectedMilkStashId)) {
+    if (milkStashLoaded && selectedMilkStashId && !availableFridgeMilk.some((item) => item.id === selectedMilkStashId)) {
       setSelectedMilkStashId(null);
     }
-  }, [availableFridgeMilk, selectedMilkStashId]);
+  }, [milkStashLoaded, availableFridgeMilk, selectedMilkStashId]);
+
+  // Formula bottles deduct from the picked container, or the one they'd most likely come from
+  const usableFormulaContainers = formulaContainers.filter((container) => !isFormulaContainerExpired(container));
+  const selectedFormulaContainer =
+    usableFormulaContainers.find((container) => container.id === selectedFormulaContainerId)
+    ?? getDefaultFormulaContainer(formulaContainers);
 
   const handleQuickAdd = (quickVolume: number) => {
     setVolume(quickVolume.toString());
@@ -115,7 +179,13 @@ export function BottleView({ baby }: BottleViewProps) {
       return;
     }
 
-    const savedVolume = parseFloat(volume);
+    const parsedVolumes = parseBottleVolumeInput(volume, consumedVolume);
+    if (!parsedVolumes) {
+      toast.error('The amount drunk can\'t be more than the bottle.');
+      return;
+    }
+
+    const savedVolume = volumeValue;
     const savedUnit = volumeUnit;
     const selectedMilkStash = selectedMilkStashId
       ? availableFridgeMilk.find((item) => item.id === selectedMilkStashId) ?? null
@@ -138,7 +208,7 @@ export function BottleView({ baby }: BottleViewProps) {
     try {
       const bottleInput = {
         timestamp,
-        volume: savedVolume,
+        ...parsedVolumes,
         volumeUnit,
         contentType,
         milkStashId: contentType === 'breastMilk' ? selectedMilkStashId : null,
@@ -146,23 +216,34 @@ export function BottleView({ baby }: BottleViewProps) {
         babyMood,
       };
 
-      const sessionId = selectedMilkStash && contentType === 'breastMilk'
-        ? await createBottleSessionFromMilkStash(baby.id, user.uid, {
+      if (selectedMilkStash && contentType === 'breastMilk') {
+        await createBottleSessionFromMilkStash(baby.id, user.uid, {
           ...bottleInput,
           milkStashId: selectedMilkStash.id,
-        })
-        : await createBottleSession(baby.id, user.uid, bottleInput);
+          keepLeftover,
+        });
+      } else if (selectedFormulaContainer && contentType === 'formula') {
+        await createBottleSessionFromFormula(baby.id, user.uid, {
+          ...bottleInput,
+          formulaContainerId: selectedFormulaContainer.id,
+        });
+      } else {
+        await createBottleSession(baby.id, user.uid, bottleInput);
+      }
 
       // Reset form only on success
       setVolume('');
+      setConsumedVolume('');
+      setKeepLeftover(true);
       setNotes('');
       setBabyMood(null);
       setShowForm(false);
       setManualDate(new Date().toISOString().split('T')[0]);
       setManualTime(format(new Date(), 'HH:mm'));
       setSelectedMilkStashId(null);
+      setSelectedFormulaContainerId(null);
 
-      toast.success(`Bottle ${savedVolume} ${savedUnit} logged`);
+      toast.success(`Bottle ${formatBottleVolume({ ...parsedVolumes, volumeUnit: savedUnit })} logged`);
     } catch (error) {
       console.error('Error saving bottle session:', error);
       toast.error('Failed to save bottle feeding. Please try again.');
@@ -173,12 +254,15 @@ export function BottleView({ baby }: BottleViewProps) {
 
   const handleCancel = () => {
     setVolume('');
+    setConsumedVolume('');
+    setKeepLeftover(true);
     setNotes('');
     setBabyMood(null);
     setShowForm(false);
     setManualDate(new Date().toISOString().split('T')[0]);
     setManualTime(format(new Date(), 'HH:mm'));
     setSelectedMilkStashId(null);
+    setSelectedFormulaContainerId(null);
   };
 
   // Today's stats
@@ -194,7 +278,7 @@ export function BottleView({ baby }: BottleViewProps) {
   return (
     <div className="space-y-4">
       {/* Entry Mode Toggle */}
-      {!showForm && (
+      {can('log') && !showForm && (
         <div className="flex justify-center">
           <SegmentedControl
             options={entryModeOptions}
@@ -205,16 +289,26 @@ export function BottleView({ baby }: BottleViewProps) {
       )}
 
       {/* Content Type Selector */}
-      <div className="flex justify-center">
-        <SegmentedControl
-          options={contentOptions}
-          value={contentType}
-          onChange={(value) => setContentType(value as BottleContentType)}
+      {can('log') && (
+        <div className="flex justify-center">
+          <SegmentedControl
+            options={contentOptions}
+            value={contentType}
+            onChange={(value) => setContentType(value as BottleContentType)}
+          />
+        </div>
+      )}
+
+      {/* Prepared formula timer */}
+      {can('log') && contentType !== 'breastMilk' && usableFormulaContainers.length > 0 && (
+        <PreparedBottleCard
+          containers={usableFormulaContainers}
+          defaultContainer={selectedFormulaContainer}
         />
-      </div>
+      )}
 
       {/* Quick Add Buttons */}
-      {!showForm && entryMode === 'quick' && (
+      {can('log') && !showForm && entryMode === 'quick' && (
         <Card>
           <CardHeader title="Quick Add" subtitle="Tap to log a feeding" />
           <div className="flex flex-wrap gap-2">
@@ -248,7 +342,7 @@ export function BottleView({ baby }: BottleViewProps) {
       )}
 
       {/* Manual Entry Mode */}
-      {!showForm && entryMode === 'manual' && (
+      {can('log') && !showForm && entryMode === 'manual' && (
         <Card>
           <CardHeader
             title="Log Past Feeding"
@@ -272,7 +366,7 @@ export function BottleView({ baby }: BottleViewProps) {
             <div className="flex gap-3">
               <Input
                 type="number"
-                label="Volume"
+                label="Offered"
                 placeholder="0"
                 value={volume}
                 onChange={(e) => setVolume(e.target.value)}
@@ -293,6 +387,16 @@ export function BottleView({ baby }: BottleViewProps) {
               </div>
             </div>
 
+            <ConsumedVolumeInput
+              value={consumedVolume}
+              onChange={setConsumedVolume}
+              offered={volume}
+              volumeUnit={volumeUnit}
+              canKeepLeftover={contentType === 'breastMilk' && !!selectedMilkStashId}
+              keepLeftover={keepLeftover}
+              onKeepLeftoverChange={setKeepLeftover}
+            />
+
             {contentType === 'breastMilk' && (
               <FridgeMilkPicker
                 stash={availableFridgeMilk}
@@ -302,6 +406,16 @@ export function BottleView({ baby }: BottleViewProps) {
               />
             )}
 
+            {contentType === 'formula' && (
+              <FormulaContainerPicker
+                containers={usableFormulaContainers}
+                selectedContainerId={selectedFormulaContainer?.id ?? null}
+                volume={parseFloat(volume) || 0}
+                volumeUnit={volumeUnit}
+                onSelect={setSelectedFormulaContainerId}
+              />
+            )}
+
             <BabyMoodSelector
               label="Baby's mood"
               value={babyMood}
@@ -324,7 +438,7 @@ export function BottleView({ baby }: BottleViewProps) {
       )}
 
       {/* Entry Form (Quick mode) */}
-      {showForm && entryMode === 'quick' && (
+      {can('log') && showForm && entryMode === 'quick' && (
         <Card>
           <CardHeader
             title="Log Bottle Feeding"
@@ -335,7 +449,7 @@ export function BottleView({ baby }: BottleViewProps) {
             <div className="flex gap-3">
               <Input
                 type="number"
-                label="Volume"
+                label="Offered"
                 placeholder="0"
                 value={volume}
                 onChange={(e) => setVolume(e.target.value)}
@@ -357,6 +471,16 @@ export function BottleView({ baby }: BottleViewProps) {
               </div>
             </div>
 
+            <ConsumedVolumeInput
+              value={consumedVolume}
+              onChange={setConsumedVolume}
+              offered={volume}
+              volumeUnit={volumeUnit}
+              canKeepLeftover={contentType === 'breastMilk' && !!selectedMilkStashId}
+              keepLeftover={keepLeftover}
+              onKeepLeftoverChange={setKeepLeftover}
+            />
+
             {contentType === 'breastMilk' && (
               <FridgeMilkPicker
                 stash={availableFridgeMilk}
@@ -366,6 +490,16 @@ export function BottleView({ baby }: BottleViewProps) {
               />
             )}
 
+            {contentType === 'formula' && (
+              <FormulaContainerPicker
+                containers={usableFormulaContainers}
+                selectedContainerId={selectedFormulaContainer?.id ?? null}
+                volume={parseFloat(volume) || 0}
+                volumeUnit={volumeUnit}
+                onSelect={setSelectedFormulaContainerId}
+              />
+            )}
+
             <BabyMoodSelector
               label="Baby's mood"
               value={babyMood}
@@ -410,6 +544,58 @@ export function BottleView({ baby }: BottleViewProps) {
   );
 }
 
+// How much of the bottle was drunk, blank when the baby finished it
+function ConsumedVolumeInput({
+  value,
+  onChange,
+  offered,
+  volumeUnit,
+  canKeepLeftover,
+  keepLeftover,
+  onKeepLeftoverChange,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  offered: string;
+  volumeUnit: VolumeUnit;
+  canKeepLeftover: boolean;
+  keepLeftover: boolean;
+  onKeepLeftoverChange: (keep: boolean) => void;
+}) {
+  const parsed = parseBottleVolumeInput(offered, value);
+  const leftover = parsed?.offeredVolume ? parsed.offeredVolume - parsed.volume : 0;
+
+  return (
+    <div className="space-y-2">
+      <Input
+        type="number"
+        label={`Drank (${volumeUnit})`}
+        placeholder="All of it"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        step="0.5"
+        min="0"
+      />
+      {leftover > 0 && (
+        <p className="text-xs text-gray-500">
+          {Number(leftover.toFixed(1))} {volumeUnit} left in the bottle
+        </p>
+      )}
+      {leftover > 0 && canKeepLeftover && (
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={keepLeftover}
+            onChange={(e) => onKeepLeftoverChange(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Return the leftover to the stash (use within 2 hours)
+        </label>
+      )}
+    </div>
+  );
+}
+
 function FridgeMilkPicker({
   stash,
   volumeUnit,
@@ -461,6 +647,7 @@ function FridgeMilkPicker({
               parseISO(item.pumpedDate),
               item.pumpedDate.includes('T') ? 'MMM d, h:mm a' : 'MMM d'
             );
+            const leftoverMinutes = item.leftoverSince ? Math.round(getLeftoverExpirationMinutes(item.leftoverSince)) : null;
 
             return (
               <button
@@ -479,8 +666,8 @@ function FridgeMilkPicker({
                     <p className="font-medium text-gray-900">
                       {displayVolume.toFixed(1)} {volumeUnit}
                     </p>
-                    <p className="text-xs text-gray-500 mt-1">
-                      Pumped {pumpedDateLabel}
+                    <p className={clsx('text-xs mt-1', leftoverMinutes !== null ? 'text-amber-600' : 'text-gray-500')}>
+                      {leftoverMinutes !== null ? `Leftover • use within ${leftoverMinutes} min` : `Pumped ${pumpedDateLabel}`}
                     </p>
                   </div>
                   <div
@@ -498,3 +685,144 @@ function FridgeMilkPicker({
     </Card>
   );
 }
+
+function FormulaContainerPicker({
+  containers,
+  selectedContainerId,
+  volume,
+  volumeUnit,
+  onSelect,
+}: {
+  containers: FormulaContainer[];
+  selectedContainerId: string | null;
+  volume: number;
+  volumeUnit: VolumeUnit;
+  onSelect: (id: string) => void;
+}) {
+  if (containers.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        Add your formula under More → Formula to track how much is left.
+      </p>
+    );
+  }
+
+  return (
+    <Card className="border border-blue-100 bg-blue-50/50">
+      <div className="flex items-start justify-between gap-3 mb-3">
+        <p className="text-sm font-medium text-blue-900">Deduct from</p>
+        <Package className="w-5 h-5 text-blue-500 shrink-0" />
+      </div>
+
+      <div className="space-y-2">
+        {containers.map((container) => {
+          const isSelected = selectedContainerId === container.id;
+          const unitLabel = FORMULA_AMOUNT_UNIT_CONFIG[container.amountUnit].label.toLowerCase();
+          const needed = getFormulaAmountForVolume(container, volume, volumeUnit);
+
+          return (
+            <button
+              key={container.id}
+              type="button"
+              onClick={() => onSelect(container.id)}
+              className={clsx(
+                'w-full rounded-xl border px-3 py-3 text-left transition-all',
+                isSelected
+                  ? 'border-blue-500 bg-white shadow-sm'
+                  : 'border-blue-100 bg-white/70 hover:border-blue-300'
+              )}
+            >
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <p className="font-medium text-gray-900">{container.brand}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {container.remainingAmount.toFixed(1)} {unitLabel} left
+                    {needed > 0 && ` • uses ${needed.toFixed(1)}`}
+                    {!container.openedDate && ' • sealed'}
+                  </p>
+                </div>
+                <div
+                  className={clsx(
+                    'w-4 h-4 rounded-full border-2',
+                    isSelected ? 'border-blue-500 bg-blue-500' : 'border-blue-200 bg-white'
+                  )}
+                />
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
+
+// Counts down how long a mixed bottle can sit at room temperature
+function PreparedBottleCard({
+  containers,
+  defaultContainer,
+}: {
+  containers: FormulaContainer[];
+  defaultContainer: FormulaContainer | null;
+}) {
+  const [now, setNow] = useState(() => new Date());
+  const [saving, setSaving] = useState(false);
+  const prepared = containers.find((container) => container.preparedAt) ?? null;
+
+  useEffect(() => {
+    if (!prepared) return;
+    const interval = setInterval(() => setNow(new Date()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, [prepared]);
+
+  const handleToggle = async () => {
+    const container = prepared ?? defaultContainer;
+    if (!container) return;
+
+    setSaving(true);
+    try {
+      await markFormulaBottlePrepared(container.id, !prepared);
+      setNow(new Date());
+    } catch (error) {
+      console.error('Error updating prepared bottle:', error);
+      toast.error('Failed to update the bottle timer. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const minutesRemaining = prepared?.preparedAt
+    ? Math.round(getPreparedFormulaExpirationMinutes(prepared.preparedAt, now))
+    : PREPARED_FORMULA_ROOM_TEMP_MINUTES;
+  const isExpired = !!prepared && minutesRemaining <= 0;
+  const isExpiringSoon = !!prepared && !isExpired && minutesRemaining <= 30;
+
+  return (
+    <Card
+      className={clsx(
+        isExpired && 'bg-red-50 border border-red-200',
+        isExpiringSoon && 'bg-amber-50 border border-amber-200'
+      )}
+    >
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Timer className={clsx('w-5 h-5', isExpired ? 'text-red-500' : isExpiringSoon ? 'text-amber-500' : 'text-blue-500')} />
+          <div>
+            <p className="font-medium text-gray-900">
+              {!prepared ? 'Prepared bottle' : isExpired ? 'Discard the prepared bottle' : `${minutesRemaining} min left`}
+            </p>
+            <p className="text-xs text-gray-500">
+              {!prepared
+                ? 'Start the timer when you mix a bottle'
+                : isExpired
+                  ? 'It has been at room temperature for over 2 hours'
+                  : `Mixed at ${format(parseISO(prepared.preparedAt!), 'h:mm a')} from ${prepared.brand}`}
+            </p>
+          </div>
+        </div>
+        <Button size="sm" variant="outline" onClick={handleToggle} disabled={saving}>
+          {prepared ? (isExpired ? 'Discarded' : 'Clear') : 'Mixed a bottle'}
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -7,13 +7,14 @@ import { Input, Textarea } from '@/components/ui/Input';
 import { SegmentedControl } from '@/components/ui/Select';
 import { BabyMoodSelector, MomMoodSelector } from '@/components/ui/MoodSelector';
 import { StaleTimerModal, STALE_TIMER_THRESHOLD } from '@/components/ui/StaleTimerModal';
-import { Baby, FeedingSession, PumpSession, BreastSide, BabyMood, MomMood, BREAST_SIDE_CONFIG, formatDuration, getLastBreastActivity, getSuggestedBreastSide } from '@/types';
-import { createFeedingSession, startFeedingSession, endFeedingSession, updateFeedingSession, subscribeToFeedingSessions, subscribeToPumpSessions, deleteFeedingSession, pauseFeedingSession, resumeFeedingSession } from '@/lib/firestore';
+import { Baby, FeedingSession, PumpSession, BreastSide, BabyMood, MomMood, BreastfeedingSegment, BREAST_SIDE_CONFIG, formatDuration, formatFeedingSides, getFeedingSegments, getLastBreastActivity, getSuggestedBreastSide } from '@/types';
+import { createFeedingSession, startFeedingSession, endFeedingSession, updateFeedingSession, subscribeToFeedingSessions, subscribeToPumpSessions, deleteFeedingSession, pauseFeedingSession, resumeFeedingSession, switchFeedingSide } from '@/lib/firestore';
 import { useAuth } from '@/features/auth/AuthContext';
 import { useHomeStore } from '@/stores/homeStore';
 import { toast } from '@/stores/toastStore';
+import { useBabyPermissions } from '@/hooks/useBabyPermissions';
 import { clsx } from 'clsx';
-import { Clock, Timer as TimerIcon, Edit3, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
+import { Clock, Timer as TimerIcon, Edit3, Trash2, ChevronDown, ChevronUp, ArrowLeftRight } from 'lucide-react';
 
 type EntryMode = 'timer' | 'manual';
 
@@ -28,6 +29,7 @@ interface BreastfeedingViewProps {
 
 export function BreastfeedingView({ baby }: BreastfeedingViewProps) {
   const { user } = useAuth();
+  const { can, canFinish } = useBabyPermissions();
   const upsertFeedingSession = useHomeStore((state) => state.upsertFeedingSession);
   const removeFeedingSession = useHomeStore((state) => state.removeFeedingSession);
   const [sessions, setSessions] = useState<FeedingSession[]>([]);
@@ -43,12 +45,14 @@ export function BreastfeedingView({ baby }: BreastfeedingViewProps) {
   const [saving, setSaving] = useState(false);
   const [starting, setStarting] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
+  const [switchingSide, setSwitchingSide] = useState(false);
 
   // Entry mode state
   const [entryMode, setEntryMode] = useState<EntryMode>('timer');
   const [manualDate, setManualDate] = useState(new Date().toISOString().split('T')[0]);
   const [manualTime, setManualTime] = useState(format(new Date(), 'HH:mm'));
   const [manualDuration, setManualDuration] = useState('');
+  const [manualSwitchDuration, setManualSwitchDuration] = useState(''); // Minutes on the other side after switching
 
   // Expandable details state
   const [showDetails, setShowDetails] = useState(false);
@@ -232,7 +236,7 @@ export function BreastfeedingView({ baby }: BreastfeedingViewProps) {
       notes: null,
       babyMood: null,
       momMood: null,
-      loggedBy: null,
+      loggedBy: user.uid,
       createdAt: startTime,
       updatedAt: startTime,
     });
@@ -289,6 +293,30 @@ export function BreastfeedingView({ baby }: BreastfeedingViewProps) {
     }
   }, [activeSessionId]);
 
+  // Finish the current side and carry on with the other one; switching while paused resumes
+  const handleSwitchSide = useCallback(async () => {
+    if (!activeSessionId || switchingSide) return;
+
+    const previousSide = selectedSide;
+    const nextSide: BreastSide = previousSide === 'left' ? 'right' : 'left';
+    const wasPaused = isPaused;
+    setSwitchingSide(true);
+    setSelectedSide(nextSide);
+    setIsPaused(false);
+    setIsTimerRunning(true);
+    try {
+      await switchFeedingSide(activeSessionId, nextSide);
+    } catch (error) {
+      console.error('Error switching side:', error);
+      setSelectedSide(previousSide);
+      setIsPaused(wasPaused);
+      setIsTimerRunning(!wasPaused);
+      toast.error('Failed to switch side');
+    } finally {
+      setSwitchingSide(false);
+    }
+  }, [activeSessionId, switchingSide, selectedSide, isPaused]);
+
   const handleStop = useCallback((totalSeconds: number) => {
     setIsTimerRunning(false);
     setTimerSeconds(totalSeconds);
@@ -311,6 +339,7 @@ export function BreastfeedingView({ baby }: BreastfeedingViewProps) {
     setManualDate(new Date().toISOString().split('T')[0]);
     setManualTime(format(new Date(), 'HH:mm'));
     setManualDuration('');
+    setManualSwitchDuration('');
   }, []);
 
   const handleCancel = () => {
@@ -409,7 +438,7 @@ export function BreastfeedingView({ baby }: BreastfeedingViewProps) {
       }
 
       const savedDuration = timerSeconds;
-      const savedSide = selectedSide;
+      const savedSides = activeSession ? formatFeedingSides(activeSession) : BREAST_SIDE_CONFIG[selectedSide].label;
 
       setSaving(true);
       try {
@@ -437,7 +466,7 @@ export function BreastfeedingView({ baby }: BreastfeedingViewProps) {
         }
         handleReset();
 
-        toast.success(`${formatDuration(savedDuration)} ${BREAST_SIDE_CONFIG[savedSide].label} side logged`);
+        toast.success(`${formatDuration(savedDuration)} ${savedSides} logged`);
       } catch (error) {
         console.error('Error saving feeding session:', error);
         toast.error('Failed to save feeding session. Please try again.');
@@ -454,6 +483,12 @@ export function BreastfeedingView({ baby }: BreastfeedingViewProps) {
         return;
       }
 
+      const switchMinutes = manualSwitchDuration ? parseInt(manualSwitchDuration, 10) : 0;
+      if (isNaN(switchMinutes) || switchMinutes < 0 || switchMinutes > 120) {
+        toast.error('Please enter a valid duration for the other side (0-120 minutes).');
+        return;
+      }
+
       // Validate date and time inputs
       if (!manualDate || !manualTime) {
         toast.error('Please enter a valid date and time.');
@@ -476,20 +511,38 @@ export function BreastfeedingView({ baby }: BreastfeedingViewProps) {
 
       setSaving(true);
       try {
-        const sessionEndTime = new Date(sessionStartTime.getTime() + durationMinutes * 60 * 1000);
+        const switchTime = new Date(sessionStartTime.getTime() + durationMinutes * 60 * 1000);
+        const sessionEndTime = new Date(switchTime.getTime() + switchMinutes * 60 * 1000);
+        const segments: BreastfeedingSegment[] = [{
+          side: selectedSide,
+          startTime: sessionStartTime.toISOString(),
+          endTime: switchTime.toISOString(),
+          duration: durationMinutes * 60,
+          pausedDuration: 0,
+        }];
+        if (switchMinutes > 0) {
+          segments.push({
+            side: otherSide,
+            startTime: switchTime.toISOString(),
+            endTime: sessionEndTime.toISOString(),
+            duration: switchMinutes * 60,
+            pausedDuration: 0,
+          });
+        }
 
         await createFeedingSession(baby.id, user.uid, {
           breastSide: selectedSide,
           startTime: sessionStartTime.toISOString(),
           endTime: sessionEndTime.toISOString(),
+          segments,
           notes: notes || null,
           babyMood,
           momMood,
         });
 
-        const savedSide = selectedSide;
+        const savedSides = segments.map((segment) => BREAST_SIDE_CONFIG[segment.side].label).join(' → ');
         handleReset();
-        toast.success(`${durationMinutes}min ${BREAST_SIDE_CONFIG[savedSide].label} side logged`);
+        toast.success(`${durationMinutes + switchMinutes}min ${savedSides} logged`);
       } catch (error) {
         console.error('Error saving feeding session:', error);
         toast.error('Failed to save feeding session. Please try again.');
@@ -499,6 +552,17 @@ export function BreastfeedingView({ baby }: BreastfeedingViewProps) {
     }
   };
 
+  // Sides nursed so far in the running session; the open side's time is whatever the timer
+  // shows beyond the finished sides
+  const activeSession = sessions.find((s) => s.isActive && s.id === activeSessionId) ?? null;
+  const activeSegments = activeSession ? getFeedingSegments(activeSession) : [];
+  const finishedSegmentSeconds = activeSegments
+    .filter((segment) => segment.endTime)
+    .reduce((sum, segment) => sum + segment.duration, 0);
+  const otherSide: BreastSide = selectedSide === 'left' ? 'right' : 'left';
+  // Controls for the running session only go to someone allowed to finish it
+  const canFinishActive = activeSession ? canFinish(activeSession) : can('log');
+
   // Today's stats (exclude active sessions)
   const todaySessions = completedSessions.filter((s) => isToday(parseISO(s.startTime)));
   const todayTotalSeconds = todaySessions.reduce((sum, s) => sum + s.duration, 0);
@@ -506,7 +570,7 @@ export function BreastfeedingView({ baby }: BreastfeedingViewProps) {
   return (
     <div className="space-y-4">
       {/* Entry Mode Toggle */}
-      {!isTimerRunning && !showForm && !activeSessionId && (
+      {can('log') && !isTimerRunning && !showForm && !activeSessionId && (
         <div className="flex justify-center">
           <SegmentedControl
             options={entryModeOptions}
@@ -517,7 +581,7 @@ export function BreastfeedingView({ baby }: BreastfeedingViewProps) {
       )}
 
       {/* Next Side Suggestion */}
-      {lastBreastActivity && !isTimerRunning && !showForm && entryMode === 'timer' && !activeSessionId && (
+      {can('log') && lastBreastActivity && !isTimerRunning && !showForm && entryMode === 'timer' && !activeSessionId && (
         <div
           className="rounded-2xl p-4 text-center border"
           style={{
@@ -547,8 +611,8 @@ export function BreastfeedingView({ baby }: BreastfeedingViewProps) {
           return (
             <button
               key={side}
-              onClick={() => !isTimerRunning && !activeSessionId && !starting && handleSideSelect(side)}
-              disabled={isTimerRunning || !!activeSessionId || starting}
+              onClick={() => !isTimerRunning && !activeSessionId && !starting && can('log') && handleSideSelect(side)}
+              disabled={isTimerRunning || !!activeSessionId || starting || !can('log')}
               className={clsx(
                 'relative w-24 h-24 rounded-full flex flex-col items-center justify-center',
                 'transition-all duration-300 transform',
@@ -593,7 +657,7 @@ export function BreastfeedingView({ baby }: BreastfeedingViewProps) {
       </div>
 
       {/* Timer Mode */}
-      {entryMode === 'timer' && (
+      {entryMode === 'timer' && (can('log') || !!activeSessionId) && (
         <div
           className="relative rounded-3xl overflow-hidden"
           style={{
@@ -621,14 +685,40 @@ export function BreastfeedingView({ baby }: BreastfeedingViewProps) {
               onStop={handleStop}
               onReset={handleReset}
               onTimeUpdate={setTimerSeconds}
+              showControls={canFinishActive}
               color={BREAST_SIDE_CONFIG[selectedSide].color}
             />
+
+            {activeSessionId && !showForm && canFinishActive && (
+              <div className="mt-6 flex flex-col items-center gap-2">
+                {activeSegments.length > 1 && (
+                  <p className="text-xs text-gray-500">
+                    {activeSegments
+                      .map((segment) =>
+                        `${BREAST_SIDE_CONFIG[segment.side].label} ${formatDuration(
+                          segment.endTime ? segment.duration : Math.max(0, timerSeconds - finishedSegmentSeconds)
+                        )}`
+                      )
+                      .join(' → ')}
+                  </p>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleSwitchSide}
+                  disabled={switchingSide}
+                >
+                  <ArrowLeftRight className="w-4 h-4 mr-1" />
+                  Switch to {BREAST_SIDE_CONFIG[otherSide].label}
+                </Button>
+              </div>
+            )}
           </div>
         </div>
       )}
 
       {/* Manual Entry Mode */}
-      {entryMode === 'manual' && !showForm && (
+      {can('log') && entryMode === 'manual' && !showForm && (
         <Card>
           <CardHeader title="Log Past Feeding" subtitle={`${BREAST_SIDE_CONFIG[selectedSide].label} side`} />
 
@@ -656,6 +746,16 @@ export function BreastfeedingView({ baby }: BreastfeedingViewProps) {
               max="120"
             />
 
+            <Input
+              type="number"
+              label={`Then ${BREAST_SIDE_CONFIG[otherSide].label.toLowerCase()} side (minutes, optional)`}
+              placeholder="e.g. 10"
+              value={manualSwitchDuration}
+              onChange={(e) => setManualSwitchDuration(e.target.value)}
+              min="0"
+              max="120"
+            />
+
             <Button
               onClick={handleSave}
               className="w-full"
@@ -701,21 +801,30 @@ export function BreastfeedingView({ baby }: BreastfeedingViewProps) {
       )}
 
       {/* Save Form */}
-      {showForm && (
+      {showForm && canFinishActive && (
         <Card>
-          <CardHeader title="Session Complete" subtitle={`${formatDuration(timerSeconds)} on ${BREAST_SIDE_CONFIG[selectedSide].label} side`} />
+          <CardHeader
+            title="Session Complete"
+            subtitle={
+              activeSegments.length > 1
+                ? `${formatDuration(timerSeconds)} · ${activeSegments.map((segment) => BREAST_SIDE_CONFIG[segment.side].label).join(' → ')}`
+                : `${formatDuration(timerSeconds)} on ${BREAST_SIDE_CONFIG[selectedSide].label} side`
+            }
+          />
 
           <div className="space-y-4">
             {/* Action buttons at top */}
             <div className="flex gap-2">
-              <Button
-                variant="outline"
-                onClick={handleDiscard}
-                className="px-3"
-                disabled={saving}
-              >
-                <Trash2 className="w-4 h-4 text-red-500" />
-              </Button>
+              {can('deleteHistory') && (
+                <Button
+                  variant="outline"
+                  onClick={handleDiscard}
+                  className="px-3"
+                  disabled={saving}
+                >
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </Button>
+              )}
               <Button
                 variant="outline"
                 onClick={handleEditBeforeSave}
@@ -788,12 +897,12 @@ export function BreastfeedingView({ baby }: BreastfeedingViewProps) {
 
       {/* Stale Timer Modal */}
       <StaleTimerModal
-        isOpen={showStaleModal}
+        isOpen={showStaleModal && canFinishActive}
         duration={timerSeconds}
         activityName="feeding"
         onContinue={handleStaleTimerContinue}
         onStopAndSave={handleStaleTimerStopAndSave}
-        onDiscard={handleStaleTimerDiscard}
+        onDiscard={can('deleteHistory') ? handleStaleTimerDiscard : undefined}
       />
 
       {/* Pre-save Edit Modal */}
@@ -8,6 +8,7 @@ let feedingCallback: ((sessions: FeedingSession[]) => void) | null = null;
 let pumpCallback: ((sessions: PumpSession[]) => void) | null = null;
 
 const mockStartFeedingSession = vi.fn();
+const mockSwitchFeedingSide = vi.fn();
 
 vi.mock('@/lib/firestore', () => ({
   createFeedingSession: vi.fn(),
@@ -17,6 +18,7 @@ vi.mock('@/lib/firestore', () => ({
   deleteFeedingSession: vi.fn(),
   pauseFeedingSession: vi.fn(),
   resumeFeedingSession: vi.fn(),
+  switchFeedingSide: (...args: unknown[]) => mockSwitchFeedingSide(...args),
   subscribeToFeedingSessions: vi.fn((_: string, callback: (sessions: FeedingSession[]) => void) => {
     feedingCallback = callback;
     callback([]);
@@ -36,6 +38,7 @@ vi.mock('@/features/auth/AuthContext', () => ({
 }));
 
 import { BreastfeedingView } from './BreastfeedingView';
+import { useAppStore } from '@/stores/appStore';
 
 describe('BreastfeedingView UI', () => {
   beforeEach(() => {
@@ -43,6 +46,9 @@ describe('BreastfeedingView UI', () => {
     pumpCallback = null;
     mockStartFeedingSession.mockReset();
     mockStartFeedingSession.mockResolvedValue('session-2');
+    mockSwitchFeedingSide.mockReset();
+    mockSwitchFeedingSide.mockResolvedValue(undefined);
+    useAppStore.setState({ userId: mockBaby.userId, selectedBaby: mockBaby });
   });
 
   it('keeps the chosen side visible when starting another same-side session', async () => {
@@ -100,4 +106,76 @@ describe('BreastfeedingView UI', () => {
       expect(rightButton.className).not.toContain('scale-110');
     });
   });
+
+  it('switches an active session to the other side', async () => {
+    const user = userEvent.setup();
+
+    render(<BreastfeedingView baby={mockBaby} />);
+
+    const startTime = new Date(Date.now() - 5 * 60 * 1000).toISOString();
+    const activeSession: FeedingSession = {
+      id: 'session-3',
+      babyId: mockBaby.id,
+      userId: 'user-1',
+      date: startTime.split('T')[0],
+      duration: 0,
+      breastSide: 'left',
+      segments: [{ side: 'left', startTime, endTime: null, duration: 0, pausedDuration: 0 }],
+      startTime,
+      endTime: null,
+      isActive: true,
+      isPaused: false,
+      pausedAt: null,
+      totalPausedDuration: 0,
+      notes: null,
+      babyMood: null,
+      momMood: null,
+      loggedBy: 'user-1',
+      createdAt: startTime,
+      updatedAt: startTime,
+    };
+
+    act(() => {
+      feedingCallback?.([activeSession]);
+    });
+
+    await user.click(await screen.findByRole('button', { name: /switch to right/i }));
+
+    expect(mockSwitchFeedingSide).toHaveBeenCalledWith('session-3', 'right');
+    expect(await screen.findByRole('button', { name: /switch to left/i })).toBeDefined();
+  });
+
+  it('leaves a timer started by someone else alone for a caregiver', async () => {
+    const caregiverBaby = { ...mockBaby, sharedWith: ['caregiver-1'], roles: { 'caregiver-1': 'caregiver' as const } };
+    useAppStore.setState({ userId: 'caregiver-1', selectedBaby: caregiverBaby });
+
+    render(<BreastfeedingView baby={caregiverBaby} />);
+
+    const startTime = new Date(Date.now() - 5 * 60 * 1000).toISOString();
+    act(() => {
+      feedingCallback?.([{
+        id: 'session-4',
+        babyId: mockBaby.id,
+        userId: 'user-1',
+        date: startTime.split('T')[0],
+        duration: 0,
+        breastSide: 'left',
+        startTime,
+        endTime: null,
+        isActive: true,
+        isPaused: false,
+        pausedAt: null,
+        totalPausedDuration: 0,
+        notes: null,
+        babyMood: null,
+        momMood: null,
+        loggedBy: 'user-1',
+        createdAt: startTime,
+        updatedAt: startTime,
+      }]);
+    });
+
+    expect(await screen.findByText('Recording')).toBeDefined();
+    expect(screen.queryByRole('button', { name: /switch to right/i })).toBeNull();
+  });
 });
@@ -1,5 +1,5 @@
 import { useState, useEffect, useMemo } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { format, parseISO } from 'date-fns';
 import { Milk, Baby, Clock } from 'lucide-react';
 import { Header, NoBabiesHeader } from '@/components/layout/Header';
@@ -10,7 +10,7 @@ import { EditSessionModal } from '@/components/ui/EditSessionModal';
 import { MoodIndicator } from '@/components/ui/MoodSelector';
 import { useAppStore } from '@/stores/appStore';
 import { subscribeToFeedingSessions, subscribeToBottleSessions } from '@/lib/firestore';
-import { FeedingSession, BottleSession, BREAST_SIDE_CONFIG, BOTTLE_CONTENT_CONFIG, formatDuration } from '@/types';
+import { FeedingSession, BottleSession, BREAST_SIDE_CONFIG, BOTTLE_CONTENT_CONFIG, formatDuration, formatFeedingSides, formatBottleVolume, getFeedingSegments } from '@/types';
 
 type FeedingTab = 'breast' | 'bottle';
 
@@ -26,9 +26,13 @@ export function FeedingHub() {
   const [selectedFeedingSession, setSelectedFeedingSession] = useState<FeedingSession | null>(null);
   const [selectedBottleSession, setSelectedBottleSession] = useState<BottleSession | null>(null);
 
+  // A stash bag opened from its label goes straight to the bottle form
+  const location = useLocation();
+  const labelMilkStashId = (location.state as { milkStashId?: string } | null)?.milkStashId ?? null;
+
   // Set initial tab based on feeding type preference
   const getInitialTab = (): FeedingTab => {
-    if (settings?.feedingTypePreference === 'formula') {
+    if (settings?.feedingTypePreference === 'formula' || labelMilkStashId) {
       return 'bottle';
     }
     return 'breast';
@@ -38,12 +42,12 @@ export function FeedingHub() {
 
   // Update tab when settings change (e.g., when settings load)
   useEffect(() => {
-    if (settings?.feedingTypePreference === 'formula') {
+    if (settings?.feedingTypePreference === 'formula' || labelMilkStashId) {
       setActiveTab('bottle');
     } else if (settings?.feedingTypePreference === 'breastfeeding') {
       setActiveTab('breast');
     }
-  }, [settings?.feedingTypePreference]);
+  }, [settings?.feedingTypePreference, labelMilkStashId]);
   const navigate = useNavigate();
 
   // Subscribe to both feeding types
@@ -129,7 +133,7 @@ export function FeedingHub() {
         {selectedBaby && (
           <>
             {activeTab === 'breast' && <BreastfeedingView baby={selectedBaby} />}
-            {activeTab === 'bottle' && <BottleView baby={selectedBaby} />}
+            {activeTab === 'bottle' && <BottleView baby={selectedBaby} initialMilkStashId={labelMilkStashId} />}
           </>
         )}
 
@@ -155,11 +159,11 @@ export function FeedingHub() {
                           background: `linear-gradient(135deg, ${BREAST_SIDE_CONFIG[session.breastSide].color} 0%, ${BREAST_SIDE_CONFIG[session.breastSide].color}cc 100%)`
                         }}
                       >
-                        {session.breastSide === 'left' ? 'L' : 'R'}
+                        {getFeedingSegments(session).map((segment) => (segment.side === 'left' ? 'L' : 'R')).join('')}
                       </div>
                       <div className="flex-1 min-w-0">
                         <p className="font-medium text-gray-900">
-                          Breast • {BREAST_SIDE_CONFIG[session.breastSide].label}
+                          Breast • {formatFeedingSides(session)}
                         </p>
                         <div className="flex items-center gap-2 text-sm text-gray-500">
                           <Clock className="w-3 h-3 flex-shrink-0" />
@@ -187,7 +191,7 @@ export function FeedingHub() {
                       </div>
                       <div className="flex-1 min-w-0">
                         <p className="font-medium text-gray-900">
-                          Bottle • {session.volume} {session.volumeUnit}
+                          Bottle • {formatBottleVolume(session)}
                         </p>
                         <div className="flex items-center gap-2 text-sm text-gray-500">
                           <Clock className="w-3 h-3 flex-shrink-0" />
@@ -0,0 +1,414 @@
+import { useState, useEffect, useMemo } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { clsx } from 'clsx';
+import { Header } from '@/components/layout/Header';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { ChipSelect, SegmentedControl, Select } from '@/components/ui/Select';
+import { useAuth } from '@/features/auth/AuthContext';
+import { toast } from '@/stores/toastStore';
+import {
+  createPumpPart,
+  replacePumpPart,
+  deletePumpPart,
+  subscribeToPumpParts,
+  createCleaningLog,
+  deleteCleaningLog,
+  subscribeToCleaningLogs,
+  subscribeToPumpPartSessions,
+} from '@/lib/firestore';
+import type { CleaningItem, CleaningLog, CleaningMethod, PumpPart, PumpPartIntervalUnit, PumpPartType, PumpSession } from '@/types';
+import {
+  CLEANING_ITEM_CONFIG,
+  CLEANING_METHOD_CONFIG,
+  PUMP_PART_CONFIG,
+  getLastCleaned,
+  getPumpPartName,
+  getPumpPartWear,
+  getPumpPartWearStart,
+} from '@/types';
+import { AlertTriangle, Plus, RotateCcw, Sparkles, Trash2, Wrench, X } from 'lucide-react';
+
+const RECENT_CLEANING_COUNT = 10;
+
+const partTypeOptions = (Object.keys(PUMP_PART_CONFIG) as PumpPartType[]).map((type) => ({
+  value: type,
+  label: PUMP_PART_CONFIG[type].label,
+}));
+
+const intervalUnitOptions = [
+  { value: 'hours', label: 'Pump hours' },
+  { value: 'days', label: 'Days' },
+];
+
+const cleaningItemOptions = (Object.keys(CLEANING_ITEM_CONFIG) as CleaningItem[]).map((item) => ({
+  value: item,
+  label: CLEANING_ITEM_CONFIG[item].label,
+  color: CLEANING_ITEM_CONFIG[item].color,
+}));
+
+const cleaningMethodOptions = (Object.keys(CLEANING_METHOD_CONFIG) as CleaningMethod[]).map((method) => ({
+  value: method,
+  label: CLEANING_METHOD_CONFIG[method].label,
+}));
+
+// Pump parts with their wear from logged pumping, and when bottles and parts were last cleaned
+export function PumpEquipmentView() {
+  const { user } = useAuth();
+  const [parts, setParts] = useState<PumpPart[]>([]);
+  const [cleaningLogs, setCleaningLogs] = useState<CleaningLog[]>([]);
+  const [pumpSessions, setPumpSessions] = useState<PumpSession[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Add part form state
+  const [showPartForm, setShowPartForm] = useState(false);
+  const [partType, setPartType] = useState<PumpPartType>('valve');
+  const [partName, setPartName] = useState('');
+  const [installedDate, setInstalledDate] = useState(new Date().toISOString().split('T')[0]);
+  const [replaceEvery, setReplaceEvery] = useState(PUMP_PART_CONFIG.valve.defaultInterval.toString());
+  const [replaceEveryUnit, setReplaceEveryUnit] = useState<PumpPartIntervalUnit>(PUMP_PART_CONFIG.valve.defaultIntervalUnit);
+
+  // Cleaning form state
+  const [showCleaningForm, setShowCleaningForm] = useState(false);
+  const [cleaningItems, setCleaningItems] = useState<CleaningItem[]>(['bottles', 'pumpParts']);
+  const [cleaningMethod, setCleaningMethod] = useState<CleaningMethod>('washed');
+
+  useEffect(() => {
+    if (!user) return;
+
+    const unsubParts = subscribeToPumpParts(user.uid, setParts);
+    const unsubCleaning = subscribeToCleaningLogs(user.uid, setCleaningLogs);
+    return () => {
+      unsubParts();
+      unsubCleaning();
+    };
+  }, [user]);
+
+  // The part owner's pumping for any baby, from when the oldest part went in
+  const wearStart = useMemo(() => getPumpPartWearStart(parts), [parts]);
+
+  useEffect(() => {
+    if (!user || !wearStart) return;
+    return subscribeToPumpPartSessions(user.uid, wearStart, setPumpSessions);
+  }, [user, wearStart]);
+
+  const resetPartForm = () => {
+    setPartType('valve');
+    setPartName('');
+    setInstalledDate(new Date().toISOString().split('T')[0]);
+    setReplaceEvery(PUMP_PART_CONFIG.valve.defaultInterval.toString());
+    setReplaceEveryUnit(PUMP_PART_CONFIG.valve.defaultIntervalUnit);
+    setShowPartForm(false);
+  };
+
+  const handlePartTypeChange = (type: PumpPartType) => {
+    setPartType(type);
+    setReplaceEvery(PUMP_PART_CONFIG[type].defaultInterval.toString());
+    setReplaceEveryUnit(PUMP_PART_CONFIG[type].defaultIntervalUnit);
+  };
+
+  const handleAddPart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const interval = parseFloat(replaceEvery);
+    if (isNaN(interval) || interval <= 0) {
+      toast.error('Please enter how often to replace this part.');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await createPumpPart(user.uid, {
+        type: partType,
+        name: partName.trim() || null,
+        installedDate: new Date(`${installedDate}T12:00`).toISOString(),
+        replaceEvery: interval,
+        replaceEveryUnit,
+      });
+      resetPartForm();
+    } catch (error) {
+      console.error('Error adding pump part:', error);
+      toast.error('Failed to add pump part. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReplace = async (part: PumpPart) => {
+    try {
+      await replacePumpPart(part.id);
+      toast.success(`${getPumpPartName(part)} replaced`);
+    } catch (error) {
+      console.error('Error replacing pump part:', error);
+      toast.error('Failed to update pump part. Please try again.');
+    }
+  };
+
+  const handleDeletePart = async (part: PumpPart) => {
+    try {
+      await deletePumpPart(part.id);
+    } catch (error) {
+      console.error('Error deleting pump part:', error);
+      toast.error('Failed to delete pump part. Please try again.');
+    }
+  };
+
+  const handleLogCleaning = async () => {
+    if (!user || cleaningItems.length === 0) return;
+
+    setLoading(true);
+    try {
+      await createCleaningLog(user.uid, {
+        timestamp: new Date().toISOString(),
+        items: cleaningItems,
+        method: cleaningMethod,
+      });
+      setShowCleaningForm(false);
+    } catch (error) {
+      console.error('Error logging cleaning:', error);
+      toast.error('Failed to log cleaning. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteCleaning = async (log: CleaningLog) => {
+    try {
+      await deleteCleaningLog(log.id);
+    } catch (error) {
+      console.error('Error deleting cleaning log:', error);
+      toast.error('Failed to delete cleaning. Please try again.');
+    }
+  };
+
+  const lastCleaned = getLastCleaned(cleaningLogs);
+
+  return (
+    <div>
+      <Header
+        title="Pump Parts"
+        showBabySwitcher={false}
+        rightAction={
+          <Button size="sm" onClick={() => setShowPartForm(true)}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        }
+      />
+
+      <div className="px-4 py-4 space-y-4">
+        {/* Add Part Form */}
+        {showPartForm && (
+          <Card>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="font-semibold text-gray-900">Add Pump Part</h3>
+              <button onClick={resetPartForm} aria-label="Close">
+                <X className="w-5 h-5 text-gray-400" />
+              </button>
+            </div>
+
+            <form onSubmit={handleAddPart} className="space-y-4">
+              <Select
+                label="Part"
+                options={partTypeOptions}
+                value={partType}
+                onChange={(value) => handlePartTypeChange(value as PumpPartType)}
+              />
+              <Input
+                label="Name (optional)"
+                placeholder={`e.g. Spectra ${PUMP_PART_CONFIG[partType].pluralLabel.toLowerCase()}`}
+                value={partName}
+                onChange={(e) => setPartName(e.target.value)}
+              />
+              <Input
+                type="date"
+                label="In use since"
+                value={installedDate}
+                onChange={(e) => setInstalledDate(e.target.value)}
+              />
+              <Input
+                type="number"
+                label="Replace every"
+                placeholder="0"
+                value={replaceEvery}
+                onChange={(e) => setReplaceEvery(e.target.value)}
+                min="1"
+                required
+              />
+              <SegmentedControl
+                options={intervalUnitOptions}
+                value={replaceEveryUnit}
+                onChange={(value) => setReplaceEveryUnit(value as PumpPartIntervalUnit)}
+                size="sm"
+              />
+              <Button type="submit" className="w-full" disabled={loading || !replaceEvery}>
+                {loading ? 'Saving...' : 'Add Part'}
+              </Button>
+            </form>
+          </Card>
+        )}
+
+        {/* Parts */}
+        {parts.length > 0 ? (
+          <div className="space-y-2">
+            {parts.map((part) => (
+              <PumpPartCard
+                key={part.id}
+                part={part}
+                pumpSessions={pumpSessions}
+                onReplace={() => handleReplace(part)}
+                onDelete={() => handleDeletePart(part)}
+              />
+            ))}
+          </div>
+        ) : (
+          !showPartForm && (
+            <Card className="text-center py-8">
+              <Wrench className="w-12 h-12 mx-auto text-gray-300 mb-3" />
+              <p className="text-gray-500">No pump parts tracked</p>
+              <p className="text-sm text-gray-400">Add valves, membranes and more to know when to replace them</p>
+            </Card>
+          )
+        )}
+
+        {/* Cleaning */}
+        <Card>
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold text-gray-900">Cleaning</h3>
+            {!showCleaningForm && (
+              <Button size="sm" variant="outline" onClick={() => setShowCleaningForm(true)}>
+                <Sparkles className="w-4 h-4 mr-1" />
+                Log Cleaning
+              </Button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 mb-3">
+            {(Object.keys(CLEANING_ITEM_CONFIG) as CleaningItem[]).map((item) => {
+              const log = lastCleaned[item];
+              return (
+                <div key={item} className="rounded-xl bg-gray-50 p-3">
+                  <p className="text-sm font-medium" style={{ color: CLEANING_ITEM_CONFIG[item].color }}>
+                    {CLEANING_ITEM_CONFIG[item].label}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {log
+                      ? `${CLEANING_METHOD_CONFIG[log.method].label} ${formatDistanceToNow(new Date(log.timestamp), { addSuffix: true })}`
+                      : 'Not logged yet'}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+
+          {showCleaningForm && (
+            <div className="space-y-3 border-t border-gray-100 pt-3 mb-3">
+              <ChipSelect
+                options={cleaningItemOptions}
+                value={cleaningItems}
+                onChange={(value) => setCleaningItems(value as CleaningItem[])}
+              />
+              <SegmentedControl
+                options={cleaningMethodOptions}
+                value={cleaningMethod}
+                onChange={(value) => setCleaningMethod(value as CleaningMethod)}
+                size="sm"
+              />
+              <div className="flex gap-2">
+                <Button variant="outline" className="flex-1" onClick={() => setShowCleaningForm(false)} disabled={loading}>
+                  Cancel
+                </Button>
+                <Button className="flex-1" onClick={handleLogCleaning} disabled={loading || cleaningItems.length === 0}>
+                  {loading ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {cleaningLogs.length > 0 && (
+            <div className="divide-y divide-gray-100">
+              {cleaningLogs.slice(0, RECENT_CLEANING_COUNT).map((log) => (
+                <div key={log.id} className="flex items-center justify-between py-2 text-sm">
+                  <div>
+                    <p className="text-gray-900">
+                      {CLEANING_METHOD_CONFIG[log.method].label} {log.items.map((item) => CLEANING_ITEM_CONFIG[item].label.toLowerCase()).join(' and ')}
+                    </p>
+                    <p className="text-xs text-gray-400">{new Date(log.timestamp).toLocaleString()}</p>
+                  </div>
+                  <button
+                    onClick={() => handleDeleteCleaning(log)}
+                    className="p-1 rounded-full hover:bg-gray-100"
+                    aria-label="Delete cleaning entry"
+                  >
+                    <Trash2 className="w-4 h-4 text-gray-400" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+function PumpPartCard({
+  part,
+  pumpSessions,
+  onReplace,
+  onDelete,
+}: {
+  part: PumpPart;
+  pumpSessions: PumpSession[];
+  onReplace: () => void;
+  onDelete: () => void;
+}) {
+  const wear = getPumpPartWear(part, pumpSessions);
+  const name = getPumpPartName(part);
+  const unitLabel = part.replaceEveryUnit === 'hours' ? 'pump hours' : 'days';
+
+  return (
+    <Card className={clsx('py-3', wear.isDue && 'bg-red-50 border border-red-200')}>
+      <div className="flex items-center justify-between gap-3">
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2">
+            <span className="font-bold text-lg truncate">{name}</span>
+            {wear.isDue ? (
+              <span className="px-2 py-0.5 rounded-full text-xs bg-red-500 text-white flex items-center gap-1">
+                <AlertTriangle className="w-3 h-3" />
+                Replace
+              </span>
+            ) : (
+              wear.isDueSoon && (
+                <span className="px-2 py-0.5 rounded-full text-xs bg-amber-100 text-amber-700">Due soon</span>
+              )
+            )}
+          </div>
+          <p className="text-sm text-gray-500">
+            {part.replaceEveryUnit === 'hours' ? wear.used : Math.floor(wear.used)} of {part.replaceEvery} {unitLabel}
+          </p>
+          <div className="h-1.5 rounded-full bg-gray-100 mt-2 overflow-hidden">
+            <div
+              className={clsx('h-full rounded-full', wear.isDue ? 'bg-red-500' : wear.isDueSoon ? 'bg-amber-500' : 'bg-blue-500')}
+              style={{ width: `${Math.min(100, wear.fraction * 100)}%` }}
+            />
+          </div>
+          <p className="text-xs text-gray-400 mt-1">
+            In use since {new Date(part.installedDate).toLocaleDateString()}
+            {part.replacedDates.length > 0 && ` • Replaced ${part.replacedDates.length} time${part.replacedDates.length === 1 ? '' : 's'}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <Button size="sm" variant="outline" onClick={onReplace} aria-label={`Replace ${name}`}>
+            <RotateCcw className="w-4 h-4 text-blue-500" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={onDelete} aria-label={`Delete ${name}`}>
+            <Trash2 className="w-4 h-4 text-red-500" />
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
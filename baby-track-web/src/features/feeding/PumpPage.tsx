@@ -1,9 +1,13 @@
+import { useNavigate } from 'react-router-dom';
+import { BarChart3, Wrench } from 'lucide-react';
 import { Header, NoBabiesHeader } from '@/components/layout/Header';
+import { Button } from '@/components/ui/Button';
 import { PumpView } from './PumpView';
 import { useAppStore } from '@/stores/appStore';
 
 export function PumpPage() {
   const { selectedBaby, babies } = useAppStore();
+  const navigate = useNavigate();
 
   if (babies.length === 0) {
     return <NoBabiesHeader />;
@@ -11,7 +15,20 @@ export function PumpPage() {
 
   return (
     <div>
-      <Header title="Pumping" />
+      <Header
+        title="Pumping"
+        rightAction={
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => navigate('/more/pump/parts')} aria-label="Pump parts">
+              <Wrench className="w-4 h-4" />
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => navigate('/more/pump/insights')}>
+              <BarChart3 className="w-4 h-4 mr-1" />
+              Insights
+            </Button>
+          </div>
+        }
+      />
       <div className="px-4 py-4">
         {selectedBaby && <PumpView baby={selectedBaby} />}
       </div>
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { clsx } from 'clsx';
+import { Card, CardHeader } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Toggle } from '@/components/ui/Toggle';
+import type { PumpSession, PumpScheduleSlotStatus, UpdateAppSettingsInput } from '@/types';
+import { getPumpScheduleAdherence, getPumpScheduleSlots } from '@/types';
+import { updateSettings } from '@/lib/firestore';
+import { getNotificationPermission, requestNotificationPermission } from '@/lib/notifications';
+import { useAppStore } from '@/stores/appStore';
+import { toast } from '@/stores/toastStore';
+import { Check, CalendarClock, Plus, X } from 'lucide-react';
+
+const ADHERENCE_DAYS = 7;
+
+const SLOT_STYLES: Record<PumpScheduleSlotStatus, string> = {
+  done: 'bg-green-100 text-green-700',
+  due: 'bg-amber-100 text-amber-700',
+  missed: 'bg-red-50 text-red-600',
+  upcoming: 'bg-gray-100 text-gray-600',
+};
+
+interface PumpScheduleCardProps {
+  sessions: PumpSession[];
+}
+
+// Today's planned pumping times, how well the plan has been kept this week, and the plan itself
+export function PumpScheduleCard({ sessions }: PumpScheduleCardProps) {
+  const { settings, setSettings } = useAppStore();
+  const [isEditing, setIsEditing] = useState(false);
+  const [newTime, setNewTime] = useState('');
+
+  if (!settings) return null;
+
+  const times = settings.pumpScheduleTimes;
+  const now = new Date();
+  const slots = getPumpScheduleSlots(times, sessions, now, now);
+  const adherence = getPumpScheduleAdherence(times, sessions, ADHERENCE_DAYS, now);
+
+  const saveSchedule = async (updates: UpdateAppSettingsInput) => {
+    const previous = settings;
+    setSettings({ ...settings, ...updates });
+    try {
+      await updateSettings(settings.id, updates);
+    } catch (error) {
+      console.error('Error updating pump schedule:', error);
+      setSettings(previous);
+      toast.error('Failed to save pump schedule. Please try again.');
+    }
+  };
+
+  const handleAddTime = () => {
+    if (!newTime) return;
+    if (times.includes(newTime)) {
+      toast.error('That time is already planned');
+      return;
+    }
+    void saveSchedule({ pumpScheduleTimes: [...times, newTime].sort() });
+    setNewTime('');
+  };
+
+  const handleRemindersToggle = async (enabled: boolean) => {
+    if (enabled && getNotificationPermission() !== 'granted') {
+      const result = await requestNotificationPermission();
+      if (result !== 'granted') {
+        toast.error('Please enable notifications in your browser settings to use reminders.');
+        return;
+      }
+    }
+    await saveSchedule({ pumpScheduleEnabled: enabled });
+  };
+
+  return (
+    <Card>
+      <CardHeader
+        title="Pumping Schedule"
+        subtitle={times.length > 0 ? `${times.length} session${times.length !== 1 ? 's' : ''} a day` : 'Plan sessions at set times'}
+        action={
+          <Button size="sm" variant="ghost" onClick={() => setIsEditing(!isEditing)}>
+            {isEditing ? 'Done' : times.length > 0 ? 'Edit' : 'Plan'}
+          </Button>
+        }
+      />
+
+      {times.length > 0 && !isEditing && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            {slots.map((slot) => (
+              <span
+                key={slot.time}
+                className={clsx('inline-flex items-center gap-1 px-3 py-1 rounded-full text-sm font-medium', SLOT_STYLES[slot.status])}
+                aria-label={`${format(slot.scheduledAt, 'h:mm a')} ${slot.status}`}
+              >
+                {slot.status === 'done' ? <Check className="w-3.5 h-3.5" /> : <CalendarClock className="w-3.5 h-3.5" />}
+                {format(slot.scheduledAt, 'h:mm a')}
+              </span>
+            ))}
+          </div>
+          {adherence.rate !== null && (
+            <p className="text-sm text-gray-500">
+              {adherence.done} of {adherence.planned} planned sessions pumped in the last {ADHERENCE_DAYS} days
+              {' '}({Math.round(adherence.rate * 100)}%)
+            </p>
+          )}
+        </div>
+      )}
+
+      {isEditing && (
+        <div className="space-y-4">
+          {times.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {times.map((time) => (
+                <span key={time} className="inline-flex items-center gap-1 pl-3 pr-1 py-1 rounded-full bg-gray-100 text-sm">
+                  {format(new Date(`2000-01-01T${time}`), 'h:mm a')}
+                  <button
+                    onClick={() => saveSchedule({ pumpScheduleTimes: times.filter((t) => t !== time) })}
+                    className="p-0.5 rounded-full hover:bg-gray-200"
+                    aria-label={`Remove ${time}`}
+                  >
+                    <X className="w-3.5 h-3.5 text-gray-500" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-2 items-end">
+            <div className="flex-1">
+              <Input
+                type="time"
+                label="Add a time"
+                aria-label="New pumping time"
+                value={newTime}
+                onChange={(e) => setNewTime(e.target.value)}
+              />
+            </div>
+            <Button variant="outline" onClick={handleAddTime} disabled={!newTime}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add
+            </Button>
+          </div>
+          <Toggle
+            checked={settings.pumpScheduleEnabled}
+            onChange={handleRemindersToggle}
+            label="Reminders"
+            description="Notify me when a planned session comes up"
+          />
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { format, isToday, parseISO } from 'date-fns';
 import { clsx } from 'clsx';
 import { Card, CardHeader } from '@/components/ui/Card';
@@ -8,16 +9,34 @@ import { Input, Textarea } from '@/components/ui/Input';
 import { SegmentedControl } from '@/components/ui/Select';
 import { MomMoodSelector, MoodIndicator } from '@/components/ui/MoodSelector';
 import { EditSessionModal } from '@/components/ui/EditSessionModal';
+import { PumpVolumeInput } from '@/components/ui/PumpVolumeInput';
 import { StaleTimerModal, STALE_TIMER_THRESHOLD } from '@/components/ui/StaleTimerModal';
-import { Baby, PumpSession, PumpSide, MomMood, VolumeUnit, PUMP_SIDE_CONFIG, formatDuration, convertVolume } from '@/types';
-import { MilkStorageLocation } from '@/types/enums';
+import {
+  Baby,
+  PumpSession,
+  PumpSide,
+  MomMood,
+  VolumeUnit,
+  PUMP_SIDE_CONFIG,
+  formatDuration,
+  formatPumpVolume,
+  convertVolume,
+  parsePumpVolumeInput,
+  POWER_PUMP_PROGRAM,
+  getPumpPhaseAt,
+  getPumpProgramSeconds,
+} from '@/types';
+import { MilkStorageLocation, MILK_STORAGE_CONFIG } from '@/types/enums';
 import { createPumpSession, startPumpSession, endPumpSession, updatePumpSession, subscribeToPumpSessions, deletePumpSession, createMilkStash, markMilkStashInUse, createBottleSession, pausePumpSession, resumePumpSession } from '@/lib/firestore';
 import { useAuth } from '@/features/auth/AuthContext';
 import { useAppStore } from '@/stores/appStore';
 import { toast } from '@/stores/toastStore';
-import { Clock, Droplet, Timer as TimerIcon, Edit3, Refrigerator, Snowflake, Baby as BabyIcon, X, Trash2, ChevronDown, ChevronUp, Briefcase } from 'lucide-react';
+import { useBabyPermissions } from '@/hooks/useBabyPermissions';
+import { playChime, unlockChime } from '@/lib/chime';
+import { PumpScheduleCard } from './PumpScheduleCard';
+import { Clock, Droplet, Timer as TimerIcon, Edit3, Refrigerator, Snowflake, Baby as BabyIcon, X, Trash2, ChevronDown, ChevronUp, Briefcase, Backpack, Zap } from 'lucide-react';
 
-type MilkDestination = 'fridge' | 'freezer' | 'use' | 'takeWithMe' | null;
+type MilkDestination = MilkStorageLocation | 'use' | 'takeWithMe' | null;
 
 type EntryMode = 'timer' | 'manual';
 
@@ -32,13 +51,17 @@ interface PumpViewProps {
 
 export function PumpView({ baby }: PumpViewProps) {
   const { user } = useAuth();
+  const navigate = useNavigate();
   const { settings } = useAppStore();
+  const { can, canFinish } = useBabyPermissions();
   const [sessions, setSessions] = useState<PumpSession[]>([]);
   const [selectedSide, setSelectedSide] = useState<PumpSide>('both');
   const [isTimerRunning, setIsTimerRunning] = useState(false);
   const [timerSeconds, setTimerSeconds] = useState(0);
   const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
   const [volume, setVolume] = useState('');
+  const [leftVolume, setLeftVolume] = useState('');
+  const [rightVolume, setRightVolume] = useState('');
   const [volumeUnit, setVolumeUnit] = useState<VolumeUnit>(settings?.preferredVolumeUnit || 'oz');
   const [notes, setNotes] = useState('');
   const [momMood, setMomMood] = useState<MomMood | null>(null);
@@ -46,14 +69,18 @@ export function PumpView({ baby }: PumpViewProps) {
   const [saving, setSaving] = useState(false);
   const [starting, setStarting] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
+  const [usePowerPump, setUsePowerPump] = useState(false);
 
   // Milk destination state
   const [showMilkDestination, setShowMilkDestination] = useState(false);
   const [savedSessionData, setSavedSessionData] = useState<{
     volume: number;
+    leftVolume: number | null;
+    rightVolume: number | null;
     volumeUnit: VolumeUnit;
     pumpedDate: string;
   } | null>(null);
+  const [storeSidesSeparately, setStoreSidesSeparately] = useState(false);
 
   // Entry mode state
   const [entryMode, setEntryMode] = useState<EntryMode>('timer');
@@ -74,6 +101,9 @@ export function PumpView({ baby }: PumpViewProps) {
   // Expandable details state
   const [showDetails, setShowDetails] = useState(false);
 
+  // Phase the power-pumping timer last showed, to chime when it moves on
+  const phaseIndexRef = useRef<number | null>(null);
+
   // Stale timer modal state
   const [showStaleModal, setShowStaleModal] = useState(false);
   const staleModalDismissedRef = useRef(false);
@@ -210,10 +240,12 @@ export function PumpView({ baby }: PumpViewProps) {
     staleModalDismissedRef.current = false; // Reset for new timer
     setStarting(true);
     try {
+      if (usePowerPump) unlockChime();
       const sessionId = await startPumpSession(baby.id, user.uid, {
         startTime: new Date().toISOString(),
         side: selectedSide,
         volumeUnit,
+        program: usePowerPump ? POWER_PUMP_PROGRAM : null,
       });
 
       setActiveSessionId(sessionId);
@@ -225,7 +257,7 @@ export function PumpView({ baby }: PumpViewProps) {
     } finally {
       setStarting(false);
     }
-  }, [user, baby.id, selectedSide, volumeUnit, starting]);
+  }, [user, baby.id, selectedSide, volumeUnit, starting, usePowerPump]);
 
   const handlePause = useCallback(async () => {
     setIsTimerRunning(false);
@@ -267,6 +299,27 @@ export function PumpView({ baby }: PumpViewProps) {
     setShowForm(true);
   }, []);
 
+  // A running session keeps the program it started with, even after a reload
+  const activeSession = sessions.find((s) => s.isActive);
+  // Controls for the running session only go to someone allowed to finish it
+  const canFinishActive = activeSession ? canFinish(activeSession) : can('log');
+  const program = activeSession?.program ?? (usePowerPump ? POWER_PUMP_PROGRAM : null);
+  const currentPhase = program && (isTimerRunning || isPaused) ? getPumpPhaseAt(program, timerSeconds) : null;
+
+  // Chime at each phase change, and stop for saving once the last phase is done
+  useEffect(() => {
+    if (!program || !isTimerRunning) {
+      phaseIndexRef.current = null;
+      return;
+    }
+    const index = getPumpPhaseAt(program, timerSeconds)?.index ?? program.length;
+    if (phaseIndexRef.current !== null && index !== phaseIndexRef.current) {
+      playChime();
+      if (index === program.length) handleStop(timerSeconds);
+    }
+    phaseIndexRef.current = index;
+  }, [program, isTimerRunning, timerSeconds, handleStop]);
+
   const handleReset = useCallback(() => {
     setIsTimerRunning(false);
     setIsPaused(false);
@@ -274,6 +327,8 @@ export function PumpView({ baby }: PumpViewProps) {
     setActiveSessionId(null);
     setShowForm(false);
     setVolume('');
+    setLeftVolume('');
+    setRightVolume('');
     setNotes('');
     setMomMood(null);
     setEditedStartTime(null);
@@ -365,12 +420,13 @@ export function PumpView({ baby }: PumpViewProps) {
     if (!user) return;
 
     // Validate volume if provided
-    const parsedVolume = parseFloat(volume);
-    if (volume && (isNaN(parsedVolume) || parsedVolume < 0)) {
+    const enteredVolume = parsePumpVolumeInput(selectedSide, volume, leftVolume, rightVolume);
+    if (!enteredVolume) {
       toast.error('Please enter a valid volume (0 or greater).');
       return;
     }
-    const volumeValue = parsedVolume || 0;
+    const volumeValue = enteredVolume.volume;
+    const sideVolumes = { leftVolume: enteredVolume.leftVolume, rightVolume: enteredVolume.rightVolume };
 
     // For timer mode, we need activeSessionId; for manual mode, we need duration
     if (entryMode === 'timer') {
@@ -401,6 +457,7 @@ export function PumpView({ baby }: PumpViewProps) {
             endTime: endTime.toISOString(),
             side: selectedSide,
             volume: volumeValue,
+            ...sideVolumes,
             volumeUnit,
             notes: notes || null,
             momMood,
@@ -413,7 +470,8 @@ export function PumpView({ baby }: PumpViewProps) {
             volumeValue,
             volumeUnit,
             notes || null,
-            momMood
+            momMood,
+            sideVolumes
           );
         }
 
@@ -421,6 +479,7 @@ export function PumpView({ baby }: PumpViewProps) {
         if (volumeValue > 0) {
           setSavedSessionData({
             volume: volumeValue,
+            ...sideVolumes,
             volumeUnit,
             pumpedDate,
           });
@@ -464,15 +523,6 @@ export function PumpView({ baby }: PumpViewProps) {
         return;
       }
 
-      // Validate volume if provided
-      if (volume) {
-        const parsedVolume = parseFloat(volume);
-        if (isNaN(parsedVolume) || parsedVolume < 0) {
-          toast.error('Please enter a valid volume (0 or greater).');
-          return;
-        }
-      }
-
       setSaving(true);
       try {
         const sessionEndTime = new Date(sessionStartTime.getTime() + durationMinutes * 60 * 1000);
@@ -482,6 +532,7 @@ export function PumpView({ baby }: PumpViewProps) {
           endTime: sessionEndTime.toISOString(),
           side: selectedSide,
           volume: volumeValue,
+          ...sideVolumes,
           volumeUnit,
           notes: notes || null,
           momMood,
@@ -491,6 +542,7 @@ export function PumpView({ baby }: PumpViewProps) {
         if (volumeValue > 0) {
           setSavedSessionData({
             volume: volumeValue,
+            ...sideVolumes,
             volumeUnit,
             pumpedDate: sessionStartTime.toISOString(),
           });
@@ -514,20 +566,42 @@ export function PumpView({ baby }: PumpViewProps) {
       return;
     }
 
+    const { leftVolume: savedLeft, rightVolume: savedRight } = savedSessionData;
+    const hasSplit = savedLeft !== null && savedRight !== null;
+
     try {
-      if (destination === 'fridge' || destination === 'freezer') {
-        // Create milk stash entry
-        const location: MilkStorageLocation = destination === 'fridge' ? 'fridge' : 'freezer';
-        await createMilkStash(user.uid, {
-          volume: savedSessionData.volume,
-          volumeUnit: savedSessionData.volumeUnit,
-          location,
-          pumpedDate: savedSessionData.pumpedDate,
-          notes: null,
-        });
+      if (destination && destination in MILK_STORAGE_CONFIG) {
+        // Create milk stash entry, or one per side when kept apart
+        const location = destination as MilkStorageLocation;
+        const bags = hasSplit && storeSidesSeparately
+          ? [
+              { volume: savedLeft, notes: 'Left side' },
+              { volume: savedRight, notes: 'Right side' },
+            ].filter((bag) => bag.volume > 0)
+          : [{
+              volume: savedSessionData.volume,
+              notes: hasSplit ? `Left ${savedLeft} · Right ${savedRight} ${savedSessionData.volumeUnit}` : null,
+            }];
+        const stashIds: string[] = [];
+        for (const bag of bags) {
+          stashIds.push(await createMilkStash(baby.id, user.uid, {
+            volume: bag.volume,
+            volumeUnit: savedSessionData.volumeUnit,
+            location,
+            pumpedDate: savedSessionData.pumpedDate,
+            notes: bag.notes,
+          }));
+        }
+        toast.withAction(
+          `Added to the ${MILK_STORAGE_CONFIG[location].label.toLowerCase()} stash`,
+          {
+            label: stashIds.length === 1 ? 'Print label' : 'Print labels',
+            onClick: () => navigate(`/more/milk-stash/labels?ids=${stashIds.join(',')}`),
+          }
+        );
       } else if (destination === 'takeWithMe') {
         // Create milk stash entry and immediately mark as "in use" (starts 4-hour room temp countdown)
-        const stashId = await createMilkStash(user.uid, {
+        const stashId = await createMilkStash(baby.id, user.uid, {
           volume: savedSessionData.volume,
           volumeUnit: savedSessionData.volumeUnit,
           location: 'fridge', // Store as fridge location but mark in use
@@ -554,9 +628,14 @@ export function PumpView({ baby }: PumpViewProps) {
     } finally {
       setShowMilkDestination(false);
       setSavedSessionData(null);
+      setStoreSidesSeparately(false);
     }
   };
 
+  const hasSavedSplit = savedSessionData !== null
+    && savedSessionData.leftVolume !== null
+    && savedSessionData.rightVolume !== null;
+
   // Filter out active sessions for stats and history
   const completedSessions = sessions.filter(s => !s.isActive);
 
@@ -570,7 +649,7 @@ export function PumpView({ baby }: PumpViewProps) {
   return (
     <div className="space-y-4">
       {/* Entry Mode Toggle */}
-      {!isTimerRunning && !showForm && !activeSessionId && (
+      {can('log') && !isTimerRunning && !showForm && !activeSessionId && (
         <div className="flex justify-center">
           <SegmentedControl
             options={entryModeOptions}
@@ -580,12 +659,33 @@ export function PumpView({ baby }: PumpViewProps) {
         </div>
       )}
 
+      {/* Power Pumping */}
+      {can('log') && entryMode === 'timer' && !isTimerRunning && !showForm && !activeSessionId && (
+        <button
+          onClick={() => setUsePowerPump(!usePowerPump)}
+          aria-pressed={usePowerPump}
+          className={clsx(
+            'w-full flex items-center gap-3 px-4 py-3 rounded-xl border text-left transition-colors',
+            usePowerPump ? 'border-purple-300 bg-purple-50' : 'border-gray-200 bg-white hover:bg-gray-50'
+          )}
+        >
+          <Zap className={clsx('w-5 h-5', usePowerPump ? 'text-purple-600' : 'text-gray-400')} />
+          <div className="flex-1">
+            <p className="font-medium text-gray-900">Power pumping</p>
+            <p className="text-xs text-gray-500">
+              {POWER_PUMP_PROGRAM.map((phase) => `${phase.minutes} ${phase.kind === 'pump' ? 'on' : 'off'}`).join(' / ')}
+              {' '}· chimes at each change
+            </p>
+          </div>
+        </button>
+      )}
+
       {/* Side Selector */}
       <div className="flex justify-center gap-3">
         {(['left', 'right', 'both'] as PumpSide[]).map((side) => {
           const config = PUMP_SIDE_CONFIG[side];
           const isSelected = selectedSide === side;
-          const isDisabled = isTimerRunning || !!activeSessionId;
+          const isDisabled = isTimerRunning || !!activeSessionId || !can('log');
 
           return (
             <button
@@ -616,7 +716,7 @@ export function PumpView({ baby }: PumpViewProps) {
       </div>
 
       {/* Timer Mode */}
-      {entryMode === 'timer' && (
+      {entryMode === 'timer' && (can('log') || !!activeSessionId) && (
         <div
           className="relative rounded-3xl overflow-hidden"
           style={{
@@ -648,14 +748,42 @@ export function PumpView({ baby }: PumpViewProps) {
               onStop={handleStop}
               onReset={handleReset}
               onTimeUpdate={setTimerSeconds}
+              showControls={canFinishActive}
               color={PUMP_SIDE_CONFIG[selectedSide].color}
             />
+
+            {program && (isTimerRunning || isPaused) && (
+              <div className="mt-6">
+                <p className="text-center font-semibold text-gray-900">
+                  {currentPhase
+                    ? `${currentPhase.phase.kind === 'pump' ? 'Pump' : 'Rest'} · ${formatDuration(currentPhase.remainingSeconds)} left`
+                    : 'Power pumping complete'}
+                </p>
+                <div className="flex gap-1 mt-3" aria-label="Power pumping phases">
+                  {program.map((phase, index) => (
+                    <div
+                      key={index}
+                      className={clsx(
+                        'h-2 rounded-full',
+                        phase.kind === 'pump' ? 'bg-purple-500' : 'bg-gray-300',
+                        currentPhase && index > currentPhase.index && 'opacity-30',
+                        currentPhase?.index === index && 'ring-2 ring-offset-1 ring-purple-300'
+                      )}
+                      style={{ flexGrow: phase.minutes }}
+                    />
+                  ))}
+                </div>
+                <p className="text-center text-xs text-gray-500 mt-2">
+                  {Math.round(getPumpProgramSeconds(program) / 60)} min program
+                </p>
+              </div>
+            )}
           </div>
         </div>
       )}
 
       {/* Manual Entry Mode */}
-      {entryMode === 'manual' && !showForm && (
+      {can('log') && entryMode === 'manual' && !showForm && (
         <Card>
           <CardHeader title="Log Past Session" subtitle={`${PUMP_SIDE_CONFIG[selectedSide].label} side`} />
 
@@ -683,29 +811,17 @@ export function PumpView({ baby }: PumpViewProps) {
               max="120"
             />
 
-            <div className="flex gap-3">
-              <Input
-                type="number"
-                label="Volume"
-                placeholder="0"
-                value={volume}
-                onChange={(e) => setVolume(e.target.value)}
-                className="flex-1"
-                step="0.5"
-                min="0"
-              />
-              <div className="w-24 pt-6">
-                <SegmentedControl
-                  options={[
-                    { value: 'oz', label: 'oz' },
-                    { value: 'ml', label: 'ml' },
-                  ]}
-                  value={volumeUnit}
-                  onChange={(value) => setVolumeUnit(value as VolumeUnit)}
-                  size="sm"
-                />
-              </div>
-            </div>
+            <PumpVolumeInput
+              side={selectedSide}
+              volume={volume}
+              leftVolume={leftVolume}
+              rightVolume={rightVolume}
+              volumeUnit={volumeUnit}
+              onVolumeChange={setVolume}
+              onLeftVolumeChange={setLeftVolume}
+              onRightVolumeChange={setRightVolume}
+              onVolumeUnitChange={setVolumeUnit}
+            />
 
             <Button
               onClick={handleSave}
@@ -746,7 +862,7 @@ export function PumpView({ baby }: PumpViewProps) {
       )}
 
       {/* Save Form */}
-      {showForm && (
+      {showForm && canFinishActive && (
         <Card>
           <CardHeader
             title="Session Complete"
@@ -754,29 +870,17 @@ export function PumpView({ baby }: PumpViewProps) {
           />
 
           <div className="space-y-4">
-            <div className="flex gap-3">
-              <Input
-                type="number"
-                label="Volume"
-                placeholder="0"
-                value={volume}
-                onChange={(e) => setVolume(e.target.value)}
-                className="flex-1"
-                step="0.5"
-                min="0"
-              />
-              <div className="w-24 pt-6">
-                <SegmentedControl
-                  options={[
-                    { value: 'oz', label: 'oz' },
-                    { value: 'ml', label: 'ml' },
-                  ]}
-                  value={volumeUnit}
-                  onChange={(value) => setVolumeUnit(value as VolumeUnit)}
-                  size="sm"
-                />
-              </div>
-            </div>
+            <PumpVolumeInput
+              side={selectedSide}
+              volume={volume}
+              leftVolume={leftVolume}
+              rightVolume={rightVolume}
+              volumeUnit={volumeUnit}
+              onVolumeChange={setVolume}
+              onLeftVolumeChange={setLeftVolume}
+              onRightVolumeChange={setRightVolume}
+              onVolumeUnitChange={setVolumeUnit}
+            />
 
             <MomMoodSelector
               label="Your mood"
@@ -793,14 +897,16 @@ export function PumpView({ baby }: PumpViewProps) {
             />
 
             <div className="flex gap-2">
-              <Button
-                variant="outline"
-                onClick={handleDiscard}
-                className="px-3"
-                disabled={saving}
-              >
-                <Trash2 className="w-4 h-4 text-red-500" />
-              </Button>
+              {can('deleteHistory') && (
+                <Button
+                  variant="outline"
+                  onClick={handleDiscard}
+                  className="px-3"
+                  disabled={saving}
+                >
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </Button>
+              )}
               <Button
                 variant="outline"
                 onClick={handleEditBeforeSave}
@@ -820,6 +926,8 @@ export function PumpView({ baby }: PumpViewProps) {
         </Card>
       )}
 
+      <PumpScheduleCard sessions={sessions} />
+
       {/* Quick Stats */}
       <div className="grid grid-cols-2 gap-3">
         <div className="bg-gradient-to-br from-blue-50 to-blue-100/50 rounded-2xl p-4 text-center border border-blue-100">
@@ -855,7 +963,19 @@ export function PumpView({ baby }: PumpViewProps) {
             </div>
             <p className="text-sm text-gray-600 mb-4">
               {savedSessionData.volume} {savedSessionData.volumeUnit} pumped
+              {hasSavedSplit && ` (L ${savedSessionData.leftVolume} · R ${savedSessionData.rightVolume})`}
             </p>
+            {hasSavedSplit && (
+              <label className="flex items-center gap-2 text-sm text-gray-600 mb-4">
+                <input
+                  type="checkbox"
+                  checked={storeSidesSeparately}
+                  onChange={(e) => setStoreSidesSeparately(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                Store each side in its own bag
+              </label>
+            )}
             <div className="space-y-2">
               <Button
                 variant="outline"
@@ -870,6 +990,19 @@ export function PumpView({ baby }: PumpViewProps) {
                   <p className="text-xs text-gray-500">Add to milk stash</p>
                 </div>
               </Button>
+              <Button
+                variant="outline"
+                className="w-full justify-start gap-3"
+                onClick={() => handleMilkDestination('coolerBag')}
+              >
+                <div className="w-10 h-10 rounded-full bg-amber-100 flex items-center justify-center">
+                  <Backpack className="w-5 h-5 text-amber-600" />
+                </div>
+                <div className="text-left">
+                  <p className="font-medium">Store in Cooler Bag</p>
+                  <p className="text-xs text-gray-500">Good for 24 hours with ice packs</p>
+                </div>
+              </Button>
               <Button
                 variant="outline"
                 className="w-full justify-start gap-3"
@@ -944,7 +1077,8 @@ export function PumpView({ baby }: PumpViewProps) {
                 </div>
                 <div className="flex-1 min-w-0">
                   <p className="font-medium text-gray-900">
-                    {session.volume} {session.volumeUnit} • {PUMP_SIDE_CONFIG[session.side].label}
+                    {formatPumpVolume(session)} • {PUMP_SIDE_CONFIG[session.side].label}
+                    {session.program && ' • Power pump'}
                   </p>
                   <div className="flex items-center gap-2 text-sm text-gray-500">
                     <Clock className="w-3 h-3 flex-shrink-0" />
@@ -972,12 +1106,12 @@ export function PumpView({ baby }: PumpViewProps) {
 
       {/* Stale Timer Modal */}
       <StaleTimerModal
-        isOpen={showStaleModal}
+        isOpen={showStaleModal && canFinishActive}
         duration={timerSeconds}
         activityName="pump"
         onContinue={handleStaleTimerContinue}
         onStopAndSave={handleStaleTimerStopAndSave}
-        onDiscard={handleStaleTimerDiscard}
+        onDiscard={can('deleteHistory') ? handleStaleTimerDiscard : undefined}
       />
 
       {/* Pre-save Edit Modal */}
@@ -0,0 +1,431 @@
+import { useState, useEffect } from 'react';
+import { Header } from '@/components/layout/Header';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { SegmentedControl } from '@/components/ui/Select';
+import { useAuth } from '@/features/auth/AuthContext';
+import { useAppStore } from '@/stores/appStore';
+import { toast } from '@/stores/toastStore';
+import { useBabyPermissions } from '@/hooks/useBabyPermissions';
+import {
+  createFormulaContainer,
+  subscribeToFormulaContainers,
+  updateFormulaContainer,
+  markFormulaContainerFinished,
+  deleteFormulaContainer,
+} from '@/lib/firestore';
+import {
+  FormulaContainer,
+  FormulaAmountUnit,
+  VolumeUnit,
+  FORMULA_AMOUNT_UNIT_CONFIG,
+  DEFAULT_FORMULA_OPEN_EXPIRY_DAYS,
+  convertVolume,
+  getFormulaOpenExpirationDate,
+  getFormulaStockOz,
+  getHouseholdBabyIds,
+  isFormulaContainerExpired,
+  isFormulaStockLow,
+} from '@/types';
+import { Package, Plus, X, AlertTriangle, Check, Trash2, Pencil } from 'lucide-react';
+import { clsx } from 'clsx';
+
+const amountUnitOptions = (Object.keys(FORMULA_AMOUNT_UNIT_CONFIG) as FormulaAmountUnit[]).map((unit) => ({
+  value: unit,
+  label: FORMULA_AMOUNT_UNIT_CONFIG[unit].label,
+}));
+
+function formatAmount(amount: number): string {
+  return Number.isInteger(amount) ? amount.toString() : amount.toFixed(1);
+}
+
+export function FormulaInventoryView() {
+  const { user } = useAuth();
+  const { settings, babies, selectedBaby } = useAppStore();
+  const { can } = useBabyPermissions();
+  const [containers, setContainers] = useState<FormulaContainer[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [editingContainer, setEditingContainer] = useState<FormulaContainer | null>(null);
+  const [editRemaining, setEditRemaining] = useState('');
+
+  // Form state
+  const [brand, setBrand] = useState('');
+  const [amountUnit, setAmountUnit] = useState<FormulaAmountUnit>('scoops');
+  const [totalAmount, setTotalAmount] = useState('');
+  const [amountPerOz, setAmountPerOz] = useState(FORMULA_AMOUNT_UNIT_CONFIG.scoops.defaultPerOz.toString());
+  const [isOpened, setIsOpened] = useState(false);
+  const [openedDate, setOpenedDate] = useState(new Date().toISOString().split('T')[0]);
+  const [openExpiryDays, setOpenExpiryDays] = useState(DEFAULT_FORMULA_OPEN_EXPIRY_DAYS.toString());
+
+  const volumeUnit = settings?.preferredVolumeUnit || 'oz';
+
+  // Containers are shared by the household, like the milk stash
+  const householdKey = selectedBaby ? getHouseholdBabyIds(babies, selectedBaby.id).join(',') : '';
+
+  useEffect(() => {
+    if (!user || !householdKey) return;
+
+    const unsubscribe = subscribeToFormulaContainers(householdKey.split(','), setContainers);
+    return () => unsubscribe();
+  }, [user, householdKey]);
+
+  const resetForm = () => {
+    setBrand('');
+    setAmountUnit('scoops');
+    setTotalAmount('');
+    setAmountPerOz(FORMULA_AMOUNT_UNIT_CONFIG.scoops.defaultPerOz.toString());
+    setIsOpened(false);
+    setOpenedDate(new Date().toISOString().split('T')[0]);
+    setOpenExpiryDays(DEFAULT_FORMULA_OPEN_EXPIRY_DAYS.toString());
+    setShowForm(false);
+  };
+
+  const handleAmountUnitChange = (unit: FormulaAmountUnit) => {
+    setAmountUnit(unit);
+    setAmountPerOz(FORMULA_AMOUNT_UNIT_CONFIG[unit].defaultPerOz.toString());
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !selectedBaby) return;
+
+    const total = parseFloat(totalAmount);
+    const perOz = parseFloat(amountPerOz);
+    const expiryDays = parseInt(openExpiryDays, 10);
+    if (!brand.trim() || isNaN(total) || total <= 0 || isNaN(perOz) || perOz <= 0 || isNaN(expiryDays) || expiryDays <= 0) {
+      toast.error('Please fill in the brand, amount, and mixing ratio.');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await createFormulaContainer(selectedBaby.id, user.uid, {
+        brand: brand.trim(),
+        amountUnit,
+        totalAmount: total,
+        amountPerOz: perOz,
+        openedDate: isOpened ? new Date(`${openedDate}T12:00`).toISOString() : null,
+        openExpiryDays: expiryDays,
+      });
+      resetForm();
+    } catch (error) {
+      console.error('Error adding formula container:', error);
+      toast.error('Failed to add formula. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpen = async (container: FormulaContainer) => {
+    try {
+      await updateFormulaContainer(container.id, { openedDate: new Date().toISOString() });
+    } catch (error) {
+      console.error('Error opening formula container:', error);
+      toast.error('Failed to update formula. Please try again.');
+    }
+  };
+
+  const handleFinish = async (container: FormulaContainer) => {
+    try {
+      await markFormulaContainerFinished(container.id);
+    } catch (error) {
+      console.error('Error finishing formula container:', error);
+      toast.error('Failed to update formula. Please try again.');
+    }
+  };
+
+  const handleDelete = async (container: FormulaContainer) => {
+    try {
+      await deleteFormulaContainer(container.id);
+    } catch (error) {
+      console.error('Error deleting formula container:', error);
+      toast.error('Failed to delete formula. Please try again.');
+    }
+  };
+
+  const requestEdit = (container: FormulaContainer) => {
+    setEditingContainer(container);
+    setEditRemaining(formatAmount(container.remainingAmount));
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingContainer) return;
+
+    const remaining = parseFloat(editRemaining);
+    if (isNaN(remaining) || remaining < 0 || remaining > editingContainer.totalAmount) {
+      toast.error(`Please enter an amount between 0 and ${formatAmount(editingContainer.totalAmount)}.`);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      if (remaining === 0) {
+        await markFormulaContainerFinished(editingContainer.id);
+      } else {
+        await updateFormulaContainer(editingContainer.id, { remainingAmount: remaining });
+      }
+      setEditingContainer(null);
+      setEditRemaining('');
+    } catch (error) {
+      console.error('Error updating formula container:', error);
+      toast.error('Failed to update formula. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const stock = convertVolume(getFormulaStockOz(containers), 'oz', volumeUnit);
+  const isLow = isFormulaStockLow(containers);
+
+  return (
+    <div>
+      <Header
+        title="Formula"
+        showBabySwitcher={false}
+        rightAction={
+          can('log') && (
+            <Button size="sm" onClick={() => setShowForm(true)}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add
+            </Button>
+          )
+        }
+      />
+
+      <div className="px-4 py-4 space-y-4">
+        {/* Summary */}
+        <div className="grid grid-cols-2 gap-4">
+          <Card className={clsx('text-center', isLow ? 'bg-amber-50' : 'bg-blue-50')}>
+            <p className={clsx('text-2xl font-bold', isLow ? 'text-amber-600' : 'text-blue-600')}>
+              {Math.floor(stock)} {volumeUnit}
+            </p>
+            <p className={clsx('text-sm', isLow ? 'text-amber-500' : 'text-blue-500')}>
+              {isLow ? 'Running low' : 'Left to prepare'}
+            </p>
+          </Card>
+          <Card className="text-center bg-indigo-50">
+            <p className="text-2xl font-bold text-indigo-600">{containers.length}</p>
+            <p className="text-sm text-indigo-500">Container{containers.length === 1 ? '' : 's'}</p>
+          </Card>
+        </div>
+
+        {/* Edit Dialog */}
+        {editingContainer && (
+          <Card className="border-2 border-blue-300 bg-blue-50">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="font-semibold text-gray-900">Adjust {editingContainer.brand}</h3>
+              <button onClick={() => setEditingContainer(null)}>
+                <X className="w-5 h-5 text-gray-400" />
+              </button>
+            </div>
+
+            <Input
+              type="number"
+              step="0.5"
+              label={`Remaining (${FORMULA_AMOUNT_UNIT_CONFIG[editingContainer.amountUnit].label.toLowerCase()})`}
+              value={editRemaining}
+              onChange={(e) => setEditRemaining(e.target.value)}
+              min="0"
+              max={editingContainer.totalAmount}
+            />
+
+            <div className="flex gap-2 mt-4">
+              <Button variant="outline" className="flex-1" onClick={() => setEditingContainer(null)} disabled={loading}>
+                Cancel
+              </Button>
+              <Button className="flex-1" onClick={handleSaveEdit} disabled={loading || !editRemaining}>
+                {loading ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </Card>
+        )}
+
+        {/* Add Form */}
+        {showForm && (
+          <Card>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="font-semibold text-gray-900">Add Formula</h3>
+              <button onClick={resetForm}>
+                <X className="w-5 h-5 text-gray-400" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <Input
+                label="Brand"
+                placeholder="e.g. Similac Pro-Advance"
+                value={brand}
+                onChange={(e) => setBrand(e.target.value)}
+                required
+              />
+
+              <SegmentedControl
+                options={amountUnitOptions}
+                value={amountUnit}
+                onChange={(value) => handleAmountUnitChange(value as FormulaAmountUnit)}
+                size="sm"
+              />
+
+              <div className="grid grid-cols-2 gap-3">
+                <Input
+                  type="number"
+                  step="0.5"
+                  label={`${FORMULA_AMOUNT_UNIT_CONFIG[amountUnit].label} in container`}
+                  placeholder="0"
+                  value={totalAmount}
+                  onChange={(e) => setTotalAmount(e.target.value)}
+                  min="0"
+                  required
+                />
+                <Input
+                  type="number"
+                  step="0.1"
+                  label={FORMULA_AMOUNT_UNIT_CONFIG[amountUnit].perOzLabel}
+                  value={amountPerOz}
+                  onChange={(e) => setAmountPerOz(e.target.value)}
+                  min="0"
+                  required
+                />
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={isOpened}
+                  onChange={(e) => setIsOpened(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                Already opened
+              </label>
+
+              {isOpened && (
+                <Input
+                  type="date"
+                  label="Opened"
+                  value={openedDate}
+                  onChange={(e) => setOpenedDate(e.target.value)}
+                />
+              )}
+
+              <Input
+                type="number"
+                label="Use within (days after opening)"
+                value={openExpiryDays}
+                onChange={(e) => setOpenExpiryDays(e.target.value)}
+                min="1"
+              />
+
+              <Button type="submit" className="w-full" disabled={loading || !brand.trim() || !totalAmount}>
+                {loading ? 'Saving...' : 'Add Formula'}
+              </Button>
+            </form>
+          </Card>
+        )}
+
+        {containers.length > 0 && (
+          <div className="space-y-2">
+            {containers.map((container) => (
+              <FormulaCard
+                key={container.id}
+                container={container}
+                volumeUnit={volumeUnit}
+                onOpen={can('log') ? () => handleOpen(container) : undefined}
+                onFinish={can('log') ? () => handleFinish(container) : undefined}
+                onEdit={can('log') ? () => requestEdit(container) : undefined}
+                onDelete={can('deleteHistory') || container.userId === user?.uid ? () => handleDelete(container) : undefined}
+              />
+            ))}
+          </div>
+        )}
+
+        {containers.length === 0 && !showForm && (
+          <Card className="text-center py-8">
+            <Package className="w-12 h-12 mx-auto text-gray-300 mb-3" />
+            <p className="text-gray-500">No formula tracked</p>
+            {can('log') && <p className="text-sm text-gray-400">Tap + to add a container</p>}
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function FormulaCard({
+  container,
+  volumeUnit,
+  onOpen,
+  onFinish,
+  onEdit,
+  onDelete,
+}: {
+  container: FormulaContainer;
+  volumeUnit: VolumeUnit;
+  onOpen?: () => void;
+  onFinish?: () => void;
+  onEdit?: () => void;
+  onDelete?: () => void;
+}) {
+  const unitLabel = FORMULA_AMOUNT_UNIT_CONFIG[container.amountUnit].label.toLowerCase();
+  const isExpired = isFormulaContainerExpired(container);
+  const expirationDate = getFormulaOpenExpirationDate(container);
+  const preparedVolume = convertVolume(container.remainingAmount / container.amountPerOz, 'oz', volumeUnit);
+  const percentLeft = Math.round((container.remainingAmount / container.totalAmount) * 100);
+
+  return (
+    <Card className={clsx('py-3', isExpired && 'bg-red-50 border border-red-200')}>
+      <div className="flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="font-bold text-lg truncate">{container.brand}</span>
+            {isExpired ? (
+              <span className="px-2 py-0.5 rounded-full text-xs bg-red-500 text-white flex items-center gap-1">
+                <AlertTriangle className="w-3 h-3" />
+                Expired
+              </span>
+            ) : (
+              !container.openedDate && (
+                <span className="px-2 py-0.5 rounded-full text-xs bg-gray-200 text-gray-600">Sealed</span>
+              )
+            )}
+          </div>
+          <p className="text-sm text-gray-500">
+            {formatAmount(container.remainingAmount)} of {formatAmount(container.totalAmount)} {unitLabel} ({percentLeft}%)
+            {' '}• ~{Math.floor(preparedVolume)} {volumeUnit}
+          </p>
+          {expirationDate && container.openedDate && (
+            <p className="text-xs text-gray-400">
+              Opened {new Date(container.openedDate).toLocaleDateString()} • Use by {new Date(expirationDate).toLocaleDateString()}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {!container.openedDate ? (
+            onOpen && (
+              <Button size="sm" variant="outline" onClick={onOpen}>
+                Open
+              </Button>
+            )
+          ) : (
+            onFinish && (
+              <Button size="sm" variant="outline" onClick={onFinish} aria-label={`Finish ${container.brand}`}>
+                <Check className="w-4 h-4" />
+              </Button>
+            )
+          )}
+          {onEdit && (
+            <Button size="sm" variant="outline" onClick={onEdit} aria-label={`Adjust ${container.brand}`}>
+              <Pencil className="w-4 h-4 text-blue-500" />
+            </Button>
+          )}
+          {onDelete && (
+            <Button size="sm" variant="outline" onClick={onDelete} aria-label={`Delete ${container.brand}`}>
+              <Trash2 className="w-4 h-4 text-red-500" />
+            </Button>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+}
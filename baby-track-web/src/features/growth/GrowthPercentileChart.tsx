@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { SegmentedControl } from '@/components/ui/Select';
+import { convertLength, convertWeight, getCorrectedBirthDate } from '@/types';
+import type { Baby, GrowthEntry, LengthUnit, WeightUnit } from '@/types';
+import {
+  ComposedChart,
+  Line,
+  Scatter,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import {
+  GROWTH_INDICATOR_CONFIG,
+  PERCENTILE_CURVES,
+  buildPercentileCurves,
+  getAgeInMonths,
+  getMetricMeasurements,
+  type GrowthIndicator,
+} from './growthPercentiles';
+
+interface GrowthPercentileChartProps {
+  baby: Baby;
+  entries: GrowthEntry[];
+  weightUnit: WeightUnit;
+  lengthUnit: LengthUnit;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function GrowthPercentileChart({ baby, entries, weightUnit, lengthUnit }: GrowthPercentileChartProps) {
+  const navigate = useNavigate();
+  const [indicator, setIndicator] = useState<GrowthIndicator>('weightForAge');
+
+  if (!baby.sex) {
+    return (
+      <Card>
+        <h3 className="font-semibold text-gray-900 mb-2">Growth Percentiles</h3>
+        <p className="text-sm text-gray-500 mb-3">
+          WHO growth charts are different for boys and girls. Set {baby.name}'s sex to see percentiles.
+        </p>
+        <Button variant="outline" size="sm" onClick={() => navigate(`/more/babies/${baby.id}/edit`)}>
+          Edit Baby Profile
+        </Button>
+      </Card>
+    );
+  }
+
+  const correctedBirthDate = getCorrectedBirthDate(baby);
+  const ageOriginDate = correctedBirthDate ?? baby.birthDate;
+  const isWeightForLength = indicator === 'weightForLength';
+  const isWeightIndicator = indicator === 'weightForAge' || isWeightForLength;
+  const toDisplayX = (x: number) => (isWeightForLength ? convertLength(x, 'cm', lengthUnit) : x);
+  const toDisplayY = (y: number) => (isWeightIndicator ? convertWeight(y, 'kg', weightUnit) : convertLength(y, 'cm', lengthUnit));
+
+  const curves = buildPercentileCurves(indicator, baby.sex).map((point) => ({
+    x: round(toDisplayX(point.x)),
+    p3: round(toDisplayY(point.p3)),
+    p15: round(toDisplayY(point.p15)),
+    p50: round(toDisplayY(point.p50)),
+    p85: round(toDisplayY(point.p85)),
+    p97: round(toDisplayY(point.p97)),
+  }));
+
+  const points = entries.flatMap((entry) => {
+    const { weightKg, lengthCm, headCm } = getMetricMeasurements(entry);
+    let x: number | null = null;
+    let y: number | null = null;
+
+    if (isWeightForLength) {
+      x = lengthCm;
+      y = weightKg;
+    } else if (ageOriginDate) {
+      x = getAgeInMonths(ageOriginDate, entry.date);
+      y = indicator === 'weightForAge' ? weightKg : indicator === 'lengthForAge' ? lengthCm : headCm;
+    }
+
+    if (x === null || y === null) return [];
+    return [{ x: round(toDisplayX(x)), y: round(toDisplayY(y)) }];
+  });
+
+  const xMin = curves[0].x;
+  const xMax = curves[curves.length - 1].x;
+  const plottedPoints = points.filter((point) => point.x >= xMin && point.x <= xMax);
+  const needsBirthDate = !isWeightForLength && !ageOriginDate;
+  const config = GROWTH_INDICATOR_CONFIG[indicator];
+
+  return (
+    <Card>
+      <h3 className="font-semibold text-gray-900 mb-3">Growth Percentiles</h3>
+      <SegmentedControl
+        options={(Object.keys(GROWTH_INDICATOR_CONFIG) as GrowthIndicator[]).map((key) => ({
+          value: key,
+          label: GROWTH_INDICATOR_CONFIG[key].shortLabel,
+        }))}
+        value={indicator}
+        onChange={(value) => setIndicator(value as GrowthIndicator)}
+        size="sm"
+        fullWidth
+      />
+
+      <p className="text-xs text-gray-500 mt-3">
+        {config.label} ({isWeightIndicator ? weightUnit : lengthUnit}
+        {isWeightForLength ? ` by ${lengthUnit}` : correctedBirthDate ? ' by corrected month' : ' by month'})
+      </p>
+
+      <div className="h-56 mt-2">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={curves} margin={{ top: 5, right: 10, bottom: 0, left: -20 }}>
+            <XAxis dataKey="x" type="number" domain={[xMin, xMax]} tick={{ fontSize: 10 }} />
+            <YAxis tick={{ fontSize: 10 }} domain={['auto', 'auto']} />
+            <Tooltip />
+            {PERCENTILE_CURVES.map((percentile) => (
+              <Line
+                key={percentile}
+                dataKey={`p${percentile}`}
+                name={`${percentile}th`}
+                stroke={percentile === 50 ? '#6b7280' : '#d1d5db'}
+                strokeWidth={percentile === 50 ? 2 : 1}
+                strokeDasharray={percentile === 50 ? undefined : '4 3'}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+            <Scatter data={plottedPoints} dataKey="y" name={baby.name} fill={config.color} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <p className="text-xs text-gray-400 mt-2 text-center">
+        Lines show the 3rd, 15th, 50th, 85th and 97th WHO percentiles
+      </p>
+      {needsBirthDate && (
+        <p className="text-xs text-orange-600 mt-1 text-center">
+          Add a birth date to plot measurements by age
+        </p>
+      )}
+      {!needsBirthDate && plottedPoints.length < points.length && (
+        <p className="text-xs text-gray-400 mt-1 text-center">
+          Measurements outside the chart range are not shown
+        </p>
+      )}
+    </Card>
+  );
+}
@@ -5,13 +5,18 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { useAuth } from '@/features/auth/AuthContext';
 import { useAppStore } from '@/stores/appStore';
+import { useBabyPermissions } from '@/hooks/useBabyPermissions';
 import { createGrowthEntry, subscribeToGrowthEntries } from '@/lib/firestore';
+import { getCorrectedBirthDate } from '@/types';
 import type { GrowthEntry } from '@/types';
+import { GrowthPercentileChart } from './GrowthPercentileChart';
+import { GROWTH_INDICATOR_CONFIG, assessGrowthEntry, formatPercentile, formatZScore } from './growthPercentiles';
 import { TrendingUp, Plus, X, Scale, Ruler, Circle } from 'lucide-react';
 
 export function GrowthView() {
   const { user } = useAuth();
   const { selectedBaby, settings } = useAppStore();
+  const { can } = useBabyPermissions();
   const [entries, setEntries] = useState<GrowthEntry[]>([]);
   const [showForm, setShowForm] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -67,6 +72,8 @@ export function GrowthView() {
   };
 
   const latestEntry = entries[0];
+  // Preterm babies are compared against the standards by corrected age
+  const ageOriginDate = selectedBaby ? getCorrectedBirthDate(selectedBaby) ?? selectedBaby.birthDate : null;
 
   if (!selectedBaby) {
     return (
@@ -82,10 +89,12 @@ export function GrowthView() {
         title="Growth"
         showBabySwitcher={false}
         rightAction={
-          <Button size="sm" onClick={() => setShowForm(true)}>
-            <Plus className="w-4 h-4 mr-1" />
-            Add
-          </Button>
+          can('log') && (
+            <Button size="sm" onClick={() => setShowForm(true)}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add
+            </Button>
+          )
         }
       />
 
@@ -129,8 +138,18 @@ export function GrowthView() {
           </Card>
         )}
 
+        {/* Percentile Charts */}
+        {entries.length > 0 && (
+          <GrowthPercentileChart
+            baby={selectedBaby}
+            entries={entries}
+            weightUnit={weightUnit}
+            lengthUnit={lengthUnit}
+          />
+        )}
+
         {/* Add Entry Form */}
-        {showForm && (
+        {can('log') && showForm && (
           <Card>
             <div className="flex items-center justify-between mb-4">
               <h3 className="font-semibold text-gray-900">New Measurement</h3>
@@ -196,35 +215,52 @@ export function GrowthView() {
             <Card className="text-center py-8">
               <TrendingUp className="w-12 h-12 mx-auto text-gray-300 mb-3" />
               <p className="text-gray-500">No growth entries yet</p>
-              <p className="text-sm text-gray-400">Tap + to add your first measurement</p>
+              {can('log') && <p className="text-sm text-gray-400">Tap + to add your first measurement</p>}
             </Card>
           ) : (
             <div className="space-y-2">
-              {entries.map((entry) => (
-                <Card key={entry.id} className="py-3">
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <p className="text-sm font-medium text-gray-900">
-                        {new Date(entry.date).toLocaleDateString()}
-                      </p>
-                      <div className="flex gap-4 mt-1 text-sm text-gray-500">
-                        {entry.weight && (
-                          <span>{entry.weight} {entry.weightUnit}</span>
-                        )}
-                        {entry.height && (
-                          <span>{entry.height} {entry.heightUnit}</span>
+              {entries.map((entry) => {
+                const assessments = assessGrowthEntry(entry, ageOriginDate, selectedBaby.sex ?? null);
+
+                return (
+                  <Card key={entry.id} className="py-3">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">
+                          {new Date(entry.date).toLocaleDateString()}
+                        </p>
+                        <div className="flex gap-4 mt-1 text-sm text-gray-500">
+                          {entry.weight && (
+                            <span>{entry.weight} {entry.weightUnit}</span>
+                          )}
+                          {entry.height && (
+                            <span>{entry.height} {entry.heightUnit}</span>
+                          )}
+                          {entry.headCircumference && (
+                            <span>HC: {entry.headCircumference} {entry.headCircumferenceUnit}</span>
+                          )}
+                        </div>
+                        {assessments.length > 0 && (
+                          <div className="flex flex-wrap gap-1.5 mt-2">
+                            {assessments.map((assessment) => (
+                              <span
+                                key={assessment.indicator}
+                                className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600"
+                                title={GROWTH_INDICATOR_CONFIG[assessment.indicator].label}
+                              >
+                                {GROWTH_INDICATOR_CONFIG[assessment.indicator].shortLabel}: {formatPercentile(assessment.percentile)} (z {formatZScore(assessment.zScore)})
+                              </span>
+                            ))}
+                          </div>
                         )}
-                        {entry.headCircumference && (
-                          <span>HC: {entry.headCircumference} {entry.headCircumferenceUnit}</span>
+                        {entry.notes && (
+                          <p className="text-xs text-gray-400 mt-1">{entry.notes}</p>
                         )}
                       </div>
-                      {entry.notes && (
-                        <p className="text-xs text-gray-400 mt-1">{entry.notes}</p>
-                      )}
                     </div>
-                  </div>
-                </Card>
-              ))}
+                  </Card>
+                );
+              })}
             </div>
           )}
         </div>
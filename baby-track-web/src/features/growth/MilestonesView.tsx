@@ -5,7 +5,9 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { useAuth } from '@/features/auth/AuthContext';
 import { useAppStore } from '@/stores/appStore';
+import { useBabyPermissions } from '@/hooks/useBabyPermissions';
 import { createMilestone, subscribeToMilestones, markMilestoneAchieved } from '@/lib/firestore';
+import { calculateCorrectedAge, getDevelopmentalAgeMonths, getExpectedMilestones } from '@/types';
 import type { Milestone } from '@/types';
 import { MilestoneCategory, MILESTONE_CATEGORY_CONFIG, COMMON_MILESTONES } from '@/types/enums';
 import { Star, Plus, X, Check, Clock } from 'lucide-react';
@@ -14,6 +16,7 @@ import { clsx } from 'clsx';
 export function MilestonesView() {
   const { user } = useAuth();
   const { selectedBaby } = useAppStore();
+  const { can } = useBabyPermissions();
   const [milestones, setMilestones] = useState<Milestone[]>([]);
   const [showForm, setShowForm] = useState(false);
   const [filter, setFilter] = useState<MilestoneCategory | 'all'>('all');
@@ -76,6 +79,20 @@ export function MilestonesView() {
   const achieved = filteredMilestones.filter(m => m.isAchieved);
   const pending = filteredMilestones.filter(m => !m.isAchieved);
 
+  // Expectations follow corrected age for babies born early
+  const developmentalAgeMonths = selectedBaby ? getDevelopmentalAgeMonths(selectedBaby) : null;
+  const isCorrectedAge = selectedBaby ? !!calculateCorrectedAge(selectedBaby) : false;
+  const recordedNames = new Set(milestones.map(m => m.name.toLowerCase()));
+  const expectedMilestones = developmentalAgeMonths !== null
+    ? getExpectedMilestones(developmentalAgeMonths).filter(m => !recordedNames.has(m.name.toLowerCase()))
+    : [];
+
+  const handleTrackExpected = (name: string, milestoneCategory: MilestoneCategory) => {
+    setMilestoneName(name);
+    setCategory(milestoneCategory);
+    setShowForm(true);
+  };
+
   if (!selectedBaby) {
     return (
       <div className="p-4 text-center text-gray-500">
@@ -90,10 +107,12 @@ export function MilestonesView() {
         title="Milestones"
         showBabySwitcher={false}
         rightAction={
-          <Button size="sm" onClick={() => setShowForm(true)}>
-            <Plus className="w-4 h-4 mr-1" />
-            Add
-          </Button>
+          can('log') && (
+            <Button size="sm" onClick={() => setShowForm(true)}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add
+            </Button>
+          )
         }
       />
 
@@ -110,8 +129,36 @@ export function MilestonesView() {
           </Card>
         </div>
 
+        {/* Expected Around Now */}
+        {expectedMilestones.length > 0 && developmentalAgeMonths !== null && (
+          <Card>
+            <h3 className="font-semibold text-gray-900">Expected Around Now</h3>
+            <p className="text-xs text-gray-500 mb-3">
+              Based on {isCorrectedAge ? 'corrected age' : 'age'} of {Math.floor(developmentalAgeMonths)} month{Math.floor(developmentalAgeMonths) !== 1 ? 's' : ''}
+            </p>
+            <div className="space-y-2">
+              {expectedMilestones.map((m) => (
+                <div key={m.name} className="flex items-center justify-between gap-3">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{m.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {MILESTONE_CATEGORY_CONFIG[m.category].label}
+                      {m.typicalAgeMonths && ` · typically ${m.typicalAgeMonths[0]}–${m.typicalAgeMonths[1]} months`}
+                    </p>
+                  </div>
+                  {can('log') && (
+                    <Button size="sm" variant="outline" onClick={() => handleTrackExpected(m.name, m.category)}>
+                      Track
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
         {/* Add Form */}
-        {showForm && (
+        {can('log') && showForm && (
           <Card>
             <div className="flex items-center justify-between mb-4">
               <h3 className="font-semibold text-gray-900">Add Milestone</h3>
@@ -240,7 +287,7 @@ export function MilestonesView() {
                 <MilestoneCard
                   key={milestone.id}
                   milestone={milestone}
-                  onMarkAchieved={() => handleMarkAchieved(milestone)}
+                  onMarkAchieved={can('editHistory') ? () => handleMarkAchieved(milestone) : undefined}
                 />
               ))}
             </div>
@@ -266,7 +313,7 @@ export function MilestonesView() {
           <Card className="text-center py-8">
             <Star className="w-12 h-12 mx-auto text-gray-300 mb-3" />
             <p className="text-gray-500">No milestones recorded</p>
-            <p className="text-sm text-gray-400">Tap + to add one</p>
+            {can('log') && <p className="text-sm text-gray-400">Tap + to add one</p>}
           </Card>
         )}
       </div>
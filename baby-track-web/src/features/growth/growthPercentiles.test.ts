@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assessGrowth,
+  assessGrowthEntry,
+  formatPercentile,
+  formatZScore,
+  getAgeInMonths,
+  getLmsAt,
+  lmsValueAt,
+  lmsZScore,
+  zScoreToPercentile,
+} from './growthPercentiles';
+import { WHO_GROWTH_STANDARDS } from './whoGrowthStandards';
+import type { GrowthEntry } from '@/types';
+
+const createEntry = (overrides: Partial<GrowthEntry> = {}): GrowthEntry => ({
+  id: 'growth-1',
+  babyId: 'baby1',
+  userId: 'user1',
+  date: '2024-07-01',
+  weight: null,
+  weightUnit: 'kg',
+  height: null,
+  heightUnit: 'cm',
+  headCircumference: null,
+  headCircumferenceUnit: 'cm',
+  photoUrl: null,
+  notes: null,
+  createdAt: '2024-07-01T00:00:00.000Z',
+  updatedAt: '2024-07-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('getLmsAt', () => {
+  const table = WHO_GROWTH_STANDARDS.weightForAge.male;
+
+  it('returns the exact row for whole months', () => {
+    expect(getLmsAt(table, 12)).toEqual({ l: 0.0644, m: 9.6479, s: 0.10925 });
+  });
+
+  it('interpolates between rows', () => {
+    const lms = getLmsAt(table, 0.5);
+    expect(lms?.m).toBeCloseTo((3.3464 + 4.4709) / 2, 4);
+  });
+
+  it('returns null outside the table range', () => {
+    expect(getLmsAt(table, -0.1)).toBeNull();
+    expect(getLmsAt(table, 24.5)).toBeNull();
+  });
+});
+
+describe('WHO weight-for-length standards', () => {
+  const { male, female } = WHO_GROWTH_STANDARDS.weightForLength;
+
+  it('matches the published LMS values', () => {
+    expect(getLmsAt(male, 45)).toEqual({ l: -0.3521, m: 2.441, s: 0.09182 });
+    expect(getLmsAt(female, 45)).toEqual({ l: -0.3833, m: 2.4607, s: 0.09029 });
+    expect(getLmsAt(male, 60)?.m).toBe(5.9907);
+    expect(getLmsAt(female, 75)?.m).toBe(9.149);
+    expect(getLmsAt(male, 110)?.m).toBe(18.2689);
+  });
+
+  it('covers 45 to 110 cm in half-centimetre steps', () => {
+    expect(male).toHaveLength(131);
+    expect(female).toHaveLength(131);
+    expect(getLmsAt(male, 80.5)?.m).toBe(10.5405);
+    expect(getLmsAt(female, 80.5)?.m).toBe(10.1916);
+  });
+});
+
+describe('lmsZScore', () => {
+  const lms = { l: 0.0644, m: 9.6479, s: 0.10925 };
+
+  it('is zero at the median', () => {
+    expect(lmsZScore(9.6479, lms)).toBeCloseTo(0, 6);
+  });
+
+  it('inverts lmsValueAt within ±3 SD', () => {
+    expect(lmsZScore(lmsValueAt(lms, 2), lms)).toBeCloseTo(2, 6);
+    expect(lmsZScore(lmsValueAt(lms, -1.5), lms)).toBeCloseTo(-1.5, 6);
+  });
+
+  it('extrapolates linearly beyond ±3 SD', () => {
+    const sd2 = lmsValueAt(lms, 2);
+    const sd3 = lmsValueAt(lms, 3);
+    expect(lmsZScore(sd3 + (sd3 - sd2), lms)).toBeCloseTo(4, 6);
+  });
+});
+
+describe('zScoreToPercentile', () => {
+  it('maps common z-scores to percentiles', () => {
+    expect(zScoreToPercentile(0)).toBeCloseTo(50, 4);
+    expect(zScoreToPercentile(1.881)).toBeCloseTo(97, 1);
+    expect(zScoreToPercentile(-1.036)).toBeCloseTo(15, 1);
+  });
+});
+
+describe('assessGrowth', () => {
+  it('uses the sex-specific reference', () => {
+    const boy = assessGrowth('lengthForAge', 'male', 0, 49.8842);
+    const girl = assessGrowth('lengthForAge', 'female', 0, 49.8842);
+    expect(boy?.percentile).toBeCloseTo(50, 2);
+    expect(girl?.percentile).toBeGreaterThan(50);
+  });
+
+  it('returns null for measurements outside the standards', () => {
+    expect(assessGrowth('weightForLength', 'female', 120, 20)).toBeNull();
+    expect(assessGrowth('weightForAge', 'female', 6, 0)).toBeNull();
+  });
+});
+
+describe('assessGrowthEntry', () => {
+  it('converts imperial entries and assesses every available indicator', () => {
+    const entry = createEntry({
+      date: '2024-01-01',
+      weight: 3.3464 / 0.453592,
+      weightUnit: 'lbs',
+      height: 49.8842 / 2.54,
+      heightUnit: 'in',
+    });
+
+    const assessments = assessGrowthEntry(entry, '2024-01-01', 'male');
+    expect(assessments.map((a) => a.indicator)).toEqual(['weightForAge', 'lengthForAge', 'weightForLength']);
+    expect(assessments[0].zScore).toBeCloseTo(0, 3);
+    expect(assessments[1].zScore).toBeCloseTo(0, 3);
+  });
+
+  it('skips age-based indicators without a birth date', () => {
+    const entry = createEntry({ weight: 7, height: 65 });
+    expect(assessGrowthEntry(entry, null, 'female').map((a) => a.indicator)).toEqual(['weightForLength']);
+  });
+
+  it('returns nothing when sex is unknown', () => {
+    expect(assessGrowthEntry(createEntry({ weight: 7 }), '2024-01-01', null)).toEqual([]);
+  });
+});
+
+describe('getAgeInMonths', () => {
+  it('uses the WHO average month length', () => {
+    expect(getAgeInMonths('2024-01-01', '2024-01-01')).toBe(0);
+    expect(getAgeInMonths('2024-01-01', '2025-01-01')).toBeCloseTo(366 / 30.4375, 6);
+  });
+});
+
+describe('formatting', () => {
+  it('formats percentiles with ordinal suffixes', () => {
+    expect(formatPercentile(50.4)).toBe('50th');
+    expect(formatPercentile(1.2)).toBe('1st');
+    expect(formatPercentile(22)).toBe('22nd');
+    expect(formatPercentile(12.8)).toBe('13th');
+    expect(formatPercentile(0.5)).toBe('0.5th');
+    expect(formatPercentile(99.95)).toBe('>99.9th');
+  });
+
+  it('formats z-scores with a sign', () => {
+    expect(formatZScore(1.234)).toBe('+1.23');
+    expect(formatZScore(-0.5)).toBe('-0.50');
+    expect(formatZScore(-0.001)).toBe('0.00');
+  });
+});
@@ -0,0 +1,182 @@
+import { convertLength, convertWeight } from '@/types';
+import type { BabySex, GrowthEntry } from '@/types';
+import { WHO_GROWTH_STANDARDS, type GrowthIndicator, type LmsRow } from './whoGrowthStandards';
+
+export type { GrowthIndicator } from './whoGrowthStandards';
+
+export const GROWTH_INDICATOR_CONFIG: Record<GrowthIndicator, { label: string; shortLabel: string; color: string }> = {
+  weightForAge: { label: 'Weight-for-age', shortLabel: 'Weight', color: '#ff9800' },
+  lengthForAge: { label: 'Length-for-age', shortLabel: 'Length', color: '#2196f3' },
+  headCircumferenceForAge: { label: 'Head circumference-for-age', shortLabel: 'Head', color: '#9c27b0' },
+  weightForLength: { label: 'Weight-for-length', shortLabel: 'W/L', color: '#4caf50' },
+};
+
+// Percentile lines drawn on the charts (the WHO chart set)
+export const PERCENTILE_CURVES = [3, 15, 50, 85, 97] as const;
+export type PercentileCurve = (typeof PERCENTILE_CURVES)[number];
+
+const CURVE_Z_SCORES: Record<PercentileCurve, number> = {
+  3: -1.881,
+  15: -1.036,
+  50: 0,
+  85: 1.036,
+  97: 1.881,
+};
+
+// WHO uses an average month length when converting age in days to months
+const DAYS_PER_MONTH = 30.4375;
+
+interface Lms {
+  l: number;
+  m: number;
+  s: number;
+}
+
+export interface GrowthAssessment {
+  indicator: GrowthIndicator;
+  zScore: number;
+  percentile: number;
+}
+
+export interface PercentileCurvePoint {
+  x: number;
+  p3: number;
+  p15: number;
+  p50: number;
+  p85: number;
+  p97: number;
+}
+
+export function getAgeInMonths(birthDate: string, date: string): number {
+  const birth = new Date(birthDate.split('T')[0]).getTime();
+  const measured = new Date(date.split('T')[0]).getTime();
+  return (measured - birth) / (1000 * 60 * 60 * 24) / DAYS_PER_MONTH;
+}
+
+// Linear interpolation between table rows; null outside the table's range
+export function getLmsAt(table: LmsRow[], x: number): Lms | null {
+  const first = table[0];
+  const last = table[table.length - 1];
+  if (x < first[0] || x > last[0]) return null;
+
+  const upperIndex = table.findIndex((row) => row[0] >= x);
+  const upper = table[upperIndex];
+  if (upper[0] === x || upperIndex === 0) {
+    return { l: upper[1], m: upper[2], s: upper[3] };
+  }
+
+  const lower = table[upperIndex - 1];
+  const t = (x - lower[0]) / (upper[0] - lower[0]);
+  return {
+    l: lower[1] + (upper[1] - lower[1]) * t,
+    m: lower[2] + (upper[2] - lower[2]) * t,
+    s: lower[3] + (upper[3] - lower[3]) * t,
+  };
+}
+
+export function lmsValueAt({ l, m, s }: Lms, z: number): number {
+  if (l === 0) return m * Math.exp(s * z);
+  return m * Math.pow(1 + l * s * z, 1 / l);
+}
+
+// Beyond ±3 SD the WHO standards extrapolate linearly from the 2–3 SD spacing
+// instead of following the skewed LMS curve.
+export function lmsZScore(value: number, lms: Lms): number {
+  const { l, m, s } = lms;
+  const z = l === 0 ? Math.log(value / m) / s : (Math.pow(value / m, l) - 1) / (l * s);
+
+  if (z > 3) {
+    const sd3 = lmsValueAt(lms, 3);
+    return 3 + (value - sd3) / (sd3 - lmsValueAt(lms, 2));
+  }
+  if (z < -3) {
+    const sd3 = lmsValueAt(lms, -3);
+    return -3 + (value - sd3) / (lmsValueAt(lms, -2) - sd3);
+  }
+  return z;
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26), as a percentile
+export function zScoreToPercentile(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  const cdf = z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+  return cdf * 100;
+}
+
+// x is age in months, or length in cm for weight-for-length; value is kg or cm
+export function assessGrowth(
+  indicator: GrowthIndicator,
+  sex: BabySex,
+  x: number,
+  value: number
+): GrowthAssessment | null {
+  if (value <= 0) return null;
+
+  const lms = getLmsAt(WHO_GROWTH_STANDARDS[indicator][sex], x);
+  if (!lms) return null;
+
+  const zScore = lmsZScore(value, lms);
+  return { indicator, zScore, percentile: zScoreToPercentile(zScore) };
+}
+
+export function buildPercentileCurves(indicator: GrowthIndicator, sex: BabySex): PercentileCurvePoint[] {
+  return WHO_GROWTH_STANDARDS[indicator][sex].map(([x, l, m, s]) => {
+    const lms = { l, m, s };
+    return {
+      x,
+      p3: lmsValueAt(lms, CURVE_Z_SCORES[3]),
+      p15: lmsValueAt(lms, CURVE_Z_SCORES[15]),
+      p50: lmsValueAt(lms, CURVE_Z_SCORES[50]),
+      p85: lmsValueAt(lms, CURVE_Z_SCORES[85]),
+      p97: lmsValueAt(lms, CURVE_Z_SCORES[97]),
+    };
+  });
+}
+
+// Metric measurements of an entry, in the units the WHO tables use
+export function getMetricMeasurements(entry: GrowthEntry): { weightKg: number | null; lengthCm: number | null; headCm: number | null } {
+  return {
+    weightKg: entry.weight ? convertWeight(entry.weight, entry.weightUnit, 'kg') : null,
+    lengthCm: entry.height ? convertLength(entry.height, entry.heightUnit, 'cm') : null,
+    headCm: entry.headCircumference ? convertLength(entry.headCircumference, entry.headCircumferenceUnit, 'cm') : null,
+  };
+}
+
+// Every indicator that can be computed for an entry, in GROWTH_INDICATOR_CONFIG order
+export function assessGrowthEntry(entry: GrowthEntry, birthDate: string | null, sex: BabySex | null): GrowthAssessment[] {
+  if (!sex) return [];
+
+  const { weightKg, lengthCm, headCm } = getMetricMeasurements(entry);
+  const ageMonths = birthDate ? getAgeInMonths(birthDate, entry.date) : null;
+  const assessments: (GrowthAssessment | null)[] = [];
+
+  if (ageMonths !== null) {
+    if (weightKg) assessments.push(assessGrowth('weightForAge', sex, ageMonths, weightKg));
+    if (lengthCm) assessments.push(assessGrowth('lengthForAge', sex, ageMonths, lengthCm));
+    if (headCm) assessments.push(assessGrowth('headCircumferenceForAge', sex, ageMonths, headCm));
+  }
+  if (weightKg && lengthCm) {
+    assessments.push(assessGrowth('weightForLength', sex, lengthCm, weightKg));
+  }
+
+  return assessments.filter((assessment): assessment is GrowthAssessment => assessment !== null);
+}
+
+export function formatPercentile(percentile: number): string {
+  if (percentile < 0.1) return '<0.1st';
+  if (percentile > 99.9) return '>99.9th';
+  if (percentile < 1 || percentile > 99) return `${percentile.toFixed(1)}th`;
+
+  const rounded = Math.round(percentile);
+  const lastTwo = rounded % 100;
+  const suffixes: Record<number, string> = { 1: 'st', 2: 'nd', 3: 'rd' };
+  const suffix = lastTwo >= 11 && lastTwo <= 13 ? 'th' : suffixes[rounded % 10] ?? 'th';
+  return `${rounded}${suffix}`;
+}
+
+export function formatZScore(zScore: number): string {
+  const value = Math.abs(zScore) < 0.005 ? '0.00' : zScore.toFixed(2);
+  return zScore >= 0.005 ? `+${value}` : value;
+}
@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { useAuth } from '@/features/auth/AuthContext';
 import { useAppStore } from '@/stores/appStore';
+import { useBabyPermissions } from '@/hooks/useBabyPermissions';
 import { useHomeStore } from '@/stores/homeStore';
 import { prefetchHomeData } from '@/features/dashboard/homeDataSync';
 import { createMedicine, createMedicineLog, subscribeToMedicineLogs, updateMedicine } from '@/lib/firestore';
@@ -65,6 +66,9 @@ function getHoursUntilNextDose(logs: MedicineLog[], hoursInterval: number | null
 export function MedicineView() {
   const { user } = useAuth();
   const { selectedBaby } = useAppStore();
+  const { can } = useBabyPermissions();
+  const canLog = can('log');
+  const canEditMedical = can('editMedical');
   const medicines = useHomeStore((state) => state.medicines);
   const medicineLogs = useHomeStore((state) => state.medicineLogs);
   const addOptimisticMedicineLog = useHomeStore((state) => state.addOptimisticMedicineLog);
@@ -312,17 +316,17 @@ export function MedicineView() {
       <Header
         title="Medicine"
         showBabySwitcher={false}
-        rightAction={
+        rightAction={canEditMedical && (
           <Button size="sm" onClick={() => setShowForm(true)}>
             <Plus className="w-4 h-4 mr-1" />
             Add
           </Button>
-        }
+        )}
       />
 
       <div className="px-4 py-4 space-y-4">
         {/* Add Form */}
-        {showForm && (
+        {showForm && canEditMedical && (
           <Card>
             <div className="flex items-center justify-between mb-4">
               <h3 className="font-semibold text-gray-900">Add Medicine</h3>
@@ -406,7 +410,7 @@ export function MedicineView() {
           <MedicineDetail
             medicine={selectedMedicine}
             onClose={() => setSelectedMedicineId(null)}
-            onGive={() => handleGiveMedicine(selectedMedicine)}
+            onGive={canLog ? () => handleGiveMedicine(selectedMedicine) : undefined}
           />
         )}
 
@@ -425,8 +429,8 @@ export function MedicineView() {
                   <MedicineCard
                     key={medicine.id}
                     medicine={medicine}
-                    onGive={() => handleGiveMedicine(medicine)}
-                    onToggleActive={() => handleToggleActive(medicine)}
+                    onGive={canLog ? () => handleGiveMedicine(medicine) : undefined}
+                    onToggleActive={canEditMedical ? () => handleToggleActive(medicine) : undefined}
                     onSelect={() => setSelectedMedicineId(medicine.id)}
                     canGive={canGive}
                     dosesToday={dosesToday}
@@ -452,7 +456,7 @@ export function MedicineView() {
                 <MedicineCard
                   key={medicine.id}
                   medicine={medicine}
-                  onToggleActive={() => handleToggleActive(medicine)}
+                  onToggleActive={canEditMedical ? () => handleToggleActive(medicine) : undefined}
                   onSelect={() => setSelectedMedicineId(medicine.id)}
                   inactive
                 />
@@ -465,21 +469,21 @@ export function MedicineView() {
           <Card className="text-center py-8">
             <Pill className="w-12 h-12 mx-auto text-gray-300 mb-3" />
             <p className="text-gray-500">No medicines added</p>
-            <p className="text-sm text-gray-400">Tap + to add one</p>
+            {canEditMedical && <p className="text-sm text-gray-400">Tap + to add one</p>}
           </Card>
         )}
 
         {/* Medicine Reminder Modal */}
-        {showReminder && currentMissedMedicines.length > 0 && (
+        {showReminder && canLog && currentMissedMedicines.length > 0 && (
           <MedicineReminderModal
             medicines={currentMissedMedicines}
             canGiveDose={canGiveDose}
             getDosesToday={getDosesToday}
             onDismiss={() => setShowReminder(false)}
-            onAddMedicine={() => {
+            onAddMedicine={canEditMedical ? () => {
               setShowReminder(false);
               setShowForm(true);
-            }}
+            } : undefined}
             onGive={(medicine) => {
               // Check if can give dose before proceeding
               if (!canGiveDose(medicine)) {
@@ -508,7 +512,7 @@ function MedicineCard({
 }: {
   medicine: Medicine;
   onGive?: () => void;
-  onToggleActive: () => void;
+  onToggleActive?: () => void;
   onSelect: () => void;
   inactive?: boolean;
   canGive?: boolean;
@@ -572,12 +576,14 @@ function MedicineCard({
               {canGive ? 'Give' : 'Done'}
             </Button>
           )}
-          <button
-            onClick={onToggleActive}
-            className="p-2 text-gray-400 hover:text-gray-600 text-xs"
-          >
-            {inactive ? 'Activate' : 'Deactivate'}
-          </button>
+          {onToggleActive && (
+            <button
+              onClick={onToggleActive}
+              className="p-2 text-gray-400 hover:text-gray-600 text-xs"
+            >
+              {inactive ? 'Activate' : 'Deactivate'}
+            </button>
+          )}
         </div>
       </div>
     </Card>
@@ -597,7 +603,7 @@ function MedicineReminderModal({
   getDosesToday: (medicine: Medicine) => number;
   onDismiss: () => void;
   onGive: (medicine: Medicine) => void;
-  onAddMedicine: () => void;
+  onAddMedicine?: () => void;
 }) {
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -659,10 +665,12 @@ function MedicineReminderModal({
 
         {/* Action buttons */}
         <div className="space-y-2">
-          <Button variant="outline" className="w-full" onClick={onAddMedicine}>
-            <Plus className="w-4 h-4 mr-1" />
-            Add New Medicine
-          </Button>
+          {onAddMedicine && (
+            <Button variant="outline" className="w-full" onClick={onAddMedicine}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add New Medicine
+            </Button>
+          )}
           <Button variant="ghost" className="w-full text-gray-500" onClick={onDismiss}>
             Dismiss
           </Button>
@@ -679,17 +687,17 @@ function MedicineDetail({
 }: {
   medicine: Medicine;
   onClose: () => void;
-  onGive: () => void;
+  onGive?: () => void;
 }) {
   const [logs, setLogs] = useState<MedicineLog[]>([]);
 
   useEffect(() => {
-    const unsubscribe = subscribeToMedicineLogs(medicine.id, (data) => {
+    const unsubscribe = subscribeToMedicineLogs(medicine.babyId, medicine.id, (data) => {
       setLogs(data);
     });
 
     return () => unsubscribe();
-  }, [medicine.id]);
+  }, [medicine.babyId, medicine.id]);
 
   const freqConfig = MEDICATION_FREQUENCY_CONFIG[medicine.frequency];
 
@@ -777,14 +785,16 @@ function MedicineDetail({
         </div>
       )}
 
-      <Button
-        className={clsx('w-full mb-4', !canGive && 'opacity-50 cursor-not-allowed')}
-        onClick={onGive}
-        disabled={!canGive}
-      >
-        <Check className="w-4 h-4 mr-2" />
-        {canGive ? 'Give Now' : 'Complete'}
-      </Button>
+      {onGive && (
+        <Button
+          className={clsx('w-full mb-4', !canGive && 'opacity-50 cursor-not-allowed')}
+          onClick={onGive}
+          disabled={!canGive}
+        >
+          <Check className="w-4 h-4 mr-2" />
+          {canGive ? 'Give Now' : 'Complete'}
+        </Button>
+      )}
 
       <div>
         <h4 className="font-medium text-gray-700 mb-2 flex items-center gap-2">
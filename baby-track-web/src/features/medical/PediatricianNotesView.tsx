@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { useAuth } from '@/features/auth/AuthContext';
 import { useAppStore } from '@/stores/appStore';
+import { useBabyPermissions } from '@/hooks/useBabyPermissions';
 import { createPediatricianNote, subscribeToPediatricianNotes, resolvePediatricianNote, deleteDocument } from '@/lib/firestore';
 import type { PediatricianNote } from '@/types';
 import { Stethoscope, Plus, X, Check, AlertCircle, Trash2 } from 'lucide-react';
@@ -13,6 +14,8 @@ import { clsx } from 'clsx';
 export function PediatricianNotesView() {
   const { user } = useAuth();
   const { selectedBaby } = useAppStore();
+  const { can } = useBabyPermissions();
+  const canEditMedical = can('editMedical');
   const [notes, setNotes] = useState<PediatricianNote[]>([]);
   const [showForm, setShowForm] = useState(false);
   const [resolvingId, setResolvingId] = useState<string | null>(null);
@@ -93,17 +96,17 @@ export function PediatricianNotesView() {
       <Header
         title="Pediatrician Notes"
         showBabySwitcher={false}
-        rightAction={
+        rightAction={canEditMedical && (
           <Button size="sm" onClick={() => setShowForm(true)}>
             <Plus className="w-4 h-4 mr-1" />
             Add
           </Button>
-        }
+        )}
       />
 
       <div className="px-4 py-4 space-y-4">
         {/* Add Form */}
-        {showForm && (
+        {showForm && canEditMedical && (
           <Card>
             <div className="flex items-center justify-between mb-4">
               <h3 className="font-semibold text-gray-900">Add Concern</h3>
@@ -192,19 +195,21 @@ export function PediatricianNotesView() {
                         </div>
                       )}
                     </div>
-                    <div className="flex items-center gap-2">
-                      {resolvingId !== note.id && (
-                        <Button size="sm" onClick={() => setResolvingId(note.id)}>
-                          <Check className="w-4 h-4" />
-                        </Button>
-                      )}
-                      <button
-                        onClick={() => handleDelete(note.id)}
-                        className="p-2 text-gray-400 hover:text-red-500"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
-                    </div>
+                    {canEditMedical && (
+                      <div className="flex items-center gap-2">
+                        {resolvingId !== note.id && (
+                          <Button size="sm" onClick={() => setResolvingId(note.id)}>
+                            <Check className="w-4 h-4" />
+                          </Button>
+                        )}
+                        <button
+                          onClick={() => handleDelete(note.id)}
+                          className="p-2 text-gray-400 hover:text-red-500"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
                   </div>
                 </Card>
               ))}
@@ -234,12 +239,14 @@ export function PediatricianNotesView() {
                         </p>
                       )}
                     </div>
-                    <button
-                      onClick={() => handleDelete(note.id)}
-                      className="p-2 text-gray-400 hover:text-red-500"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
+                    {canEditMedical && (
+                      <button
+                        onClick={() => handleDelete(note.id)}
+                        className="p-2 text-gray-400 hover:text-red-500"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
                   </div>
                 </Card>
               ))}
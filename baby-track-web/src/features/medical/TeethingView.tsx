@@ -5,7 +5,9 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { useAuth } from '@/features/auth/AuthContext';
 import { useAppStore } from '@/stores/appStore';
+import { useBabyPermissions } from '@/hooks/useBabyPermissions';
 import { createTeethingEvent, subscribeToTeethingEvents, updateTeethingEvent } from '@/lib/firestore';
+import { calculateCorrectedAge, getDevelopmentalAgeMonths, getTeethInEruptionWindow } from '@/types';
 import type { TeethingEvent } from '@/types';
 import { ToothPosition, TeethingSymptom, TOOTH_POSITION_CONFIG, TEETHING_SYMPTOM_CONFIG } from '@/types/enums';
 import { SmilePlus, X } from 'lucide-react';
@@ -14,6 +16,7 @@ import { clsx } from 'clsx';
 export function TeethingView() {
   const { user } = useAuth();
   const { selectedBaby } = useAppStore();
+  const { can } = useBabyPermissions();
   const [events, setEvents] = useState<TeethingEvent[]>([]);
   const [selectedTooth, setSelectedTooth] = useState<ToothPosition | null>(null);
   const [showForm, setShowForm] = useState(false);
@@ -40,7 +43,12 @@ export function TeethingView() {
     return events.find(e => e.toothPosition === position);
   };
 
+  // Recording a new tooth is logging; changing one already recorded edits history
+  const canRecordTooth = (position: ToothPosition) =>
+    getToothEvent(position) ? can('editHistory') : can('log');
+
   const handleToothClick = (position: ToothPosition) => {
+    if (!canRecordTooth(position)) return;
     const existingEvent = getToothEvent(position);
     setSelectedTooth(position);
     setShowForm(true);
@@ -107,6 +115,13 @@ export function TeethingView() {
   const eruptedCount = events.filter(e => e.eruptionDate).length;
   const teethingCount = events.filter(e => e.firstSignsDate && !e.eruptionDate).length;
 
+  // Eruption windows follow corrected age for babies born early
+  const developmentalAgeMonths = selectedBaby ? getDevelopmentalAgeMonths(selectedBaby) : null;
+  const isCorrectedAge = selectedBaby ? !!calculateCorrectedAge(selectedBaby) : false;
+  const teethDueNow = developmentalAgeMonths !== null
+    ? getTeethInEruptionWindow(developmentalAgeMonths).filter(pos => !getToothEvent(pos)?.eruptionDate)
+    : [];
+
   if (!selectedBaby) {
     return (
       <div className="p-4 text-center text-gray-500">
@@ -132,10 +147,33 @@ export function TeethingView() {
           </Card>
         </div>
 
+        {/* Teething Window */}
+        {teethDueNow.length > 0 && developmentalAgeMonths !== null && (
+          <Card className="bg-orange-50 border border-orange-200">
+            <h3 className="font-semibold text-gray-900">In the Teething Window</h3>
+            <p className="text-xs text-gray-500 mb-2">
+              Based on {isCorrectedAge ? 'corrected age' : 'age'} of {Math.floor(developmentalAgeMonths)} month{Math.floor(developmentalAgeMonths) !== 1 ? 's' : ''}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {teethDueNow.map((pos) => (
+                <button
+                  key={pos}
+                  type="button"
+                  onClick={() => handleToothClick(pos)}
+                  disabled={!canRecordTooth(pos)}
+                  className="px-2 py-1 text-xs bg-white text-orange-700 rounded-full border border-orange-200"
+                >
+                  {TOOTH_POSITION_CONFIG[pos].name}
+                </button>
+              ))}
+            </div>
+          </Card>
+        )}
+
         {/* Tooth Chart */}
         <Card>
           <h3 className="font-semibold text-gray-900 mb-4 text-center">Tooth Chart</h3>
-          <p className="text-xs text-gray-500 text-center mb-4">Tap a tooth to record</p>
+          {can('log') && <p className="text-xs text-gray-500 text-center mb-4">Tap a tooth to record</p>}
 
           {/* Upper Teeth */}
           <div className="mb-4">
@@ -152,6 +190,7 @@ export function TeethingView() {
                     label={toothInfo?.shortName || pos}
                     status={event?.eruptionDate ? 'erupted' : event?.firstSignsDate ? 'teething' : 'none'}
                     onClick={() => handleToothClick(pos as ToothPosition)}
+                    disabled={!canRecordTooth(pos as ToothPosition)}
                     selected={selectedTooth === pos}
                   />
                 );
@@ -174,6 +213,7 @@ export function TeethingView() {
                     label={toothInfo?.shortName || pos}
                     status={event?.eruptionDate ? 'erupted' : event?.firstSignsDate ? 'teething' : 'none'}
                     onClick={() => handleToothClick(pos as ToothPosition)}
+                    disabled={!canRecordTooth(pos as ToothPosition)}
                     selected={selectedTooth === pos}
                   />
                 );
@@ -210,6 +250,13 @@ export function TeethingView() {
               </button>
             </div>
 
+            {TOOTH_POSITION_CONFIG[selectedTooth] && (
+              <p className="text-sm text-gray-500 -mt-2 mb-4">
+                Typically erupts at {TOOTH_POSITION_CONFIG[selectedTooth].typicalAgeMonths[0]}–{TOOTH_POSITION_CONFIG[selectedTooth].typicalAgeMonths[1]} months
+                {isCorrectedAge ? ' (corrected age)' : ''}
+              </p>
+            )}
+
             <form onSubmit={handleSubmit} className="space-y-4">
               <Input
                 type="date"
@@ -312,17 +359,20 @@ function ToothButton({
   label,
   status,
   onClick,
+  disabled,
   selected,
 }: {
   position: ToothPosition;
   label: string;
   status: 'none' | 'teething' | 'erupted';
   onClick: () => void;
+  disabled: boolean;
   selected: boolean;
 }) {
   return (
     <button
       onClick={onClick}
+      disabled={disabled}
       className={clsx(
         'w-7 h-8 rounded text-xs font-medium transition-all',
         status === 'erupted' && 'bg-green-500 text-white',
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Select } from '@/components/ui/Select';
+import { applyVaccinationSchedule } from '@/lib/firestore';
+import { toast } from '@/stores/toastStore';
+import { VACCINATION_SCHEDULE_CONFIG } from '@/types';
+import type { Baby, Vaccination, VaccinationScheduleId } from '@/types';
+import { VACCINATION_SCHEDULES } from './vaccinationSchedules';
+import { isEmptyVaccinationSchedulePlan, planVaccinationSchedule } from './vaccinationSchedulePlanner';
+import { CalendarPlus } from 'lucide-react';
+
+interface VaccinationScheduleCardProps {
+  baby: Baby;
+  userId: string;
+  vaccinations: Vaccination[];
+}
+
+// The schedule most existing doses were generated from, if any
+function getCurrentScheduleId(vaccinations: Vaccination[]): VaccinationScheduleId | null {
+  const counts = new Map<VaccinationScheduleId, number>();
+  for (const v of vaccinations) {
+    if (v.scheduleId) counts.set(v.scheduleId, (counts.get(v.scheduleId) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+}
+
+export function VaccinationScheduleCard({ baby, userId, vaccinations }: VaccinationScheduleCardProps) {
+  const currentScheduleId = getCurrentScheduleId(vaccinations);
+  const [selectedScheduleId, setSelectedScheduleId] = useState<VaccinationScheduleId | null>(null);
+  const [applying, setApplying] = useState(false);
+
+  const scheduleId = selectedScheduleId ?? currentScheduleId ?? 'usCdc';
+  const schedule = VACCINATION_SCHEDULES[scheduleId];
+  const plan = baby.birthDate ? planVaccinationSchedule(schedule, baby.birthDate, vaccinations) : null;
+  const isUpToDate = plan ? isEmptyVaccinationSchedulePlan(plan) : false;
+
+  const handleApply = async () => {
+    if (!plan) return;
+
+    setApplying(true);
+    try {
+      await applyVaccinationSchedule(baby.id, userId, plan);
+      toast.success(
+        plan.create.length > 0
+          ? `Added ${plan.create.length} scheduled dose${plan.create.length !== 1 ? 's' : ''}`
+          : 'Vaccination schedule updated'
+      );
+    } catch (error) {
+      console.error('Error applying vaccination schedule:', error);
+      toast.error('Failed to apply vaccination schedule');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const summary = plan
+    ? [
+        plan.create.length > 0 && `${plan.create.length} new`,
+        plan.update.length > 0 && `${plan.update.length} to update`,
+        plan.remove.length > 0 && `${plan.remove.length} to remove`,
+        plan.alreadyRecorded > 0 && `${plan.alreadyRecorded} already recorded`,
+      ].filter(Boolean).join(' · ')
+    : null;
+
+  return (
+    <Card>
+      <div className="flex items-center gap-2 mb-3">
+        <CalendarPlus className="w-5 h-5 text-primary-500" />
+        <h3 className="font-semibold text-gray-900">Schedule Template</h3>
+      </div>
+
+      <div className="space-y-3">
+        <Select
+          label="Schedule"
+          value={scheduleId}
+          onChange={(value) => setSelectedScheduleId(value as VaccinationScheduleId)}
+          options={(Object.keys(VACCINATION_SCHEDULE_CONFIG) as VaccinationScheduleId[]).map((id) => ({
+            value: id,
+            label: VACCINATION_SCHEDULE_CONFIG[id].label,
+          }))}
+        />
+
+        {!baby.birthDate ? (
+          <p className="text-sm text-orange-600">Add {baby.name}'s birth date to generate a schedule.</p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-500">
+              {isUpToDate ? 'All scheduled doses are already in your list.' : summary}
+            </p>
+            <Button
+              className="w-full"
+              onClick={handleApply}
+              disabled={applying || isUpToDate}
+            >
+              {applying
+                ? 'Saving...'
+                : currentScheduleId
+                  ? 'Update Schedule'
+                  : 'Generate Schedule'}
+            </Button>
+          </>
+        )}
+
+        <p className="text-xs text-gray-400">
+          {schedule.source}. Doses you already entered are kept. Always confirm dates with your pediatrician.
+        </p>
+      </div>
+    </Card>
+  );
+}
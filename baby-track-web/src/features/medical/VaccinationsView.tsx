@@ -5,14 +5,24 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { useAuth } from '@/features/auth/AuthContext';
 import { useAppStore } from '@/stores/appStore';
-import { createVaccination, subscribeToVaccinations, markVaccinationAdministered, deleteDocument } from '@/lib/firestore';
+import { useBabyPermissions } from '@/hooks/useBabyPermissions';
+import {
+  createVaccination,
+  subscribeToVaccinations,
+  markVaccinationAdministered,
+  updateVaccinationReminder,
+  deleteDocument,
+} from '@/lib/firestore';
 import type { Vaccination } from '@/types';
-import { Syringe, Plus, X, Check, Clock, AlertCircle, Trash2 } from 'lucide-react';
+import { VaccinationScheduleCard } from './VaccinationScheduleCard';
+import { Syringe, Plus, X, Check, Clock, AlertCircle, Trash2, Bell, BellOff } from 'lucide-react';
 import { clsx } from 'clsx';
 
 export function VaccinationsView() {
   const { user } = useAuth();
   const { selectedBaby } = useAppStore();
+  const { can } = useBabyPermissions();
+  const canEditMedical = can('editMedical');
   const [vaccinations, setVaccinations] = useState<Vaccination[]>([]);
   const [showForm, setShowForm] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -64,6 +74,14 @@ export function VaccinationsView() {
     }
   };
 
+  const handleToggleReminder = async (vaccination: Vaccination) => {
+    try {
+      await updateVaccinationReminder(vaccination.id, !vaccination.reminderEnabled);
+    } catch (error) {
+      console.error('Error updating vaccination reminder:', error);
+    }
+  };
+
   const handleDelete = async (id: string) => {
     if (!confirm('Delete this vaccination?')) return;
     try {
@@ -99,17 +117,22 @@ export function VaccinationsView() {
       <Header
         title="Vaccinations"
         showBabySwitcher={false}
-        rightAction={
+        rightAction={canEditMedical && (
           <Button size="sm" onClick={() => setShowForm(true)}>
             <Plus className="w-4 h-4 mr-1" />
             Add
           </Button>
-        }
+        )}
       />
 
       <div className="px-4 py-4 space-y-4">
+        {/* Schedule Template */}
+        {user && canEditMedical && (
+          <VaccinationScheduleCard baby={selectedBaby} userId={user.uid} vaccinations={vaccinations} />
+        )}
+
         {/* Add Form */}
-        {showForm && (
+        {showForm && canEditMedical && (
           <Card>
             <div className="flex items-center justify-between mb-4">
               <h3 className="font-semibold text-gray-900">Schedule Vaccination</h3>
@@ -162,8 +185,9 @@ export function VaccinationsView() {
                   key={v.id}
                   vaccination={v}
                   status="overdue"
-                  onMarkAdministered={() => handleMarkAdministered(v)}
-                  onDelete={() => handleDelete(v.id)}
+                  onMarkAdministered={canEditMedical ? () => handleMarkAdministered(v) : undefined}
+                  onToggleReminder={canEditMedical ? () => handleToggleReminder(v) : undefined}
+                  onDelete={canEditMedical ? () => handleDelete(v.id) : undefined}
                 />
               ))}
             </div>
@@ -183,8 +207,9 @@ export function VaccinationsView() {
                   key={v.id}
                   vaccination={v}
                   status="upcoming"
-                  onMarkAdministered={() => handleMarkAdministered(v)}
-                  onDelete={() => handleDelete(v.id)}
+                  onMarkAdministered={canEditMedical ? () => handleMarkAdministered(v) : undefined}
+                  onToggleReminder={canEditMedical ? () => handleToggleReminder(v) : undefined}
+                  onDelete={canEditMedical ? () => handleDelete(v.id) : undefined}
                 />
               ))}
             </div>
@@ -204,7 +229,7 @@ export function VaccinationsView() {
                   key={v.id}
                   vaccination={v}
                   status="completed"
-                  onDelete={() => handleDelete(v.id)}
+                  onDelete={canEditMedical ? () => handleDelete(v.id) : undefined}
                 />
               ))}
             </div>
@@ -215,7 +240,9 @@ export function VaccinationsView() {
           <Card className="text-center py-8">
             <Syringe className="w-12 h-12 mx-auto text-gray-300 mb-3" />
             <p className="text-gray-500">No vaccinations scheduled</p>
-            <p className="text-sm text-gray-400">Tap + to schedule one</p>
+            {canEditMedical && (
+              <p className="text-sm text-gray-400">Generate a schedule above or tap + to add one</p>
+            )}
           </Card>
         )}
       </div>
@@ -227,12 +254,14 @@ function VaccinationCard({
   vaccination,
   status,
   onMarkAdministered,
+  onToggleReminder,
   onDelete,
 }: {
   vaccination: Vaccination;
   status: 'overdue' | 'upcoming' | 'completed';
   onMarkAdministered?: () => void;
-  onDelete: () => void;
+  onToggleReminder?: () => void;
+  onDelete?: () => void;
 }) {
   const statusConfig = {
     overdue: { bg: 'bg-red-50', border: 'border-red-200', text: 'text-red-600' },
@@ -257,17 +286,28 @@ function VaccinationCard({
           )}
         </div>
         <div className="flex items-center gap-2">
+          {status !== 'completed' && onToggleReminder && (
+            <button
+              onClick={onToggleReminder}
+              className="p-2 text-gray-400 hover:text-primary-500"
+              aria-label={vaccination.reminderEnabled ? 'Turn off reminders' : 'Turn on reminders'}
+            >
+              {vaccination.reminderEnabled ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+            </button>
+          )}
           {status !== 'completed' && onMarkAdministered && (
             <Button size="sm" onClick={onMarkAdministered}>
               <Check className="w-4 h-4" />
             </Button>
           )}
-          <button
-            onClick={onDelete}
-            className="p-2 text-gray-400 hover:text-red-500"
-          >
-            <Trash2 className="w-4 h-4" />
-          </button>
+          {onDelete && (
+            <button
+              onClick={onDelete}
+              className="p-2 text-gray-400 hover:text-red-500"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
         </div>
       </div>
     </Card>
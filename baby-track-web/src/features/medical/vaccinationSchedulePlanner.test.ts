@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import type { Vaccination } from '@/types';
+import { VACCINATION_SCHEDULES } from './vaccinationSchedules';
+import { buildScheduledDoses, isEmptyVaccinationSchedulePlan, planVaccinationSchedule } from './vaccinationSchedulePlanner';
+
+const BIRTH_DATE = '2024-01-15';
+
+const createVaccination = (overrides: Partial<Vaccination> = {}): Vaccination => ({
+  id: crypto.randomUUID(),
+  babyId: 'baby-1',
+  userId: 'user-1',
+  name: 'Vaccine',
+  scheduledDate: '2024-01-15',
+  administeredDate: null,
+  location: null,
+  notes: null,
+  reminderEnabled: true,
+  scheduleId: null,
+  doseKey: null,
+  createdAt: '2024-01-15T00:00:00.000Z',
+  updatedAt: '2024-01-15T00:00:00.000Z',
+  ...overrides,
+});
+
+// Turns a plan's creates into stored records, as if the batch had been written
+const applyCreates = (schedule: keyof typeof VACCINATION_SCHEDULES, existing: Vaccination[] = []) => {
+  const plan = planVaccinationSchedule(VACCINATION_SCHEDULES[schedule], BIRTH_DATE, existing);
+  return [...existing, ...plan.create.map((input) => createVaccination({ ...input }))];
+};
+
+describe('buildScheduledDoses', () => {
+  it('computes dates from the birth date', () => {
+    const doses = buildScheduledDoses(VACCINATION_SCHEDULES.usCdc, BIRTH_DATE);
+    const hepB = doses.filter((dose) => dose.vaccineKey === 'hepB');
+
+    expect(hepB.map((dose) => dose.scheduledDate)).toEqual(['2024-01-15', '2024-02-15', '2024-07-15']);
+    expect(hepB[0].name).toBe('Hepatitis B (HepB) – Dose 1');
+    expect(doses[0].scheduledDate <= doses[doses.length - 1].scheduledDate).toBe(true);
+  });
+});
+
+describe('planVaccinationSchedule', () => {
+  it('creates every dose for a baby with no vaccinations', () => {
+    const plan = planVaccinationSchedule(VACCINATION_SCHEDULES.israelMoh, BIRTH_DATE, []);
+    const doseCount = VACCINATION_SCHEDULES.israelMoh.vaccines.reduce((sum, v) => sum + v.doseAgesMonths.length, 0);
+
+    expect(plan.create).toHaveLength(doseCount);
+    expect(plan.create.every((input) => input.scheduleId === 'israelMoh' && input.doseKey)).toBe(true);
+    expect(plan.update).toEqual([]);
+    expect(plan.remove).toEqual([]);
+  });
+
+  it('is a no-op when regenerating the same schedule', () => {
+    const existing = applyCreates('usCdc');
+    const plan = planVaccinationSchedule(VACCINATION_SCHEDULES.usCdc, BIRTH_DATE, existing);
+
+    expect(isEmptyVaccinationSchedulePlan(plan)).toBe(true);
+    expect(plan.alreadyRecorded).toBe(existing.length);
+  });
+
+  it('links doses entered by hand instead of duplicating them', () => {
+    const manual = [
+      createVaccination({ id: 'hepb-birth', name: 'Hep B', scheduledDate: '2024-01-15', administeredDate: '2024-01-16' }),
+      createVaccination({ id: 'hepb-second', name: 'hepatitis B #2', scheduledDate: '2024-02-20' }),
+    ];
+
+    const plan = planVaccinationSchedule(VACCINATION_SCHEDULES.usCdc, BIRTH_DATE, manual);
+
+    expect(plan.create.some((input) => input.doseKey === 'hepB-1' || input.doseKey === 'hepB-2')).toBe(false);
+    expect(plan.create.some((input) => input.doseKey === 'hepB-3')).toBe(true);
+    expect(plan.update).toEqual(expect.arrayContaining([
+      { id: 'hepb-birth', changes: { doseKey: 'hepB-1', generated: false, scheduleId: 'usCdc' } },
+      { id: 'hepb-second', changes: { doseKey: 'hepB-2', generated: false, scheduleId: 'usCdc' } },
+    ]));
+  });
+
+  it('leaves linked hand-entered doses alone when regenerating', () => {
+    const manual = createVaccination({ id: 'hepb-second', name: 'hepatitis B #2', scheduledDate: '2024-02-20', notes: 'Clinic on Main St' });
+    const first = planVaccinationSchedule(VACCINATION_SCHEDULES.usCdc, BIRTH_DATE, [manual]);
+    const linked = { ...manual, ...first.update.find((u) => u.id === manual.id)!.changes };
+
+    const plan = planVaccinationSchedule(VACCINATION_SCHEDULES.usCdc, BIRTH_DATE, [
+      linked,
+      ...first.create.map((input) => createVaccination({ ...input })),
+    ]);
+
+    expect(isEmptyVaccinationSchedulePlan(plan)).toBe(true);
+  });
+
+  it('keeps linked hand-entered doses when switching schedules', () => {
+    const manual = [
+      createVaccination({ id: 'chickenpox', name: 'Chickenpox', scheduledDate: '2025-01-20', notes: 'Bring the card' }),
+      createVaccination({ id: 'hepa', name: 'Hep A', scheduledDate: '2025-01-20' }),
+    ];
+    const first = planVaccinationSchedule(VACCINATION_SCHEDULES.usCdc, BIRTH_DATE, manual);
+    const existing = [
+      ...manual.map((v) => ({ ...v, ...first.update.find((u) => u.id === v.id)?.changes })),
+      ...first.create.map((input) => createVaccination({ ...input })),
+    ];
+
+    const plan = planVaccinationSchedule(VACCINATION_SCHEDULES.israelMoh, BIRTH_DATE, existing);
+
+    expect(plan.remove).not.toContain('chickenpox');
+    expect(plan.remove).not.toContain('hepa');
+    // Relinked to the new schedule's dose without taking its name or date
+    expect(plan.update).toEqual(expect.arrayContaining([
+      { id: 'chickenpox', changes: { doseKey: 'mmrv-1', generated: false, scheduleId: 'israelMoh' } },
+      { id: 'hepa', changes: { scheduleId: 'israelMoh' } },
+    ]));
+    expect(plan.create.some((input) => input.doseKey === 'mmrv-1' || input.doseKey === 'hepA-1')).toBe(false);
+  });
+
+  it('switches schedules without losing administered doses', () => {
+    const existing = applyCreates('usCdc').map((v) =>
+      v.doseKey === 'dtap-1' || v.doseKey === 'hepB-1'
+        ? { ...v, administeredDate: v.scheduledDate }
+        : v
+    );
+
+    const plan = planVaccinationSchedule(VACCINATION_SCHEDULES.israelMoh, BIRTH_DATE, existing);
+    const removed = new Set(plan.remove);
+    const administered = existing.filter((v) => v.administeredDate);
+
+    expect(administered.every((v) => !removed.has(v.id))).toBe(true);
+    expect(plan.update.every((u) => !('administeredDate' in u.changes))).toBe(true);
+    // Shared doses carry over; US-only doses that were never given are dropped
+    expect(plan.create.some((input) => input.doseKey === 'hepB-1')).toBe(false);
+    expect(removed.has(existing.find((v) => v.doseKey === 'varicella-1')!.id)).toBe(true);
+    expect(removed.has(existing.find((v) => v.doseKey === 'dtap-1')!.id)).toBe(false);
+    // DTaP #1 already covers the combined dose, which is neither added nor renamed over the DTaP record
+    expect(plan.create.some((input) => input.doseKey === 'dtapIpvHib-1')).toBe(false);
+    expect(plan.create.some((input) => input.doseKey === 'dtapIpvHib-2')).toBe(true);
+    expect(plan.update.some((u) => u.id === existing.find((v) => v.doseKey === 'dtap-1')!.id)).toBe(false);
+  });
+
+  it('counts a combined dose for each vaccine it covers when switching back', () => {
+    const existing = applyCreates('israelMoh').map((v) =>
+      v.doseKey === 'dtapIpvHib-1' ? { ...v, administeredDate: v.scheduledDate } : v
+    );
+
+    const plan = planVaccinationSchedule(VACCINATION_SCHEDULES.usCdc, BIRTH_DATE, existing);
+    const created = plan.create.map((input) => input.doseKey);
+
+    expect(created.filter((key) => key === 'dtap-1' || key === 'hib-1' || key === 'ipv-1')).toEqual([]);
+    expect(created).toEqual(expect.arrayContaining(['dtap-2', 'hib-2', 'ipv-2']));
+    expect(plan.remove).not.toContain(existing.find((v) => v.doseKey === 'dtapIpvHib-1')!.id);
+
+    // Planning again against the same records gives the same answer
+    const stored = existing
+      .filter((v) => !plan.remove.includes(v.id))
+      .map((v) => ({ ...v, ...plan.update.find((u) => u.id === v.id)?.changes }));
+    const replanned = planVaccinationSchedule(VACCINATION_SCHEDULES.usCdc, BIRTH_DATE, [
+      ...stored,
+      ...plan.create.map((input) => createVaccination({ ...input })),
+    ]);
+    expect(isEmptyVaccinationSchedulePlan(replanned)).toBe(true);
+  });
+
+  it('reschedules pending generated doses but keeps administered dates untouched', () => {
+    const existing = applyCreates('usCdc').map((v) => {
+      if (v.doseKey === 'hepB-2') return { ...v, scheduledDate: '2024-03-01' };
+      if (v.doseKey === 'hepB-3') return { ...v, scheduledDate: '2024-09-01', administeredDate: '2024-09-02' };
+      return v;
+    });
+
+    const plan = planVaccinationSchedule(VACCINATION_SCHEDULES.usCdc, BIRTH_DATE, existing);
+    const hepB2 = existing.find((v) => v.doseKey === 'hepB-2')!;
+
+    expect(plan.update).toEqual([{ id: hepB2.id, changes: { scheduledDate: '2024-02-15' } }]);
+  });
+
+  it('removes duplicate generated doses', () => {
+    const existing = applyCreates('usCdc');
+    const duplicate = createVaccination({ ...existing[0], id: 'duplicate' });
+
+    const plan = planVaccinationSchedule(VACCINATION_SCHEDULES.usCdc, BIRTH_DATE, [...existing, duplicate]);
+
+    expect(plan.create).toEqual([]);
+    expect(plan.remove).toEqual(['duplicate']);
+  });
+});
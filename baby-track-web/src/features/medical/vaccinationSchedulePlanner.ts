@@ -0,0 +1,182 @@
+import { addMonths, format, parseISO } from 'date-fns';
+import type { CreateVaccinationInput, Vaccination } from '@/types';
+import { VACCINATION_SCHEDULES, type ScheduledVaccine, type VaccinationSchedule } from './vaccinationSchedules';
+
+export interface ScheduledDose {
+  doseKey: string;
+  vaccineKey: string;
+  doseNumber: number;
+  name: string;
+  scheduledDate: string;
+}
+
+export interface VaccinationScheduleUpdate {
+  id: string;
+  changes: Partial<CreateVaccinationInput>;
+}
+
+export interface VaccinationSchedulePlan {
+  create: CreateVaccinationInput[];
+  update: VaccinationScheduleUpdate[];
+  remove: string[];
+  alreadyRecorded: number;
+}
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Whether the planner created the dose, so it may rename, re-date or remove it
+const isGenerated = (vaccination: Vaccination) => vaccination.generated ?? !!vaccination.doseKey;
+
+export function buildScheduledDoses(schedule: VaccinationSchedule, birthDate: string): ScheduledDose[] {
+  const birth = parseISO(birthDate.split('T')[0]);
+
+  return schedule.vaccines
+    .flatMap((vaccine) =>
+      vaccine.doseAgesMonths.map((ageMonths, index) => ({
+        doseKey: `${vaccine.key}-${index + 1}`,
+        vaccineKey: vaccine.key,
+        doseNumber: index + 1,
+        name: vaccine.doseAgesMonths.length > 1
+          ? `${vaccine.name} – Dose ${index + 1}`
+          : vaccine.name,
+        scheduledDate: format(addMonths(birth, ageMonths), 'yyyy-MM-dd'),
+      }))
+    )
+    .sort((a, b) => a.scheduledDate.localeCompare(b.scheduledDate));
+}
+
+// The vaccine a hand-entered name refers to, preferring the most specific alias match
+function matchVaccineByName(name: string, vaccines: ScheduledVaccine[]): ScheduledVaccine | null {
+  const normalized = normalizeName(name);
+  let best: { vaccine: ScheduledVaccine; length: number } | null = null;
+
+  for (const vaccine of vaccines) {
+    for (const alias of [vaccine.name, ...vaccine.aliases]) {
+      const normalizedAlias = normalizeName(alias);
+      if (normalizedAlias && normalized.includes(normalizedAlias) && (!best || normalizedAlias.length > best.length)) {
+        best = { vaccine, length: normalizedAlias.length };
+      }
+    }
+  }
+
+  return best?.vaccine ?? null;
+}
+
+// Splits a generated dose key into its vaccine and dose number, looking the vaccine up in any schedule
+function parseDoseKey(doseKey: string): { vaccine: ScheduledVaccine; doseNumber: number } | null {
+  const separator = doseKey.lastIndexOf('-');
+  const vaccineKey = doseKey.slice(0, separator);
+  const doseNumber = Number(doseKey.slice(separator + 1));
+  const vaccine = Object.values(VACCINATION_SCHEDULES)
+    .flatMap((schedule) => schedule.vaccines)
+    .find((v) => v.key === vaccineKey);
+
+  return vaccine && Number.isInteger(doseNumber) ? { vaccine, doseNumber } : null;
+}
+
+// Works out the writes needed to bring a baby's vaccinations in line with a schedule.
+// Doses already generated or linked are matched by dose key, other hand-entered doses by name in date order.
+// A dose given under another schedule counts for every dose with the same number that shares an antigen,
+// so DTaP #1 from the US schedule covers DTaP-IPV-Hib #1 in the Israeli one and is left as recorded.
+// Administered dates are never changed, and administered doses are never removed.
+export function planVaccinationSchedule(
+  schedule: VaccinationSchedule,
+  birthDate: string,
+  existing: Vaccination[]
+): VaccinationSchedulePlan {
+  const doses = buildScheduledDoses(schedule, birthDate);
+  const matches = new Map<string, Vaccination>();
+  const claimed = new Set<string>();
+
+  for (const dose of doses) {
+    const match = existing.find((v) => v.doseKey === dose.doseKey && !claimed.has(v.id));
+    if (match) {
+      matches.set(dose.doseKey, match);
+      claimed.add(match.id);
+    }
+  }
+
+  const givenElsewhere = existing.flatMap((v) => {
+    const parsed = v.doseKey && v.administeredDate && !claimed.has(v.id) ? parseDoseKey(v.doseKey) : null;
+    return parsed ? [{ vaccination: v, ...parsed }] : [];
+  });
+  const equivalents = new Set<string>();
+
+  for (const dose of doses) {
+    if (matches.has(dose.doseKey)) continue;
+
+    const { antigens } = schedule.vaccines.find((v) => v.key === dose.vaccineKey)!;
+    const match = givenElsewhere.find((given) =>
+      given.doseNumber === dose.doseNumber && given.vaccine.antigens.some((antigen) => antigens.includes(antigen))
+    );
+    if (match) {
+      matches.set(dose.doseKey, match.vaccination);
+      equivalents.add(dose.doseKey);
+      claimed.add(match.vaccination.id);
+    }
+  }
+
+  const manualEntries = existing
+    .filter((v) => !isGenerated(v) && !claimed.has(v.id))
+    .sort((a, b) => (a.administeredDate ?? a.scheduledDate).localeCompare(b.administeredDate ?? b.scheduledDate));
+
+  for (const vaccine of schedule.vaccines) {
+    const openDoses = doses.filter((dose) => dose.vaccineKey === vaccine.key && !matches.has(dose.doseKey));
+    const entries = manualEntries.filter((v) => matchVaccineByName(v.name, schedule.vaccines)?.key === vaccine.key);
+
+    openDoses.forEach((dose, index) => {
+      const entry = entries[index];
+      if (entry) {
+        matches.set(dose.doseKey, entry);
+        claimed.add(entry.id);
+      }
+    });
+  }
+
+  const plan: VaccinationSchedulePlan = { create: [], update: [], remove: [], alreadyRecorded: 0 };
+
+  for (const dose of doses) {
+    const match = matches.get(dose.doseKey);
+
+    if (!match) {
+      plan.create.push({
+        name: dose.name,
+        scheduledDate: dose.scheduledDate,
+        scheduleId: schedule.id,
+        doseKey: dose.doseKey,
+        generated: true,
+      });
+      continue;
+    }
+
+    plan.alreadyRecorded += 1;
+    if (equivalents.has(dose.doseKey)) continue;
+
+    // Hand-entered doses keep their own name and dates; they are only linked to the template
+    const changes: Partial<CreateVaccinationInput> = isGenerated(match)
+      ? {
+          ...(match.name !== dose.name && { name: dose.name }),
+          ...(!match.administeredDate && match.scheduledDate !== dose.scheduledDate && { scheduledDate: dose.scheduledDate }),
+        }
+      : match.doseKey === dose.doseKey ? {} : { doseKey: dose.doseKey, generated: false };
+
+    if (match.scheduleId !== schedule.id) {
+      changes.scheduleId = schedule.id;
+    }
+
+    if (Object.keys(changes).length > 0) {
+      plan.update.push({ id: match.id, changes });
+    }
+  }
+
+  // Generated doses that are no longer part of the schedule; hand-entered ones are the user's to delete
+  plan.remove = existing
+    .filter((v) => isGenerated(v) && !claimed.has(v.id) && !v.administeredDate)
+    .map((v) => v.id);
+
+  return plan;
+}
+
+export function isEmptyVaccinationSchedulePlan(plan: VaccinationSchedulePlan): boolean {
+  return plan.create.length === 0 && plan.update.length === 0 && plan.remove.length === 0;
+}
@@ -0,0 +1,11 @@
+import type { VaccinationScheduleId } from '@/types';
+import type { VaccinationSchedule } from './types';
+import { US_CDC_SCHEDULE } from './usCdc';
+import { ISRAEL_MOH_SCHEDULE } from './israelMoh';
+
+export type { ScheduledVaccine, VaccinationSchedule } from './types';
+
+export const VACCINATION_SCHEDULES: Record<VaccinationScheduleId, VaccinationSchedule> = {
+  usCdc: US_CDC_SCHEDULE,
+  israelMoh: ISRAEL_MOH_SCHEDULE,
+};
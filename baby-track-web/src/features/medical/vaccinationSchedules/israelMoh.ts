@@ -0,0 +1,18 @@
+import type { VaccinationSchedule } from './types';
+
+// Israeli Ministry of Health routine vaccination schedule (Tipat Halav), birth through first grade.
+export const ISRAEL_MOH_SCHEDULE: VaccinationSchedule = {
+  id: 'israelMoh',
+  source: 'Israel Ministry of Health routine childhood vaccination schedule',
+  vaccines: [
+    { key: 'hepB', name: 'Hepatitis B (HepB)', aliases: ['hepb', 'hepatitis b', 'engerix'], antigens: ['hepB'], doseAgesMonths: [0, 1, 6] },
+    { key: 'dtapIpvHib', name: 'DTaP-IPV-Hib', aliases: ['dtap ipv hib', 'pentaxim', 'pentavalent', 'dtap', 'hexa'], antigens: ['diphtheria', 'tetanus', 'pertussis', 'polio', 'hib'], doseAgesMonths: [2, 4, 6, 12] },
+    { key: 'pcv', name: 'Pneumococcal (PCV)', aliases: ['pcv', 'pcv13', 'pcv20', 'pneumococcal', 'prevenar', 'prevnar'], antigens: ['pneumococcal'], doseAgesMonths: [2, 4, 12] },
+    { key: 'rotavirus', name: 'Rotavirus', aliases: ['rotavirus', 'rota', 'rotateq'], antigens: ['rotavirus'], doseAgesMonths: [2, 4, 6] },
+    // Given on top of the IPV in DTaP-IPV-Hib, so it never stands in for an IPV dose
+    { key: 'bopv', name: 'Oral Polio (bOPV)', aliases: ['bopv', 'opv', 'oral polio'], antigens: ['oralPolio'], doseAgesMonths: [6, 18] },
+    { key: 'influenza', name: 'Influenza (Flu)', aliases: ['influenza', 'flu'], antigens: ['influenza'], doseAgesMonths: [6, 7] },
+    { key: 'mmrv', name: 'MMRV', aliases: ['mmrv', 'mmr', 'measles', 'chickenpox', 'varicella', 'priorix'], antigens: ['measles', 'mumps', 'rubella', 'varicella'], doseAgesMonths: [12, 72] },
+    { key: 'hepA', name: 'Hepatitis A (HepA)', aliases: ['hepa', 'hepatitis a', 'havrix'], antigens: ['hepA'], doseAgesMonths: [18, 24] },
+  ],
+};
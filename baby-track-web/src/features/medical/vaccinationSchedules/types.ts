@@ -0,0 +1,15 @@
+import type { VaccinationScheduleId } from '@/types';
+
+export interface ScheduledVaccine {
+  key: string; // Stable across schedules and versions; dose keys are `${key}-${doseNumber}`
+  name: string;
+  aliases: string[]; // Names parents commonly type, used to detect doses entered by hand
+  antigens: string[]; // Diseases covered, used to match doses across schedules that combine vaccines differently
+  doseAgesMonths: number[]; // Recommended age for each dose, 0 = at birth
+}
+
+export interface VaccinationSchedule {
+  id: VaccinationScheduleId;
+  source: string;
+  vaccines: ScheduledVaccine[];
+}
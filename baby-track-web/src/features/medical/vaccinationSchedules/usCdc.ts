@@ -0,0 +1,20 @@
+import type { VaccinationSchedule } from './types';
+
+// CDC child and adolescent immunization schedule, birth through 6 years.
+// Ages are the earliest recommended age for each dose.
+export const US_CDC_SCHEDULE: VaccinationSchedule = {
+  id: 'usCdc',
+  source: 'CDC Child and Adolescent Immunization Schedule, 2024',
+  vaccines: [
+    { key: 'hepB', name: 'Hepatitis B (HepB)', aliases: ['hepb', 'hepatitis b', 'engerix', 'recombivax'], antigens: ['hepB'], doseAgesMonths: [0, 1, 6] },
+    { key: 'rotavirus', name: 'Rotavirus (RV)', aliases: ['rotavirus', 'rota', 'rotateq', 'rotarix'], antigens: ['rotavirus'], doseAgesMonths: [2, 4, 6] },
+    { key: 'dtap', name: 'DTaP', aliases: ['dtap', 'diphtheria', 'tetanus', 'pertussis', 'daptacel', 'infanrix'], antigens: ['diphtheria', 'tetanus', 'pertussis'], doseAgesMonths: [2, 4, 6, 15, 48] },
+    { key: 'hib', name: 'Hib', aliases: ['hib', 'haemophilus', 'pedvaxhib', 'acthib'], antigens: ['hib'], doseAgesMonths: [2, 4, 6, 12] },
+    { key: 'pcv', name: 'Pneumococcal (PCV)', aliases: ['pcv', 'pcv13', 'pcv15', 'pcv20', 'pneumococcal', 'prevnar', 'vaxneuvance'], antigens: ['pneumococcal'], doseAgesMonths: [2, 4, 6, 12] },
+    { key: 'ipv', name: 'Polio (IPV)', aliases: ['ipv', 'polio', 'ipol'], antigens: ['polio'], doseAgesMonths: [2, 4, 6, 48] },
+    { key: 'influenza', name: 'Influenza (Flu)', aliases: ['influenza', 'flu'], antigens: ['influenza'], doseAgesMonths: [6, 7] },
+    { key: 'mmr', name: 'MMR', aliases: ['mmr', 'measles', 'mumps', 'rubella'], antigens: ['measles', 'mumps', 'rubella'], doseAgesMonths: [12, 48] },
+    { key: 'varicella', name: 'Varicella (VAR)', aliases: ['varicella', 'chickenpox', 'varivax'], antigens: ['varicella'], doseAgesMonths: [12, 48] },
+    { key: 'hepA', name: 'Hepatitis A (HepA)', aliases: ['hepa', 'hepatitis a', 'havrix', 'vaqta'], antigens: ['hepA'], doseAgesMonths: [12, 18] },
+  ],
+};
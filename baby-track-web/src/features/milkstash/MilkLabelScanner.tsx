@@ -0,0 +1,114 @@
+import { useState, useEffect, useRef } from 'react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { parseMilkLabelCode } from '@/types';
+import { X } from 'lucide-react';
+
+// BarcodeDetector isn't in the DOM typings yet and only some browsers have it
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const SCAN_INTERVAL_MS = 500;
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | null {
+  return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector ?? null;
+}
+
+interface MilkLabelScannerProps {
+  onScan: (stashId: string) => void;
+  onClose: () => void;
+}
+
+// Reads a bag label's QR code with the camera where the browser can, or takes a pasted code
+export function MilkLabelScanner({ onScan, onClose }: MilkLabelScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [canScan] = useState(() => !!getBarcodeDetector() && !!navigator.mediaDevices?.getUserMedia);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [codeError, setCodeError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!canScan || !Detector) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let cancelled = false;
+    const detector = new Detector({ formats: ['qr_code'] });
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then((mediaStream) => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = mediaStream;
+        void video.play();
+
+        timer = setInterval(async () => {
+          if (video.readyState < 2) return;
+          try {
+            const codes = await detector.detect(video);
+            const stashId = codes.map((detected) => parseMilkLabelCode(detected.rawValue)).find(Boolean);
+            if (stashId && !cancelled) onScan(stashId);
+          } catch {
+            // Frames that can't be read are skipped
+          }
+        }, SCAN_INTERVAL_MS);
+      })
+      .catch(() => setCameraError('Camera unavailable. Paste the code from the label instead.'));
+
+    return () => {
+      cancelled = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [canScan, onScan]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const stashId = parseMilkLabelCode(code);
+    if (!stashId) {
+      setCodeError('That doesn\'t look like a milk label code.');
+      return;
+    }
+    onScan(stashId);
+  };
+
+  return (
+    <Card className="border-2 border-blue-300 bg-blue-50">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-gray-900">Scan a milk label</h3>
+        <button onClick={onClose} aria-label="Close scanner">
+          <X className="w-5 h-5 text-gray-400" />
+        </button>
+      </div>
+
+      {canScan && !cameraError && (
+        <video ref={videoRef} className="w-full rounded-lg bg-black mb-3" muted playsInline />
+      )}
+      {cameraError && <p className="text-sm text-amber-700 mb-3">{cameraError}</p>}
+
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <Input
+          placeholder="Paste the label code or link"
+          value={code}
+          onChange={(e) => {
+            setCode(e.target.value);
+            setCodeError(null);
+          }}
+          error={codeError ?? undefined}
+        />
+        <Button type="submit" variant="outline" className="w-full" disabled={!code.trim()}>
+          Open
+        </Button>
+      </form>
+    </Card>
+  );
+}
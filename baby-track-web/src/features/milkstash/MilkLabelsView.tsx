@@ -0,0 +1,74 @@
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { QRCodeSVG } from 'qrcode.react';
+import { Header } from '@/components/layout/Header';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { useAuth } from '@/features/auth/AuthContext';
+import { useAppStore } from '@/stores/appStore';
+import { subscribeToMilkStash } from '@/lib/firestore';
+import type { MilkStash } from '@/types';
+import { getHouseholdBabyIds, getMilkLabelLink } from '@/types';
+import { MILK_STORAGE_CONFIG } from '@/types/enums';
+import { Printer } from 'lucide-react';
+
+// Printable sheet of bag labels. ?ids= picks the bags, otherwise every stored bag gets one.
+export function MilkLabelsView() {
+  const { user } = useAuth();
+  const { babies, selectedBaby } = useAppStore();
+  const [searchParams] = useSearchParams();
+  const [stash, setStash] = useState<MilkStash[]>([]);
+
+  const householdKey = selectedBaby ? getHouseholdBabyIds(babies, selectedBaby.id).join(',') : '';
+
+  useEffect(() => {
+    if (!user || !householdKey) return;
+    return subscribeToMilkStash(householdKey.split(','), setStash);
+  }, [user, householdKey]);
+
+  const ids = searchParams.get('ids')?.split(',').filter(Boolean) ?? [];
+  const labels = ids.length > 0
+    ? stash.filter((item) => ids.includes(item.id))
+    : stash.filter((item) => !item.leftoverSince);
+
+  return (
+    <div>
+      <Header
+        title="Milk Labels"
+        showBabySwitcher={false}
+        rightAction={
+          <Button size="sm" onClick={() => window.print()} disabled={labels.length === 0}>
+            <Printer className="w-4 h-4 mr-1" />
+            Print
+          </Button>
+        }
+      />
+
+      <div className="px-4 py-4 print:p-0">
+        {labels.length === 0 ? (
+          <Card className="text-center py-8">
+            <p className="text-gray-500">No bags to label</p>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-2 gap-3 print:gap-2">
+            {labels.map((item) => (
+              <div
+                key={item.id}
+                className="flex gap-3 items-center rounded-lg border border-dashed border-gray-400 bg-white p-3 break-inside-avoid"
+              >
+                <QRCodeSVG value={getMilkLabelLink(item.id)} size={72} aria-label={`QR code for ${item.volume} ${item.volumeUnit} bag`} />
+                <div className="text-xs text-gray-900 min-w-0">
+                  <p className="text-base font-bold">{item.volume} {item.volumeUnit}</p>
+                  <p>Pumped {new Date(item.pumpedDate).toLocaleDateString()}</p>
+                  <p>Expires {new Date(item.expirationDate).toLocaleDateString()}</p>
+                  <p className="text-gray-500">{MILK_STORAGE_CONFIG[item.location].label}</p>
+                  {item.notes && <p className="text-gray-500 truncate">{item.notes}</p>}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
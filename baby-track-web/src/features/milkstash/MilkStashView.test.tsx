@@ -3,17 +3,21 @@ import { act, render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { BrowserRouter } from 'react-router-dom';
 import { mockBaby, mockSettings, mockUser } from '@/test/mocks';
-import type { MilkStash } from '@/types';
+import type { BottleSession, MilkStash, PumpSession } from '@/types';
 
 let milkStashCallback: ((stash: MilkStash[]) => void) | null = null;
 
 const mockDeleteMilkStashEntry = vi.fn();
 const mockDeleteMilkStashEntries = vi.fn();
 const mockUpdateMilkStashVolume = vi.fn();
+const mockMoveMilkStash = vi.fn();
+const mockMarkMilkStashThawed = vi.fn();
+const mockCombineMilkStash = vi.fn();
+let bottleSessions: BottleSession[] = [];
 
 vi.mock('@/lib/firestore', () => ({
   createMilkStash: vi.fn(),
-  subscribeToMilkStash: vi.fn((_: string, callback: (stash: MilkStash[]) => void) => {
+  subscribeToMilkStash: vi.fn((_: string[], callback: (stash: MilkStash[]) => void) => {
     milkStashCallback = callback;
     callback([]);
     return vi.fn();
@@ -24,6 +28,17 @@ vi.mock('@/lib/firestore', () => ({
   createBottleSession: vi.fn(),
   deleteMilkStashEntry: (...args: unknown[]) => mockDeleteMilkStashEntry(...args),
   deleteMilkStashEntries: (...args: unknown[]) => mockDeleteMilkStashEntries(...args),
+  moveMilkStash: (...args: unknown[]) => mockMoveMilkStash(...args),
+  markMilkStashThawed: (...args: unknown[]) => mockMarkMilkStashThawed(...args),
+  combineMilkStash: (...args: unknown[]) => mockCombineMilkStash(...args),
+  subscribeToBottleSessionsSince: vi.fn((_babyId: string, _since: string, callback: (sessions: BottleSession[]) => void) => {
+    callback(bottleSessions);
+    return vi.fn();
+  }),
+  subscribeToPumpSessionsSince: vi.fn((_babyId: string, _since: string, callback: (sessions: PumpSession[]) => void) => {
+    callback([]);
+    return vi.fn();
+  }),
 }));
 
 vi.mock('@/features/auth/AuthContext', () => ({
@@ -36,7 +51,9 @@ vi.mock('@/stores/appStore', () => ({
   useAppStore: () => ({
     settings: mockSettings,
     babies: [mockBaby],
+    userProfiles: {},
     selectedBaby: mockBaby,
+    userId: mockUser.uid,
   }),
 }));
 
@@ -76,6 +93,13 @@ describe('MilkStashView', () => {
     mockDeleteMilkStashEntries.mockResolvedValue(undefined);
     mockUpdateMilkStashVolume.mockReset();
     mockUpdateMilkStashVolume.mockResolvedValue(undefined);
+    mockMoveMilkStash.mockReset();
+    mockMoveMilkStash.mockResolvedValue(undefined);
+    mockMarkMilkStashThawed.mockReset();
+    mockMarkMilkStashThawed.mockResolvedValue(undefined);
+    mockCombineMilkStash.mockReset();
+    mockCombineMilkStash.mockResolvedValue('stash-2');
+    bottleSessions = [];
   });
 
   it('edits a stash entry volume and updates totals after refresh', async () => {
@@ -159,4 +183,114 @@ describe('MilkStashView', () => {
       expect(mockDeleteMilkStashEntries).toHaveBeenCalledWith(['stash-1', 'stash-2']);
     });
   });
+
+  it('moves frozen milk to the fridge to thaw and blocks refreezing', async () => {
+    const user = userEvent.setup();
+    renderMilkStashView();
+
+    const frozen = makeStashItem({ id: 'stash-1', volume: 4, location: 'freezer', expirationDate: '2024-07-13T09:00:00.000Z' });
+
+    act(() => {
+      milkStashCallback?.([frozen]);
+    });
+
+    await user.click(screen.getByLabelText('Move 4 oz milk stash entry'));
+    await user.click(screen.getByRole('button', { name: 'Fridge (thaw)' }));
+
+    await waitFor(() => {
+      expect(mockMoveMilkStash).toHaveBeenCalledWith('stash-1', 'fridge');
+    });
+
+    const thawing = {
+      ...frozen,
+      location: 'fridge' as const,
+      thawStartedAt: '2024-01-20T09:00:00.000Z',
+      stateHistory: [
+        { event: 'stored' as const, location: 'freezer' as const, at: '2024-01-15T09:00:00.000Z' },
+        { event: 'thawStarted' as const, location: 'fridge' as const, at: '2024-01-20T09:00:00.000Z' },
+      ],
+    };
+
+    act(() => {
+      milkStashCallback?.([thawing]);
+    });
+
+    expect(screen.getByText('Thawing')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: /History \(2\)/ }));
+    expect(screen.getByText('Started thawing • Fridge')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Thawed' }));
+    expect(mockMarkMilkStashThawed).toHaveBeenCalledWith('stash-1');
+
+    await user.click(screen.getByLabelText('Move 4 oz milk stash entry'));
+    expect(screen.getByRole('button', { name: 'Freezer' })).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Cooler Bag' })).toBeEnabled();
+  });
+
+  it('recommends what to use next, projects days of supply and combines fridge bags', async () => {
+    const user = userEvent.setup();
+    const inDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+    bottleSessions = [{
+      id: 'bottle-1',
+      babyId: mockBaby.id,
+      userId: mockUser.uid,
+      date: inDays(-1).split('T')[0],
+      timestamp: inDays(-1),
+      volume: 14,
+      volumeUnit: 'oz',
+      contentType: 'breastMilk',
+      notes: null,
+      babyMood: null,
+      createdAt: inDays(-1),
+      updatedAt: inDays(-1),
+    }];
+    renderMilkStashView();
+
+    const later = makeStashItem({ id: 'stash-1', volume: 4, expirationDate: inDays(3) });
+    const sooner = makeStashItem({ id: 'stash-2', volume: 3, expirationDate: inDays(1) });
+
+    act(() => {
+      milkStashCallback?.([later, sooner]);
+    });
+
+    // 7 oz against 2 oz a day of bottles
+    expect(screen.getByText('About 3 days of milk left')).toBeInTheDocument();
+    expect(screen.getByText(/^1\. 3 oz/)).toBeInTheDocument();
+    expect(screen.getByText(/^2\. 4 oz/)).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Select Multiple' }));
+    const selectButtons = screen.getAllByRole('button', { name: 'Select' });
+    await user.click(selectButtons[0]);
+    await user.click(selectButtons[1]);
+    await user.click(screen.getByRole('button', { name: 'Combine (2)' }));
+
+    await waitFor(() => {
+      expect(mockCombineMilkStash).toHaveBeenCalledWith(['stash-1', 'stash-2']);
+    });
+  });
+
+  it('opens a bag from a pasted label code with bottle and used actions', async () => {
+    const user = userEvent.setup();
+    renderMilkStashView();
+
+    const fridgeBag = makeStashItem({ id: 'stash-2', volume: 3 });
+
+    act(() => {
+      milkStashCallback?.([makeStashItem({ id: 'stash-1', volume: 4 }), fridgeBag]);
+    });
+
+    await user.click(screen.getByRole('button', { name: 'Scan Label' }));
+    await user.type(
+      screen.getByPlaceholderText('Paste the label code or link'),
+      'https://app.example/more/milk-stash?stash=stash-2'
+    );
+    await user.click(screen.getByRole('button', { name: 'Open' }));
+
+    expect(screen.getByText('3 oz bag')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Use for Bottle' })).toBeEnabled();
+
+    await user.click(screen.getByRole('button', { name: 'Mark Used' }));
+    expect(screen.getByText('Record Feeding?')).toBeInTheDocument();
+    expect(screen.queryByText('3 oz bag')).not.toBeInTheDocument();
+  });
 });
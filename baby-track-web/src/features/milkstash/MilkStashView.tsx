@@ -1,24 +1,30 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Header } from '@/components/layout/Header';
+import { MilkLabelScanner } from './MilkLabelScanner';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { useAuth } from '@/features/auth/AuthContext';
 import { useAppStore } from '@/stores/appStore';
-import { createMilkStash, subscribeToMilkStash, markMilkStashInUse, markMilkStashUsed, updateMilkStashVolume, createBottleSession, deleteMilkStashEntry, deleteMilkStashEntries } from '@/lib/firestore';
-import type { MilkStash, Baby } from '@/types';
-import { MilkStorageLocation, MILK_STORAGE_CONFIG } from '@/types/enums';
-import { Milk, Plus, X, Clock, Check, AlertTriangle, Trash2, Pencil } from 'lucide-react';
+import { createMilkStash, subscribeToMilkStash, markMilkStashInUse, withdrawFromMilkStash, updateMilkStashVolume, createBottleSessionFromMilkStash, deleteMilkStashEntry, deleteMilkStashEntries, moveMilkStash, markMilkStashThawed, combineMilkStash, subscribeToBottleSessionsSince, subscribeToPumpSessionsSince } from '@/lib/firestore';
+import type { MilkStash, Baby, BottleSession, PumpSession } from '@/types';
+import { canCombineMilk, canMoveMilk, convertVolume, getCaregiverName, getHouseholdBabyIds, getLeftoverExpirationMinutes, getMilkStashHistory, getMilkThawState, getMilkUseOrder, getMilkSupplyWindowStart, projectMilkSupply, MILK_SUPPLY_TRAILING_DAYS } from '@/types';
+import { MilkStorageLocation, MILK_STORAGE_CONFIG, MILK_STASH_EVENT_CONFIG } from '@/types/enums';
+import { toast } from '@/stores/toastStore';
+import { useBabyPermissions } from '@/hooks/useBabyPermissions';
+import { Milk, Plus, X, Clock, Check, AlertTriangle, Trash2, Pencil, ArrowRightLeft, History, Combine, ScanLine, Printer } from 'lucide-react';
 import { clsx } from 'clsx';
 
 export function MilkStashView() {
   const { user } = useAuth();
   const { settings, babies, selectedBaby } = useAppStore();
+  const { can } = useBabyPermissions();
   const [stash, setStash] = useState<MilkStash[]>([]);
   const [showForm, setShowForm] = useState(false);
   const [loading, setLoading] = useState(false);
   const [selectionMode, setSelectionMode] = useState(false);
-  const [selectedForDeletion, setSelectedForDeletion] = useState<string[]>([]);
+  const [selectedStashIds, setSelectedStashIds] = useState<string[]>([]);
 
   // Confirmation dialog state
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
@@ -30,6 +36,15 @@ export function MilkStashView() {
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [editingMilkItem, setEditingMilkItem] = useState<MilkStash | null>(null);
   const [editVolume, setEditVolume] = useState('');
+  const [movingMilkItem, setMovingMilkItem] = useState<MilkStash | null>(null);
+  const [bottleSessionsByBaby, setBottleSessionsByBaby] = useState<Record<string, BottleSession[]>>({});
+  const [pumpSessionsByBaby, setPumpSessionsByBaby] = useState<Record<string, PumpSession[]>>({});
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [stashLoaded, setStashLoaded] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
+  // A bag opened from its label, by scanning in the app or by following the label's link
+  const [scannedStashId, setScannedStashId] = useState<string | null>(() => searchParams.get('stash'));
 
   // Form state
   const [pumpedDate, setPumpedDate] = useState(new Date().toISOString().split('T')[0]);
@@ -39,23 +54,54 @@ export function MilkStashView() {
 
   const volumeUnit = settings?.preferredVolumeUnit || 'oz';
 
+  // Everyone sharing the selected baby's household sees the same stash
+  const householdKey = selectedBaby ? getHouseholdBabyIds(babies, selectedBaby.id).join(',') : '';
+
   useEffect(() => {
-    if (!user) return;
+    if (!user || !householdKey) return;
 
-    const unsubscribe = subscribeToMilkStash(user.uid, (data) => {
+    const unsubscribe = subscribeToMilkStash(householdKey.split(','), (data) => {
       setStash(data);
+      setStashLoaded(true);
     });
 
     return () => unsubscribe();
-  }, [user]);
+  }, [user, householdKey]);
+
+  // Bottles and pumping across the household, for the days-of-supply projection. The whole
+  // trailing window is loaded, however many sessions a busy week has.
+  useEffect(() => {
+    if (!householdKey) return;
+
+    const since = getMilkSupplyWindowStart().toISOString();
+    const unsubscribers = householdKey.split(',').flatMap((babyId) => [
+      subscribeToBottleSessionsSince(babyId, since, (sessions) => {
+        setBottleSessionsByBaby((prev) => ({ ...prev, [babyId]: sessions }));
+      }),
+      subscribeToPumpSessionsSince(babyId, since, (sessions) => {
+        setPumpSessionsByBaby((prev) => ({ ...prev, [babyId]: sessions }));
+      }),
+    ]);
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [householdKey]);
+
+  const supply = useMemo(() => {
+    const householdIds = householdKey.split(',');
+    return projectMilkSupply(
+      stash,
+      householdIds.flatMap((babyId) => bottleSessionsByBaby[babyId] ?? []),
+      householdIds.flatMap((babyId) => pumpSessionsByBaby[babyId] ?? [])
+    );
+  }, [stash, householdKey, bottleSessionsByBaby, pumpSessionsByBaby]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user || !volume) return;
+    if (!user || !selectedBaby || !volume) return;
 
     setLoading(true);
     try {
-      await createMilkStash(user.uid, {
+      await createMilkStash(selectedBaby.id, user.uid, {
         pumpedDate,
         volume: parseFloat(volume),
         volumeUnit,
@@ -97,28 +143,20 @@ export function MilkStashView() {
 
     setLoading(true);
     try {
-      // If a baby is selected, create a bottle session to record the feeding
+      // If a baby is selected, create a bottle session to record the feeding. Either way the
+      // amount is deducted and recorded against whoever took it.
       if (selectedBabyForFeeding) {
-        await createBottleSession(selectedBabyForFeeding.id, user.uid, {
+        await createBottleSessionFromMilkStash(selectedBabyForFeeding.id, user.uid, {
           timestamp: new Date().toISOString(),
-          volume: usedAmount,
+          volume: Math.min(usedAmount, selectedMilkItem.volume),
           volumeUnit: selectedMilkItem.volumeUnit,
           contentType: 'breastMilk',
           milkStashId: selectedMilkItem.id,
           notes: `From milk stash (pumped: ${new Date(selectedMilkItem.pumpedDate).toLocaleDateString()})`,
           babyMood: null,
         });
-      }
-
-      // Check if fully used or partial
-      const remainingVolume = selectedMilkItem.volume - usedAmount;
-
-      if (remainingVolume <= 0) {
-        // Fully used - mark as used
-        await markMilkStashUsed(selectedMilkItem.id);
       } else {
-        // Partial use - update the remaining volume and keep in use
-        await updateMilkStashVolume(selectedMilkItem.id, remainingVolume);
+        await withdrawFromMilkStash(selectedMilkItem.id, user.uid, usedAmount);
       }
 
       // Close dialog
@@ -140,15 +178,46 @@ export function MilkStashView() {
 
   const toggleSelectionMode = () => {
     setSelectionMode((prev) => !prev);
-    setSelectedForDeletion([]);
+    setSelectedStashIds([]);
   };
 
-  const handleToggleDeleteSelection = (itemId: string) => {
-    setSelectedForDeletion((prev) =>
+  const handleToggleSelection = (itemId: string) => {
+    setSelectedStashIds((prev) =>
       prev.includes(itemId) ? prev.filter((id) => id !== itemId) : [...prev, itemId]
     );
   };
 
+  const handleScan = useCallback((stashId: string) => {
+    setScannedStashId(stashId);
+    setShowScanner(false);
+  }, []);
+
+  const closeScannedItem = () => {
+    setScannedStashId(null);
+    if (searchParams.has('stash')) {
+      setSearchParams({}, { replace: true });
+    }
+  };
+
+  const handlePrintLabels = () => {
+    const ids = selectionMode ? selectedStashIds : [];
+    navigate(ids.length > 0 ? `/more/milk-stash/labels?ids=${ids.join(',')}` : '/more/milk-stash/labels');
+  };
+
+  const handleCombineSelected = async () => {
+    setLoading(true);
+    try {
+      await combineMilkStash(selectedStashIds);
+      setSelectedStashIds([]);
+      setSelectionMode(false);
+    } catch (error) {
+      console.error('Error combining milk stash entries:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to combine milk. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const requestDelete = (itemIds: string[]) => {
     if (itemIds.length === 0) return;
     setPendingDeleteIds(itemIds);
@@ -171,7 +240,7 @@ export function MilkStashView() {
         await deleteMilkStashEntries(pendingDeleteIds);
       }
 
-      setSelectedForDeletion((prev) => prev.filter((id) => !pendingDeleteIds.includes(id)));
+      setSelectedStashIds((prev) => prev.filter((id) => !pendingDeleteIds.includes(id)));
       setSelectionMode(false);
       handleCancelDelete();
     } catch (error) {
@@ -181,6 +250,29 @@ export function MilkStashView() {
     }
   };
 
+  const handleMove = async (to: MilkStorageLocation) => {
+    if (!movingMilkItem) return;
+
+    setLoading(true);
+    try {
+      await moveMilkStash(movingMilkItem.id, to);
+      setMovingMilkItem(null);
+    } catch (error) {
+      console.error('Error moving milk stash entry:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to move milk. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMarkThawed = async (item: MilkStash) => {
+    try {
+      await markMilkStashThawed(item.id);
+    } catch (error) {
+      console.error('Error marking milk thawed:', error);
+    }
+  };
+
   const requestEdit = (item: MilkStash) => {
     setEditingMilkItem(item);
     setEditVolume(item.volume.toString());
@@ -221,12 +313,39 @@ export function MilkStashView() {
     return new Date(item.expirationDate) < new Date();
   };
 
-  const fridgeMilk = stash.filter(s => s.location === 'fridge');
-  const freezerMilk = stash.filter(s => s.location === 'freezer');
-  const inUseMilk = stash.filter(s => s.isInUse);
-
-  const totalFridgeVolume = fridgeMilk.reduce((sum, s) => sum + s.volume, 0);
-  const totalFreezerVolume = freezerMilk.reduce((sum, s) => sum + s.volume, 0);
+  const locations = Object.keys(MILK_STORAGE_CONFIG) as MilkStorageLocation[];
+  const leftoverMilk = stash.filter(s => s.leftoverSince);
+  const inUseMilk = stash.filter(s => s.isInUse && !s.leftoverSince);
+  const milkByLocation = (location: MilkStorageLocation) =>
+    stash.filter(s => s.location === location && !s.leftoverSince);
+  const useNextMilk = getMilkUseOrder(stash).filter(s => !s.isInUse).slice(0, 3);
+  const canCombineSelected = canCombineMilk(stash.filter(s => selectedStashIds.includes(s.id)));
+  const scannedItem = scannedStashId ? stash.find(s => s.id === scannedStashId) ?? null : null;
+  // Anyone who logs can use bags; correcting a volume edits history, and deleting needs
+  // permission unless it's the user's own bag, matching the security rules
+  const canDeleteStash = (itemIds: string[]) =>
+    can('deleteHistory') || itemIds.every((id) => stash.find((s) => s.id === id)?.userId === user?.uid);
+  const formatSupplyVolume = (oz: number) => `${convertVolume(oz, 'oz', volumeUnit).toFixed(1)} ${volumeUnit}`;
+
+  const renderMilkCard = (item: MilkStash, expiringSoon = isExpiringSoon(item)) => (
+    <MilkCard
+      key={item.id}
+      item={item}
+      volumeUnit={volumeUnit}
+      selectionMode={selectionMode}
+      isSelected={selectedStashIds.includes(item.id)}
+      onToggleSelect={() => handleToggleSelection(item.id)}
+      canLog={can('log')}
+      onEdit={can('editHistory') ? () => requestEdit(item) : undefined}
+      onDelete={canDeleteStash([item.id]) ? () => requestDelete([item.id]) : undefined}
+      onMarkInUse={() => handleMarkInUse(item)}
+      onMarkUsed={() => handleMarkUsed(item)}
+      onMove={() => setMovingMilkItem(item)}
+      onMarkThawed={() => handleMarkThawed(item)}
+      isExpiringSoon={expiringSoon}
+      isExpired={isExpired(item)}
+    />
+  );
 
   return (
     <div>
@@ -234,47 +353,158 @@ export function MilkStashView() {
         title="Milk Stash"
         showBabySwitcher={false}
         rightAction={
-          <Button size="sm" onClick={() => setShowForm(true)}>
-            <Plus className="w-4 h-4 mr-1" />
-            Add
-          </Button>
+          can('log') && (
+            <Button size="sm" onClick={() => setShowForm(true)}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add
+            </Button>
+          )
         }
       />
 
       <div className="px-4 py-4 space-y-4">
         {/* Summary */}
         <div className="grid grid-cols-2 gap-4">
-          <Card className="text-center bg-blue-50">
-            <p className="text-2xl font-bold text-blue-600">
-              {totalFridgeVolume.toFixed(1)} {volumeUnit}
-            </p>
-            <p className="text-sm text-blue-500">Fridge ({fridgeMilk.length})</p>
+          {locations.map((location) => {
+            const config = MILK_STORAGE_CONFIG[location];
+            const items = milkByLocation(location);
+            return (
+              <Card key={location} className="text-center" style={{ backgroundColor: `${config.color}14` }}>
+                <p className="text-2xl font-bold" style={{ color: config.color }}>
+                  {items.reduce((sum, s) => sum + s.volume, 0).toFixed(1)} {volumeUnit}
+                </p>
+                <p className="text-sm" style={{ color: config.color }}>{config.label} ({items.length})</p>
+              </Card>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" className="flex-1" onClick={() => setShowScanner(true)}>
+            <ScanLine className="w-4 h-4 mr-1" />
+            Scan Label
+          </Button>
+          <Button size="sm" variant="outline" className="flex-1" onClick={handlePrintLabels} disabled={stash.length === 0}>
+            <Printer className="w-4 h-4 mr-1" />
+            {selectionMode && selectedStashIds.length > 0 ? `Print Labels (${selectedStashIds.length})` : 'Print Labels'}
+          </Button>
+        </div>
+
+        {showScanner && (
+          <MilkLabelScanner onScan={handleScan} onClose={() => setShowScanner(false)} />
+        )}
+
+        {scannedStashId && stashLoaded && (
+          <Card className="border-2 border-primary-300">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="font-semibold text-gray-900">
+                {scannedItem ? `${scannedItem.volume} ${scannedItem.volumeUnit} bag` : 'Bag not found'}
+              </h3>
+              <button onClick={closeScannedItem} aria-label="Close scanned bag">
+                <X className="w-5 h-5 text-gray-400" />
+              </button>
+            </div>
+            {scannedItem ? (
+              <>
+                <p className="text-sm text-gray-600">
+                  {MILK_STORAGE_CONFIG[scannedItem.location].label} • pumped {new Date(scannedItem.pumpedDate).toLocaleDateString()}
+                  {' '}• expires {new Date(scannedItem.expirationDate).toLocaleDateString()}
+                </p>
+                {scannedItem.location !== 'fridge' && (
+                  <p className="text-xs text-amber-600 mt-1">Move it to the fridge to use it for a bottle.</p>
+                )}
+                {can('log') && (
+                  <div className="flex gap-2 mt-3">
+                    <Button
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => navigate('/feed', { state: { milkStashId: scannedItem.id } })}
+                      disabled={scannedItem.location !== 'fridge' || scannedItem.isInUse}
+                    >
+                      <Milk className="w-4 h-4 mr-1" />
+                      Use for Bottle
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="flex-1"
+                      onClick={() => {
+                        handleMarkUsed(scannedItem);
+                        closeScannedItem();
+                      }}
+                    >
+                      <Check className="w-4 h-4 mr-1" />
+                      Mark Used
+                    </Button>
+                  </div>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">This bag has been used up or isn't in your household's stash.</p>
+            )}
           </Card>
-          <Card className="text-center bg-indigo-50">
-            <p className="text-2xl font-bold text-indigo-600">
-              {totalFreezerVolume.toFixed(1)} {volumeUnit}
+        )}
+
+        {/* Days of supply */}
+        {stash.length > 0 && (
+          <Card>
+            <p className="font-semibold text-gray-900">
+              {supply.days === null
+                ? 'Pumping is keeping up with bottles'
+                : `About ${Math.floor(supply.days)} day${Math.floor(supply.days) === 1 ? '' : 's'} of milk left`}
+            </p>
+            <p className="text-sm text-gray-500">
+              Bottles use {formatSupplyVolume(supply.dailyBottleOz)}/day, pumping adds {formatSupplyVolume(supply.dailyPumpOz)}/day
+              {' '}(last {MILK_SUPPLY_TRAILING_DAYS} days)
             </p>
-            <p className="text-sm text-indigo-500">Freezer ({freezerMilk.length})</p>
           </Card>
-        </div>
+        )}
 
-        <div className="flex items-center justify-between gap-3">
-          <Button size="sm" variant="outline" onClick={toggleSelectionMode}>
-            {selectionMode ? 'Cancel Selection' : 'Select Multiple'}
-          </Button>
+        {/* Use next */}
+        {useNextMilk.length > 0 && (
+          <Card>
+            <h3 className="font-semibold text-gray-900 mb-2">Use next</h3>
+            <ol className="space-y-1 text-sm">
+              {useNextMilk.map((item, index) => (
+                <li key={item.id} className="flex justify-between gap-2">
+                  <span>
+                    {index + 1}. {item.volume} {item.volumeUnit} • {item.leftoverSince ? 'Leftover' : MILK_STORAGE_CONFIG[item.location].label}
+                  </span>
+                  <span className="text-gray-500">
+                    Expires {new Date(item.expirationDate).toLocaleDateString()}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </Card>
+        )}
 
-          {selectionMode && (
-            <Button
-              size="sm"
-              variant="danger"
-              onClick={() => requestDelete(selectedForDeletion)}
-              disabled={selectedForDeletion.length === 0 || loading}
-            >
-              <Trash2 className="w-4 h-4 mr-1" />
-              Delete Selected ({selectedForDeletion.length})
+        {can('log') && (
+          <div className="flex items-center justify-between gap-3">
+            <Button size="sm" variant="outline" onClick={toggleSelectionMode}>
+              {selectionMode ? 'Cancel Selection' : 'Select Multiple'}
             </Button>
-          )}
-        </div>
+
+            {selectionMode && canCombineSelected && (
+              <Button size="sm" variant="outline" onClick={handleCombineSelected} disabled={loading}>
+                <Combine className="w-4 h-4 mr-1" />
+                Combine ({selectedStashIds.length})
+              </Button>
+            )}
+
+            {selectionMode && (
+              <Button
+                size="sm"
+                variant="danger"
+                onClick={() => requestDelete(selectedStashIds)}
+                disabled={selectedStashIds.length === 0 || loading || !canDeleteStash(selectedStashIds)}
+              >
+                <Trash2 className="w-4 h-4 mr-1" />
+                Delete Selected ({selectedStashIds.length})
+              </Button>
+            )}
+          </div>
+        )}
 
         {/* Confirmation Dialog */}
         {showConfirmDialog && selectedMilkItem && (
@@ -399,6 +629,42 @@ export function MilkStashView() {
           </Card>
         )}
 
+        {movingMilkItem && (
+          <Card className="border-2 border-blue-300 bg-blue-50">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="font-semibold text-gray-900">
+                Move {movingMilkItem.volume} {volumeUnit} from the {MILK_STORAGE_CONFIG[movingMilkItem.location].label.toLowerCase()}
+              </h3>
+              <button onClick={() => setMovingMilkItem(null)}>
+                <X className="w-5 h-5 text-gray-400" />
+              </button>
+            </div>
+
+            {getMilkThawState(movingMilkItem) && (
+              <p className="text-sm text-blue-700 mb-3">Thawed milk can't be refrozen.</p>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+              {locations
+                .filter((location) => location !== movingMilkItem.location)
+                .map((location) => {
+                  const startsThawing = MILK_STORAGE_CONFIG[movingMilkItem.location].isFrozen && !MILK_STORAGE_CONFIG[location].isFrozen;
+                  return (
+                    <Button
+                      key={location}
+                      variant="outline"
+                      onClick={() => handleMove(location)}
+                      disabled={loading || !canMoveMilk(movingMilkItem, location)}
+                    >
+                      {MILK_STORAGE_CONFIG[location].label}
+                      {startsThawing && ' (thaw)'}
+                    </Button>
+                  );
+                })}
+            </div>
+          </Card>
+        )}
+
         {showEditDialog && editingMilkItem && (
           <Card className="border-2 border-blue-300 bg-blue-50">
             <div className="flex items-center justify-between mb-4">
@@ -442,7 +708,7 @@ export function MilkStashView() {
         )}
 
         {/* Add Form */}
-        {showForm && (
+        {can('log') && showForm && (
           <Card>
             <div className="flex items-center justify-between mb-4">
               <h3 className="font-semibold text-gray-900">Add Milk</h3>
@@ -474,8 +740,8 @@ export function MilkStashView() {
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Storage Location
                 </label>
-                <div className="flex gap-2">
-                  {(Object.keys(MILK_STORAGE_CONFIG) as MilkStorageLocation[]).map((loc) => {
+                <div className="grid grid-cols-2 gap-2">
+                  {locations.map((loc) => {
                     const config = MILK_STORAGE_CONFIG[loc];
                     return (
                       <button
@@ -483,7 +749,7 @@ export function MilkStashView() {
                         type="button"
                         onClick={() => setLocation(loc)}
                         className={clsx(
-                          'flex-1 px-3 py-2 rounded-lg text-sm font-medium transition-colors',
+                          'px-3 py-2 rounded-lg text-sm font-medium transition-colors',
                           location === loc
                             ? 'text-white'
                             : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
@@ -519,81 +785,43 @@ export function MilkStashView() {
               In Use
             </h3>
             <div className="space-y-2">
-              {inUseMilk.map((item) => (
-                <MilkCard
-                  key={item.id}
-                  item={item}
-                  volumeUnit={volumeUnit}
-                  selectionMode={selectionMode}
-                  isSelected={selectedForDeletion.includes(item.id)}
-                  onToggleSelect={() => handleToggleDeleteSelection(item.id)}
-                  onEdit={() => requestEdit(item)}
-                  onDelete={() => requestDelete([item.id])}
-                  onMarkInUse={() => handleMarkInUse(item)}
-                  onMarkUsed={() => handleMarkUsed(item)}
-                  isExpiringSoon={isExpiringSoon(item)}
-                  isExpired={isExpired(item)}
-                />
-              ))}
+              {inUseMilk.map((item) => renderMilkCard(item))}
             </div>
           </div>
         )}
 
-        {/* Fridge */}
-        {fridgeMilk.filter(m => !m.isInUse).length > 0 && (
+        {/* Leftovers from partly drunk bottles */}
+        {leftoverMilk.length > 0 && (
           <div>
-            <h3 className="font-semibold text-blue-600 mb-2">Fridge</h3>
+            <h3 className="font-semibold text-amber-600 mb-2 flex items-center gap-2">
+              <Clock className="w-4 h-4" />
+              Leftovers
+            </h3>
             <div className="space-y-2">
-              {fridgeMilk.filter(m => !m.isInUse).map((item) => (
-                <MilkCard
-                  key={item.id}
-                  item={item}
-                  volumeUnit={volumeUnit}
-                  selectionMode={selectionMode}
-                  isSelected={selectedForDeletion.includes(item.id)}
-                  onToggleSelect={() => handleToggleDeleteSelection(item.id)}
-                  onEdit={() => requestEdit(item)}
-                  onDelete={() => requestDelete([item.id])}
-                  onMarkInUse={() => handleMarkInUse(item)}
-                  onMarkUsed={() => handleMarkUsed(item)}
-                  isExpiringSoon={isExpiringSoon(item)}
-                  isExpired={isExpired(item)}
-                />
-              ))}
+              {leftoverMilk.map((item) => renderMilkCard(item, false))}
             </div>
           </div>
         )}
 
-        {/* Freezer */}
-        {freezerMilk.filter(m => !m.isInUse).length > 0 && (
-          <div>
-            <h3 className="font-semibold text-indigo-600 mb-2">Freezer</h3>
-            <div className="space-y-2">
-              {freezerMilk.filter(m => !m.isInUse).map((item) => (
-                <MilkCard
-                  key={item.id}
-                  item={item}
-                  volumeUnit={volumeUnit}
-                  selectionMode={selectionMode}
-                  isSelected={selectedForDeletion.includes(item.id)}
-                  onToggleSelect={() => handleToggleDeleteSelection(item.id)}
-                  onEdit={() => requestEdit(item)}
-                  onDelete={() => requestDelete([item.id])}
-                  onMarkInUse={() => handleMarkInUse(item)}
-                  onMarkUsed={() => handleMarkUsed(item)}
-                  isExpiringSoon={isExpiringSoon(item)}
-                  isExpired={isExpired(item)}
-                />
-              ))}
+        {locations.map((location) => {
+          const items = milkByLocation(location).filter(m => !m.isInUse);
+          if (items.length === 0) return null;
+          const config = MILK_STORAGE_CONFIG[location];
+          return (
+            <div key={location}>
+              <h3 className="font-semibold mb-2" style={{ color: config.color }}>{config.label}</h3>
+              <div className="space-y-2">
+                {items.map((item) => renderMilkCard(item))}
+              </div>
             </div>
-          </div>
-        )}
+          );
+        })}
 
         {stash.length === 0 && !showForm && (
           <Card className="text-center py-8">
             <Milk className="w-12 h-12 mx-auto text-gray-300 mb-3" />
             <p className="text-gray-500">No milk stored</p>
-            <p className="text-sm text-gray-400">Tap + to add pumped milk</p>
+            {can('log') && <p className="text-sm text-gray-400">Tap + to add pumped milk</p>}
           </Card>
         )}
       </div>
@@ -607,10 +835,13 @@ function MilkCard({
   selectionMode,
   isSelected,
   onToggleSelect,
+  canLog,
   onEdit,
   onDelete,
   onMarkInUse,
   onMarkUsed,
+  onMove,
+  onMarkThawed,
   isExpiringSoon,
   isExpired,
 }: {
@@ -619,14 +850,23 @@ function MilkCard({
   selectionMode: boolean;
   isSelected: boolean;
   onToggleSelect: () => void;
-  onEdit: () => void;
-  onDelete: () => void;
+  canLog: boolean;
+  onEdit?: () => void; // Left out when the user's role can't change the bag
+  onDelete?: () => void;
   onMarkInUse: () => void;
   onMarkUsed: () => void;
+  onMove: () => void;
+  onMarkThawed: () => void;
   isExpiringSoon: boolean;
   isExpired: boolean;
 }) {
+  const { user } = useAuth();
+  const { babies, userProfiles } = useAppStore();
+  const [showHistory, setShowHistory] = useState(false);
   const locConfig = MILK_STORAGE_CONFIG[item.location];
+  const thawState = getMilkThawState(item);
+  const history = getMilkStashHistory(item);
+  const withdrawals = item.withdrawals ?? [];
 
   return (
     <Card
@@ -642,10 +882,10 @@ function MilkCard({
           <div className="flex items-center gap-2">
             <span className="font-bold text-lg">{item.volume} {volumeUnit}</span>
             <span
-              className="px-2 py-0.5 rounded-full text-xs text-white"
-              style={{ backgroundColor: locConfig.color }}
+              className={clsx('px-2 py-0.5 rounded-full text-xs text-white', item.leftoverSince && 'bg-amber-500')}
+              style={item.leftoverSince ? undefined : { backgroundColor: locConfig.color }}
             >
-              {locConfig.label}
+              {item.leftoverSince ? 'Leftover' : locConfig.label}
             </span>
             {isExpired && (
               <span className="px-2 py-0.5 rounded-full text-xs bg-red-500 text-white flex items-center gap-1">
@@ -658,13 +898,37 @@ function MilkCard({
                 Expiring soon
               </span>
             )}
+            {thawState && !item.leftoverSince && (
+              <span className="px-2 py-0.5 rounded-full text-xs bg-sky-500 text-white">
+                {thawState === 'thawing' ? 'Thawing' : 'Thawed'}
+              </span>
+            )}
           </div>
-          <p className="text-sm text-gray-500">
-            Pumped: {new Date(item.pumpedDate).toLocaleDateString()}
-          </p>
-          <p className="text-xs text-gray-400">
-            Expires: {new Date(item.expirationDate).toLocaleDateString()}
-          </p>
+          {item.leftoverSince ? (
+            <p className="text-sm text-amber-600">
+              {isExpired
+                ? 'Left over for more than 2 hours'
+                : `Leftover • use within ${Math.round(getLeftoverExpirationMinutes(item.leftoverSince))} min`}
+            </p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-500">
+                Pumped: {new Date(item.pumpedDate).toLocaleDateString()}
+              </p>
+              <p className="text-xs text-gray-400">
+                {thawState === 'thawed' ? 'Thawed, use by' : 'Expires'}: {new Date(item.expirationDate).toLocaleString([], { dateStyle: 'short', timeStyle: thawState ? 'short' : undefined })}
+              </p>
+            </>
+          )}
+          <button
+            type="button"
+            className="mt-1 flex items-center gap-1 text-xs text-gray-500"
+            onClick={() => setShowHistory(!showHistory)}
+            aria-expanded={showHistory}
+          >
+            <History className="w-3 h-3" />
+            History ({history.length + withdrawals.length})
+          </button>
         </div>
         <div className="flex items-center gap-2">
           {selectionMode ? (
@@ -673,31 +937,80 @@ function MilkCard({
             </Button>
           ) : (
             <>
-              {!item.isInUse ? (
-                <Button size="sm" variant="outline" onClick={onMarkInUse}>
-                  Use
-                </Button>
-              ) : (
+              {canLog && (
                 <>
-                  <Button size="sm" onClick={onMarkUsed}>
-                    <Check className="w-4 h-4 mr-1" />
-                    Done
-                  </Button>
-                  <Button size="sm" variant="outline" onClick={onMarkInUse}>
-                    Cancel
-                  </Button>
+                  {item.leftoverSince ? (
+                    <Button size="sm" onClick={onMarkUsed}>
+                      <Check className="w-4 h-4 mr-1" />
+                      Done
+                    </Button>
+                  ) : !item.isInUse ? (
+                    <>
+                      {thawState === 'thawing' && (
+                        <Button size="sm" variant="outline" onClick={onMarkThawed}>
+                          Thawed
+                        </Button>
+                      )}
+                      <Button size="sm" variant="outline" onClick={onMarkInUse}>
+                        Use
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <Button size="sm" onClick={onMarkUsed}>
+                        <Check className="w-4 h-4 mr-1" />
+                        Done
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={onMarkInUse}>
+                        Cancel
+                      </Button>
+                    </>
+                  )}
+                  {!item.leftoverSince && !item.isInUse && (
+                    <Button size="sm" variant="outline" onClick={onMove} aria-label={`Move ${item.volume} ${volumeUnit} milk stash entry`}>
+                      <ArrowRightLeft className="w-4 h-4 text-gray-600" />
+                    </Button>
+                  )}
                 </>
               )}
-              <Button size="sm" variant="outline" onClick={onEdit} aria-label={`Edit ${item.volume} ${volumeUnit} milk stash entry`}>
-                <Pencil className="w-4 h-4 text-blue-500" />
-              </Button>
-              <Button size="sm" variant="outline" onClick={onDelete} aria-label={`Delete ${item.volume} ${volumeUnit} milk stash entry`}>
-                <Trash2 className="w-4 h-4 text-red-500" />
-              </Button>
+              {onEdit && (
+                <Button size="sm" variant="outline" onClick={onEdit} aria-label={`Edit ${item.volume} ${volumeUnit} milk stash entry`}>
+                  <Pencil className="w-4 h-4 text-blue-500" />
+                </Button>
+              )}
+              {onDelete && (
+                <Button size="sm" variant="outline" onClick={onDelete} aria-label={`Delete ${item.volume} ${volumeUnit} milk stash entry`}>
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </Button>
+              )}
             </>
           )}
         </div>
       </div>
+      {showHistory && (
+        <ol className="mt-2 space-y-1 border-t border-gray-100 pt-2 text-xs text-gray-500">
+          {history.map((change, index) => (
+            <li key={index} className="flex justify-between gap-2">
+              <span>
+                {MILK_STASH_EVENT_CONFIG[change.event].label} • {MILK_STORAGE_CONFIG[change.location].label}
+              </span>
+              <span>{new Date(change.at).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</span>
+            </li>
+          ))}
+          {withdrawals.map((withdrawal, index) => {
+            const takenFor = babies.find((baby) => baby.id === withdrawal.babyId)?.name;
+            return (
+              <li key={`withdrawal-${index}`} className="flex justify-between gap-2">
+                <span>
+                  Took {withdrawal.volume.toFixed(1)} {item.volumeUnit} • {getCaregiverName(withdrawal.userId, user?.uid ?? null, userProfiles)}
+                  {takenFor && ` for ${takenFor}`}
+                </span>
+                <span>{new Date(withdrawal.at).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</span>
+              </li>
+            );
+          })}
+        </ol>
+      )}
     </Card>
   );
 }
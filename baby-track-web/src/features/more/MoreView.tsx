@@ -3,7 +3,7 @@ import { Header, NoBabiesHeader } from '@/components/layout/Header';
 import { Card } from '@/components/ui/Card';
 import { useAppStore } from '@/stores/appStore';
 import { useAuth } from '@/features/auth/AuthContext';
-import { BABY_COLOR_CONFIG, calculateBabyAge } from '@/types';
+import { BABY_COLOR_CONFIG, formatBabyAge } from '@/types';
 import { getFeatureShortcuts, MAX_FAVORITES } from '@/features/featureCatalog';
 import type { FeatureId } from '@/features/featureCatalog';
 import { toast } from '@/stores/toastStore';
@@ -31,9 +31,7 @@ export function MoreView() {
     ? BABY_COLOR_CONFIG[selectedBaby.color]?.hex
     : '#9c27b0';
 
-  const babyAge = selectedBaby?.birthDate
-    ? calculateBabyAge(selectedBaby.birthDate)
-    : null;
+  const babyAge = selectedBaby ? formatBabyAge(selectedBaby) : null;
 
   const features = getFeatureShortcuts(settings?.feedingTypePreference).map((feature) =>
     feature.id === 'feed'
@@ -83,7 +81,7 @@ export function MoreView() {
               <div className="flex-1">
                 <h3 className="text-xl font-bold text-gray-900">{selectedBaby.name}</h3>
                 {babyAge && (
-                  <p className="text-sm text-gray-600 mt-0.5">{babyAge.text}</p>
+                  <p className="text-sm text-gray-600 mt-0.5">{babyAge}</p>
                 )}
               </div>
               <button
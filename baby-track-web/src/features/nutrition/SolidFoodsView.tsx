@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { useAuth } from '@/features/auth/AuthContext';
 import { useAppStore } from '@/stores/appStore';
+import { useBabyPermissions } from '@/hooks/useBabyPermissions';
 import { createSolidFood, subscribeToSolidFoods } from '@/lib/firestore';
 import type { SolidFood } from '@/types';
 import { COMMON_FOODS, FoodCategory, FoodReaction, FoodPreference, FOOD_CATEGORY_CONFIG, FOOD_REACTION_CONFIG, FOOD_PREFERENCE_CONFIG } from '@/types/enums';
@@ -14,6 +15,7 @@ import { clsx } from 'clsx';
 export function SolidFoodsView() {
   const { user } = useAuth();
   const { selectedBaby } = useAppStore();
+  const { can } = useBabyPermissions();
   const [foods, setFoods] = useState<SolidFood[]>([]);
   const [showForm, setShowForm] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -91,10 +93,12 @@ export function SolidFoodsView() {
         title="Solid Foods"
         showBabySwitcher={false}
         rightAction={
-          <Button size="sm" onClick={() => setShowForm(true)}>
-            <Plus className="w-4 h-4 mr-1" />
-            Add
-          </Button>
+          can('log') && (
+            <Button size="sm" onClick={() => setShowForm(true)}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add
+            </Button>
+          )
         }
       />
 
@@ -115,7 +119,7 @@ export function SolidFoodsView() {
         )}
 
         {/* Add Entry Form */}
-        {showForm && (
+        {can('log') && showForm && (
           <Card>
             <div className="flex items-center justify-between mb-4">
               <h3 className="font-semibold text-gray-900">Add Food</h3>
@@ -334,7 +338,7 @@ export function SolidFoodsView() {
           <Card className="text-center py-8">
             <Apple className="w-12 h-12 mx-auto text-gray-300 mb-3" />
             <p className="text-gray-500">No foods recorded yet</p>
-            <p className="text-sm text-gray-400">Tap + to add your first food</p>
+            {can('log') && <p className="text-sm text-gray-400">Tap + to add your first food</p>}
           </Card>
         ) : (
           <div className="space-y-2">
@@ -12,6 +12,7 @@ import { createCompletePlaySession, subscribeToPlaySessions } from '@/lib/firest
 import { useAuth } from '@/features/auth/AuthContext';
 import { useAppStore } from '@/stores/appStore';
 import { toast } from '@/stores/toastStore';
+import { useBabyPermissions } from '@/hooks/useBabyPermissions';
 import { Clock, ChevronDown, ChevronUp } from 'lucide-react';
 
 const playTypeOptions = Object.entries(PLAY_TYPE_CONFIG).map(([value, config]) => ({
@@ -25,6 +26,7 @@ const QUICK_DURATIONS = [5, 10, 15, 20, 30];
 export function PlayTimeView() {
   const { user } = useAuth();
   const { selectedBaby, babies } = useAppStore();
+  const { can } = useBabyPermissions();
 
   const [sessions, setSessions] = useState<PlaySession[]>([]);
   const [playType, setPlayType] = useState<PlayType>('tummy_time');
@@ -139,21 +141,25 @@ export function PlayTimeView() {
 
       <div className="px-4 py-4 space-y-5">
         {/* Play Type Selector */}
-        <div className="flex justify-center">
-          <SegmentedControl
-            options={playTypeOptions}
-            value={playType}
-            onChange={(value) => setPlayType(value as PlayType)}
-          />
-        </div>
+        {can('log') && (
+          <>
+            <div className="flex justify-center">
+              <SegmentedControl
+                options={playTypeOptions}
+                value={playType}
+                onChange={(value) => setPlayType(value as PlayType)}
+              />
+            </div>
 
-        {/* Play Type Label */}
-        <p className="text-center text-sm text-gray-600">
-          {PLAY_TYPE_CONFIG[playType].label}
-        </p>
+            {/* Play Type Label */}
+            <p className="text-center text-sm text-gray-600">
+              {PLAY_TYPE_CONFIG[playType].label}
+            </p>
+          </>
+        )}
 
         {/* Quick Log Card */}
-        {!showManual && (
+        {can('log') && !showManual && (
           <Card>
             <CardHeader
               title="Quick Log"
@@ -218,7 +224,7 @@ export function PlayTimeView() {
         )}
 
         {/* Manual Entry Mode */}
-        {showManual && (
+        {can('log') && showManual && (
           <Card>
             <CardHeader
               title="Log Past Play Time"
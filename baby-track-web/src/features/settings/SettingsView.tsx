@@ -3,11 +3,24 @@ import { Header } from '@/components/layout/Header';
 import { Card, CardHeader } from '@/components/ui/Card';
 import { Input } from '@/components/ui/Input';
 import { Toggle } from '@/components/ui/Toggle';
-import { SegmentedControl } from '@/components/ui/Select';
+import { Select, SegmentedControl } from '@/components/ui/Select';
 import { Button } from '@/components/ui/Button';
+import { UserAvatar } from '@/components/ui/UserAvatar';
 import { useAppStore } from '@/stores/appStore';
-import { updateSettings } from '@/lib/firestore';
-import { VolumeUnit, WeightUnit, LengthUnit, FeedingTypePreference } from '@/types';
+import { updateSettings, updateUserProfile } from '@/lib/firestore';
+import {
+  VolumeUnit,
+  WeightUnit,
+  LengthUnit,
+  FeedingTypePreference,
+  BabyColor,
+  UserRelationship,
+  UpdateUserProfileInput,
+  BABY_COLOR_CONFIG,
+  USER_DISPLAY_NAME_MAX_LENGTH,
+  USER_RELATIONSHIP_CONFIG,
+} from '@/types';
+import { clsx } from 'clsx';
 import { toast } from '@/stores/toastStore';
 import {
   isNotificationSupported,
@@ -17,23 +30,29 @@ import {
 import { User, Moon, Bell, Scale, Baby, Milk, BellOff } from 'lucide-react';
 
 export function SettingsView() {
-  const { settings, setSettings } = useAppStore();
+  const { settings, setSettings, userId, userProfiles, setUserProfiles } = useAppStore();
   const [saving, setSaving] = useState(false);
   const [notificationPermission, setNotificationPermission] = useState(getNotificationPermission());
+  const profile = userId ? userProfiles[userId] : undefined;
 
   // Local state for immediate UI updates
-  const [userName, setUserName] = useState(settings?.userName || '');
-  const [partnerName, setPartnerName] = useState(settings?.partnerName || '');
+  const [displayName, setDisplayName] = useState(profile?.displayName || '');
 
   useEffect(() => {
-    if (settings) {
-      setUserName(settings.userName || '');
-      setPartnerName(settings.partnerName || '');
+    if (profile) {
+      setDisplayName(profile.displayName || '');
     }
-  }, [settings]);
+  }, [profile]);
 
   const handleReminderToggle = async (
-    key: 'feedingReminderEnabled' | 'diaperReminderEnabled' | 'medicineReminderEnabled',
+    key:
+      | 'feedingReminderEnabled'
+      | 'diaperReminderEnabled'
+      | 'sleepReminderEnabled'
+      | 'medicineReminderEnabled'
+      | 'vaccinationReminderEnabled'
+      | 'outputAlertEnabled'
+      | 'dailySummaryEnabled',
     enabled: boolean
   ) => {
     if (enabled && notificationPermission !== 'granted') {
@@ -78,18 +97,37 @@ export function SettingsView() {
     }
   };
 
-  const handleNameBlur = async () => {
-    if (settings && userName !== settings.userName) {
-      await handleSettingChange('userName', userName || null);
+  const handleProfileChange = async (input: UpdateUserProfileInput) => {
+    if (!profile) return;
+
+    // Optimistic update, rolled back on error
+    const previousProfiles = userProfiles;
+    setUserProfiles({ ...userProfiles, [profile.id]: { ...profile, ...input } });
+
+    try {
+      await updateUserProfile(profile.id, input);
+    } catch (error) {
+      console.error('Error updating profile:', error);
+      setUserProfiles(previousProfiles);
+      toast.error('Failed to save profile. Please try again.');
     }
   };
 
-  const handlePartnerNameBlur = async () => {
-    if (settings && partnerName !== settings.partnerName) {
-      await handleSettingChange('partnerName', partnerName || null);
+  const handleNameBlur = async () => {
+    const trimmed = displayName.trim();
+    if (profile && trimmed !== (profile.displayName || '')) {
+      await handleProfileChange({ displayName: trimmed || null });
     }
   };
 
+  const relationshipOptions = [
+    { value: '', label: 'Not set' },
+    ...(Object.keys(USER_RELATIONSHIP_CONFIG) as UserRelationship[]).map((value) => ({
+      value,
+      label: USER_RELATIONSHIP_CONFIG[value].label,
+    })),
+  ];
+
   if (!settings) {
     return (
       <div>
@@ -106,30 +144,63 @@ export function SettingsView() {
       <Header title="Settings" showBabySwitcher={false} />
 
       <div className="px-4 py-4 space-y-4">
-        {/* User Info */}
+        {/* Profile */}
         <Card>
           <CardHeader
-            title="User Info"
-            subtitle="Personalize your experience"
+            title="Your Profile"
+            subtitle="How you appear to everyone you share a baby with"
           />
-          <div className="space-y-3">
-            <Input
-              label="Your Name"
-              placeholder="Enter your name"
-              value={userName}
-              onChange={(e) => setUserName(e.target.value)}
-              onBlur={handleNameBlur}
-              icon={<User className="w-5 h-5" />}
-            />
-            <Input
-              label="Partner's Name"
-              placeholder="Enter partner's name"
-              value={partnerName}
-              onChange={(e) => setPartnerName(e.target.value)}
-              onBlur={handlePartnerNameBlur}
-              icon={<User className="w-5 h-5" />}
-            />
-          </div>
+          {profile ? (
+            <div className="space-y-3">
+              <div className="flex items-center gap-3">
+                <UserAvatar profile={profile} size="lg" />
+                <div className="flex flex-wrap gap-2">
+                  {(Object.keys(BABY_COLOR_CONFIG) as BabyColor[]).map((colorKey) => {
+                    const config = BABY_COLOR_CONFIG[colorKey];
+                    const isSelected = profile.avatarColor === colorKey;
+
+                    return (
+                      <button
+                        key={colorKey}
+                        type="button"
+                        onClick={() => handleProfileChange({ avatarColor: colorKey })}
+                        className={clsx(
+                          'w-8 h-8 rounded-full transition-all duration-200',
+                          isSelected ? 'ring-2 ring-offset-2 scale-110' : 'hover:scale-105'
+                        )}
+                        style={{
+                          backgroundColor: config.hex,
+                          '--tw-ring-color': config.hex,
+                        } as React.CSSProperties}
+                        title={config.label}
+                      />
+                    );
+                  })}
+                </div>
+              </div>
+              <Input
+                label="Your Name"
+                placeholder="Enter your name"
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                onBlur={handleNameBlur}
+                maxLength={USER_DISPLAY_NAME_MAX_LENGTH}
+                icon={<User className="w-5 h-5" />}
+              />
+              <Select
+                label="Relationship to baby"
+                options={relationshipOptions}
+                value={profile.relationship ?? ''}
+                onChange={(value) =>
+                  handleProfileChange({ relationship: (value || null) as UserRelationship | null })
+                }
+              />
+            </div>
+          ) : (
+            <div className="flex items-center justify-center py-4">
+              <div className="w-6 h-6 border-4 border-primary-500/30 border-t-primary-500 rounded-full animate-spin" />
+            </div>
+          )}
         </Card>
 
         {/* Units */}
@@ -311,12 +382,110 @@ export function SettingsView() {
               </div>
             )}
 
+            <Toggle
+              checked={settings.sleepReminderEnabled}
+              onChange={(checked) => handleReminderToggle('sleepReminderEnabled', checked)}
+              label="Sleep Reminders"
+              description="Remind shortly before the predicted nap or bedtime"
+            />
+
             <Toggle
               checked={settings.medicineReminderEnabled}
               onChange={(checked) => handleReminderToggle('medicineReminderEnabled', checked)}
               label="Medicine Reminders"
               description={`Remind ${settings.medicineReminderMinutesBefore} min before medicine is due`}
             />
+
+            <Toggle
+              checked={settings.vaccinationReminderEnabled}
+              onChange={(checked) => handleReminderToggle('vaccinationReminderEnabled', checked)}
+              label="Vaccination Reminders"
+              description={`Remind ${settings.vaccinationReminderDaysBefore} day${settings.vaccinationReminderDaysBefore !== 1 ? 's' : ''} before, on the day, and when overdue`}
+            />
+
+            {settings.vaccinationReminderEnabled && (
+              <div className="ml-4 pl-4 border-l-2 border-gray-200">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Remind ahead (days)
+                </label>
+                <SegmentedControl
+                  options={[
+                    { value: '1', label: '1d' },
+                    { value: '3', label: '3d' },
+                    { value: '7', label: '7d' },
+                  ]}
+                  value={settings.vaccinationReminderDaysBefore.toString()}
+                  onChange={(value) => handleSettingChange('vaccinationReminderDaysBefore', parseInt(value, 10))}
+                />
+              </div>
+            )}
+
+            <Toggle
+              checked={settings.outputAlertEnabled}
+              onChange={(checked) => handleReminderToggle('outputAlertEnabled', checked)}
+              label="Diaper Output Alerts"
+              description="Alert when wet or dirty diapers in the last 24 hours fall short for baby's age"
+            />
+          </div>
+        </Card>
+
+        {/* Daily Summaries */}
+        <Card>
+          <CardHeader
+            title="Daily Summaries"
+            subtitle="A recap of the night and the day"
+          />
+          <div className="space-y-4">
+            <Toggle
+              checked={settings.dailySummaryEnabled}
+              onChange={(checked) => handleReminderToggle('dailySummaryEnabled', checked)}
+              label="Daily Summaries"
+              description="Get a morning and evening recap notification"
+            />
+
+            {settings.dailySummaryEnabled && (
+              <div className="ml-4 pl-4 border-l-2 border-gray-200 space-y-4">
+                <Toggle
+                  checked={settings.morningSummaryEnabled}
+                  onChange={(checked) => handleSettingChange('morningSummaryEnabled', checked)}
+                  label="Morning Summary"
+                  description="Night sleep, night feeds and diapers"
+                />
+
+                {settings.morningSummaryEnabled && (
+                  <SegmentedControl
+                    options={[
+                      { value: '6', label: '6 AM' },
+                      { value: '7', label: '7 AM' },
+                      { value: '8', label: '8 AM' },
+                      { value: '9', label: '9 AM' },
+                    ]}
+                    value={settings.morningSummaryHour.toString()}
+                    onChange={(value) => handleSettingChange('morningSummaryHour', parseInt(value, 10))}
+                  />
+                )}
+
+                <Toggle
+                  checked={settings.eveningSummaryEnabled}
+                  onChange={(checked) => handleSettingChange('eveningSummaryEnabled', checked)}
+                  label="Evening Summary"
+                  description="Today's totals compared with the last 7 days"
+                />
+
+                {settings.eveningSummaryEnabled && (
+                  <SegmentedControl
+                    options={[
+                      { value: '19', label: '7 PM' },
+                      { value: '20', label: '8 PM' },
+                      { value: '21', label: '9 PM' },
+                      { value: '22', label: '10 PM' },
+                    ]}
+                    value={settings.eveningSummaryHour.toString()}
+                    onChange={(value) => handleSettingChange('eveningSummaryHour', parseInt(value, 10))}
+                  />
+                )}
+              </div>
+            )}
           </div>
         </Card>
 
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { render, screen, act } from '@testing-library/react';
+import { render, screen, act, fireEvent } from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
 import { createMockSleepSession, mockBaby, mockSettings, mockUser } from '@/test/mocks';
 import type { SleepSession } from '@/types';
@@ -17,6 +17,8 @@ vi.mock('@/lib/firestore', () => ({
   createSleepSession: vi.fn(),
   endSleepSession: vi.fn(),
   createCompleteSleepSession: vi.fn(),
+  startNightWaking: vi.fn(() => Promise.resolve('waking-1')),
+  updateNightWaking: vi.fn(() => Promise.resolve()),
 }));
 
 vi.mock('@/features/auth/AuthContext', () => ({
@@ -31,6 +33,7 @@ vi.mock('@/stores/appStore', () => ({
   useAppStore: () => ({
     selectedBaby: mockBaby,
     babies: [mockBaby],
+    userId: mockUser.uid,
     settings: mockSettings,
     nightMode: false,
   }),
@@ -38,6 +41,7 @@ vi.mock('@/stores/appStore', () => ({
 
 // Import after mocking
 import { SleepView } from './SleepView';
+import { startNightWaking, updateNightWaking } from '@/lib/firestore';
 
 const renderSleepView = () => {
   return render(
@@ -198,6 +202,56 @@ describe('SleepView', () => {
     });
   });
 
+  describe('night wakings', () => {
+    it('logs a waking with its reason during night sleep', () => {
+      mockSessions = [
+        createMockSleepSession({
+          id: 'night-1',
+          isActive: true,
+          startTime: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+          endTime: null,
+          type: 'night',
+        }),
+      ];
+
+      renderSleepView();
+      fireEvent.click(screen.getByRole('button', { name: 'Feed' }));
+
+      expect(startNightWaking).toHaveBeenCalledWith('night-1', 'feed');
+    });
+
+    it('ends the open waking when baby is back asleep', () => {
+      mockSessions = [
+        createMockSleepSession({
+          id: 'night-1',
+          isActive: true,
+          startTime: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+          endTime: null,
+          type: 'night',
+          wakings: [
+            {
+              id: 'waking-1',
+              startTime: new Date(Date.now() - 10 * 60 * 1000).toISOString(),
+              endTime: null,
+              reason: 'comfort',
+              feedingSessionId: null,
+              bottleSessionId: null,
+              diaperChangeId: null,
+            },
+          ],
+        }),
+      ];
+
+      renderSleepView();
+      fireEvent.click(screen.getByRole('button', { name: /Back to Sleep/ }));
+
+      expect(updateNightWaking).toHaveBeenCalledWith('night-1', 'waking-1', expect.objectContaining({
+        feedingSessionId: null,
+        diaperChangeId: null,
+      }));
+    });
+  });
+
   describe('edge cases', () => {
     it('handles session with future start time', () => {
       // This is a data integrity issue but shouldn't crash the app
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, type ReactNode } from 'react';
 import { format, isToday, parseISO } from 'date-fns';
 import { clsx } from 'clsx';
 import { Header, NoBabiesHeader } from '@/components/layout/Header';
@@ -6,17 +6,40 @@ import { Card, CardHeader } from '@/components/ui/Card';
 import { Timer } from '@/components/ui/Timer';
 import { Button } from '@/components/ui/Button';
 import { Input, Textarea } from '@/components/ui/Input';
-import { SegmentedControl } from '@/components/ui/Select';
+import { Select, SegmentedControl } from '@/components/ui/Select';
 import { BabyMoodSelector, MoodIndicator } from '@/components/ui/MoodSelector';
 import { EditSessionModal } from '@/components/ui/EditSessionModal';
 import { StaleTimerModal, STALE_TIMER_THRESHOLD } from '@/components/ui/StaleTimerModal';
-import { SleepSession, SleepType, BabyMood, SLEEP_TYPE_CONFIG, formatSleepDuration } from '@/types';
-import { createSleepSession, endSleepSession, updateSleepSession, createCompleteSleepSession, subscribeToSleepSessions, deleteSleepSession } from '@/lib/firestore';
+import {
+  SleepSession,
+  SleepType,
+  BabyMood,
+  NightWakingReason,
+  SLEEP_TYPE_CONFIG,
+  NIGHT_WAKING_REASON_CONFIG,
+  formatSleepDuration,
+  formatFeedingSides,
+  formatBottleVolume,
+  calculateSleepDuration,
+  getLongestSleepStretch,
+  getOpenNightWaking,
+} from '@/types';
+import {
+  createSleepSession,
+  endSleepSession,
+  updateSleepSession,
+  createCompleteSleepSession,
+  subscribeToSleepSessions,
+  deleteSleepSession,
+  startNightWaking,
+  updateNightWaking,
+} from '@/lib/firestore';
 import { useAuth } from '@/features/auth/AuthContext';
 import { useAppStore } from '@/stores/appStore';
 import { useHomeStore } from '@/stores/homeStore';
+import { useBabyPermissions } from '@/hooks/useBabyPermissions';
 import { toast } from '@/stores/toastStore';
-import { Moon, Sun, Clock, Bed, Timer as TimerIcon, Edit3, Trash2, ChevronDown, ChevronUp, X } from 'lucide-react';
+import { Moon, Sun, Clock, Bed, Timer as TimerIcon, Edit3, Trash2, ChevronDown, ChevronUp, X, Milk, Leaf, Heart } from 'lucide-react';
 
 type EntryMode = 'timer' | 'manual';
 
@@ -25,12 +48,25 @@ const entryModeOptions = [
   { value: 'manual', label: 'Manual', icon: <Edit3 className="w-4 h-4" /> },
 ];
 
+const wakingReasonIcons: Record<NightWakingReason, ReactNode> = {
+  feed: <Milk className="w-4 h-4" />,
+  diaper: <Leaf className="w-4 h-4" />,
+  comfort: <Heart className="w-4 h-4" />,
+};
+
+// Feeds and diaper changes logged shortly before a waking began can still belong to it
+const WAKING_LINK_LOOKBACK_MS = 15 * 60 * 1000;
+
 
 export function SleepView() {
   const { user } = useAuth();
   const { selectedBaby, babies } = useAppStore();
   const upsertSleepSession = useHomeStore((state) => state.upsertSleepSession);
   const removeSleepSession = useHomeStore((state) => state.removeSleepSession);
+  const feedingSessions = useHomeStore((state) => state.feedingSessions);
+  const bottleSessions = useHomeStore((state) => state.bottleSessions);
+  const diaperChanges = useHomeStore((state) => state.diaperChanges);
+  const { can, canFinish } = useBabyPermissions();
   const [sessions, setSessions] = useState<SleepSession[]>([]);
   const [sleepType, setSleepType] = useState<SleepType>('nap');
   const [isTimerRunning, setIsTimerRunning] = useState(false);
@@ -42,6 +78,11 @@ export function SleepView() {
   const [saving, setSaving] = useState(false);
   const [starting, setStarting] = useState(false);
 
+  // Night waking state
+  const [wakingFeedLink, setWakingFeedLink] = useState(''); // 'feeding:<id>' or 'bottle:<id>'
+  const [wakingDiaperLink, setWakingDiaperLink] = useState('');
+  const [wakingBusy, setWakingBusy] = useState(false);
+
   // Entry mode state
   const [entryMode, setEntryMode] = useState<EntryMode>('timer');
   const [manualDate, setManualDate] = useState(new Date().toISOString().split('T')[0]);
@@ -235,7 +276,7 @@ export function SleepView() {
       return;
     }
 
-    const savedDuration = timerSeconds;
+    const savedDuration = getAsleepSeconds();
     const savedType = sleepType;
 
     setSaving(true);
@@ -279,6 +320,57 @@ export function SleepView() {
     }
   };
 
+  // Seconds asleep for the stopped timer, excluding any wakings
+  const getAsleepSeconds = () => {
+    const activeSession = sessions.find((s) => s.isActive);
+    const startTime = editedStartTime ?? activeSession?.startTime;
+    if (!startTime || !activeSession?.wakings) return timerSeconds;
+    const endTime = new Date(new Date(startTime).getTime() + timerSeconds * 1000).toISOString();
+    return calculateSleepDuration(startTime, endTime, activeSession.wakings);
+  };
+
+  const handleStartWaking = async (reason: NightWakingReason) => {
+    const activeSession = sessions.find((s) => s.isActive);
+    if (!activeSession || wakingBusy) return;
+
+    setWakingBusy(true);
+    try {
+      await startNightWaking(activeSession.id, reason);
+    } catch (error) {
+      console.error('Error logging night waking:', error);
+      toast.error('Failed to log waking. Please try again.');
+    } finally {
+      setWakingBusy(false);
+    }
+  };
+
+  const handleEndWaking = async () => {
+    const activeSession = sessions.find((s) => s.isActive);
+    const openWaking = activeSession ? getOpenNightWaking(activeSession) : null;
+    if (!activeSession || !openWaking || wakingBusy) return;
+
+    const [feedSource, feedId] = wakingFeedLink.split(':');
+    const endTime = new Date();
+    setWakingBusy(true);
+    try {
+      await updateNightWaking(activeSession.id, openWaking.id, {
+        endTime: endTime.toISOString(),
+        feedingSessionId: feedSource === 'feeding' ? feedId : null,
+        bottleSessionId: feedSource === 'bottle' ? feedId : null,
+        diaperChangeId: wakingDiaperLink || null,
+      });
+      setWakingFeedLink('');
+      setWakingDiaperLink('');
+      const awakeSeconds = (endTime.getTime() - new Date(openWaking.startTime).getTime()) / 1000;
+      toast.success(`Back asleep after ${formatSleepDuration(awakeSeconds)} awake`);
+    } catch (error) {
+      console.error('Error ending night waking:', error);
+      toast.error('Failed to save waking. Please try again.');
+    } finally {
+      setWakingBusy(false);
+    }
+  };
+
   const handleManualSave = async () => {
     if (!user || !selectedBaby || !manualDuration) return;
 
@@ -446,13 +538,50 @@ export function SleepView() {
   const todayNapTime = todayNaps.reduce((sum, s) => sum + s.duration, 0);
   const todayNightTime = todayNight.reduce((sum, s) => sum + s.duration, 0);
 
+  // Only someone allowed to finish the running session gets its controls; before it has
+  // synced the timer belongs to the user who just started it
+  const activeSession = sessions.find((s) => s.isActive);
+  const canFinishActive = activeSession ? canFinish(activeSession) : can('log');
+
+  // Wakings during an active night sleep
+  const activeNightSession = sessions.find((s) => s.isActive && s.type === 'night');
+  const activeWakings = activeNightSession?.wakings ?? [];
+  const openWaking = activeNightSession ? getOpenNightWaking(activeNightSession) : null;
+  const wakingLinkSince = openWaking
+    ? new Date(openWaking.startTime).getTime() - WAKING_LINK_LOOKBACK_MS
+    : 0;
+  const feedLinkOptions = [
+    { value: '', label: 'None' },
+    ...feedingSessions
+      .filter((s) => new Date(s.startTime).getTime() >= wakingLinkSince)
+      .map((s) => ({
+        value: `feeding:${s.id}`,
+        label: `Breast (${formatFeedingSides(s)}) at ${format(parseISO(s.startTime), 'h:mm a')}`,
+      })),
+    ...bottleSessions
+      .filter((s) => new Date(s.timestamp).getTime() >= wakingLinkSince)
+      .map((s) => ({
+        value: `bottle:${s.id}`,
+        label: `Bottle ${formatBottleVolume(s)} at ${format(parseISO(s.timestamp), 'h:mm a')}`,
+      })),
+  ];
+  const diaperLinkOptions = [
+    { value: '', label: 'None' },
+    ...diaperChanges
+      .filter((change) => new Date(change.timestamp).getTime() >= wakingLinkSince)
+      .map((change) => ({
+        value: change.id,
+        label: `Diaper at ${format(parseISO(change.timestamp), 'h:mm a')}`,
+      })),
+  ];
+
   return (
     <div>
       <Header title="Sleep" />
 
       <div className="px-4 py-4 space-y-4">
         {/* Entry Mode Toggle */}
-        {!isTimerRunning && !showForm && (
+        {can('log') && !isTimerRunning && !showForm && (
           <div className="flex justify-center">
             <SegmentedControl
               options={entryModeOptions}
@@ -473,7 +602,7 @@ export function SleepView() {
               <button
                 key={type}
                 onClick={() => !isTimerRunning && setSleepType(type)}
-                disabled={isTimerRunning}
+                disabled={isTimerRunning || !can('log')}
                 className={clsx(
                   'relative flex items-center gap-2 px-6 py-3 rounded-xl font-medium transition-all duration-300',
                   isSelected
@@ -494,7 +623,7 @@ export function SleepView() {
         </div>
 
         {/* Timer Mode */}
-        {entryMode === 'timer' && (
+        {entryMode === 'timer' && (can('log') || isTimerRunning || showForm) && (
           <div
             className="relative rounded-3xl overflow-hidden"
             style={{
@@ -559,7 +688,7 @@ export function SleepView() {
                   isRunning={isTimerRunning}
                   onStop={handleStop}
                   onTimeUpdate={setTimerSeconds}
-                  showControls={!showForm}
+                  showControls={!showForm && canFinishActive}
                   color={SLEEP_TYPE_CONFIG[sleepType].color}
                 />
               )}
@@ -567,8 +696,63 @@ export function SleepView() {
           </div>
         )}
 
+        {/* Night Wakings (active night sleep only) */}
+        {entryMode === 'timer' && activeNightSession && isTimerRunning && !showForm && canFinishActive && (
+          <Card>
+            <CardHeader
+              title={openWaking ? 'Awake' : 'Night Wakings'}
+              subtitle={
+                openWaking
+                  ? `Since ${format(parseISO(openWaking.startTime), 'h:mm a')} · ${NIGHT_WAKING_REASON_CONFIG[openWaking.reason].label}`
+                  : activeWakings.length > 0
+                    ? `${activeWakings.length} so far · longest stretch ${formatSleepDuration(getLongestSleepStretch(activeNightSession))}`
+                    : 'Log it if baby wakes up during the night'
+              }
+            />
+
+            {openWaking ? (
+              <div className="space-y-3">
+                {feedLinkOptions.length > 1 && (
+                  <Select
+                    label="Feed while awake"
+                    options={feedLinkOptions}
+                    value={wakingFeedLink}
+                    onChange={setWakingFeedLink}
+                  />
+                )}
+                {diaperLinkOptions.length > 1 && (
+                  <Select
+                    label="Diaper change while awake"
+                    options={diaperLinkOptions}
+                    value={wakingDiaperLink}
+                    onChange={setWakingDiaperLink}
+                  />
+                )}
+                <Button onClick={handleEndWaking} className="w-full" disabled={wakingBusy}>
+                  <Moon className="w-4 h-4 mr-2" />
+                  Back to Sleep
+                </Button>
+              </div>
+            ) : (
+              <div className="grid grid-cols-3 gap-2">
+                {(Object.keys(NIGHT_WAKING_REASON_CONFIG) as NightWakingReason[]).map((reason) => (
+                  <Button
+                    key={reason}
+                    variant="outline"
+                    onClick={() => handleStartWaking(reason)}
+                    disabled={wakingBusy}
+                  >
+                    {wakingReasonIcons[reason]}
+                    <span className="ml-1.5">{NIGHT_WAKING_REASON_CONFIG[reason].label}</span>
+                  </Button>
+                ))}
+              </div>
+            )}
+          </Card>
+        )}
+
         {/* Manual Entry Mode */}
-        {entryMode === 'manual' && (
+        {can('log') && entryMode === 'manual' && (
           <Card>
             <CardHeader
               title="Log Past Sleep"
@@ -641,24 +825,26 @@ export function SleepView() {
         )}
 
         {/* Save Form (Timer mode only) */}
-        {showForm && entryMode === 'timer' && (
+        {showForm && entryMode === 'timer' && canFinishActive && (
           <Card>
             <CardHeader
               title="Sleep Ended"
-              subtitle={`${formatSleepDuration(timerSeconds)} of ${sleepType === 'nap' ? 'napping' : 'night sleep'}`}
+              subtitle={`${formatSleepDuration(getAsleepSeconds())} of ${sleepType === 'nap' ? 'napping' : 'night sleep'}`}
             />
 
             <div className="space-y-4">
               {/* Action buttons at top */}
               <div className="flex gap-2">
-                <Button
-                  variant="outline"
-                  onClick={handleDiscard}
-                  className="px-3"
-                  disabled={saving}
-                >
-                  <Trash2 className="w-4 h-4 text-red-500" />
-                </Button>
+                {can('deleteHistory') && (
+                  <Button
+                    variant="outline"
+                    onClick={handleDiscard}
+                    className="px-3"
+                    disabled={saving}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </Button>
+                )}
                 <Button
                   variant="outline"
                   onClick={handleEditBeforeSave}
@@ -757,6 +943,14 @@ export function SleepView() {
                     <div className="flex items-center gap-2 text-sm text-gray-500">
                       <Clock className="w-3 h-3 flex-shrink-0" />
                       <span className="font-medium">{formatSleepDuration(session.duration)}</span>
+                      {session.wakings && session.wakings.length > 0 && (
+                        <>
+                          <span>•</span>
+                          <span className="whitespace-nowrap">
+                            {session.wakings.length} {session.wakings.length === 1 ? 'waking' : 'wakings'}
+                          </span>
+                        </>
+                      )}
                       <span>•</span>
                       <span className="truncate">{format(parseISO(session.startTime), 'MMM d, h:mm a')}</span>
                     </div>
@@ -780,12 +974,12 @@ export function SleepView() {
 
         {/* Stale Timer Modal */}
         <StaleTimerModal
-          isOpen={showStaleModal}
+          isOpen={showStaleModal && canFinishActive}
           duration={timerSeconds}
           activityName="sleep"
           onContinue={handleStaleTimerContinue}
           onStopAndSave={handleStaleTimerStopAndSave}
-          onDiscard={handleStaleTimerDiscard}
+          onDiscard={can('deleteHistory') ? handleStaleTimerDiscard : undefined}
         />
 
         {/* Pre-save Edit Modal */}
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { BrowserRouter } from 'react-router-dom';
+import { subHours } from 'date-fns';
+import { mockBaby, mockSettings, mockUser } from '@/test/mocks';
+import type { BottleSession, PumpSession } from '@/types';
+import { getLactationWindowStart } from './lactationAnalytics';
+
+const now = new Date();
+
+// A session every four hours: 150 of them, more than a default subscription returns
+const pumpSessions: PumpSession[] = Array.from({ length: 150 }, (_, index) => {
+  const startTime = subHours(now, 1 + index * 4).toISOString();
+  return {
+    id: `pump-${index}`,
+    babyId: mockBaby.id,
+    userId: mockBaby.userId,
+    date: startTime.split('T')[0],
+    duration: 900,
+    startTime,
+    endTime: startTime,
+    isActive: false,
+    isPaused: false,
+    pausedAt: null,
+    totalPausedDuration: 0,
+    side: 'both',
+    volume: 1,
+    volumeUnit: 'oz',
+    notes: null,
+    momMood: null,
+    createdAt: startTime,
+    updatedAt: startTime,
+  };
+});
+
+const mockSubscribeToPumpSessionsSince = vi.fn(
+  (_babyId: string, _since: string, callback: (sessions: PumpSession[]) => void) => {
+    callback(pumpSessions);
+    return vi.fn();
+  }
+);
+
+vi.mock('@/lib/firestore', () => ({
+  subscribeToPumpSessionsSince: (...args: Parameters<typeof mockSubscribeToPumpSessionsSince>) =>
+    mockSubscribeToPumpSessionsSince(...args),
+  subscribeToBottleSessionsSince: vi.fn((_babyId: string, _since: string, callback: (sessions: BottleSession[]) => void) => {
+    callback([]);
+    return vi.fn();
+  }),
+}));
+
+vi.mock('@/features/auth/AuthContext', () => ({
+  useAuth: () => ({
+    user: mockUser,
+  }),
+}));
+
+vi.mock('@/stores/appStore', () => ({
+  useAppStore: () => ({
+    settings: mockSettings,
+    babies: [mockBaby],
+    selectedBaby: mockBaby,
+  }),
+}));
+
+import { LactationAnalyticsView } from './LactationAnalyticsView';
+
+describe('LactationAnalyticsView', () => {
+  it('counts every session in the window, not just the latest hundred', () => {
+    render(
+      <BrowserRouter>
+        <LactationAnalyticsView />
+      </BrowserRouter>
+    );
+
+    expect(mockSubscribeToPumpSessionsSince).toHaveBeenCalledWith(
+      mockBaby.id,
+      getLactationWindowStart().toISOString(),
+      expect.any(Function)
+    );
+    expect(screen.getByText('150 oz')).toBeInTheDocument();
+  });
+});
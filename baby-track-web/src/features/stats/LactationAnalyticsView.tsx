@@ -0,0 +1,190 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Bar,
+  BarChart,
+  ComposedChart,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { AlertTriangle } from 'lucide-react';
+import { Header, NoBabiesHeader } from '@/components/layout/Header';
+import { Card } from '@/components/ui/Card';
+import { useAppStore } from '@/stores/appStore';
+import { subscribeToBottleSessionsSince, subscribeToPumpSessionsSince } from '@/lib/firestore';
+import type { BottleSession, PumpSession } from '@/types';
+import { PUMP_SIDE_CONFIG } from '@/types/enums';
+import {
+  LACTATION_WINDOW_DAYS,
+  PUMP_MOVING_AVERAGE_DAYS,
+  buildLactationAnalytics,
+  getLactationWindowStart,
+} from './lactationAnalytics';
+
+// Pump output over the last month: daily trend, time of day, efficiency, side balance and
+// how it compares with the breast milk going into bottles
+export function LactationAnalyticsView() {
+  const { selectedBaby, babies, settings } = useAppStore();
+  const [pumpSessions, setPumpSessions] = useState<PumpSession[]>([]);
+  const [bottleSessions, setBottleSessions] = useState<BottleSession[]>([]);
+  const volumeUnit = settings?.preferredVolumeUnit || 'oz';
+
+  useEffect(() => {
+    if (!selectedBaby) return;
+
+    // The whole window, not just the latest entries, so busy months aren't cut short
+    const since = getLactationWindowStart().toISOString();
+    const unsubPump = subscribeToPumpSessionsSince(selectedBaby.id, since, setPumpSessions);
+    const unsubBottle = subscribeToBottleSessionsSince(selectedBaby.id, since, setBottleSessions);
+
+    return () => {
+      unsubPump();
+      unsubBottle();
+    };
+  }, [selectedBaby]);
+
+  const analytics = useMemo(
+    () => buildLactationAnalytics(pumpSessions, bottleSessions, volumeUnit),
+    [pumpSessions, bottleSessions, volumeUnit]
+  );
+
+  if (babies.length === 0) {
+    return <NoBabiesHeader />;
+  }
+
+  const latestAverage = analytics.daily[analytics.daily.length - 1]?.movingAverage ?? null;
+  const hasPumpData = analytics.produced > 0;
+  const { leftShare } = analytics.sideBalance;
+
+  return (
+    <div>
+      <Header title="Pumping Insights" />
+
+      <div className="px-4 py-4 space-y-4">
+        {!hasPumpData ? (
+          <Card className="text-center py-8">
+            <p className="text-gray-500">No pumping logged in the last {LACTATION_WINDOW_DAYS} days</p>
+          </Card>
+        ) : (
+          <>
+            {analytics.supplyDrop && (
+              <Card className="border border-amber-200 bg-amber-50">
+                <div className="flex gap-3">
+                  <AlertTriangle className="w-5 h-5 text-amber-600 flex-shrink-0" />
+                  <div>
+                    <p className="font-semibold text-amber-900">Output is down {analytics.supplyDrop.dropPercent}%</p>
+                    <p className="text-sm text-amber-800">
+                      {analytics.supplyDrop.current} {volumeUnit}/day over the last {PUMP_MOVING_AVERAGE_DAYS} days,
+                      {' '}down from {analytics.supplyDrop.previous} {volumeUnit}/day the week before.
+                    </p>
+                  </div>
+                </div>
+              </Card>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <Card className="text-center">
+                <p className="text-2xl font-bold text-primary-600">
+                  {latestAverage !== null ? `${latestAverage} ${volumeUnit}` : '—'}
+                </p>
+                <p className="text-xs text-gray-500">{PUMP_MOVING_AVERAGE_DAYS}-day average per day</p>
+              </Card>
+              <Card className="text-center">
+                <p className="text-2xl font-bold text-primary-600">
+                  {analytics.mlPerMinute !== null ? `${analytics.mlPerMinute} ml` : '—'}
+                </p>
+                <p className="text-xs text-gray-500">per minute pumping</p>
+              </Card>
+            </div>
+
+            <Card>
+              <h3 className="font-semibold text-gray-900">Daily Output</h3>
+              <p className="text-xs text-gray-500 mt-1 mb-4">
+                {volumeUnit} pumped, with the {PUMP_MOVING_AVERAGE_DAYS}-day average and breast milk given in bottles
+              </p>
+              <div className="h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={analytics.daily}>
+                    <XAxis dataKey="name" tick={{ fontSize: 10 }} interval="preserveStartEnd" />
+                    <YAxis tick={{ fontSize: 10 }} />
+                    <Tooltip />
+                    <Bar dataKey="output" fill="#3b82f6" name="Pumped" radius={[2, 2, 0, 0]} />
+                    <Line type="monotone" dataKey="movingAverage" stroke="#1e3a8a" strokeWidth={2} dot={false} name="Average" />
+                    <Line type="monotone" dataKey="consumed" stroke="#a855f7" strokeDasharray="4 4" dot={false} name="Bottles" />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="flex justify-center gap-4 mt-2 text-xs">
+                <span className="flex items-center gap-1">
+                  <div className="w-2 h-2 rounded-full bg-blue-500" />
+                  Pumped
+                </span>
+                <span className="flex items-center gap-1">
+                  <div className="w-2 h-2 rounded-full bg-blue-900" />
+                  Average
+                </span>
+                <span className="flex items-center gap-1">
+                  <div className="w-2 h-2 rounded-full bg-purple-500" />
+                  Bottles
+                </span>
+              </div>
+            </Card>
+
+            <Card>
+              <h3 className="font-semibold text-gray-900">Production vs Bottles</h3>
+              <p className="text-xs text-gray-500 mt-1 mb-3">Last {LACTATION_WINDOW_DAYS} days</p>
+              <div className="grid grid-cols-3 gap-2 text-center">
+                <div>
+                  <p className="text-lg font-bold text-blue-600">{analytics.produced} {volumeUnit}</p>
+                  <p className="text-xs text-gray-500">Pumped</p>
+                </div>
+                <div>
+                  <p className="text-lg font-bold text-purple-600">{analytics.consumed} {volumeUnit}</p>
+                  <p className="text-xs text-gray-500">In bottles</p>
+                </div>
+                <div>
+                  <p className={analytics.balance >= 0 ? 'text-lg font-bold text-green-600' : 'text-lg font-bold text-red-600'}>
+                    {analytics.balance > 0 ? '+' : ''}{analytics.balance} {volumeUnit}
+                  </p>
+                  <p className="text-xs text-gray-500">{analytics.balance >= 0 ? 'To the stash' : 'From the stash'}</p>
+                </div>
+              </div>
+            </Card>
+
+            <Card>
+              <h3 className="font-semibold text-gray-900">Output by Time of Day</h3>
+              <p className="text-xs text-gray-500 mt-1 mb-4">Average {volumeUnit} per session</p>
+              <div className="h-40">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={analytics.timeOfDay}>
+                    <XAxis dataKey="name" tick={{ fontSize: 10 }} />
+                    <YAxis tick={{ fontSize: 10 }} />
+                    <Tooltip />
+                    <Bar dataKey="averageOutput" fill="#3b82f6" name="Per session" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </Card>
+
+            {leftShare !== null && (
+              <Card>
+                <h3 className="font-semibold text-gray-900">Left / Right Balance</h3>
+                <p className="text-xs text-gray-500 mt-1 mb-3">From sessions with a volume per side</p>
+                <div className="flex h-3 rounded-full overflow-hidden">
+                  <div style={{ width: `${leftShare * 100}%`, backgroundColor: PUMP_SIDE_CONFIG.left.color }} />
+                  <div className="flex-1" style={{ backgroundColor: PUMP_SIDE_CONFIG.right.color }} />
+                </div>
+                <div className="flex justify-between mt-2 text-sm">
+                  <span>Left {Math.round(leftShare * 100)}% · {analytics.sideBalance.left} {volumeUnit}</span>
+                  <span>Right {100 - Math.round(leftShare * 100)}% · {analytics.sideBalance.right} {volumeUnit}</span>
+                </div>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
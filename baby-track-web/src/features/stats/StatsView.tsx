@@ -4,9 +4,22 @@ import { clsx } from 'clsx';
 import { Header, NoBabiesHeader } from '@/components/layout/Header';
 import { Card } from '@/components/ui/Card';
 import { SegmentedControl } from '@/components/ui/Select';
+import { UserAvatar } from '@/components/ui/UserAvatar';
 import { useAppStore } from '@/stores/appStore';
 import { useAuth } from '@/features/auth/AuthContext';
-import { formatDuration, formatSleepDuration } from '@/types';
+import { subscribeToDeletedEntries } from '@/lib/firestore';
+import {
+  PUMP_SIDE_CONFIG,
+  STOOL_COLOR_CONFIG,
+  formatCaregiverAttribution,
+  formatDeletionAttribution,
+  formatDuration,
+  formatSleepDuration,
+  getCaregiverName,
+  getStoolColorTrend,
+  isInMeconiumWindow,
+  type DeletedEntry,
+} from '@/types';
 import {
   Baby,
   BarChart3,
@@ -22,11 +35,15 @@ import {
   Moon,
   Sun,
   Info,
+  Trash2,
+  Users,
 } from 'lucide-react';
 import {
   Bar,
   BarChart,
   Cell,
+  Line,
+  LineChart,
   Pie,
   PieChart,
   ResponsiveContainer,
@@ -35,9 +52,12 @@ import {
   YAxis,
 } from 'recharts';
 import {
+  buildCaregiverContributions,
+  buildDeletedHistoryItems,
   buildFeedingChartData,
   buildHistoryItems,
   buildInsights,
+  buildPumpYieldChartData,
   buildStatsSummary,
   formatHoursAsFriendlyDuration,
   getDateRange,
@@ -126,6 +146,8 @@ function renderHistoryIcon(icon: HistoryIcon, color: string) {
       return <Gamepad2 className={iconClass} style={{ color }} />;
     case 'footprints':
       return <Footprints className={iconClass} style={{ color }} />;
+    case 'trash':
+      return <Trash2 className={iconClass} style={{ color }} />;
     default:
       return null;
   }
@@ -503,6 +525,7 @@ function getPatternCardIcon(card: InsightPatternCard) {
   switch (card.id) {
     case 'nap-window':
     case 'wake-window':
+    case 'night-wakings':
       return <Moon className="w-5 h-5 text-indigo-600" />;
     case 'feeding-window':
       return <Baby className="w-5 h-5 text-blue-600" />;
@@ -707,12 +730,13 @@ function ConsistencyRing({ score, label }: { score: number; label: string }) {
 
 export function StatsView() {
   useAuth();
-  const { selectedBaby, babies, settings } = useAppStore();
+  const { selectedBaby, babies, settings, userId, userProfiles } = useAppStore();
   const [, startViewTransition] = useTransition();
   const [viewMode, setViewMode] = useState<ViewMode>('stats');
   const [timeFilter, setTimeFilter] = useState<TimeFilter>('today');
   const [historyFilter, setHistoryFilter] = useState<HistoryFilter>('all');
   const [countdownNowMs, setCountdownNowMs] = useState(() => Date.now());
+  const [deletedEntries, setDeletedEntries] = useState<DeletedEntry[]>([]);
 
   const volumeUnit = settings?.preferredVolumeUnit || 'oz';
   const statsData = useStatsData(selectedBaby?.id ?? null);
@@ -734,6 +758,18 @@ export function StatsView() {
     [filteredStatsData, timeFilter, volumeUnit]
   );
 
+  const pumpYieldChartData = useMemo(
+    () => (filteredStatsData ? buildPumpYieldChartData(filteredStatsData, timeFilter, volumeUnit) : []),
+    [filteredStatsData, timeFilter, volumeUnit]
+  );
+  const hasPumpSideData = pumpYieldChartData.some((point) => point.left > 0 || point.right > 0);
+  const hasUnsplitPumpData = pumpYieldChartData.some((point) => point.unsplit > 0);
+
+  const caregiverContributions = useMemo(
+    () => (filteredStatsData ? buildCaregiverContributions(filteredStatsData) : []),
+    [filteredStatsData]
+  );
+
   const diaperPieData = useMemo(() => {
     if (!stats) {
       return [];
@@ -745,13 +781,28 @@ export function StatsView() {
     ].filter((entry) => entry.value > 0);
   }, [stats]);
 
+  const stoolColorTrend = useMemo(
+    () => (filteredStatsData ? getStoolColorTrend(filteredStatsData.diaperChanges) : []),
+    [filteredStatsData]
+  );
+
   const groupedHistory = useMemo(() => {
     if (viewMode !== 'history') {
       return [];
     }
 
-    return groupHistoryItems(buildHistoryItems(statsData, historyFilter));
-  }, [historyFilter, statsData, viewMode]);
+    const items = [
+      ...buildHistoryItems(statsData, historyFilter, (entry) => formatCaregiverAttribution(entry, userId, userProfiles)),
+      ...buildDeletedHistoryItems(
+        deletedEntries.filter((record) => record.babyId === selectedBaby?.id),
+        historyFilter,
+        (record) => formatDeletionAttribution(record, userId, userProfiles)
+      ),
+    ];
+    items.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+    return groupHistoryItems(items);
+  }, [deletedEntries, historyFilter, selectedBaby?.id, statsData, userId, userProfiles, viewMode]);
 
   const insights = useMemo(
     () => (viewMode === 'insights' ? buildInsights(statsData) : null),
@@ -828,6 +879,14 @@ export function StatsView() {
     return () => window.clearInterval(interval);
   }, [viewMode]);
 
+  useEffect(() => {
+    if (viewMode !== 'history' || !selectedBaby) {
+      return;
+    }
+
+    return subscribeToDeletedEntries(selectedBaby.id, setDeletedEntries);
+  }, [selectedBaby, viewMode]);
+
   if (babies.length === 0) {
     return <NoBabiesHeader />;
   }
@@ -863,6 +922,11 @@ export function StatsView() {
                 </div>
                 <p className="text-2xl font-bold text-gray-900">{stats.nursingCount}</p>
                 <p className="text-xs text-gray-500">{formatDuration(stats.feedingTime)} total</p>
+                {stats.feedingTime > 0 && (
+                  <p className="text-xs text-gray-400">
+                    L {formatDuration(stats.leftNursingTime)} · R {formatDuration(stats.rightNursingTime)}
+                  </p>
+                )}
               </Card>
 
               <Card className="border-l-4 border-l-blue-500">
@@ -872,6 +936,11 @@ export function StatsView() {
                 </div>
                 <p className="text-2xl font-bold text-gray-900">{stats.pumpVolume.toFixed(1)} {volumeUnit}</p>
                 <p className="text-xs text-gray-500">{stats.pumpCount} sessions</p>
+                {stats.leftPumpVolume + stats.rightPumpVolume > 0 && (
+                  <p className="text-xs text-gray-400">
+                    L {stats.leftPumpVolume.toFixed(1)} · R {stats.rightPumpVolume.toFixed(1)}
+                  </p>
+                )}
               </Card>
 
               <Card className="border-l-4 border-l-purple-500">
@@ -881,6 +950,9 @@ export function StatsView() {
                 </div>
                 <p className="text-2xl font-bold text-gray-900">{stats.bottleVolume.toFixed(1)} {volumeUnit}</p>
                 <p className="text-xs text-gray-500">{stats.bottleCount} feedings</p>
+                {stats.bottleLeftoverVolume > 0 && (
+                  <p className="text-xs text-gray-400">{stats.bottleLeftoverVolume.toFixed(1)} {volumeUnit} left over</p>
+                )}
               </Card>
 
               <Card className="border-l-4 border-l-indigo-500">
@@ -951,8 +1023,79 @@ export function StatsView() {
               ) : (
                 <p className="text-sm text-gray-500 text-center py-4">No diaper changes recorded</p>
               )}
+
+              {stoolColorTrend.length > 0 && (
+                <div className="mt-4 pt-4 border-t border-gray-100">
+                  <p className="text-sm font-medium text-gray-600 mb-2">Stool color by day</p>
+                  <div className="flex gap-1.5 overflow-x-auto pb-1">
+                    {stoolColorTrend.map((day) => (
+                      <div key={day.date} className="flex flex-col items-center gap-1 flex-shrink-0">
+                        <div className="w-6 h-12 rounded-md overflow-hidden flex flex-col border border-gray-200">
+                          {day.colors.map((color, index) => (
+                            <div
+                              key={index}
+                              className="flex-1"
+                              style={{ backgroundColor: STOOL_COLOR_CONFIG[color].color }}
+                              title={STOOL_COLOR_CONFIG[color].label}
+                            />
+                          ))}
+                        </div>
+                        <span
+                          className={clsx(
+                            'text-[10px]',
+                            isInMeconiumWindow(`${day.date}T12:00:00`, selectedBaby?.birthDate ?? null)
+                              ? 'text-gray-900 font-medium'
+                              : 'text-gray-500'
+                          )}
+                        >
+                          {format(parseISO(day.date), 'M/d')}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  {stoolColorTrend.some((day) => isInMeconiumWindow(`${day.date}T12:00:00`, selectedBaby?.birthDate ?? null)) && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Bold dates are the first days after birth, when dark meconium turns green and then yellow.
+                    </p>
+                  )}
+                </div>
+              )}
             </Card>
 
+            {caregiverContributions.length > 0 && (
+              <Card>
+                <div className="flex items-center gap-2 mb-4">
+                  <Users className="w-5 h-5 text-primary-500" />
+                  <h3 className="font-semibold text-gray-900">Who Logged</h3>
+                </div>
+                <div className="space-y-3">
+                  {caregiverContributions.map((contribution) => {
+                    const total = caregiverContributions.reduce((sum, c) => sum + c.total, 0);
+                    return (
+                      <div key={contribution.caregiverId}>
+                        <div className="flex items-center justify-between text-sm mb-1">
+                          <span className="flex items-center gap-2 font-medium text-gray-900">
+                            <UserAvatar profile={userProfiles[contribution.caregiverId]} size="sm" />
+                            {getCaregiverName(contribution.caregiverId, userId, userProfiles)}
+                          </span>
+                          <span className="text-gray-500">{contribution.total} entries</span>
+                        </div>
+                        <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                          <div
+                            className="h-full bg-primary-500 rounded-full"
+                            style={{ width: `${(contribution.total / total) * 100}%` }}
+                          />
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {contribution.feedings} feeds · {contribution.sleeps} sleeps · {contribution.diapers} diapers · {contribution.activities} play &amp; walks
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+              </Card>
+            )}
+
             {feedingChartData.length > 0 && (
               <Card>
                 <h3 className="font-semibold text-gray-900 mb-4">Feeding Activity</h3>
@@ -984,6 +1127,49 @@ export function StatsView() {
                 </div>
               </Card>
             )}
+
+            {hasPumpSideData && (
+              <Card>
+                <h3 className="font-semibold text-gray-900">Pump Yield by Side</h3>
+                <p className="text-xs text-gray-500 mt-1 mb-4">{volumeUnit} from each side</p>
+                <div className="h-48">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={pumpYieldChartData}>
+                      <XAxis dataKey="name" tick={{ fontSize: 10 }} />
+                      <YAxis tick={{ fontSize: 10 }} />
+                      <Tooltip />
+                      <Line type="monotone" dataKey="left" stroke={PUMP_SIDE_CONFIG.left.color} strokeWidth={2} name="Left" />
+                      <Line type="monotone" dataKey="right" stroke={PUMP_SIDE_CONFIG.right.color} strokeWidth={2} name="Right" />
+                      {hasUnsplitPumpData && (
+                        <Line
+                          type="monotone"
+                          dataKey="unsplit"
+                          stroke="#9ca3af"
+                          strokeDasharray="4 4"
+                          name="Both (no split)"
+                        />
+                      )}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="flex justify-center gap-4 mt-2 text-xs">
+                  <span className="flex items-center gap-1">
+                    <div className="w-2 h-2 rounded-full" style={{ backgroundColor: PUMP_SIDE_CONFIG.left.color }} />
+                    Left
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <div className="w-2 h-2 rounded-full" style={{ backgroundColor: PUMP_SIDE_CONFIG.right.color }} />
+                    Right
+                  </span>
+                  {hasUnsplitPumpData && (
+                    <span className="flex items-center gap-1">
+                      <div className="w-2 h-2 rounded-full bg-gray-400" />
+                      Both (no split)
+                    </span>
+                  )}
+                </div>
+              </Card>
+            )}
           </>
         )}
 
@@ -1026,6 +1212,9 @@ export function StatsView() {
                                   </>
                                 )}
                               </div>
+                              {item.attribution && (
+                                <p className="text-xs text-gray-400 truncate">{item.attribution}</p>
+                              )}
                             </div>
                           </div>
                         ))}
@@ -1236,6 +1425,40 @@ export function StatsView() {
                   </Card>
                 )}
 
+                {insights.nightWakings.weeks.some((week) => week.averageWakings > 0) && (
+                  <Card>
+                    <div className="mb-4">
+                      <h3 className="font-semibold text-gray-900">Night Wakings by Week</h3>
+                      <p className="text-xs text-gray-500 mt-1">Average wakings and longest stretch per night</p>
+                    </div>
+                    <div className="space-y-2">
+                      {insights.nightWakings.weeks.map((week) => (
+                        <div
+                          key={week.weekStart}
+                          className="flex items-center justify-between gap-3 p-3 rounded-2xl bg-indigo-50/60 border border-indigo-100"
+                        >
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium text-gray-900">
+                              Week of {format(parseISO(week.weekStart), 'MMM d')}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              {week.nights} {week.nights === 1 ? 'night' : 'nights'}
+                            </p>
+                          </div>
+                          <div className="text-right">
+                            <p className="text-sm font-bold text-indigo-700">
+                              {Math.round(week.averageWakings * 10) / 10} wakings
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              Longest {formatSleepDuration(week.averageLongestStretchSeconds)}
+                            </p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </Card>
+                )}
+
                 {insights.patternCards.length > 0 && (
                   <div>
                     <div className="flex items-center gap-2 mb-3 px-1">
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import type { BottleSession, PumpSession } from '@/types';
+import { buildLactationAnalytics } from './lactationAnalytics';
+
+function createPumpSession(overrides: Partial<PumpSession> = {}): PumpSession {
+  return {
+    id: crypto.randomUUID(),
+    babyId: 'baby-1',
+    userId: 'user-1',
+    date: '2026-03-24',
+    duration: 1200,
+    startTime: '2026-03-24T08:00:00.000Z',
+    endTime: '2026-03-24T08:20:00.000Z',
+    isActive: false,
+    isPaused: false,
+    pausedAt: null,
+    totalPausedDuration: 0,
+    side: 'both',
+    volume: 4,
+    volumeUnit: 'oz',
+    notes: null,
+    momMood: null,
+    createdAt: '2026-03-24T08:20:00.000Z',
+    updatedAt: '2026-03-24T08:20:00.000Z',
+    ...overrides,
+  };
+}
+
+function createBottleSession(overrides: Partial<BottleSession> = {}): BottleSession {
+  return {
+    id: crypto.randomUUID(),
+    babyId: 'baby-1',
+    userId: 'user-1',
+    date: '2026-03-30',
+    timestamp: '2026-03-30T10:00:00.000Z',
+    volume: 4,
+    volumeUnit: 'oz',
+    contentType: 'breastMilk',
+    notes: null,
+    babyMood: null,
+    createdAt: '2026-03-30T10:00:00.000Z',
+    updatedAt: '2026-03-30T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const now = new Date('2026-03-30T20:00:00.000Z');
+
+// One morning session a day: a week at 20 oz a day, then 15 oz a day through today
+const pumpSessions = Array.from({ length: 15 }, (_, index) => {
+  const day = String(16 + index).padStart(2, '0');
+  const firstWeek = index < 7;
+  return createPumpSession({
+    startTime: `2026-03-${day}T08:00:00.000Z`,
+    volume: firstWeek ? 20 : 15,
+    leftVolume: firstWeek ? 12 : 9,
+    rightVolume: firstWeek ? 8 : 6,
+  });
+});
+
+describe('buildLactationAnalytics', () => {
+  it('builds daily output with a 7-day moving average and warns about a supply drop', () => {
+    const analytics = buildLactationAnalytics(pumpSessions, [], 'oz', now, 15);
+
+    expect(analytics.daily).toHaveLength(15);
+    expect(analytics.daily[0]).toMatchObject({ date: '2026-03-16', output: 20, movingAverage: null });
+    expect(analytics.daily[6].movingAverage).toBe(20);
+    expect(analytics.daily[14]).toMatchObject({ date: '2026-03-30', output: 15, movingAverage: 15 });
+    expect(analytics.supplyDrop).toEqual({ current: 15, previous: 20, dropPercent: 25 });
+  });
+
+  it('leaves out today, which is only partly logged, when looking for a supply drop', () => {
+    // 20 oz a day, then a slightly lower but normal 18 oz a day, and one small session so far today
+    const sessions = Array.from({ length: 14 }, (_, index) => createPumpSession({
+      startTime: `2026-03-${String(16 + index).padStart(2, '0')}T08:00:00.000Z`,
+      volume: index < 7 ? 20 : 18,
+    }));
+    const today = createPumpSession({ startTime: '2026-03-30T08:00:00.000Z', volume: 5 });
+    const analytics = buildLactationAnalytics([...sessions, today], [], 'oz', now, 15);
+
+    expect(analytics.daily[14].movingAverage).toBeLessThan(20 * (1 - 0.15));
+    expect(analytics.supplyDrop).toBeNull();
+  });
+
+  it('breaks output down by time of day, efficiency and side', () => {
+    const evening = createPumpSession({ startTime: '2026-03-30T19:00:00.000Z', side: 'left', volume: 2, duration: 600 });
+    const running = createPumpSession({ startTime: '2026-03-30T19:30:00.000Z', isActive: true, volume: 50 });
+    const analytics = buildLactationAnalytics([...pumpSessions, evening, running], [], 'oz', now, 15);
+
+    expect(analytics.timeOfDay).toEqual([
+      { name: 'Night', sessions: 0, averageOutput: 0 },
+      { name: 'Morning', sessions: 15, averageOutput: 17.3 },
+      { name: 'Afternoon', sessions: 0, averageOutput: 0 },
+      { name: 'Evening', sessions: 1, averageOutput: 2 },
+    ]);
+    // 262 oz over 310 minutes
+    expect(analytics.mlPerMinute).toBe(25);
+    expect(analytics.sideBalance).toEqual({ left: 158, right: 104, leftShare: 158 / 262 });
+  });
+
+  it('normalizes units and balances production against breast milk bottles', () => {
+    const bottles = [
+      createBottleSession({ volume: 100, offeredVolume: 120, volumeUnit: 'ml' }),
+      createBottleSession({ contentType: 'formula', volume: 6 }),
+    ];
+    const analytics = buildLactationAnalytics(
+      [createPumpSession({ startTime: '2026-03-30T08:00:00.000Z', volume: 150, volumeUnit: 'ml', side: 'left' })],
+      bottles,
+      'ml',
+      now,
+      14
+    );
+
+    expect(analytics.produced).toBe(150);
+    expect(analytics.consumed).toBe(120);
+    expect(analytics.balance).toBe(30);
+    expect(analytics.daily[13].consumed).toBe(120);
+    expect(analytics.supplyDrop).toBeNull();
+  });
+});
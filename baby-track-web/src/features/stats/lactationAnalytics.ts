@@ -0,0 +1,164 @@
+import { format, parseISO, startOfDay, subDays } from 'date-fns';
+import type { BottleSession, PumpSession, VolumeUnit } from '@/types';
+import { convertVolume, getBottleOfferedVolume, getPumpSideVolumes } from '@/types';
+
+export const LACTATION_WINDOW_DAYS = 30;
+export const PUMP_MOVING_AVERAGE_DAYS = 7;
+// A 7-day average this far below the week before counts as a supply drop
+export const PUMP_SUPPLY_DROP_THRESHOLD = 0.15;
+
+export interface PumpDailyPoint {
+  date: string; // yyyy-MM-dd
+  name: string; // Axis label, e.g. "Mar 4"
+  output: number;
+  movingAverage: number | null; // Null until pumping has been logged for a full window
+  consumed: number; // Breast milk offered in bottles that day
+}
+
+export interface PumpTimeOfDayPoint {
+  name: string;
+  sessions: number;
+  averageOutput: number; // Per session
+}
+
+export interface PumpSideBalance {
+  left: number;
+  right: number;
+  leftShare: number | null; // 0-1, null without any per-side volume
+}
+
+export interface SupplyDropWarning {
+  current: number; // 7-day average per day through yesterday
+  previous: number; // The 7-day average a week earlier
+  dropPercent: number;
+}
+
+export interface LactationAnalytics {
+  daily: PumpDailyPoint[];
+  timeOfDay: PumpTimeOfDayPoint[];
+  mlPerMinute: number | null;
+  sideBalance: PumpSideBalance;
+  supplyDrop: SupplyDropWarning | null;
+  produced: number;
+  consumed: number;
+  balance: number; // Produced minus consumed; negative means the stash is being drawn down
+}
+
+const TIME_OF_DAY_BUCKETS = [
+  { name: 'Night', startHour: 0 },
+  { name: 'Morning', startHour: 6 },
+  { name: 'Afternoon', startHour: 12 },
+  { name: 'Evening', startHour: 18 },
+];
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Start of the first day in the analytics window, which runs through today
+export function getLactationWindowStart(now: Date = new Date(), days: number = LACTATION_WINDOW_DAYS): Date {
+  return startOfDay(subDays(now, days - 1));
+}
+
+// Pump output over the last LACTATION_WINDOW_DAYS days, in the given unit, along with
+// breast milk bottle use over the same days. Sessions still running are left out.
+export function buildLactationAnalytics(
+  pumpSessions: PumpSession[],
+  bottleSessions: BottleSession[],
+  volumeUnit: VolumeUnit,
+  now: Date = new Date(),
+  days: number = LACTATION_WINDOW_DAYS
+): LactationAnalytics {
+  const firstDay = getLactationWindowStart(now, days);
+  const inWindow = (timestamp: string) => {
+    const time = parseISO(timestamp).getTime();
+    return time >= firstDay.getTime() && time <= now.getTime();
+  };
+
+  const pumps = pumpSessions.filter((session) => !session.isActive && inWindow(session.startTime));
+  const bottles = bottleSessions.filter((session) => session.contentType === 'breastMilk' && inWindow(session.timestamp));
+
+  // Daily output and bottle use
+  const daily: PumpDailyPoint[] = Array.from({ length: days }, (_, index) => {
+    const day = subDays(startOfDay(now), days - 1 - index);
+    return { date: format(day, 'yyyy-MM-dd'), name: format(day, 'MMM d'), output: 0, movingAverage: null, consumed: 0 };
+  });
+  const byDate = new Map(daily.map((point) => [point.date, point]));
+
+  pumps.forEach((session) => {
+    const point = byDate.get(format(parseISO(session.startTime), 'yyyy-MM-dd'));
+    if (point) point.output += convertVolume(session.volume, session.volumeUnit, volumeUnit);
+  });
+  bottles.forEach((session) => {
+    const point = byDate.get(format(parseISO(session.timestamp), 'yyyy-MM-dd'));
+    if (point) point.consumed += convertVolume(getBottleOfferedVolume(session), session.volumeUnit, volumeUnit);
+  });
+
+  // Trailing average, starting once a full window has passed since the first pump day
+  const firstPumpIndex = daily.findIndex((point) => point.output > 0);
+  daily.forEach((point, index) => {
+    if (firstPumpIndex < 0 || index < firstPumpIndex + PUMP_MOVING_AVERAGE_DAYS - 1) return;
+    const windowPoints = daily.slice(index - PUMP_MOVING_AVERAGE_DAYS + 1, index + 1);
+    point.movingAverage = round(windowPoints.reduce((sum, p) => sum + p.output, 0) / PUMP_MOVING_AVERAGE_DAYS);
+  });
+
+  // Today is only partly logged, so compare the week through yesterday with the week before
+  const lastAverage = daily[daily.length - 2]?.movingAverage ?? null;
+  const previousAverage = daily[daily.length - 2 - PUMP_MOVING_AVERAGE_DAYS]?.movingAverage ?? null;
+  const supplyDrop = lastAverage !== null && previousAverage !== null && previousAverage > 0
+    && (previousAverage - lastAverage) / previousAverage >= PUMP_SUPPLY_DROP_THRESHOLD
+    ? {
+      current: lastAverage,
+      previous: previousAverage,
+      dropPercent: Math.round(((previousAverage - lastAverage) / previousAverage) * 100),
+    }
+    : null;
+
+  // Output by time of day
+  const timeOfDay = TIME_OF_DAY_BUCKETS.map((bucket, index) => {
+    const endHour = TIME_OF_DAY_BUCKETS[index + 1]?.startHour ?? 24;
+    const sessions = pumps.filter((session) => {
+      const hour = parseISO(session.startTime).getHours();
+      return hour >= bucket.startHour && hour < endHour;
+    });
+    const total = sessions.reduce((sum, session) => sum + convertVolume(session.volume, session.volumeUnit, volumeUnit), 0);
+    return {
+      name: bucket.name,
+      sessions: sessions.length,
+      averageOutput: sessions.length > 0 ? round(total / sessions.length) : 0,
+    };
+  });
+
+  // Efficiency is always ml per minute of pumping
+  const timedPumps = pumps.filter((session) => session.duration > 0);
+  const timedMinutes = timedPumps.reduce((sum, session) => sum + session.duration / 60, 0);
+  const timedMl = timedPumps.reduce((sum, session) => sum + convertVolume(session.volume, session.volumeUnit, 'ml'), 0);
+  const mlPerMinute = timedMinutes > 0 ? round(timedMl / timedMinutes) : null;
+
+  // Left/right balance from sessions with a known split
+  const sideTotals = pumps.reduce((totals, session) => {
+    const sides = getPumpSideVolumes(session);
+    if (!sides) return totals;
+    return {
+      left: totals.left + convertVolume(sides.left, session.volumeUnit, volumeUnit),
+      right: totals.right + convertVolume(sides.right, session.volumeUnit, volumeUnit),
+    };
+  }, { left: 0, right: 0 });
+  const sideTotal = sideTotals.left + sideTotals.right;
+
+  const produced = daily.reduce((sum, point) => sum + point.output, 0);
+  const consumed = daily.reduce((sum, point) => sum + point.consumed, 0);
+
+  return {
+    daily: daily.map((point) => ({ ...point, output: round(point.output), consumed: round(point.consumed) })),
+    timeOfDay,
+    mlPerMinute,
+    sideBalance: {
+      left: round(sideTotals.left),
+      right: round(sideTotals.right),
+      leftShare: sideTotal > 0 ? sideTotals.left / sideTotal : null,
+    },
+    supplyDrop,
+    produced: round(produced),
+    consumed: round(consumed),
+    balance: round(produced - consumed),
+  };
+}
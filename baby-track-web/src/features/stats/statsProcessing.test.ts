@@ -2,6 +2,7 @@ import { describe, expect, it } from 'vitest';
 import { parseISO } from 'date-fns';
 import type {
   BottleSession,
+  DeletedEntry,
   DiaperChange,
   FeedingSession,
   PlaySession,
@@ -10,9 +11,17 @@ import type {
   WalkSession,
 } from '@/types';
 import {
+  buildCaregiverContributions,
+  buildDeletedHistoryItems,
+  buildEveningSummary,
+  buildHistoryItems,
   buildInsights,
+  buildMorningSummary,
+  buildOutputAdequacy,
+  buildPumpYieldChartData,
   buildStatsSummary,
   formatHoursAsFriendlyDuration,
+  formatOutputShortfall,
   getDateRange,
   getFilteredStatsData,
   type StatsDataSnapshot,
@@ -79,6 +88,22 @@ function createSleepSession(overrides: Partial<SleepSession> = {}): SleepSession
   };
 }
 
+function createDiaperChange(overrides: Partial<DiaperChange> = {}): DiaperChange {
+  return {
+    id: crypto.randomUUID(),
+    babyId: 'baby-1',
+    userId: 'user-1',
+    date: '2026-03-24',
+    type: 'wet',
+    timestamp: '2026-03-24T09:00:00.000Z',
+    notes: null,
+    babyMood: null,
+    createdAt: '2026-03-24T09:00:00.000Z',
+    updatedAt: '2026-03-24T09:00:00.000Z',
+    ...overrides,
+  };
+}
+
 function createSnapshot(overrides: Partial<StatsDataSnapshot> = {}): StatsDataSnapshot {
   return {
     feedingSessions: [],
@@ -569,6 +594,94 @@ describe('statsProcessing', () => {
     expect(insights.routineSummary.some((item) => item.includes('early feed around'))).toBe(true);
   });
 
+  it('reports night wakings, the longest stretch and the weekly trend', () => {
+    const waking = (startTime: string, endTime: string) => ({
+      id: startTime,
+      startTime,
+      endTime,
+      reason: 'feed' as const,
+      feedingSessionId: null,
+      bottleSessionId: null,
+      diaperChangeId: null,
+    });
+    const snapshot = createSnapshot({
+      sleepSessions: [
+        createSleepSession({
+          type: 'night',
+          startTime: '2026-03-16T20:00:00.000Z',
+          endTime: '2026-03-17T06:00:00.000Z',
+          duration: 34200,
+          wakings: [
+            waking('2026-03-16T23:00:00.000Z', '2026-03-16T23:10:00.000Z'),
+            waking('2026-03-17T01:00:00.000Z', '2026-03-17T01:10:00.000Z'),
+            waking('2026-03-17T04:00:00.000Z', '2026-03-17T04:10:00.000Z'),
+          ],
+        }),
+        createSleepSession({
+          type: 'night',
+          startTime: '2026-03-22T20:00:00.000Z',
+          endTime: '2026-03-23T06:00:00.000Z',
+          duration: 34200,
+          wakings: [waking('2026-03-23T02:00:00.000Z', '2026-03-23T02:30:00.000Z')],
+        }),
+        createSleepSession({
+          type: 'night',
+          startTime: '2026-03-23T20:00:00.000Z',
+          endTime: '2026-03-24T06:00:00.000Z',
+          duration: 34200,
+          wakings: [waking('2026-03-24T01:00:00.000Z', '2026-03-24T01:30:00.000Z')],
+        }),
+      ],
+    });
+
+    const insights = buildInsights(snapshot, new Date('2026-03-24T12:00:00.000Z'));
+
+    expect(insights.nightWakings.averageWakingsPerNight).toBeCloseTo(5 / 3);
+    expect(insights.nightWakings.longestStretchSeconds).toBe(6 * 3600);
+    expect(insights.nightWakings.weeks).toEqual([
+      {
+        weekStart: '2026-03-15T00:00:00.000Z',
+        nights: 1,
+        averageWakings: 3,
+        averageLongestStretchSeconds: 3 * 3600,
+      },
+      {
+        weekStart: '2026-03-22T00:00:00.000Z',
+        nights: 2,
+        averageWakings: 1,
+        averageLongestStretchSeconds: 5.5 * 3600,
+      },
+    ]);
+    expect(insights.patternCards.find((card) => card.id === 'night-wakings')?.value).toBe('1.7 a night');
+  });
+
+  it('counts the gap between two logged halves of a night as a waking', () => {
+    const snapshot = createSnapshot({
+      sleepSessions: [
+        createSleepSession({
+          type: 'night',
+          startTime: '2026-03-23T20:00:00.000Z',
+          endTime: '2026-03-24T01:00:00.000Z',
+          duration: 18000,
+        }),
+        createSleepSession({
+          type: 'night',
+          startTime: '2026-03-24T01:30:00.000Z',
+          endTime: '2026-03-24T06:00:00.000Z',
+          duration: 16200,
+        }),
+      ],
+      feedingSessions: [
+        createFeedingSession({ startTime: '2026-03-24T01:05:00.000Z', endTime: '2026-03-24T01:25:00.000Z' }),
+      ],
+    });
+
+    const insights = buildInsights(snapshot, new Date('2026-03-24T12:00:00.000Z'));
+
+    expect(insights.nightWakings.averageWakingsPerNight).toBe(1);
+    expect(insights.nightWakings.longestStretchSeconds).toBe(5 * 3600);
+  });
+
   it('predicts nap wake-up time from previous naps in the same part of the day', () => {
     const snapshot = createSnapshot({
       sleepSessions: [
@@ -781,4 +894,300 @@ describe('statsProcessing', () => {
     expect(summary.napCount).toBe(1);
     expect(snapshot.feedingSessions).toHaveLength(1);
   });
+
+  it('counts a feed that switched sides once and splits its time by side', () => {
+    const snapshot = createSnapshot({
+      feedingSessions: [
+        createFeedingSession({
+          breastSide: 'right',
+          segments: [
+            { side: 'left', startTime: '2026-03-24T08:00:00.000Z', endTime: '2026-03-24T08:12:00.000Z', duration: 720, pausedDuration: 0 },
+            { side: 'right', startTime: '2026-03-24T08:12:00.000Z', endTime: '2026-03-24T08:20:00.000Z', duration: 480, pausedDuration: 0 },
+          ],
+        }),
+        createFeedingSession({ startTime: '2026-03-24T11:00:00.000Z', endTime: '2026-03-24T11:10:00.000Z', duration: 600 }),
+      ],
+    });
+
+    const filtered = getFilteredStatsData(snapshot, getDateRange('week', new Date('2026-03-24T12:00:00.000Z')));
+    const summary = buildStatsSummary(filtered, 'oz');
+
+    expect(summary.nursingCount).toBe(2);
+    expect(summary.leftNursingTime).toBe(1320);
+    expect(summary.rightNursingTime).toBe(480);
+  });
+
+  it('tracks pump yield by side, keeping totals-only sessions apart', () => {
+    const pump = (overrides: Partial<PumpSession>): PumpSession => ({
+      id: crypto.randomUUID(),
+      babyId: 'baby-1',
+      userId: 'user-1',
+      date: '2026-03-23',
+      duration: 900,
+      startTime: '2026-03-23T08:00:00.000Z',
+      endTime: '2026-03-23T08:15:00.000Z',
+      isActive: false,
+      isPaused: false,
+      pausedAt: null,
+      totalPausedDuration: 0,
+      side: 'both',
+      volume: 4,
+      volumeUnit: 'oz',
+      notes: null,
+      momMood: null,
+      loggedBy: null,
+      createdAt: '2026-03-23T08:00:00.000Z',
+      updatedAt: '2026-03-23T08:15:00.000Z',
+      ...overrides,
+    });
+    const snapshot = createSnapshot({
+      pumpSessions: [
+        pump({ leftVolume: 2.5, rightVolume: 1.5 }),
+        pump({ startTime: '2026-03-23T14:00:00.000Z', side: 'left', volume: 2 }),
+        pump({ startTime: '2026-03-24T08:00:00.000Z', volume: 3 }),
+      ],
+    });
+
+    const filtered = getFilteredStatsData(snapshot, getDateRange('week', new Date('2026-03-24T12:00:00.000Z')));
+    const summary = buildStatsSummary(filtered, 'oz');
+
+    expect(summary.pumpVolume).toBe(9);
+    expect(summary.leftPumpVolume).toBe(4.5);
+    expect(summary.rightPumpVolume).toBe(1.5);
+    expect(buildPumpYieldChartData(filtered, 'week', 'oz')).toEqual([
+      { name: 'Mar 23', left: 4.5, right: 1.5, unsplit: 0 },
+      { name: 'Mar 24', left: 0, right: 0, unsplit: 3 },
+    ]);
+  });
+});
+
+describe('daily summaries', () => {
+  it('recaps the night in the morning summary', () => {
+    const snapshot = createSnapshot({
+      sleepSessions: [
+        createSleepSession({
+          type: 'night',
+          startTime: '2026-03-23T19:30:00.000Z',
+          endTime: '2026-03-24T01:00:00.000Z',
+          duration: 5.5 * 3600,
+        }),
+        createSleepSession({
+          type: 'night',
+          startTime: '2026-03-24T01:30:00.000Z',
+          endTime: '2026-03-24T06:00:00.000Z',
+          duration: 4.5 * 3600,
+        }),
+        createSleepSession(),
+      ],
+      feedingSessions: [
+        createFeedingSession({ startTime: '2026-03-24T01:05:00.000Z', endTime: '2026-03-24T01:20:00.000Z' }),
+        createFeedingSession({ startTime: '2026-03-23T15:00:00.000Z', endTime: '2026-03-23T15:20:00.000Z' }),
+      ],
+      bottleSessions: [createBottleSession({ timestamp: '2026-03-24T06:15:00.000Z' })],
+      diaperChanges: [
+        createDiaperChange({ timestamp: '2026-03-24T01:02:00.000Z' }),
+        createDiaperChange({ type: 'full', timestamp: '2026-03-24T06:10:00.000Z' }),
+      ],
+    });
+
+    const summary = buildMorningSummary(snapshot, 'Noa', 'oz', new Date('2026-03-24T08:00:00.000Z'));
+
+    expect(summary?.title).toBe("Good morning! Here's Noa's night");
+    expect(summary?.body.split('\n')).toEqual([
+      'Slept 10h 0m (7:30 PM – 6:00 AM), longest stretch 5h 30m, woke 1 time',
+      '2 feeds (1 nursing · 1 bottle, 4.0 oz)',
+      '2 diapers (1 wet, 1 full)',
+    ]);
+  });
+
+  it('skips the morning summary when nothing was logged overnight', () => {
+    const snapshot = createSnapshot({ sleepSessions: [createSleepSession()] });
+
+    expect(buildMorningSummary(snapshot, 'Noa', 'oz', new Date('2026-03-24T08:00:00.000Z'))).toBeNull();
+  });
+
+  it('compares the day against the average of previous tracked days', () => {
+    const snapshot = createSnapshot({
+      diaperChanges: [
+        createDiaperChange({ timestamp: '2026-03-24T09:00:00.000Z' }),
+        createDiaperChange({ timestamp: '2026-03-24T12:00:00.000Z' }),
+        createDiaperChange({ timestamp: '2026-03-23T09:00:00.000Z' }),
+        createDiaperChange({ timestamp: '2026-03-22T09:00:00.000Z' }),
+        createDiaperChange({ timestamp: '2026-03-22T12:00:00.000Z' }),
+        createDiaperChange({ timestamp: '2026-03-22T15:00:00.000Z' }),
+        createDiaperChange({ timestamp: '2026-03-10T09:00:00.000Z' }),
+      ],
+      bottleSessions: [createBottleSession({ timestamp: '2026-03-24T10:00:00.000Z' })],
+    });
+
+    const summary = buildEveningSummary(snapshot, 'Noa', 'oz', new Date('2026-03-24T20:00:00.000Z'));
+
+    expect(summary?.title).toBe("Noa's day so far");
+    expect(summary?.body.split('\n')).toEqual([
+      'Bottles: 1 (7-day avg 0)',
+      'Bottle volume: 4.0 oz (7-day avg 0.0 oz)',
+      'Diapers: 2 (7-day avg 2)',
+    ]);
+  });
+
+  it('skips the evening summary when nothing was logged today', () => {
+    const snapshot = createSnapshot({ diaperChanges: [createDiaperChange({ timestamp: '2026-03-23T09:00:00.000Z' })] });
+
+    expect(buildEveningSummary(snapshot, 'Noa', 'oz', new Date('2026-03-24T20:00:00.000Z'))).toBeNull();
+  });
+});
+
+describe('output adequacy', () => {
+  const now = new Date('2026-03-24T12:00:00.000Z');
+  // Logged before the 24h window, so the whole window was tracked
+  const earlierChange = createDiaperChange({ timestamp: '2026-03-23T10:00:00.000Z' });
+
+  it('flags a newborn with fewer diapers and feeds than expected for the day of life', () => {
+    const snapshot = createSnapshot({
+      diaperChanges: [
+        earlierChange,
+        createDiaperChange({ timestamp: '2026-03-24T06:00:00.000Z' }),
+        createDiaperChange({ type: 'full', timestamp: '2026-03-24T08:00:00.000Z' }),
+      ],
+      feedingSessions: Array.from({ length: 5 }, (_, index) =>
+        createFeedingSession({ startTime: `2026-03-24T0${index + 1}:00:00.000Z` })
+      ),
+      bottleSessions: [createBottleSession()],
+    });
+
+    const adequacy = buildOutputAdequacy(snapshot, '2026-03-22', now);
+
+    expect(adequacy).toMatchObject({
+      dayOfLife: 3,
+      wetCount: 2,
+      dirtyCount: 1,
+      feedCount: 6,
+      expected: { wet: 3, dirty: 3 },
+      expectedFeeds: 8,
+      isWetShort: true,
+      isDirtyShort: true,
+      isFeedingShort: true,
+    });
+    expect(formatOutputShortfall(adequacy!)).toBe('2 of 3+ wet, 1 of 3+ dirty in the last 24h');
+  });
+
+  it('expects six wet diapers after the newborn days and stops judging dirty ones and feeds', () => {
+    const snapshot = createSnapshot({
+      diaperChanges: [
+        earlierChange,
+        ...Array.from({ length: 6 }, (_, index) =>
+          createDiaperChange({ timestamp: `2026-03-24T0${index + 1}:00:00.000Z` })
+        ),
+      ],
+    });
+
+    const adequacy = buildOutputAdequacy(snapshot, '2026-01-01', now);
+
+    expect(adequacy).toMatchObject({ expected: { wet: 6, dirty: 0 }, expectedFeeds: null, isFeedingShort: false });
+    expect(formatOutputShortfall(adequacy!)).toBeNull();
+  });
+
+  it('counts full diapers, including legacy both changes, toward the wet target', () => {
+    const snapshot = createSnapshot({
+      diaperChanges: [
+        earlierChange,
+        ...Array.from({ length: 4 }, (_, index) =>
+          createDiaperChange({ timestamp: `2026-03-24T0${index + 1}:00:00.000Z` })
+        ),
+        ...Array.from({ length: 3 }, (_, index) =>
+          createDiaperChange({ type: 'full', timestamp: `2026-03-24T0${index + 5}:00:00.000Z` })
+        ),
+      ],
+    });
+
+    const adequacy = buildOutputAdequacy(snapshot, '2026-01-01', now);
+
+    expect(adequacy).toMatchObject({ wetCount: 7, dirtyCount: 3, isWetShort: false });
+    expect(formatOutputShortfall(adequacy!)).toBeNull();
+
+    const withLegacyTypes = createSnapshot({
+      diaperChanges: [
+        ...snapshot.diaperChanges,
+        createDiaperChange({ type: 'both' as DiaperChange['type'], timestamp: '2026-03-24T09:00:00.000Z' }),
+        createDiaperChange({ type: 'dirty' as DiaperChange['type'], timestamp: '2026-03-24T10:00:00.000Z' }),
+      ],
+    });
+    expect(buildOutputAdequacy(withLegacyTypes, '2026-01-01', now)).toMatchObject({ wetCount: 8, dirtyCount: 5 });
+  });
+
+  it('skips the check without a birth date or a fully tracked window', () => {
+    const recentOnly = createSnapshot({ diaperChanges: [createDiaperChange({ timestamp: '2026-03-24T06:00:00.000Z' })] });
+
+    expect(buildOutputAdequacy(createSnapshot({ diaperChanges: [earlierChange] }), null, now)).toBeNull();
+    expect(buildOutputAdequacy(recentOnly, '2026-03-20', now)).toBeNull();
+  });
+});
+
+describe('caregiver attribution', () => {
+  it('attributes history items with the provided describer', () => {
+    const snapshot = createSnapshot({
+      diaperChanges: [createDiaperChange({ loggedBy: 'user-2' })],
+    });
+
+    const items = buildHistoryItems(snapshot, 'all', (entry) => `Logged by ${entry.loggedBy ?? entry.userId}`);
+
+    expect(items[0].attribution).toBe('Logged by user-2');
+  });
+
+  it('lists deletions with who deleted them under the matching filter', () => {
+    const records: DeletedEntry[] = [
+      {
+        id: 'deleted-1',
+        babyId: 'baby-1',
+        collection: 'bottleSessions',
+        entryId: 'bottle-1',
+        entry: { timestamp: '2026-03-24T08:15:00.000Z', volume: 4 },
+        loggedBy: 'user-1',
+        deletedBy: 'user-2',
+        deletedAt: '2026-03-24T10:00:00.000Z',
+      },
+      {
+        id: 'deleted-2',
+        babyId: 'baby-1',
+        collection: 'vaccinations',
+        entryId: 'vaccination-1',
+        entry: { name: 'MMR' },
+        loggedBy: 'user-1',
+        deletedBy: 'user-1',
+        deletedAt: '2026-03-24T11:00:00.000Z',
+      },
+    ];
+
+    const items = buildDeletedHistoryItems(records, 'all', (record) => `Deleted by ${record.deletedBy}`);
+
+    expect(items[0]).toMatchObject({
+      id: 'deleted-deleted-1',
+      type: 'deleted',
+      timestamp: '2026-03-24T10:00:00.000Z',
+      details: 'Bottle deleted',
+      subDetails: 'from Mar 24, 8:15 AM',
+      attribution: 'Deleted by user-2',
+    });
+    expect(items[1]).toMatchObject({ details: 'Vaccination deleted', subDetails: undefined });
+    expect(buildDeletedHistoryItems(records, 'feeding').map((item) => item.id)).toEqual(['deleted-deleted-1']);
+    expect(buildDeletedHistoryItems(records, 'sleep')).toEqual([]);
+  });
+
+  it('counts entries per caregiver, most active first', () => {
+    const snapshot = createSnapshot({
+      feedingSessions: [createFeedingSession({ loggedBy: 'user-2' })],
+      bottleSessions: [createBottleSession({ loggedBy: 'user-2' })],
+      sleepSessions: [createSleepSession()],
+      diaperChanges: [createDiaperChange({ loggedBy: 'user-2' })],
+    });
+
+    const contributions = buildCaregiverContributions(
+      getFilteredStatsData(snapshot, getDateRange('week', new Date('2026-03-24T12:00:00.000Z')))
+    );
+
+    expect(contributions).toEqual([
+      { caregiverId: 'user-2', total: 3, feedings: 2, sleeps: 0, diapers: 1, activities: 0 },
+      { caregiverId: 'user-1', total: 1, feedings: 0, sleeps: 1, diapers: 0, activities: 0 },
+    ]);
+  });
 });
@@ -1,4 +1,5 @@
 import {
+  addHours,
   endOfDay,
   endOfWeek,
   format,
@@ -11,11 +12,15 @@ import {
 } from 'date-fns';
 import type {
   BottleSession,
+  CaregiverAttribution,
+  DeletedEntry,
   DiaperChange,
+  ExpectedDiaperOutput,
   FeedingSession,
   PlaySession,
   PumpSession,
   SleepSession,
+  VolumeUnit,
   WalkSession,
 } from '@/types';
 import {
@@ -24,9 +29,20 @@ import {
   DIAPER_TYPE_CONFIG,
   PLAY_TYPE_CONFIG,
   SLEEP_TYPE_CONFIG,
+  calculateBabyAge,
   convertVolume,
   formatDuration,
+  formatFeedingSides,
   formatSleepDuration,
+  getFeedingSideDurations,
+  getExpectedDiaperOutput,
+  getFeedingSegments,
+  getLoggedBy,
+  getSleepStretches,
+  getPumpSideVolumes,
+  formatPumpVolume,
+  formatBottleVolume,
+  getBottleLeftoverVolume,
 } from '@/types';
 
 export type TimeFilter = 'today' | 'week' | 'all';
@@ -60,9 +76,14 @@ export interface FilteredStatsData {
 export interface StatsSummary {
   feedingTime: number;
   nursingCount: number;
+  leftNursingTime: number;
+  rightNursingTime: number;
   pumpVolume: number;
+  leftPumpVolume: number; // Sessions with a known side split only
+  rightPumpVolume: number;
   pumpCount: number;
-  bottleVolume: number;
+  bottleVolume: number; // Consumed
+  bottleLeftoverVolume: number; // Offered but not drunk
   bottleCount: number;
   sleepTime: number;
   napCount: number;
@@ -76,6 +97,24 @@ export interface StatsSummary {
   walkCount: number;
 }
 
+export interface DailySummaryNotification {
+  title: string;
+  body: string;
+}
+
+// Diapers and feeds in the last 24 hours against what's expected for the baby's age
+export interface OutputAdequacy {
+  dayOfLife: number; // 1 on the day of birth
+  wetCount: number;
+  dirtyCount: number;
+  feedCount: number;
+  expected: ExpectedDiaperOutput;
+  expectedFeeds: number | null; // Only judged in the first weeks
+  isWetShort: boolean;
+  isDirtyShort: boolean;
+  isFeedingShort: boolean;
+}
+
 export interface FeedingChartPoint {
   name: string;
   feeding: number;
@@ -83,17 +122,34 @@ export interface FeedingChartPoint {
   bottle: number;
 }
 
-export type HistoryIcon = 'baby' | 'milk' | 'droplet' | 'moon' | 'sun' | 'leaf' | 'gamepad' | 'footprints';
+export interface PumpYieldChartPoint {
+  name: string;
+  left: number;
+  right: number;
+  unsplit: number; // Both-sides sessions logged as a total only
+}
+
+export type HistoryIcon = 'baby' | 'milk' | 'droplet' | 'moon' | 'sun' | 'leaf' | 'gamepad' | 'footprints' | 'trash';
 
 export interface HistoryItem {
   id: string;
-  type: 'breastfeeding' | 'bottle' | 'pump' | 'sleep' | 'diaper' | 'play' | 'walk';
+  type: 'breastfeeding' | 'bottle' | 'pump' | 'sleep' | 'diaper' | 'play' | 'walk' | 'deleted';
   timestamp: string;
   duration?: number;
   details: string;
   subDetails?: string;
   color: string;
   icon: HistoryIcon;
+  attribution?: string;
+}
+
+export interface CaregiverContribution {
+  caregiverId: string;
+  total: number;
+  feedings: number;
+  sleeps: number;
+  diapers: number;
+  activities: number;
 }
 
 export interface HistoryGroup {
@@ -125,6 +181,13 @@ export interface TimelineLane {
   hourlyIntensity: number[];
 }
 
+export interface NightWakingWeek {
+  weekStart: string; // ISO datetime of the start of the week
+  nights: number;
+  averageWakings: number;
+  averageLongestStretchSeconds: number;
+}
+
 export interface InsightsSummary {
   hasEnoughData: boolean;
   readinessCount: number;
@@ -177,6 +240,11 @@ export interface InsightsSummary {
     sleep: TimelineLane;
     feeding: TimelineLane;
   };
+  nightWakings: {
+    averageWakingsPerNight: number | null;
+    longestStretchSeconds: number | null;
+    weeks: NightWakingWeek[]; // Oldest first
+  };
   routineSummary: string[];
   patternCards: InsightPatternCard[];
 }
@@ -192,11 +260,19 @@ const NIGHT_SLEEP_TARGET_LOOKAHEAD_HOURS = 4;
 const EVENING_BEDTIME_WAKE_HOUR = 19;
 const EVENING_BEDTIME_PREDICTION_HOUR = 20;
 const NIGHT_SLEEP_MERGE_GAP_HOURS = 3;
+const MORNING_SUMMARY_NIGHT_START_HOUR = 19;
+const EVENING_SUMMARY_AVERAGE_DAYS = 7;
+const NIGHT_WAKING_TREND_WEEKS = 4;
+const OUTPUT_CHECK_HOURS = 24;
+const NEWBORN_FEEDS_PER_DAY = 8;
+const NEWBORN_FEEDING_CHECK_DAYS = 28;
 
 interface NightSleepBlock {
   startTime: string;
   endTime: string;
   firstWakeTime: string | null;
+  wakeCount: number; // Logged wakings plus gaps between merged sleeps
+  longestStretchSeconds: number;
 }
 
 type SleepTimeBucket = 'early-morning' | 'morning' | 'midday' | 'afternoon' | 'evening';
@@ -284,6 +360,13 @@ export function getFilteredStatsData(
   };
 }
 
+// "12m" for one side, "12m (L 5m · R 7m)" for a feed that switched sides
+function formatNursingDuration(session: FeedingSession): string {
+  if (getFeedingSegments(session).length < 2) return formatDuration(session.duration);
+  const sides = getFeedingSideDurations(session);
+  return `${formatDuration(session.duration)} (L ${formatDuration(sides.left)} · R ${formatDuration(sides.right)})`;
+}
+
 export function buildStatsSummary(
   filteredData: FilteredStatsData,
   volumeUnit: 'oz' | 'ml'
@@ -294,15 +377,35 @@ export function buildStatsSummary(
   return {
     feedingTime: filteredData.feedingSessions.reduce((sum, session) => sum + session.duration, 0),
     nursingCount: filteredData.feedingSessions.length,
+    leftNursingTime: filteredData.feedingSessions.reduce(
+      (sum, session) => sum + getFeedingSideDurations(session).left,
+      0
+    ),
+    rightNursingTime: filteredData.feedingSessions.reduce(
+      (sum, session) => sum + getFeedingSideDurations(session).right,
+      0
+    ),
     pumpVolume: filteredData.pumpSessions.reduce(
       (sum, session) => sum + convertVolume(session.volume, session.volumeUnit, volumeUnit),
       0
     ),
+    leftPumpVolume: filteredData.pumpSessions.reduce(
+      (sum, session) => sum + convertVolume(getPumpSideVolumes(session)?.left ?? 0, session.volumeUnit, volumeUnit),
+      0
+    ),
+    rightPumpVolume: filteredData.pumpSessions.reduce(
+      (sum, session) => sum + convertVolume(getPumpSideVolumes(session)?.right ?? 0, session.volumeUnit, volumeUnit),
+      0
+    ),
     pumpCount: filteredData.pumpSessions.length,
     bottleVolume: filteredData.bottleSessions.reduce(
       (sum, session) => sum + convertVolume(session.volume, session.volumeUnit, volumeUnit),
       0
     ),
+    bottleLeftoverVolume: filteredData.bottleSessions.reduce(
+      (sum, session) => sum + convertVolume(getBottleLeftoverVolume(session), session.volumeUnit, volumeUnit),
+      0
+    ),
     bottleCount: filteredData.bottleSessions.length,
     sleepTime: sleepSessions.reduce((sum, session) => sum + session.duration, 0),
     napCount: sleepSessions.filter((session) => session.type === 'nap').length,
@@ -379,9 +482,44 @@ export function buildFeedingChartData(
   return Object.values(days);
 }
 
+export function buildPumpYieldChartData(
+  filteredData: FilteredStatsData,
+  timeFilter: TimeFilter,
+  volumeUnit: 'oz' | 'ml'
+): PumpYieldChartPoint[] {
+  const points: Record<string, PumpYieldChartPoint> = {};
+  const getKey = (timestamp: string) =>
+    timeFilter === 'today' ? `${parseISO(timestamp).getHours()}:00` : format(parseISO(timestamp), 'MMM d');
+
+  [...filteredData.pumpSessions]
+    .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
+    .forEach((session) => {
+      const key = getKey(session.startTime);
+      if (!points[key]) {
+        points[key] = { name: key, left: 0, right: 0, unsplit: 0 };
+      }
+      const sides = getPumpSideVolumes(session);
+      if (sides) {
+        points[key].left += convertVolume(sides.left, session.volumeUnit, volumeUnit);
+        points[key].right += convertVolume(sides.right, session.volumeUnit, volumeUnit);
+      } else {
+        points[key].unsplit += convertVolume(session.volume, session.volumeUnit, volumeUnit);
+      }
+    });
+
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return Object.values(points).map((point) => ({
+    name: point.name,
+    left: round(point.left),
+    right: round(point.right),
+    unsplit: round(point.unsplit),
+  }));
+}
+
 export function buildHistoryItems(
   data: StatsDataSnapshot,
-  historyFilter: HistoryFilter
+  historyFilter: HistoryFilter,
+  describeCaregiver: (entry: CaregiverAttribution & { userId: string }) => string | null = () => null
 ): HistoryItem[] {
   const items: HistoryItem[] = [];
 
@@ -394,10 +532,11 @@ export function buildHistoryItems(
           type: 'breastfeeding',
           timestamp: session.startTime,
           duration: session.duration,
-          details: `Breastfeeding - ${BREAST_SIDE_CONFIG[session.breastSide].label}`,
-          subDetails: formatDuration(session.duration),
+          details: `Breastfeeding - ${formatFeedingSides(session)}`,
+          subDetails: formatNursingDuration(session),
           color: BREAST_SIDE_CONFIG[session.breastSide].color,
           icon: 'baby',
+          attribution: describeCaregiver(session) ?? undefined,
         });
       });
 
@@ -407,9 +546,10 @@ export function buildHistoryItems(
         type: 'bottle',
         timestamp: session.timestamp,
         details: `Bottle - ${BOTTLE_CONTENT_CONFIG[session.contentType].label}`,
-        subDetails: `${session.volume} ${session.volumeUnit}`,
+        subDetails: formatBottleVolume(session),
         color: BOTTLE_CONTENT_CONFIG[session.contentType].color,
         icon: 'milk',
+        attribution: describeCaregiver(session) ?? undefined,
       });
     });
 
@@ -422,9 +562,10 @@ export function buildHistoryItems(
           timestamp: session.startTime,
           duration: session.duration,
           details: `Pumping - ${session.side === 'both' ? 'Both sides' : `${session.side.charAt(0).toUpperCase()}${session.side.slice(1)}`}`,
-          subDetails: `${session.volume} ${session.volumeUnit} • ${formatDuration(session.duration)}`,
+          subDetails: `${formatPumpVolume(session)} • ${formatDuration(session.duration)}`,
           color: '#2196f3',
           icon: 'droplet',
+          attribution: describeCaregiver(session) ?? undefined,
         });
       });
   }
@@ -442,6 +583,7 @@ export function buildHistoryItems(
           subDetails: formatSleepDuration(session.duration),
           color: SLEEP_TYPE_CONFIG[session.type].color,
           icon: session.type === 'nap' ? 'sun' : 'moon',
+          attribution: describeCaregiver(session) ?? undefined,
         });
       });
   }
@@ -459,6 +601,7 @@ export function buildHistoryItems(
         subDetails: change.notes || undefined,
         color: config.color,
         icon: 'leaf',
+        attribution: describeCaregiver(change) ?? undefined,
       });
     });
   }
@@ -476,6 +619,7 @@ export function buildHistoryItems(
           subDetails: formatDuration(session.duration),
           color: PLAY_TYPE_CONFIG[session.type].color,
           icon: 'gamepad',
+          attribution: describeCaregiver(session) ?? undefined,
         });
       });
   }
@@ -493,6 +637,7 @@ export function buildHistoryItems(
           subDetails: formatDuration(session.duration),
           color: '#8bc34a',
           icon: 'footprints',
+          attribution: describeCaregiver(session) ?? undefined,
         });
       });
   }
@@ -501,6 +646,83 @@ export function buildHistoryItems(
   return items;
 }
 
+// What each kind of deleted entry is called in history, and the filter it shows under besides All
+const DELETED_ENTRY_CONFIG: Record<string, { label: string; filter?: HistoryFilter }> = {
+  feedingSessions: { label: 'Breastfeeding', filter: 'feeding' },
+  bottleSessions: { label: 'Bottle', filter: 'feeding' },
+  pumpSessions: { label: 'Pump session', filter: 'feeding' },
+  sleepSessions: { label: 'Sleep', filter: 'sleep' },
+  diaperChanges: { label: 'Diaper change', filter: 'diaper' },
+  playSessions: { label: 'Play session', filter: 'play' },
+  walkSessions: { label: 'Walk', filter: 'walks' },
+  diaryEntries: { label: 'Diary entry' },
+  milkStash: { label: 'Milk stash bag' },
+  vaccinations: { label: 'Vaccination' },
+  pediatricianNotes: { label: 'Pediatrician note' },
+};
+
+// Deletions as history items at the time they happened, noting when the entry was for
+export function buildDeletedHistoryItems(
+  records: DeletedEntry[],
+  historyFilter: HistoryFilter,
+  describeDeletion: (record: DeletedEntry) => string | null = () => null
+): HistoryItem[] {
+  return records
+    .filter((record) => historyFilter === 'all' || DELETED_ENTRY_CONFIG[record.collection]?.filter === historyFilter)
+    .map((record): HistoryItem => {
+      const entryTime = record.entry.startTime ?? record.entry.timestamp;
+      return {
+        id: `deleted-${record.id}`,
+        type: 'deleted',
+        timestamp: record.deletedAt,
+        details: `${DELETED_ENTRY_CONFIG[record.collection]?.label ?? 'Entry'} deleted`,
+        subDetails: typeof entryTime === 'string' ? `from ${format(parseISO(entryTime), 'MMM d, h:mm a')}` : undefined,
+        color: '#9e9e9e',
+        icon: 'trash',
+        attribution: describeDeletion(record) ?? undefined,
+      };
+    });
+}
+
+// Entries per caregiver, most active first
+export function buildCaregiverContributions(filteredData: FilteredStatsData): CaregiverContribution[] {
+  const contributions = new Map<string, CaregiverContribution>();
+
+  const count = (
+    entries: Array<CaregiverAttribution & { userId: string }>,
+    key: 'feedings' | 'sleeps' | 'diapers' | 'activities'
+  ) => {
+    entries.forEach((entry) => {
+      const caregiverId = getLoggedBy(entry);
+      if (!caregiverId) {
+        return;
+      }
+
+      const contribution = contributions.get(caregiverId) ?? {
+        caregiverId,
+        total: 0,
+        feedings: 0,
+        sleeps: 0,
+        diapers: 0,
+        activities: 0,
+      };
+      contribution[key] += 1;
+      contribution.total += 1;
+      contributions.set(caregiverId, contribution);
+    });
+  };
+
+  count(filteredData.feedingSessions, 'feedings');
+  count(filteredData.bottleSessions, 'feedings');
+  count(filteredData.pumpSessions, 'feedings');
+  count(filteredData.sleepSessions, 'sleeps');
+  count(filteredData.diaperChanges, 'diapers');
+  count(filteredData.playSessions, 'activities');
+  count(filteredData.walkSessions, 'activities');
+
+  return [...contributions.values()].sort((a, b) => b.total - a.total);
+}
+
 export function groupHistoryItems(items: HistoryItem[]): HistoryGroup[] {
   const groups: Record<string, HistoryItem[]> = {};
 
@@ -679,13 +901,25 @@ function buildNightSleepBlocks(
     return [];
   }
 
-  const blocks: NightSleepBlock[] = [];
-  let currentBlock: NightSleepBlock = {
-    startTime: completedNightSessions[0].startTime,
-    endTime: completedNightSessions[0].endTime || completedNightSessions[0].startTime,
-    firstWakeTime: null,
+  const startBlock = (session: SleepSession): NightSleepBlock => {
+    const endTime = session.endTime || session.startTime;
+    const wakings = session.wakings ?? [];
+    const firstFeedWaking = wakings
+      .filter((waking) => waking.reason === 'feed')
+      .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())[0];
+
+    return {
+      startTime: session.startTime,
+      endTime,
+      firstWakeTime: firstFeedWaking?.startTime ?? null,
+      wakeCount: wakings.length,
+      longestStretchSeconds: Math.max(0, ...getSleepStretches(session.startTime, endTime, wakings)),
+    };
   };
 
+  const blocks: NightSleepBlock[] = [];
+  let currentBlock = startBlock(completedNightSessions[0]);
+
   for (let index = 1; index < completedNightSessions.length; index += 1) {
     const session = completedNightSessions[index];
     const sessionStartMs = new Date(session.startTime).getTime();
@@ -697,19 +931,21 @@ function buildNightSleepBlocks(
     });
 
     if (gapHours >= 0 && gapHours <= NIGHT_SLEEP_MERGE_GAP_HOURS && hasFeedInGap) {
+      const nextBlock = startBlock(session);
       if (!currentBlock.firstWakeTime) {
         currentBlock.firstWakeTime = currentBlock.endTime;
       }
-      currentBlock.endTime = session.endTime || session.startTime;
+      currentBlock.endTime = nextBlock.endTime;
+      currentBlock.wakeCount += 1 + nextBlock.wakeCount;
+      currentBlock.longestStretchSeconds = Math.max(
+        currentBlock.longestStretchSeconds,
+        nextBlock.longestStretchSeconds
+      );
       continue;
     }
 
     blocks.push(currentBlock);
-    currentBlock = {
-      startTime: session.startTime,
-      endTime: session.endTime || session.startTime,
-      firstWakeTime: null,
-    };
+    currentBlock = startBlock(session);
   }
 
   blocks.push(currentBlock);
@@ -1006,6 +1242,39 @@ function calculateAverageNightSleepDurationHours(blocks: NightSleepBlock[]): num
   );
 }
 
+// Wakings per night and the longest stretch, for recent nights and week by week
+function buildNightWakingInsights(
+  blocks: NightSleepBlock[],
+  now: Date
+): InsightsSummary['nightWakings'] {
+  const summarize = (nights: NightSleepBlock[]) => ({
+    nights: nights.length,
+    averageWakings: nights.reduce((sum, block) => sum + block.wakeCount, 0) / nights.length,
+    averageLongestStretchSeconds:
+      nights.reduce((sum, block) => sum + block.longestStretchSeconds, 0) / nights.length,
+  });
+
+  const weeks: NightWakingWeek[] = [];
+  for (let offset = NIGHT_WAKING_TREND_WEEKS - 1; offset >= 0; offset -= 1) {
+    const range = { start: startOfWeek(subWeeks(now, offset)), end: endOfWeek(subWeeks(now, offset)) };
+    const nights = blocks.filter((block) => isWithinInterval(parseISO(block.startTime), range));
+    if (nights.length > 0) {
+      weeks.push({ weekStart: range.start.toISOString(), ...summarize(nights) });
+    }
+  }
+
+  const recentNights = [...blocks]
+    .sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime())
+    .slice(0, 7);
+
+  return {
+    averageWakingsPerNight: recentNights.length > 0 ? summarize(recentNights).averageWakings : null,
+    longestStretchSeconds:
+      recentNights.length > 0 ? Math.max(...recentNights.map((block) => block.longestStretchSeconds)) : null,
+    weeks,
+  };
+}
+
 function calculatePredictedNapWakeTime(
   predictedSleepTime: string | null,
   sessions: SleepSession[]
@@ -1319,6 +1588,7 @@ export function buildInsights(data: StatsDataSnapshot, now: Date = new Date()):
   const averageEarlyFeedWakeHours = calculateAverageEarlyFeedWakeHours(nightSleepBlocks);
   const typicalFinalWakeMinutes = calculateTypicalNightWakeMinutes(nightSleepBlocks, 'final');
   const typicalEarlyFeedWakeMinutes = calculateTypicalNightWakeMinutes(nightSleepBlocks, 'first');
+  const nightWakings = buildNightWakingInsights(nightSleepBlocks, now);
   const averageNapMinutes =
     patternNaps.length >= 3
       ? Math.round(patternNaps.reduce((sum, session) => sum + session.duration, 0) / patternNaps.length / 60)
@@ -1491,6 +1761,17 @@ export function buildInsights(data: StatsDataSnapshot, now: Date = new Date()):
     });
   }
 
+  // Nights without any wakings logged or stitched together say nothing about wakings yet
+  if (nightWakings.averageWakingsPerNight && nightWakings.longestStretchSeconds !== null) {
+    patternCards.push({
+      id: 'night-wakings',
+      title: 'Night Wakings',
+      value: `${Math.round(nightWakings.averageWakingsPerNight * 10) / 10} a night`,
+      description: `Longest stretch lately is ${formatSleepDuration(nightWakings.longestStretchSeconds)}, based on wakings logged during night sleep`,
+      tone: 'indigo',
+    });
+  }
+
   if (averageFeedingGapHours !== null && !(peakFeedingHours.length > 0 && patternFeedingEvents.length >= MIN_PATTERN_EVENTS)) {
     patternCards.push({
       id: 'feeding-gap',
@@ -1580,7 +1861,197 @@ export function buildInsights(data: StatsDataSnapshot, now: Date = new Date()):
         hourlyIntensity: normalizeDistribution(timelineFeedingDistribution),
       },
     },
+    nightWakings,
     routineSummary,
     patternCards,
   };
 }
+
+function formatSummaryCount(count: number, singular: string, plural = `${singular}s`): string {
+  return `${count} ${count === 1 ? singular : plural}`;
+}
+
+function formatSummaryAverage(value: number): string {
+  return value.toFixed(1).replace(/\.0$/, '');
+}
+
+function hasAnyStatsEntries(filteredData: FilteredStatsData): boolean {
+  return Object.values(filteredData).some((items) => items.length > 0);
+}
+
+export function buildMorningSummary(
+  data: StatsDataSnapshot,
+  babyName: string,
+  volumeUnit: VolumeUnit,
+  now: Date = new Date()
+): DailySummaryNotification | null {
+  // The night runs from yesterday evening until the summary goes out
+  const nightRange = {
+    start: addHours(startOfDay(subDays(now, 1)), MORNING_SUMMARY_NIGHT_START_HOUR),
+    end: now,
+  };
+  const night = getFilteredStatsData(data, nightRange);
+  const nightSleeps = night.sleepSessions.filter((session) => session.type === 'night');
+  const summary = buildStatsSummary({ ...night, sleepSessions: nightSleeps }, volumeUnit);
+  const feedCount = summary.nursingCount + summary.bottleCount;
+
+  if (nightSleeps.length === 0 && feedCount === 0 && summary.diaperCount === 0) {
+    return null;
+  }
+
+  const lines: string[] = [];
+  const nightSleepBlocks = buildNightSleepBlocks(nightSleeps, [
+    ...night.feedingSessions.map((session) => ({ timestamp: session.startTime })),
+    ...night.bottleSessions.map((session) => ({ timestamp: session.timestamp })),
+  ]);
+
+  if (nightSleepBlocks.length > 0) {
+    const longestStretch = Math.max(...nightSleeps.map((session) => session.duration));
+    const bedtime = format(parseISO(nightSleepBlocks[0].startTime), 'h:mm a');
+    const wakeTime = format(parseISO(nightSleepBlocks[nightSleepBlocks.length - 1].endTime), 'h:mm a');
+    const wakings = nightSleeps.length - 1;
+
+    lines.push(
+      `Slept ${formatSleepDuration(summary.sleepTime)} (${bedtime} – ${wakeTime}), longest stretch ${formatSleepDuration(longestStretch)}` +
+        (wakings > 0 ? `, woke ${formatSummaryCount(wakings, 'time')}` : '')
+    );
+  } else if (nightSleeps.length > 0) {
+    lines.push(`Slept ${formatSleepDuration(summary.sleepTime)}`);
+  }
+
+  if (feedCount > 0) {
+    const details = [
+      summary.nursingCount > 0 && `${summary.nursingCount} nursing`,
+      summary.bottleCount > 0 &&
+        `${formatSummaryCount(summary.bottleCount, 'bottle')}, ${summary.bottleVolume.toFixed(1)} ${volumeUnit}`,
+    ].filter(Boolean);
+    lines.push(`${formatSummaryCount(feedCount, 'feed')} (${details.join(' · ')})`);
+  }
+
+  if (summary.diaperCount > 0) {
+    lines.push(
+      `${formatSummaryCount(summary.diaperCount, 'diaper')} (${summary.wetCount} wet, ${summary.fullCount} full)`
+    );
+  }
+
+  return {
+    title: `Good morning! Here's ${babyName}'s night`,
+    body: lines.join('\n'),
+  };
+}
+
+export function buildEveningSummary(
+  data: StatsDataSnapshot,
+  babyName: string,
+  volumeUnit: VolumeUnit,
+  now: Date = new Date()
+): DailySummaryNotification | null {
+  const todayData = getFilteredStatsData(data, { start: startOfDay(now), end: now });
+
+  if (!hasAnyStatsEntries(todayData)) {
+    return null;
+  }
+
+  const today = buildStatsSummary(todayData, volumeUnit);
+
+  // Average over the previous days that were actually tracked, so a new user is not compared against empty days
+  const previousDays = Array.from({ length: EVENING_SUMMARY_AVERAGE_DAYS }, (_, index) => {
+    const day = subDays(now, index + 1);
+    return getFilteredStatsData(data, { start: startOfDay(day), end: endOfDay(day) });
+  })
+    .filter(hasAnyStatsEntries)
+    .map((dayData) => buildStatsSummary(dayData, volumeUnit));
+
+  const average = (key: keyof StatsSummary): number | null =>
+    previousDays.length > 0
+      ? previousDays.reduce((sum, day) => sum + day[key], 0) / previousDays.length
+      : null;
+
+  const lines: string[] = [];
+  const addLine = (
+    key: keyof StatsSummary,
+    label: string,
+    formatValue: (value: number) => string
+  ) => {
+    const averageValue = average(key);
+    if (today[key] === 0 && !averageValue) {
+      return;
+    }
+
+    lines.push(
+      averageValue !== null
+        ? `${label}: ${formatValue(today[key])} (7-day avg ${formatValue(averageValue)})`
+        : `${label}: ${formatValue(today[key])}`
+    );
+  };
+
+  addLine('sleepTime', 'Sleep', formatSleepDuration);
+  addLine('nursingCount', 'Nursing', formatSummaryAverage);
+  addLine('bottleCount', 'Bottles', formatSummaryAverage);
+  addLine('bottleVolume', 'Bottle volume', (value) => `${value.toFixed(1)} ${volumeUnit}`);
+  addLine('pumpVolume', 'Pumped', (value) => `${value.toFixed(1)} ${volumeUnit}`);
+  addLine('diaperCount', 'Diapers', formatSummaryAverage);
+  addLine('playTime', 'Play', formatSleepDuration);
+  addLine('walkTime', 'Walks', formatSleepDuration);
+
+  return {
+    title: `${babyName}'s day so far`,
+    body: lines.join('\n'),
+  };
+}
+
+// Judges the rolling 24h of diapers and feeds against age-based expectations. Returns null without a
+// birth date, before the baby is a day old, or when logging started inside the window, so untracked
+// hours aren't read as missing diapers.
+export function buildOutputAdequacy(
+  data: StatsDataSnapshot,
+  birthDate: string | null,
+  now: Date = new Date()
+): OutputAdequacy | null {
+  const age = calculateBabyAge(birthDate, now);
+  if (!age || age.totalDays < 1) {
+    return null;
+  }
+
+  const windowStart = addHours(now, -OUTPUT_CHECK_HOURS);
+  const hasFullWindow = data.diaperChanges.some((change) => parseISO(change.timestamp) <= windowStart);
+  if (!hasFullWindow) {
+    return null;
+  }
+
+  const windowData = getFilteredStatsData(data, { start: windowStart, end: now });
+  const summary = buildStatsSummary(windowData, 'ml');
+  // A full diaper is wet too, so full and legacy 'both' changes count toward the wet target;
+  // only legacy 'dirty' changes were logged as stool alone
+  const wetCount = windowData.diaperChanges.filter((change) => (change.type as string) !== 'dirty').length;
+  const dayOfLife = age.totalDays + 1;
+  const expected = getExpectedDiaperOutput(dayOfLife);
+  const feedCount = summary.nursingCount + summary.bottleCount;
+  const expectedFeeds = dayOfLife <= NEWBORN_FEEDING_CHECK_DAYS ? NEWBORN_FEEDS_PER_DAY : null;
+
+  return {
+    dayOfLife,
+    wetCount,
+    dirtyCount: summary.fullCount,
+    feedCount,
+    expected,
+    expectedFeeds,
+    isWetShort: wetCount < expected.wet,
+    isDirtyShort: summary.fullCount < expected.dirty,
+    isFeedingShort: expectedFeeds !== null && feedCount < expectedFeeds,
+  };
+}
+
+// "3 of 6+ wet, 1 of 3+ dirty in the last 24h" for the counts that fall short, or null when output is fine
+export function formatOutputShortfall(adequacy: OutputAdequacy): string | null {
+  const short = [
+    adequacy.isWetShort && `${adequacy.wetCount} of ${adequacy.expected.wet}+ wet`,
+    adequacy.isDirtyShort && `${adequacy.dirtyCount} of ${adequacy.expected.dirty}+ dirty`,
+  ].filter(Boolean);
+
+  if (short.length === 0) {
+    return null;
+  }
+
+  return `${short.join(', ')} in the last ${OUTPUT_CHECK_HOURS}h`;
+}
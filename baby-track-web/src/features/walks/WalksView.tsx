@@ -11,6 +11,7 @@ import { createCompleteWalkSession, subscribeToWalkSessions } from '@/lib/firest
 import { useAuth } from '@/features/auth/AuthContext';
 import { useAppStore } from '@/stores/appStore';
 import { toast } from '@/stores/toastStore';
+import { useBabyPermissions } from '@/hooks/useBabyPermissions';
 import { Clock, Footprints, ChevronDown, ChevronUp } from 'lucide-react';
 
 const WALK_COLOR = '#8bc34a';
@@ -21,6 +22,7 @@ const QUICK_DURATIONS = [10, 15, 20, 30, 45, 60];
 export function WalksView() {
   const { user } = useAuth();
   const { selectedBaby, babies } = useAppStore();
+  const { can } = useBabyPermissions();
 
   const [sessions, setSessions] = useState<WalkSession[]>([]);
   const [notes, setNotes] = useState('');
@@ -127,7 +129,7 @@ export function WalksView() {
 
       <div className="px-4 py-4 space-y-5">
         {/* Quick Log Card */}
-        {!showManual && (
+        {can('log') && !showManual && (
           <Card>
             <div className="flex justify-center mb-4">
               <div
@@ -203,7 +205,7 @@ export function WalksView() {
         )}
 
         {/* Manual Entry Mode */}
-        {showManual && (
+        {can('log') && showManual && (
           <Card>
             <CardHeader
               title="Log Past Walk"
@@ -0,0 +1,21 @@
+import { useAppStore } from '@/stores/appStore';
+import { getBabyRole, roleCan, roleCanFinish } from '@/types';
+import type { BabyPermission, BabyRole, CaregiverAttribution } from '@/types';
+
+export interface BabyPermissions {
+  role: BabyRole | null;
+  can: (permission: BabyPermission) => boolean;
+  canFinish: (entry: CaregiverAttribution & { userId?: string; isActive?: boolean }) => boolean;
+}
+
+// The signed-in user's role for the selected baby, used to hide actions they aren't allowed
+export function useBabyPermissions(): BabyPermissions {
+  const { selectedBaby, userId } = useAppStore();
+  const role = selectedBaby ? getBabyRole(selectedBaby, userId) : null;
+
+  return {
+    role,
+    can: (permission) => roleCan(role, permission),
+    canFinish: (entry) => roleCanFinish(role, entry, userId),
+  };
+}
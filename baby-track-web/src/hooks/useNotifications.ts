@@ -1,4 +1,5 @@
-import { useEffect, useRef, useCallback } from 'react';
+import { useEffect, useRef, useCallback, useState } from 'react';
+import { format, parseISO } from 'date-fns';
 import { useAppStore } from '@/stores/appStore';
 import { shouldSuppressNotifications } from '@/types/settings';
 import {
@@ -18,6 +19,22 @@ import {
   clearDiaperNotificationTracking,
   getMilkExpiryNotified,
   markMilkExpiryNotified,
+  getFormulaNotified,
+  markFormulaNotified,
+  clearFormulaNotified,
+  wasDailySummarySent,
+  markDailySummarySent,
+  getVaccinationReminderKey,
+  getVaccinationRemindersNotified,
+  markVaccinationRemindersNotified,
+  getLastSleepReminderWakeTime,
+  setLastSleepReminderWakeTime,
+  getPumpScheduleNotified,
+  markPumpScheduleNotified,
+  getPumpPartNotified,
+  markPumpPartNotified,
+  getLastOutputAlert,
+  setLastOutputAlert,
 } from '@/lib/notifications';
 import {
   subscribeToDiaperChanges,
@@ -26,50 +43,123 @@ import {
   subscribeToMedicines,
   subscribeToMedicineLogs,
   subscribeToMilkStash,
+  subscribeToFormulaContainers,
+  subscribeToPumpParts,
+  subscribeToPumpPartSessions,
+  subscribeToSleepSessions,
+  subscribeToPumpSessions,
+  subscribeToPlaySessions,
+  subscribeToWalkSessions,
+  subscribeToVaccinations,
 } from '@/lib/firestore';
-import type { FeedingSession, BottleSession, DiaperChange, Medicine, MedicineLog, MilkStash } from '@/types';
-import { getRoomTempExpirationMinutes } from '@/types/feeding';
+import type {
+  FeedingSession,
+  BottleSession,
+  DiaperChange,
+  Medicine,
+  MedicineLog,
+  MilkStash,
+  FormulaContainer,
+  PumpPart,
+  SleepSession,
+  PumpSession,
+  PlaySession,
+  WalkSession,
+  Vaccination,
+  VaccinationReminderStage,
+} from '@/types';
+import {
+  getRoomTempExpirationMinutes,
+  getLeftoverExpirationMinutes,
+  getPreparedFormulaExpirationMinutes,
+  isFormulaContainerExpired,
+  isFormulaStockLow,
+  getFormulaStockOz,
+  convertVolume,
+  getPumpScheduleSlots,
+} from '@/types/feeding';
+import { getDaysUntilVaccination, getVaccinationReminderStage } from '@/types/medical';
+import { getDevelopmentalAgeMonths, getHouseholdBabyIds } from '@/types/baby';
+import { getPumpPartName, getPumpPartWear, getPumpPartWearStart } from '@/types/equipment';
+import { getCaregiverName, getLoggedBy } from '@/types/caregiver';
+import { predictNextSleep } from '@/features/dashboard/smartSuggestions';
+import {
+  EMPTY_STATS_DATA,
+  buildEveningSummary,
+  buildMorningSummary,
+  buildOutputAdequacy,
+  formatOutputShortfall,
+} from '@/features/stats/statsProcessing';
 
 const CHECK_INTERVAL_MS = 60 * 1000; // Check every 60 seconds
+const SLEEP_REMINDER_LEAD_MINUTES = 15; // Notify this long before the predicted nap or bedtime
+const SLEEP_REMINDER_STALE_MINUTES = 60; // Skip predictions that passed long ago
+const DAILY_SUMMARY_WINDOW_HOURS = 3; // Still send a summary if the app opens a little late
+const PREPARED_FORMULA_WARNING_MINUTES = 15; // Warn this long before a prepared bottle should be discarded
+const FORMULA_LOW_STOCK_KEY = 'low-stock';
+const OUTPUT_ALERT_REPEAT_HOURS = 6; // Don't repeat a low output alert more often than this
+
+interface RecentActivity {
+  time: string;
+  loggedBy: string | null;
+}
 
 export function useNotifications() {
-  const { settings, selectedBaby, userId } = useAppStore();
+  const { settings, babies, selectedBaby, userId, userProfiles } = useAppStore();
   const feedingSessionsRef = useRef<FeedingSession[]>([]);
   const bottleSessionsRef = useRef<BottleSession[]>([]);
   const diaperChangesRef = useRef<DiaperChange[]>([]);
   const medicinesRef = useRef<Medicine[]>([]);
   const medicineLogsRef = useRef<MedicineLog[]>([]);
   const milkStashRef = useRef<MilkStash[]>([]);
-
-  // Get most recent feeding time across all types
-  const getMostRecentFeedingTime = useCallback((): string | null => {
-    const allFeedings: { time: string }[] = [];
+  const formulaContainersRef = useRef<FormulaContainer[] | null>(null); // Null until loaded
+  const pumpPartsRef = useRef<PumpPart[]>([]);
+  const pumpPartSessionsRef = useRef<PumpSession[]>([]);
+  const [pumpPartWearStart, setPumpPartWearStart] = useState<string | null>(null);
+  const sleepSessionsRef = useRef<SleepSession[]>([]);
+  const pumpSessionsRef = useRef<PumpSession[]>([]);
+  const playSessionsRef = useRef<PlaySession[]>([]);
+  const walkSessionsRef = useRef<WalkSession[]>([]);
+  const vaccinationsRef = useRef<Vaccination[]>([]);
+
+  // Get most recent feeding across all types, with who logged it
+  const getMostRecentFeeding = useCallback((): RecentActivity | null => {
+    const allFeedings: RecentActivity[] = [];
 
     // Add breastfeeding sessions
     feedingSessionsRef.current
       .filter((s) => !s.isActive && s.endTime)
-      .forEach((s) => allFeedings.push({ time: s.endTime! }));
+      .forEach((s) => allFeedings.push({ time: s.endTime!, loggedBy: getLoggedBy(s) }));
 
     // Add bottle sessions
-    bottleSessionsRef.current.forEach((s) => allFeedings.push({ time: s.timestamp }));
+    bottleSessionsRef.current.forEach((s) => allFeedings.push({ time: s.timestamp, loggedBy: getLoggedBy(s) }));
 
     if (allFeedings.length === 0) return null;
 
     // Sort by time descending and return most recent
     allFeedings.sort((a, b) => new Date(b.time).getTime() - new Date(a.time).getTime());
-    return allFeedings[0].time;
+    return allFeedings[0];
   }, []);
 
-  // Get most recent diaper change time
-  const getMostRecentDiaperTime = useCallback((): string | null => {
+  // Get most recent diaper change, with who logged it
+  const getMostRecentDiaper = useCallback((): RecentActivity | null => {
     if (diaperChangesRef.current.length === 0) return null;
 
     const sorted = [...diaperChangesRef.current].sort(
       (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
     );
-    return sorted[0].timestamp;
+    return { time: sorted[0].timestamp, loggedBy: getLoggedBy(sorted[0]) };
   }, []);
 
+  // " by Sam" when someone else logged the activity the reminder is about
+  const describeLoggedBy = useCallback(
+    (loggedBy: string | null): string => {
+      if (!loggedBy || loggedBy === userId) return '';
+      return ` by ${getCaregiverName(loggedBy, userId, userProfiles)}`;
+    },
+    [userId, userProfiles]
+  );
+
   // Check feeding reminder
   const checkFeedingReminder = useCallback(() => {
     if (!settings?.feedingReminderEnabled) return;
@@ -77,8 +167,9 @@ export function useNotifications() {
     if (getNotificationPermission() !== 'granted') return;
     if (shouldSuppressNotifications(settings)) return;
 
-    const mostRecentFeeding = getMostRecentFeedingTime();
-    if (!mostRecentFeeding) return;
+    const recentFeeding = getMostRecentFeeding();
+    if (!recentFeeding) return;
+    const mostRecentFeeding = recentFeeding.time;
 
     // Check if this is a new activity (reset tracking)
     const lastTrackedActivity = getLastFeedingActivity();
@@ -111,13 +202,13 @@ export function useNotifications() {
           : `${minutesAgo}m`;
 
       showNotification(`Time to feed ${selectedBaby.name}!`, {
-        body: `Last feeding was ${timeAgo} ago`,
+        body: `Last feeding was ${timeAgo} ago${describeLoggedBy(recentFeeding.loggedBy)}`,
         tag: 'feeding-reminder',
               });
 
       setLastFeedingNotification(new Date().toISOString());
     }
-  }, [settings, selectedBaby, getMostRecentFeedingTime]);
+  }, [settings, selectedBaby, getMostRecentFeeding, describeLoggedBy]);
 
   // Check diaper reminder
   const checkDiaperReminder = useCallback(() => {
@@ -126,8 +217,9 @@ export function useNotifications() {
     if (getNotificationPermission() !== 'granted') return;
     if (shouldSuppressNotifications(settings)) return;
 
-    const mostRecentDiaper = getMostRecentDiaperTime();
-    if (!mostRecentDiaper) return;
+    const recentDiaper = getMostRecentDiaper();
+    if (!recentDiaper) return;
+    const mostRecentDiaper = recentDiaper.time;
 
     // Check if this is a new activity (reset tracking)
     const lastTrackedActivity = getLastDiaperActivity();
@@ -160,13 +252,13 @@ export function useNotifications() {
           : `${minutesAgo}m`;
 
       showNotification(`Time to check ${selectedBaby.name}'s diaper!`, {
-        body: `Last change was ${timeAgo} ago`,
+        body: `Last change was ${timeAgo} ago${describeLoggedBy(recentDiaper.loggedBy)}`,
         tag: 'diaper-reminder',
               });
 
       setLastDiaperNotification(new Date().toISOString());
     }
-  }, [settings, selectedBaby, getMostRecentDiaperTime]);
+  }, [settings, selectedBaby, getMostRecentDiaper, describeLoggedBy]);
 
   // Check medicine reminders
   const checkMedicineReminders = useCallback(() => {
@@ -265,9 +357,22 @@ export function useNotifications() {
 
     // Check milk items that are "in use" (at room temperature)
     for (const milk of milkStashRef.current) {
-      if (!milk.isInUse || !milk.inUseStartDate) continue;
       if (notified.has(milk.id)) continue;
 
+      // Leftovers from a partly drunk bottle only keep for a short while
+      if (milk.leftoverSince) {
+        if (getLeftoverExpirationMinutes(milk.leftoverSince) <= 0) {
+          showNotification('Leftover milk has expired', {
+            body: 'Milk left over from a feed should be used within 2 hours. Discard it and mark it done.',
+            tag: `milk-expiry-${milk.id}`,
+          });
+          markMilkExpiryNotified(milk.id);
+        }
+        continue;
+      }
+
+      if (!milk.isInUse || !milk.inUseStartDate) continue;
+
       const minutesRemaining = getRoomTempExpirationMinutes(milk.inUseStartDate);
 
       // Notify when 30 minutes or less remaining
@@ -290,6 +395,282 @@ export function useNotifications() {
     }
   }, [settings]);
 
+  // Check formula alerts: prepared bottles left out, opened containers past their window, and low stock
+  const checkFormulaReminders = useCallback(() => {
+    if (getNotificationPermission() !== 'granted') return;
+    if (settings && shouldSuppressNotifications(settings)) return;
+
+    const containers = formulaContainersRef.current;
+    if (!containers) return;
+
+    const now = new Date();
+    const notified = getFormulaNotified((key) =>
+      key === FORMULA_LOW_STOCK_KEY || containers.some((container) =>
+        key.startsWith(`prepared-${container.id}-${container.preparedAt}-`) || key === `expired-${container.id}-${container.openedDate}`
+      )
+    );
+
+    for (const container of containers) {
+      if (container.preparedAt) {
+        const minutesRemaining = Math.round(getPreparedFormulaExpirationMinutes(container.preparedAt, now));
+        const stage = minutesRemaining <= 0 ? 'expired' : minutesRemaining <= PREPARED_FORMULA_WARNING_MINUTES ? 'soon' : null;
+        const key = `prepared-${container.id}-${container.preparedAt}-${stage}`;
+
+        if (stage && !notified.has(key)) {
+          showNotification(stage === 'expired' ? 'Discard the prepared bottle' : 'Prepared bottle expiring soon', {
+            body: stage === 'expired'
+              ? 'Mixed formula has been at room temperature for over 2 hours and should be thrown out.'
+              : `Mixed formula should be used within ${minutesRemaining} minutes.`,
+            tag: `formula-prepared-${container.id}`,
+          });
+          markFormulaNotified(key);
+        }
+      }
+
+      const expiredKey = `expired-${container.id}-${container.openedDate}`;
+      if (isFormulaContainerExpired(container, now) && !notified.has(expiredKey)) {
+        showNotification(`${container.brand} formula has expired`, {
+          body: `It has been open for more than ${container.openExpiryDays} days. Start a new container.`,
+          tag: `formula-expired-${container.id}`,
+        });
+        markFormulaNotified(expiredKey);
+      }
+    }
+
+    // One low-stock alert until the stock is topped up again
+    if (!isFormulaStockLow(containers, now)) {
+      if (notified.has(FORMULA_LOW_STOCK_KEY)) clearFormulaNotified(FORMULA_LOW_STOCK_KEY);
+      return;
+    }
+    if (notified.has(FORMULA_LOW_STOCK_KEY)) return;
+
+    const volumeUnit = settings?.preferredVolumeUnit ?? 'oz';
+    const stock = convertVolume(getFormulaStockOz(containers, now), 'oz', volumeUnit);
+    showNotification('Formula running low', {
+      body: `About ${Math.floor(stock)} ${volumeUnit} of formula left. Time to restock.`,
+      tag: 'formula-low-stock',
+    });
+    markFormulaNotified(FORMULA_LOW_STOCK_KEY);
+  }, [settings]);
+
+  // Check sleep reminder (shortly before the predicted nap or bedtime)
+  const checkSleepReminder = useCallback(() => {
+    if (!settings?.sleepReminderEnabled) return;
+    if (!selectedBaby) return;
+    if (getNotificationPermission() !== 'granted') return;
+    if (shouldSuppressNotifications(settings)) return;
+    if (sleepSessionsRef.current.some((s) => s.isActive)) return;
+
+    const now = new Date();
+    const prediction = predictNextSleep(sleepSessionsRef.current, getDevelopmentalAgeMonths(selectedBaby, now), now);
+    if (!prediction) return;
+
+    // One reminder per awake period
+    if (getLastSleepReminderWakeTime() === prediction.lastWakeTime) return;
+
+    const minutesUntilSleep = (prediction.predictedSleepTime.getTime() - now.getTime()) / (1000 * 60);
+    if (minutesUntilSleep > SLEEP_REMINDER_LEAD_MINUTES) return;
+    if (minutesUntilSleep < -SLEEP_REMINDER_STALE_MINUTES) return;
+
+    const isBedtime = prediction.sleepType === 'night';
+    const sleepTime = format(prediction.predictedSleepTime, 'h:mm a');
+
+    showNotification(isBedtime ? `Bedtime soon for ${selectedBaby.name}` : `Nap time soon for ${selectedBaby.name}`, {
+      body: `${isBedtime ? 'Bedtime' : 'The next nap'} is likely around ${sleepTime}. ${prediction.wakeWindowSource} is about ${Math.round(prediction.referenceWakeWindowMinutes)} min.`,
+      tag: 'sleep-reminder',
+    });
+
+    setLastSleepReminderWakeTime(prediction.lastWakeTime);
+  }, [settings, selectedBaby]);
+
+  // Check vaccination reminders (days before, on the day, and overdue)
+  const checkVaccinationReminders = useCallback(() => {
+    if (!settings?.vaccinationReminderEnabled) return;
+    if (!selectedBaby) return;
+    if (getNotificationPermission() !== 'granted') return;
+    if (shouldSuppressNotifications(settings)) return;
+
+    const notified = getVaccinationRemindersNotified();
+
+    // Doses given together share one notification; all overdue doses share another
+    const groups = new Map<string, { stage: VaccinationReminderStage; vaccinations: Vaccination[]; keys: string[] }>();
+
+    for (const vaccination of vaccinationsRef.current) {
+      const stage = getVaccinationReminderStage(vaccination, settings.vaccinationReminderDaysBefore);
+      if (!stage) continue;
+
+      const key = getVaccinationReminderKey(vaccination.id, vaccination.scheduledDate, stage);
+      if (notified.has(key)) continue;
+
+      const groupKey = stage === 'overdue' ? stage : `${stage}-${vaccination.scheduledDate}`;
+      const group = groups.get(groupKey) ?? { stage, vaccinations: [], keys: [] };
+      group.vaccinations.push(vaccination);
+      group.keys.push(key);
+      groups.set(groupKey, group);
+    }
+
+    for (const [groupKey, { stage, vaccinations, keys }] of groups) {
+      const names = vaccinations.map((v) => v.name).join(', ');
+      const subject = vaccinations.length === 1 ? vaccinations[0].name : `${vaccinations.length} vaccinations`;
+
+      if (stage === 'overdue') {
+        showNotification(`${subject} ${vaccinations.length === 1 ? 'is' : 'are'} overdue`, {
+          body: `Mark ${selectedBaby.name}'s ${names} as given or reschedule`,
+          tag: 'vaccination-overdue',
+        });
+      } else if (stage === 'due') {
+        showNotification(`${subject} due today`, {
+          body: `${selectedBaby.name} is scheduled for ${names} today`,
+          tag: `vaccination-${groupKey}`,
+        });
+      } else {
+        const scheduledDate = vaccinations[0].scheduledDate;
+        const daysUntil = getDaysUntilVaccination(scheduledDate);
+        showNotification(`${subject} in ${daysUntil} day${daysUntil !== 1 ? 's' : ''}`, {
+          body: `${selectedBaby.name} is scheduled for ${names} on ${format(parseISO(scheduledDate), 'EEE, MMM d')}`,
+          tag: `vaccination-${groupKey}`,
+        });
+      }
+
+      markVaccinationRemindersNotified(keys);
+    }
+  }, [settings, selectedBaby]);
+
+  // Check planned pumping times that have come up without a session
+  const checkPumpSchedule = useCallback(() => {
+    if (!settings?.pumpScheduleEnabled) return;
+    if (settings.pumpScheduleTimes.length === 0) return;
+    if (getNotificationPermission() !== 'granted') return;
+    if (shouldSuppressNotifications(settings)) return;
+
+    const now = new Date();
+    const today = format(now, 'yyyy-MM-dd');
+    const notified = getPumpScheduleNotified(today);
+
+    const dueSlots = getPumpScheduleSlots(settings.pumpScheduleTimes, pumpSessionsRef.current, now, now)
+      .filter((slot) => slot.status === 'due' && slot.scheduledAt <= now && !notified.has(`${today} ${slot.time}`));
+
+    for (const slot of dueSlots) {
+      showNotification('Time to pump', {
+        body: `Your ${format(slot.scheduledAt, 'h:mm a')} pumping session is due`,
+        tag: 'pump-schedule',
+      });
+      markPumpScheduleNotified(today, slot.time);
+    }
+  }, [settings]);
+
+  // Check pump parts that have reached their replacement interval
+  const checkPumpPartReminders = useCallback(() => {
+    if (getNotificationPermission() !== 'granted') return;
+    if (settings && shouldSuppressNotifications(settings)) return;
+
+    const notified = getPumpPartNotified();
+
+    for (const part of pumpPartsRef.current) {
+      const key = `${part.id}:${part.installedDate}`;
+      if (notified.has(key)) continue;
+
+      const wear = getPumpPartWear(part, pumpPartSessionsRef.current);
+      if (!wear.isDue) continue;
+
+      showNotification(`Time to replace your ${getPumpPartName(part).toLowerCase()}`, {
+        body: part.replaceEveryUnit === 'hours'
+          ? `${wear.used} of ${part.replaceEvery} pump hours used. Worn parts can lower suction.`
+          : `${Math.floor(wear.used)} of ${part.replaceEvery} days in use. Worn parts can lower suction.`,
+        tag: `pump-part-${part.id}`,
+      });
+      markPumpPartNotified(key);
+    }
+  }, [settings]);
+
+  // Check wet and dirty diapers in the last 24 hours against the baby's age
+  const checkOutputAdequacy = useCallback(() => {
+    if (!settings?.outputAlertEnabled) return;
+    if (!selectedBaby) return;
+    if (getNotificationPermission() !== 'granted') return;
+    if (shouldSuppressNotifications(settings)) return;
+
+    const now = new Date();
+    const adequacy = buildOutputAdequacy(
+      {
+        ...EMPTY_STATS_DATA,
+        feedingSessions: feedingSessionsRef.current,
+        bottleSessions: bottleSessionsRef.current,
+        diaperChanges: diaperChangesRef.current,
+      },
+      selectedBaby.birthDate,
+      now
+    );
+    const shortfall = adequacy ? formatOutputShortfall(adequacy) : null;
+    if (!adequacy || !shortfall) return;
+
+    const lastAlert = getLastOutputAlert(selectedBaby.id);
+    if (lastAlert && (now.getTime() - parseISO(lastAlert).getTime()) / (1000 * 60 * 60) < OUTPUT_ALERT_REPEAT_HOURS) {
+      return;
+    }
+
+    showNotification(`Low diaper output for ${selectedBaby.name}`, {
+      body: adequacy.isFeedingShort
+        ? `${shortfall}, with ${adequacy.feedCount} feeds. Offer more feeds and call your pediatrician if it continues.`
+        : `${shortfall}. Call your pediatrician if it continues.`,
+      tag: `output-alert-${selectedBaby.id}`,
+    });
+    setLastOutputAlert(selectedBaby.id, now.toISOString());
+  }, [settings, selectedBaby]);
+
+  // Check morning and evening daily summaries
+  const checkDailySummaries = useCallback(() => {
+    if (!settings?.dailySummaryEnabled) return;
+    if (!selectedBaby) return;
+    if (getNotificationPermission() !== 'granted') return;
+    if (shouldSuppressNotifications(settings)) return;
+
+    const now = new Date();
+    const today = format(now, 'yyyy-MM-dd');
+    const currentHour = now.getHours();
+    const isDue = (hour: number) => currentHour >= hour && currentHour < hour + DAILY_SUMMARY_WINDOW_HOURS;
+
+    const data = {
+      feedingSessions: feedingSessionsRef.current,
+      pumpSessions: pumpSessionsRef.current,
+      bottleSessions: bottleSessionsRef.current,
+      sleepSessions: sleepSessionsRef.current,
+      diaperChanges: diaperChangesRef.current,
+      playSessions: playSessionsRef.current,
+      walkSessions: walkSessionsRef.current,
+    };
+
+    if (
+      settings.morningSummaryEnabled &&
+      isDue(settings.morningSummaryHour) &&
+      !wasDailySummarySent('morning', selectedBaby.id, today)
+    ) {
+      const summary = buildMorningSummary(data, selectedBaby.name, settings.preferredVolumeUnit, now);
+      if (summary) {
+        showNotification(summary.title, {
+          body: summary.body,
+          tag: `morning-summary-${selectedBaby.id}`,
+        });
+        markDailySummarySent('morning', selectedBaby.id, today);
+      }
+    }
+
+    if (
+      settings.eveningSummaryEnabled &&
+      isDue(settings.eveningSummaryHour) &&
+      !wasDailySummarySent('evening', selectedBaby.id, today)
+    ) {
+      const summary = buildEveningSummary(data, selectedBaby.name, settings.preferredVolumeUnit, now);
+      if (summary) {
+        showNotification(summary.title, {
+          body: summary.body,
+          tag: `evening-summary-${selectedBaby.id}`,
+        });
+        markDailySummarySent('evening', selectedBaby.id, today);
+      }
+    }
+  }, [settings, selectedBaby]);
+
   // Subscribe to data
   useEffect(() => {
     if (!selectedBaby) return;
@@ -326,48 +707,143 @@ export function useNotifications() {
 
     // Subscribe to medicine logs
     unsubscribers.push(
-      subscribeToMedicineLogs(selectedBaby.id, (logs) => {
+      subscribeToMedicineLogs(selectedBaby.id, null, (logs) => {
         medicineLogsRef.current = logs;
       })
     );
 
+    // Subscribe to vaccinations
+    unsubscribers.push(
+      subscribeToVaccinations(selectedBaby.id, (vaccinations) => {
+        vaccinationsRef.current = vaccinations;
+      })
+    );
+
+    // Subscribe to sleep sessions
+    unsubscribers.push(
+      subscribeToSleepSessions(selectedBaby.id, (sessions) => {
+        sleepSessionsRef.current = sessions;
+      })
+    );
+
+    // Subscribe to the remaining activities used by daily summaries
+    unsubscribers.push(
+      subscribeToPumpSessions(selectedBaby.id, (sessions) => {
+        pumpSessionsRef.current = sessions;
+      })
+    );
+
+    unsubscribers.push(
+      subscribeToPlaySessions(selectedBaby.id, (sessions) => {
+        playSessionsRef.current = sessions;
+      })
+    );
+
+    unsubscribers.push(
+      subscribeToWalkSessions(selectedBaby.id, (sessions) => {
+        walkSessionsRef.current = sessions;
+      })
+    );
+
     return () => {
       unsubscribers.forEach((unsub) => unsub());
     };
   }, [selectedBaby]);
 
-  // Subscribe to milk stash (user-based, not baby-based)
+  // Subscribe to the milk stash shared by the selected baby's household
+  const householdKey = selectedBaby ? getHouseholdBabyIds(babies, selectedBaby.id).join(',') : '';
+
   useEffect(() => {
-    if (!userId) return;
+    if (!userId || !householdKey) return;
 
-    const unsubscribe = subscribeToMilkStash(userId, (stash) => {
+    const unsubscribe = subscribeToMilkStash(householdKey.split(','), (stash) => {
       milkStashRef.current = stash;
     });
 
+    return () => unsubscribe();
+  }, [userId, householdKey]);
+
+  // Subscribe to formula inventory (household-based, like the milk stash)
+  useEffect(() => {
+    if (!userId || !householdKey) return;
+
+    const unsubscribe = subscribeToFormulaContainers(householdKey.split(','), (containers) => {
+      formulaContainersRef.current = containers;
+    });
+
+    return () => unsubscribe();
+  }, [userId, householdKey]);
+
+  // Subscribe to pump parts (user-based)
+  useEffect(() => {
+    if (!userId) return;
+
+    const unsubscribe = subscribeToPumpParts(userId, (parts) => {
+      pumpPartsRef.current = parts;
+      setPumpPartWearStart(getPumpPartWearStart(parts));
+    });
+
     return () => unsubscribe();
   }, [userId]);
 
+  // Subscribe to the part owner's pumping for any baby since the oldest part went in, for part wear
+  useEffect(() => {
+    if (!userId || !pumpPartWearStart) return;
+
+    const unsubscribe = subscribeToPumpPartSessions(userId, pumpPartWearStart, (sessions) => {
+      pumpPartSessionsRef.current = sessions;
+    });
+
+    return () => unsubscribe();
+  }, [userId, pumpPartWearStart]);
+
   // Set up interval to check reminders
   useEffect(() => {
     // Initial check after a short delay
     const initialTimeout = setTimeout(() => {
       checkFeedingReminder();
       checkDiaperReminder();
+      checkSleepReminder();
       checkMedicineReminders();
       checkMilkExpiryReminder();
+      checkFormulaReminders();
+      checkVaccinationReminders();
+      checkPumpSchedule();
+      checkPumpPartReminders();
+      checkOutputAdequacy();
+      checkDailySummaries();
     }, 5000);
 
     // Regular interval checks
     const interval = setInterval(() => {
       checkFeedingReminder();
       checkDiaperReminder();
+      checkSleepReminder();
       checkMedicineReminders();
       checkMilkExpiryReminder();
+      checkFormulaReminders();
+      checkVaccinationReminders();
+      checkPumpSchedule();
+      checkPumpPartReminders();
+      checkOutputAdequacy();
+      checkDailySummaries();
     }, CHECK_INTERVAL_MS);
 
     return () => {
       clearTimeout(initialTimeout);
       clearInterval(interval);
     };
-  }, [checkFeedingReminder, checkDiaperReminder, checkMedicineReminders, checkMilkExpiryReminder]);
+  }, [
+    checkFeedingReminder,
+    checkDiaperReminder,
+    checkSleepReminder,
+    checkMedicineReminders,
+    checkMilkExpiryReminder,
+    checkFormulaReminders,
+    checkVaccinationReminders,
+    checkPumpSchedule,
+    checkPumpPartReminders,
+    checkOutputAdequacy,
+    checkDailySummaries,
+  ]);
 }
@@ -0,0 +1,35 @@
+// Short audible cue for timers that change phase while the phone is set aside
+
+let audioContext: AudioContext | null = null;
+
+function getAudioContext(): AudioContext | null {
+  if (typeof window === 'undefined' || !('AudioContext' in window)) return null;
+  audioContext ??= new AudioContext();
+  return audioContext;
+}
+
+// Browsers only allow audio after a tap, so call this from the button that starts the timer
+export function unlockChime(): void {
+  void getAudioContext()?.resume();
+}
+
+// Two rising notes, with a buzz on phones that support it
+export function playChime(): void {
+  const context = getAudioContext();
+  if (context) {
+    [660, 880].forEach((frequency, index) => {
+      const start = context.currentTime + index * 0.25;
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.0001, start);
+      gain.gain.exponentialRampToValueAtTime(0.3, start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.4);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.4);
+    });
+  }
+  navigator.vibrate?.([200, 100, 200]);
+}
@@ -0,0 +1,386 @@
+import { describe, it, beforeAll, beforeEach, afterAll } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import {
+  Timestamp,
+  arrayRemove,
+  arrayUnion,
+  deleteDoc,
+  deleteField,
+  doc,
+  collection,
+  getDoc,
+  getDocs,
+  query,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import rules from '../../firestore.rules?raw';
+
+// Runs against the Firestore emulator: `npm run test:rules`
+const emulatorHost = import.meta.env.FIRESTORE_EMULATOR_HOST as string | undefined;
+
+const OWNER = 'owner-1';
+const CO_PARENT = 'co-parent-1';
+const CAREGIVER = 'caregiver-1';
+const VIEWER = 'viewer-1';
+const LEGACY_PARTNER = 'legacy-1';
+const STRANGER = 'stranger-1';
+
+const now = '2024-03-10T09:00:00.000Z';
+
+const newInvite = (overrides: Record<string, unknown> = {}) => ({
+  babyId: 'baby-1',
+  babyName: 'Test Baby',
+  createdBy: OWNER,
+  role: null,
+  expiresAt: Timestamp.fromMillis(Date.now() + 24 * 60 * 60 * 1000),
+  maxUses: 1,
+  usedBy: [],
+  revokedAt: null,
+  createdAt: now,
+  updatedAt: now,
+  ...overrides,
+});
+
+describe.skipIf(!emulatorHost)('firestore.rules', () => {
+  let testEnv: RulesTestEnvironment;
+
+  const db = (uid: string) => testEnv.authenticatedContext(uid).firestore();
+
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      projectId: 'baby-track-rules',
+      firestore: { rules },
+    });
+  });
+
+  afterAll(async () => {
+    await testEnv?.cleanup();
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      const admin = context.firestore();
+      await setDoc(doc(admin, 'babies', 'baby-1'), {
+        userId: OWNER,
+        name: 'Test Baby',
+        sharedWith: [CO_PARENT, CAREGIVER, VIEWER, LEGACY_PARTNER],
+        roles: { [CO_PARENT]: 'coParent', [CAREGIVER]: 'caregiver', [VIEWER]: 'viewer' },
+        createdAt: now,
+        updatedAt: now,
+      });
+      await setDoc(doc(admin, 'invites', 'INVITE23'), newInvite({ role: 'caregiver' }));
+      await setDoc(doc(admin, 'invites', 'EXPIRED2'), newInvite({ expiresAt: Timestamp.fromMillis(Date.now() - 1000) }));
+      await setDoc(doc(admin, 'diaperChanges', 'diaper-1'), {
+        babyId: 'baby-1',
+        userId: OWNER,
+        loggedBy: OWNER,
+        type: 'wet',
+        timestamp: now,
+      });
+      await setDoc(doc(admin, 'sleepSessions', 'sleep-1'), {
+        babyId: 'baby-1',
+        userId: CAREGIVER,
+        loggedBy: CAREGIVER,
+        isActive: true,
+        startTime: now,
+        endTime: null,
+      });
+      await setDoc(doc(admin, 'vaccinations', 'vaccination-1'), {
+        babyId: 'baby-1',
+        userId: OWNER,
+        loggedBy: OWNER,
+        name: 'DTaP',
+        scheduledDate: '2024-03-13',
+        administeredDate: null,
+      });
+      await setDoc(doc(admin, 'medicineLogs', 'medicine-log-1'), {
+        babyId: 'baby-1',
+        medicineId: 'medicine-1',
+        userId: OWNER,
+        loggedBy: OWNER,
+        timestamp: now,
+      });
+      await setDoc(doc(admin, 'milkStash', 'stash-1'), {
+        babyId: 'baby-1',
+        userId: OWNER,
+        isUsed: false,
+        expirationDate: now,
+      });
+      await setDoc(doc(admin, 'formulaContainers', 'formula-1'), {
+        babyId: 'baby-1',
+        userId: OWNER,
+        remainingAmount: 30,
+        isFinished: false,
+      });
+      await setDoc(doc(admin, 'formulaContainers', 'formula-legacy'), {
+        userId: CAREGIVER,
+        remainingAmount: 30,
+        isFinished: false,
+      });
+    });
+  });
+
+  const newDiaper = (uid: string) => ({
+    babyId: 'baby-1',
+    userId: uid,
+    loggedBy: uid,
+    type: 'full',
+    timestamp: now,
+  });
+
+  describe('reading', () => {
+    it('lets every role read the baby and its entries', async () => {
+      for (const uid of [OWNER, CO_PARENT, CAREGIVER, VIEWER, LEGACY_PARTNER]) {
+        await assertSucceeds(getDoc(doc(db(uid), 'babies', 'baby-1')));
+        await assertSucceeds(getDoc(doc(db(uid), 'diaperChanges', 'diaper-1')));
+        await assertSucceeds(getDoc(doc(db(uid), 'vaccinations', 'vaccination-1')));
+      }
+    });
+
+    it('keeps other users out', async () => {
+      await assertFails(getDoc(doc(db(STRANGER), 'babies', 'baby-1')));
+      await assertFails(getDoc(doc(db(STRANGER), 'diaperChanges', 'diaper-1')));
+      await assertFails(getDoc(doc(testEnv.unauthenticatedContext().firestore(), 'babies', 'baby-1')));
+    });
+  });
+
+  // The same queries the subscriptions in firestore.ts run. Rules aren't filters: a query is only
+  // allowed when its own constraints guarantee every match is readable.
+  describe('queries', () => {
+    const diaperChangesQuery = (uid: string) =>
+      query(collection(db(uid), 'diaperChanges'), where('babyId', '==', 'baby-1'));
+
+    // subscribeToMedicineLogs
+    const medicineLogsQuery = (uid: string) =>
+      query(
+        collection(db(uid), 'medicineLogs'),
+        where('babyId', '==', 'baby-1'),
+        where('medicineId', '==', 'medicine-1')
+      );
+
+    // subscribeToMilkStash
+    const milkStashQuery = (uid: string) =>
+      query(collection(db(uid), 'milkStash'), where('babyId', 'in', ['baby-1']), where('isUsed', '==', false));
+
+    // subscribeToFormulaContainers
+    const formulaContainersQuery = (uid: string) =>
+      query(collection(db(uid), 'formulaContainers'), where('babyId', 'in', ['baby-1']), where('isFinished', '==', false));
+
+    it('lets every role run the baby data subscriptions', async () => {
+      for (const uid of [OWNER, CO_PARENT, CAREGIVER, VIEWER, LEGACY_PARTNER]) {
+        await assertSucceeds(getDocs(diaperChangesQuery(uid)));
+        await assertSucceeds(getDocs(medicineLogsQuery(uid)));
+        await assertSucceeds(getDocs(milkStashQuery(uid)));
+        await assertSucceeds(getDocs(formulaContainersQuery(uid)));
+      }
+    });
+
+    it('rejects queries the rules cannot check or the user cannot read', async () => {
+      await assertFails(getDocs(query(collection(db(OWNER), 'medicineLogs'), where('medicineId', '==', 'medicine-1'))));
+      await assertFails(getDocs(diaperChangesQuery(STRANGER)));
+      await assertFails(getDocs(medicineLogsQuery(STRANGER)));
+    });
+
+    it('lets part owners read their own pump sessions for any baby', async () => {
+      // subscribeToPumpPartSessions
+      const pumpPartSessionsQuery = (uid: string, owner: string) =>
+        query(collection(db(uid), 'pumpSessions'), where('userId', '==', owner), where('startTime', '>=', now));
+      await assertSucceeds(getDocs(pumpPartSessionsQuery(CAREGIVER, CAREGIVER)));
+      await assertSucceeds(getDocs(pumpPartSessionsQuery(STRANGER, STRANGER)));
+      await assertFails(getDocs(pumpPartSessionsQuery(OWNER, CAREGIVER)));
+    });
+
+    it('only lets the owner list invites', async () => {
+      const invitesQuery = (uid: string) => query(collection(db(uid), 'invites'), where('babyId', '==', 'baby-1'));
+      await assertSucceeds(getDocs(invitesQuery(OWNER)));
+      await assertFails(getDocs(invitesQuery(CO_PARENT)));
+    });
+  });
+
+  describe('logging', () => {
+    it('lets owners, co-parents and caregivers log but not viewers', async () => {
+      await assertSucceeds(setDoc(doc(db(OWNER), 'diaperChanges', 'new-owner'), newDiaper(OWNER)));
+      await assertSucceeds(setDoc(doc(db(CO_PARENT), 'diaperChanges', 'new-co-parent'), newDiaper(CO_PARENT)));
+      await assertSucceeds(setDoc(doc(db(CAREGIVER), 'diaperChanges', 'new-caregiver'), newDiaper(CAREGIVER)));
+      await assertFails(setDoc(doc(db(VIEWER), 'diaperChanges', 'new-viewer'), newDiaper(VIEWER)));
+      await assertFails(setDoc(doc(db(STRANGER), 'diaperChanges', 'new-stranger'), newDiaper(STRANGER)));
+    });
+
+    it('requires entries to be logged by the signed-in user', async () => {
+      await assertFails(setDoc(doc(db(CAREGIVER), 'diaperChanges', 'spoofed'), newDiaper(OWNER)));
+    });
+  });
+
+  describe('editing history', () => {
+    it('lets owners and co-parents edit and delete entries', async () => {
+      await assertSucceeds(updateDoc(doc(db(CO_PARENT), 'diaperChanges', 'diaper-1'), { type: 'full' }));
+      await assertSucceeds(updateDoc(doc(db(LEGACY_PARTNER), 'diaperChanges', 'diaper-1'), { type: 'wet' }));
+      await assertSucceeds(deleteDoc(doc(db(OWNER), 'diaperChanges', 'diaper-1')));
+    });
+
+    it('stops caregivers and viewers from editing or deleting entries', async () => {
+      await assertFails(updateDoc(doc(db(CAREGIVER), 'diaperChanges', 'diaper-1'), { type: 'full' }));
+      await assertFails(deleteDoc(doc(db(CAREGIVER), 'diaperChanges', 'diaper-1')));
+      await assertFails(updateDoc(doc(db(VIEWER), 'diaperChanges', 'diaper-1'), { type: 'full' }));
+    });
+
+    it('lets caregivers finish a timer they started', async () => {
+      await assertSucceeds(updateDoc(doc(db(CAREGIVER), 'sleepSessions', 'sleep-1'), { isActive: false, endTime: now }));
+      // Once finished it is history
+      await assertFails(updateDoc(doc(db(CAREGIVER), 'sleepSessions', 'sleep-1'), { notes: 'Edited' }));
+    });
+  });
+
+  describe('household formula', () => {
+    it('lets anyone who logs for the baby use shared containers', async () => {
+      await assertSucceeds(updateDoc(doc(db(CAREGIVER), 'formulaContainers', 'formula-1'), { remainingAmount: 26 }));
+      await assertFails(updateDoc(doc(db(VIEWER), 'formulaContainers', 'formula-1'), { remainingAmount: 22 }));
+      await assertFails(updateDoc(doc(db(CAREGIVER), 'formulaContainers', 'formula-1'), { babyId: 'baby-2' }));
+      await assertFails(deleteDoc(doc(db(CAREGIVER), 'formulaContainers', 'formula-1')));
+      await assertSucceeds(deleteDoc(doc(db(CO_PARENT), 'formulaContainers', 'formula-1')));
+    });
+
+    it('only lets the person who added an unshared container move it into a household', async () => {
+      await assertFails(getDoc(doc(db(OWNER), 'formulaContainers', 'formula-legacy')));
+      await assertFails(updateDoc(doc(db(OWNER), 'formulaContainers', 'formula-legacy'), { babyId: 'baby-1' }));
+      await assertSucceeds(updateDoc(doc(db(CAREGIVER), 'formulaContainers', 'formula-legacy'), { babyId: 'baby-1' }));
+    });
+  });
+
+  describe('deletion records', () => {
+    const deleteWithRecord = (uid: string, collectionPath: string, entryId: string, overrides: Record<string, unknown> = {}) => {
+      const firestore = db(uid);
+      const batch = writeBatch(firestore);
+      batch.delete(doc(firestore, collectionPath, entryId));
+      batch.set(doc(collection(firestore, 'deletedEntries')), {
+        babyId: 'baby-1',
+        collection: collectionPath,
+        entryId,
+        entry: {},
+        loggedBy: OWNER,
+        deletedBy: uid,
+        deletedAt: now,
+        ...overrides,
+      });
+      return batch.commit();
+    };
+
+    it('records who deleted an entry alongside the delete', async () => {
+      await assertSucceeds(deleteWithRecord(CO_PARENT, 'diaperChanges', 'diaper-1'));
+      await assertSucceeds(deleteWithRecord(OWNER, 'milkStash', 'stash-1'));
+      for (const uid of [OWNER, VIEWER]) {
+        await assertSucceeds(getDocs(query(collection(db(uid), 'deletedEntries'), where('babyId', '==', 'baby-1'))));
+      }
+      await assertFails(getDocs(query(collection(db(STRANGER), 'deletedEntries'), where('babyId', '==', 'baby-1'))));
+    });
+
+    it('rejects records that are spoofed or not tied to a delete', async () => {
+      await assertFails(deleteWithRecord(CO_PARENT, 'diaperChanges', 'diaper-1', { deletedBy: OWNER }));
+      await assertFails(setDoc(doc(db(CAREGIVER), 'deletedEntries', 'fake'), {
+        babyId: 'baby-1',
+        collection: 'diaperChanges',
+        entryId: 'diaper-1',
+        entry: {},
+        loggedBy: OWNER,
+        deletedBy: CAREGIVER,
+        deletedAt: now,
+      }));
+    });
+  });
+
+  describe('medical records', () => {
+    it('limits changes to owners and co-parents', async () => {
+      await assertSucceeds(updateDoc(doc(db(CO_PARENT), 'vaccinations', 'vaccination-1'), { administeredDate: '2024-03-13' }));
+      await assertFails(updateDoc(doc(db(CAREGIVER), 'vaccinations', 'vaccination-1'), { administeredDate: '2024-03-13' }));
+      await assertFails(deleteDoc(doc(db(CAREGIVER), 'vaccinations', 'vaccination-1')));
+      await assertFails(setDoc(doc(db(CAREGIVER), 'vaccinations', 'new'), { babyId: 'baby-1', name: 'MMR' }));
+    });
+  });
+
+  describe('sharing', () => {
+    it('only lets the owner change roles and remove people', async () => {
+      await assertSucceeds(updateDoc(doc(db(OWNER), 'babies', 'baby-1'), { [`roles.${VIEWER}`]: 'caregiver' }));
+      await assertFails(updateDoc(doc(db(CO_PARENT), 'babies', 'baby-1'), { [`roles.${CAREGIVER}`]: 'coParent' }));
+      await assertFails(updateDoc(doc(db(CAREGIVER), 'babies', 'baby-1'), { [`roles.${CAREGIVER}`]: 'coParent' }));
+      await assertSucceeds(updateDoc(doc(db(CO_PARENT), 'babies', 'baby-1'), { name: 'Renamed' }));
+      await assertFails(updateDoc(doc(db(CAREGIVER), 'babies', 'baby-1'), { name: 'Renamed' }));
+      await assertFails(deleteDoc(doc(db(CO_PARENT), 'babies', 'baby-1')));
+
+      const removeViewer = { sharedWith: arrayRemove(VIEWER), [`roles.${VIEWER}`]: deleteField() };
+      await assertFails(updateDoc(doc(db(CO_PARENT), 'babies', 'baby-1'), removeViewer));
+      await assertSucceeds(updateDoc(doc(db(OWNER), 'babies', 'baby-1'), removeViewer));
+    });
+
+    // Mirrors joinBabyByInvite: add the user to the baby and record the use in one batch
+    const joinWithInvite = (uid: string, token: string, role: string) => {
+      const batch = writeBatch(db(uid));
+      batch.update(doc(db(uid), 'babies', 'baby-1'), {
+        sharedWith: arrayUnion(uid),
+        [`roles.${uid}`]: role,
+        lastInviteId: token,
+        updatedAt: now,
+      });
+      batch.update(doc(db(uid), 'invites', token), { usedBy: arrayUnion(uid), updatedAt: now });
+      return batch.commit();
+    };
+
+    it('lets a new user join with the invite role only', async () => {
+      await assertSucceeds(getDoc(doc(db(STRANGER), 'invites', 'INVITE23')));
+      await assertFails(joinWithInvite(STRANGER, 'INVITE23', 'coParent'));
+      await assertSucceeds(joinWithInvite(STRANGER, 'INVITE23', 'caregiver'));
+    });
+
+    it('rejects expired, revoked and used-up invites', async () => {
+      await assertFails(joinWithInvite(STRANGER, 'EXPIRED2', 'viewer'));
+
+      await updateDoc(doc(db(OWNER), 'invites', 'INVITE23'), { revokedAt: now });
+      await assertFails(joinWithInvite(STRANGER, 'INVITE23', 'caregiver'));
+
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        await setDoc(doc(context.firestore(), 'invites', 'USEDUP23'), newInvite({ usedBy: ['someone'] }));
+      });
+      await assertFails(joinWithInvite(STRANGER, 'USEDUP23', 'viewer'));
+    });
+
+    it('only lets the owner create and revoke invites', async () => {
+      await assertSucceeds(setDoc(doc(db(OWNER), 'invites', 'NEWCODE2'), newInvite()));
+      await assertFails(setDoc(doc(db(CO_PARENT), 'invites', 'NEWCODE3'), newInvite({ createdBy: CO_PARENT })));
+      await assertSucceeds(updateDoc(doc(db(OWNER), 'invites', 'INVITE23'), { revokedAt: now }));
+      await assertFails(updateDoc(doc(db(CO_PARENT), 'invites', 'INVITE23'), { revokedAt: now }));
+      await assertFails(updateDoc(doc(db(OWNER), 'invites', 'INVITE23'), { maxUses: 10 }));
+    });
+  });
+
+  describe('user profiles', () => {
+    const newProfile = (overrides: Record<string, unknown> = {}) => ({
+      displayName: 'Dana',
+      avatarColor: 'blue',
+      relationship: 'mom',
+      createdAt: now,
+      updatedAt: now,
+      ...overrides,
+    });
+
+    it('lets users write only their own profile', async () => {
+      await assertSucceeds(setDoc(doc(db(OWNER), 'userProfiles', OWNER), newProfile()));
+      await assertFails(setDoc(doc(db(CO_PARENT), 'userProfiles', OWNER), newProfile()));
+      await assertFails(setDoc(doc(db(OWNER), 'userProfiles', OWNER), newProfile({ relationship: 'boss' })));
+      await assertFails(setDoc(doc(db(OWNER), 'userProfiles', OWNER), newProfile({ displayName: 'x'.repeat(41) })));
+    });
+
+    it('lets signed-in users read profiles', async () => {
+      await assertSucceeds(setDoc(doc(db(OWNER), 'userProfiles', OWNER), newProfile()));
+      await assertSucceeds(getDoc(doc(db(VIEWER), 'userProfiles', OWNER)));
+      await assertFails(getDoc(doc(testEnv.unauthenticatedContext().firestore(), 'userProfiles', OWNER)));
+    });
+  });
+});
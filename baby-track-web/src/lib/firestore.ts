@@ -2,8 +2,10 @@ import {
   collection,
   doc,
   addDoc,
+  setDoc,
   updateDoc,
   deleteDoc,
+  deleteField,
   getDoc,
   getDocs,
   query,
@@ -13,7 +15,11 @@ import {
   arrayUnion,
   or,
   writeBatch,
+  runTransaction,
+  type WriteBatch,
+  type DocumentData,
   limit as firestoreLimit,
+  documentId,
 } from 'firebase/firestore';
 import { db } from './firebase';
 import { useAppStore } from '@/stores/appStore';
@@ -23,6 +29,40 @@ function markPendingWrite() {
   useAppStore.getState().setPendingWrites(true);
 }
 
+// Helper to get the signed-in caregiver making an edit, recorded as updatedBy
+function getActorId(): string | null {
+  return useAppStore.getState().userId;
+}
+
+// Helper to delete an entry in a batch. Baby data also gets a deletedEntries record of who
+// deleted it, written in the same batch so the two can't drift apart. Returns the deleted data.
+async function addDeleteToBatch(batch: WriteBatch, collectionPath: string, docId: string): Promise<DocumentData | undefined> {
+  const ref = doc(db, collectionPath, docId);
+  const docSnap = await getDoc(ref);
+  const entry = docSnap.data();
+  const deletedBy = getActorId();
+
+  batch.delete(ref);
+  if (!entry?.babyId || !deletedBy) return entry;
+
+  batch.set(doc(collection(db, 'deletedEntries')), {
+    babyId: entry.babyId,
+    collection: collectionPath,
+    entryId: docId,
+    entry,
+    loggedBy: entry.loggedBy ?? entry.userId ?? null,
+    deletedBy,
+    deletedAt: new Date().toISOString(),
+  });
+  return entry;
+}
+
+async function deleteWithRecord(collectionPath: string, docId: string): Promise<void> {
+  const batch = writeBatch(db);
+  await addDeleteToBatch(batch, collectionPath, docId);
+  await batch.commit();
+}
+
 // Helper to get local date string (YYYY-MM-DD) from a Date object
 // This ensures dates are stored in local timezone, not UTC
 function getLocalDateString(date: Date): string {
@@ -32,13 +72,16 @@ function getLocalDateString(date: Date): string {
   return `${year}-${month}-${day}`;
 }
 import type {
-  Baby, CreateBabyInput, UpdateBabyInput,
+  Baby, CreateBabyInput, UpdateBabyInput, SharedBabyRole,
+  BabyInvite, CreateBabyInviteInput,
   FeedingSession, CreateFeedingSessionInput,
-  PumpSession, CreatePumpSessionInput,
+  PumpSession, CreatePumpSessionInput, PumpVolumeEntry, PumpProgramPhase,
   BottleSession, CreateBottleSessionInput,
-  MilkStash, CreateMilkStashInput,
-  SleepSession, CreateSleepSessionInput,
-  DiaperChange, CreateDiaperChangeInput, DiaperType,
+  MilkStash, CreateMilkStashInput, MilkStorageLocation,
+  FormulaContainer, CreateFormulaContainerInput,
+  PumpPart, CreatePumpPartInput, CleaningLog, CreateCleaningLogInput,
+  SleepSession, CreateSleepSessionInput, NightWaking, NightWakingReason,
+  DiaperChange, CreateDiaperChangeInput, DiaperType, StoolColor, StoolConsistency, StoolAmount,
   GrowthEntry, CreateGrowthEntryInput,
   Milestone, CreateMilestoneInput,
   Medicine, CreateMedicineInput,
@@ -48,13 +91,44 @@ import type {
   SolidFood, CreateSolidFoodInput,
   DiaryEntry, CreateDiaryEntryInput,
   PediatricianNote, CreatePediatricianNoteInput,
-  AppSettings, UpdateAppSettingsInput,
+  AppSettings, UpdateAppSettingsInput, LegacySettingsNames,
+  UserProfile, UpdateUserProfileInput, UserProfileMap, DeletedEntry,
   PlaySession, PlayType,
   WalkSession,
   BabyMood,
   MomMood,
+  BreastSide,
+} from '@/types';
+import {
+  DEFAULT_SETTINGS,
+  DEFAULT_FORMULA_OPEN_EXPIRY_DAYS,
+  LEFTOVER_MILK_MINUTES,
+  INVITE_TOKEN_LENGTH,
+  calculateMilkExpiration,
+  convertVolume,
+  getInviteRole,
+  getInviteStatus,
+  getDefaultAvatarColor,
+  getDefaultDisplayName,
+  USER_DISPLAY_NAME_MAX_LENGTH,
+  getFeedingSegments,
+  getPumpSessionPhases,
+  getSegmentElapsedSeconds,
+  switchFeedingSegments,
+  editFeedingSegments,
+  calculateSleepDuration,
+  getFormulaAmountForVolume,
+  getBottleOfferedVolume,
+  getBottleLeftoverVolume,
+  MILK_STORAGE_CONFIG,
+  canMoveMilk,
+  getMilkThawState,
+  getMovedMilkExpiration,
+  getThawedMilkExpiration,
+  getMilkStashHistory,
+  canCombineMilk,
+  getCombinedMilk,
 } from '@/types';
-import { DEFAULT_SETTINGS, calculateMilkExpiration, convertVolume } from '@/types';
 
 // Helper to convert Firestore timestamps
 function convertTimestamps<T extends object>(data: T): T {
@@ -108,6 +182,39 @@ function subscribeToCollectionSimple<T>(
   });
 }
 
+// Entries from `since` (an ISO timestamp) onwards, newest first. For views that cover a fixed
+// window, where a count limit could cut the window short. Needs a composite index on
+// whereField + sortField (firestore.indexes.json).
+function subscribeToCollectionSince<T>(
+  collectionPath: string,
+  whereField: string,
+  whereValue: string,
+  sortField: string,
+  since: string,
+  callback: (items: T[]) => void
+): () => void {
+  const q = query(
+    collection(db, collectionPath),
+    where(whereField, '==', whereValue),
+    where(sortField, '>=', since)
+  );
+  return onSnapshot(q, (snapshot) => {
+    const items = snapshot.docs.map((docSnap) => ({
+      id: docSnap.id,
+      ...convertTimestamps(docSnap.data()),
+    })) as T[];
+    items.sort((a, b) => {
+      const aVal = (a as Record<string, unknown>)[sortField] as string;
+      const bVal = (b as Record<string, unknown>)[sortField] as string;
+      return new Date(bVal).getTime() - new Date(aVal).getTime();
+    });
+    callback(items);
+  }, (error) => {
+    console.error(`Error subscribing to ${collectionPath}:`, error);
+    callback([]);
+  });
+}
+
 // ============ BABIES ============
 export async function createBaby(userId: string, input: CreateBabyInput): Promise<string> {
   const now = new Date().toISOString();
@@ -115,11 +222,14 @@ export async function createBaby(userId: string, input: CreateBabyInput): Promis
     ...input,
     userId,
     birthDate: input.birthDate || null,
+    sex: input.sex || null,
+    dueDate: input.dueDate || null,
+    gestationalAgeDays: input.gestationalAgeDays ?? null,
     photoUrl: input.photoUrl || null,
     color: input.color || 'purple',
     isActive: true,
     sharedWith: [],
-    shareCode: null,
+    roles: {},
     createdAt: now,
     updatedAt: now,
   };
@@ -180,6 +290,8 @@ export async function deleteBaby(babyId: string): Promise<void> {
     'pediatricianNotes',
     'playSessions',
     'walkSessions',
+    'invites',
+    'deletedEntries',
   ];
 
   // Delete all related data in parallel
@@ -258,78 +370,122 @@ export async function setActiveBaby(userId: string, babyId: string): Promise<voi
   await Promise.all(updates);
 }
 
-// Generate a random 6-character share code
-function generateRandomCode(): string {
+// Generate a random invite token. The token alone grants access to the baby, so it comes from
+// the crypto RNG; 32 chars divide 256 evenly, so every char is equally likely.
+function generateInviteToken(): string {
   const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Exclude confusing chars like 0/O, 1/I
-  let code = '';
-  for (let i = 0; i < 6; i++) {
-    code += chars.charAt(Math.floor(Math.random() * chars.length));
+  const bytes = crypto.getRandomValues(new Uint8Array(INVITE_TOKEN_LENGTH));
+  let token = '';
+  for (const byte of bytes) {
+    token += chars.charAt(byte % chars.length);
   }
-  return code;
+  return token;
 }
 
-// Generate or get existing share code for a baby
-export async function generateShareCode(babyId: string): Promise<string> {
-  const baby = await getBaby(babyId);
-  if (!baby) throw new Error('Baby not found');
-
-  // If already has a share code, return it
-  if (baby.shareCode) return baby.shareCode;
+// ============ INVITES ============
+// Invites live at invites/{token} so they can be fetched by token without read access to the baby
 
-  // Generate a new unique code
-  let code = generateRandomCode();
+// Create an invite to share a baby (only the owner can do this)
+export async function createBabyInvite(
+  baby: Pick<Baby, 'id' | 'name'>,
+  userId: string,
+  input: CreateBabyInviteInput
+): Promise<string> {
+  // Pick a token that isn't taken by another invite
+  let token = generateInviteToken();
   let attempts = 0;
-
-  // Check if code is already in use
   while (attempts < 10) {
-    const existingQuery = query(collection(db, 'babies'), where('shareCode', '==', code));
-    const existingDocs = await getDocs(existingQuery);
-    if (existingDocs.empty) break;
-    code = generateRandomCode();
+    const existing = await getDoc(doc(db, 'invites', token));
+    if (!existing.exists()) break;
+    token = generateInviteToken();
     attempts++;
   }
 
-  // Save the code
-  await updateDoc(doc(db, 'babies', babyId), {
-    shareCode: code,
-    updatedAt: new Date().toISOString(),
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + input.expiresInDays * 24 * 60 * 60 * 1000);
+
+  await setDoc(doc(db, 'invites', token), {
+    babyId: baby.id,
+    babyName: baby.name,
+    createdBy: userId,
+    role: input.role,
+    // Stored as a timestamp so the security rules can compare it with the request time
+    expiresAt: Timestamp.fromDate(expiresAt),
+    maxUses: input.maxUses,
+    usedBy: [],
+    revokedAt: null,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
   });
 
-  return code;
+  return token;
+}
+
+export async function getBabyInvite(token: string): Promise<BabyInvite | null> {
+  const docSnap = await getDoc(doc(db, 'invites', token));
+  if (!docSnap.exists()) return null;
+  return { id: docSnap.id, ...convertTimestamps(docSnap.data()) } as BabyInvite;
 }
 
-// Join a baby using a share code
-export async function joinBabyByShareCode(userId: string, code: string): Promise<Baby> {
-  const normalizedCode = code.toUpperCase().trim();
+export function subscribeToBabyInvites(
+  babyId: string,
+  callback: (invites: BabyInvite[]) => void
+): () => void {
+  return subscribeToCollectionSimple<BabyInvite>('invites', 'babyId', babyId, 'createdAt', 'desc', callback);
+}
 
-  // Find baby with this share code
-  const q = query(collection(db, 'babies'), where('shareCode', '==', normalizedCode));
-  const snapshot = await getDocs(q);
+export async function revokeBabyInvite(inviteId: string): Promise<void> {
+  const now = new Date().toISOString();
+  await updateDoc(doc(db, 'invites', inviteId), {
+    revokedAt: now,
+    updatedAt: now,
+  });
+}
 
-  if (snapshot.empty) {
-    throw new Error('Invalid share code');
+// Join a baby using an invite, with the role the owner chose for it
+export async function joinBabyByInvite(userId: string, token: string): Promise<Baby> {
+  const invite = await getBabyInvite(token);
+  if (!invite) {
+    throw new Error('Invalid invite code');
   }
 
-  const babyDoc = snapshot.docs[0];
-  const baby = { id: babyDoc.id, ...convertTimestamps(babyDoc.data()) } as Baby;
+  switch (getInviteStatus(invite)) {
+    case 'revoked':
+      throw new Error('This invite has been cancelled');
+    case 'expired':
+      throw new Error('This invite has expired');
+    case 'used':
+      throw new Error('This invite has already been used');
+  }
 
-  // Check if user is already the owner
-  if (baby.userId === userId) {
+  // The signed-in user's babies are the ones they own or already share
+  const existing = useAppStore.getState().babies.find((b) => b.id === invite.babyId);
+  if (existing?.userId === userId) {
     throw new Error('You are already the owner of this baby');
   }
-
-  // Check if user is already shared
-  if (baby.sharedWith?.includes(userId)) {
+  if (existing) {
     throw new Error('You already have access to this baby');
   }
 
-  // Add user to sharedWith array
-  await updateDoc(doc(db, 'babies', babyDoc.id), {
+  const now = new Date().toISOString();
+  const batch = writeBatch(db);
+
+  // Add user to sharedWith array along with their role
+  batch.update(doc(db, 'babies', invite.babyId), {
     sharedWith: arrayUnion(userId),
-    updatedAt: new Date().toISOString(),
+    [`roles.${userId}`]: getInviteRole(invite),
+    lastInviteId: invite.id,
+    updatedAt: now,
   });
+  batch.update(doc(db, 'invites', invite.id), {
+    usedBy: arrayUnion(userId),
+    updatedAt: now,
+  });
+  await batch.commit();
 
-  return { ...baby, sharedWith: [...(baby.sharedWith || []), userId] };
+  const baby = await getBaby(invite.babyId);
+  if (!baby) throw new Error('Baby not found');
+  return baby;
 }
 
 // Remove a shared user from a baby (only owner can do this)
@@ -342,34 +498,36 @@ export async function removeSharedUser(babyId: string, ownerUserId: string, user
     throw new Error('Only the owner can remove shared users');
   }
 
-  // Remove user from sharedWith array
+  // Remove user from sharedWith array and drop their role
   const newSharedWith = (baby.sharedWith || []).filter(id => id !== userIdToRemove);
   await updateDoc(doc(db, 'babies', babyId), {
     sharedWith: newSharedWith,
+    [`roles.${userIdToRemove}`]: deleteField(),
     updatedAt: new Date().toISOString(),
   });
 }
 
-// Regenerate share code (invalidates old code)
-export async function regenerateShareCode(babyId: string): Promise<string> {
-  // Generate a new unique code
-  let code = generateRandomCode();
-  let attempts = 0;
+// Change a shared user's role (only owner can do this)
+export async function setSharedUserRole(
+  babyId: string,
+  ownerUserId: string,
+  sharedUserId: string,
+  role: SharedBabyRole
+): Promise<void> {
+  const baby = await getBaby(babyId);
+  if (!baby) throw new Error('Baby not found');
 
-  while (attempts < 10) {
-    const existingQuery = query(collection(db, 'babies'), where('shareCode', '==', code));
-    const existingDocs = await getDocs(existingQuery);
-    if (existingDocs.empty) break;
-    code = generateRandomCode();
-    attempts++;
+  if (baby.userId !== ownerUserId) {
+    throw new Error('Only the owner can change roles');
+  }
+  if (!baby.sharedWith?.includes(sharedUserId)) {
+    throw new Error('User does not have access to this baby');
   }
 
   await updateDoc(doc(db, 'babies', babyId), {
-    shareCode: code,
+    [`roles.${sharedUserId}`]: role,
     updatedAt: new Date().toISOString(),
   });
-
-  return code;
 }
 
 // ============ FEEDING SESSIONS ============
@@ -391,6 +549,7 @@ export async function startFeedingSession(
     babyId,
     userId,
     breastSide: input.breastSide,
+    segments: [{ side: input.breastSide, startTime: input.startTime, endTime: null, duration: 0, pausedDuration: 0 }],
     startTime: input.startTime,
     endTime: null,
     date: getLocalDateString(startTime),
@@ -403,9 +562,9 @@ export async function startFeedingSession(
     notes: null,
     babyMood: null,
     momMood: null,
-    loggedBy: null,
     createdAt: now,
     updatedAt: now,
+    loggedBy: userId,
   });
   return docRef.id;
 }
@@ -416,6 +575,7 @@ export async function pauseFeedingSession(sessionId: string): Promise<void> {
     isPaused: true,
     pausedAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
   });
 }
 
@@ -432,11 +592,44 @@ export async function resumeFeedingSession(sessionId: string): Promise<void> {
     ? Math.floor((Date.now() - pausedAt.getTime()) / 1000)
     : 0;
 
+  // The pause belongs to the side being nursed on
+  const segments = getFeedingSegments(session as FeedingSession).map((segment) =>
+    segment.endTime ? segment : { ...segment, pausedDuration: segment.pausedDuration + additionalPausedTime }
+  );
+
   await updateDoc(doc(db, 'feedingSessions', sessionId), {
     isPaused: false,
     pausedAt: null,
     totalPausedDuration: (session.totalPausedDuration || 0) + additionalPausedTime,
+    segments,
     updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
+  });
+}
+
+// Switch an active feeding session to the other side, resuming it if paused
+export async function switchFeedingSide(sessionId: string, side: BreastSide): Promise<void> {
+  markPendingWrite();
+  const docSnap = await getDoc(doc(db, 'feedingSessions', sessionId));
+  if (!docSnap.exists()) {
+    throw new Error(`Feeding session ${sessionId} not found`);
+  }
+
+  const session = convertTimestamps(docSnap.data()) as FeedingSession;
+  const now = new Date();
+  const pausedAt = session.isPaused ? session.pausedAt : null;
+  const additionalPausedTime = pausedAt
+    ? Math.max(0, Math.floor((now.getTime() - new Date(pausedAt).getTime()) / 1000))
+    : 0;
+
+  await updateDoc(doc(db, 'feedingSessions', sessionId), {
+    breastSide: side,
+    segments: switchFeedingSegments(getFeedingSegments(session), side, now, pausedAt),
+    isPaused: false,
+    pausedAt: null,
+    totalPausedDuration: (session.totalPausedDuration || 0) + additionalPausedTime,
+    updatedAt: now.toISOString(),
+    updatedBy: getActorId(),
   });
 }
 
@@ -454,20 +647,26 @@ export async function endFeedingSession(
     throw new Error(`Feeding session ${sessionId} not found`);
   }
 
-  const session = convertTimestamps(docSnap.data());
-  const startTime = new Date(session.startTime);
+  const session = convertTimestamps(docSnap.data()) as FeedingSession;
   const end = new Date(endTime);
-  const totalPausedDuration = session.totalPausedDuration || 0;
-  const duration = Math.max(0, Math.floor((end.getTime() - startTime.getTime()) / 1000) - totalPausedDuration);
+  const pausedAt = session.isPaused ? session.pausedAt : null;
+  const segments = getFeedingSegments(session).map((segment) =>
+    segment.endTime
+      ? segment
+      : { ...segment, endTime, duration: getSegmentElapsedSeconds(segment, end, pausedAt) }
+  );
+  const duration = segments.reduce((sum, segment) => sum + segment.duration, 0);
 
   await updateDoc(doc(db, 'feedingSessions', sessionId), {
     endTime,
     duration,
+    segments,
     isActive: false,
     notes: notes ?? session.notes ?? null,
     babyMood: babyMood ?? session.babyMood ?? null,
     momMood: momMood ?? session.momMood ?? null,
     updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
   });
 }
 
@@ -479,11 +678,20 @@ export async function createFeedingSession(
 ): Promise<string> {
   const startTime = new Date(input.startTime);
   const endTime = new Date(input.endTime);
-  const duration = Math.floor((endTime.getTime() - startTime.getTime()) / 1000);
+  const segments = input.segments ?? [{
+    side: input.breastSide,
+    startTime: input.startTime,
+    endTime: input.endTime,
+    duration: Math.floor((endTime.getTime() - startTime.getTime()) / 1000),
+    pausedDuration: 0,
+  }];
+  const duration = segments.reduce((sum, segment) => sum + segment.duration, 0);
   const now = new Date().toISOString();
 
   const docRef = await addDoc(collection(db, 'feedingSessions'), {
     ...input,
+    breastSide: segments[segments.length - 1].side,
+    segments,
     babyId,
     userId,
     date: getLocalDateString(startTime),
@@ -491,6 +699,7 @@ export async function createFeedingSession(
     isActive: false,
     createdAt: now,
     updatedAt: now,
+    loggedBy: userId,
   });
   return docRef.id;
 }
@@ -519,6 +728,7 @@ export async function startPumpSession(
     startTime: string;
     side: 'left' | 'right' | 'both';
     volumeUnit: 'oz' | 'ml';
+    program?: PumpProgramPhase[] | null; // Power pumping
   }
 ): Promise<string> {
   markPendingWrite();
@@ -542,8 +752,10 @@ export async function startPumpSession(
     totalPausedDuration: 0,
     notes: null,
     momMood: null,
+    program: input.program ?? null,
     createdAt: now,
     updatedAt: now,
+    loggedBy: userId,
   });
   return docRef.id;
 }
@@ -554,6 +766,7 @@ export async function pausePumpSession(sessionId: string): Promise<void> {
     isPaused: true,
     pausedAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
   });
 }
 
@@ -575,6 +788,7 @@ export async function resumePumpSession(sessionId: string): Promise<void> {
     pausedAt: null,
     totalPausedDuration: (session.totalPausedDuration || 0) + additionalPausedTime,
     updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
   });
 }
 
@@ -585,7 +799,8 @@ export async function endPumpSession(
   volume: number,
   volumeUnit: 'oz' | 'ml',
   notes?: string | null,
-  momMood?: MomMood | null
+  momMood?: MomMood | null,
+  sideVolumes?: Pick<PumpVolumeEntry, 'leftVolume' | 'rightVolume'>
 ): Promise<void> {
   const docSnap = await getDoc(doc(db, 'pumpSessions', sessionId));
   if (!docSnap.exists()) {
@@ -598,15 +813,22 @@ export async function endPumpSession(
   const totalPausedDuration = session.totalPausedDuration || 0;
   const duration = Math.max(0, Math.floor((end.getTime() - startTime.getTime()) / 1000) - totalPausedDuration);
 
+  const isBothSides = session.side === 'both';
+
   await updateDoc(doc(db, 'pumpSessions', sessionId), {
     endTime,
     duration,
     volume,
+    leftVolume: isBothSides ? sideVolumes?.leftVolume ?? null : null,
+    rightVolume: isBothSides ? sideVolumes?.rightVolume ?? null : null,
     volumeUnit,
     isActive: false,
     notes: notes ?? session.notes ?? null,
     momMood: momMood ?? session.momMood ?? null,
+    // A power-pumping session keeps one record, with the phases it got through
+    phases: session.program ? getPumpSessionPhases(session.program, duration) : null,
     updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
   });
 }
 
@@ -623,6 +845,9 @@ export async function createPumpSession(
 
   const docRef = await addDoc(collection(db, 'pumpSessions'), {
     ...input,
+    // Only a both-sides session has a split
+    leftVolume: input.side === 'both' ? input.leftVolume ?? null : null,
+    rightVolume: input.side === 'both' ? input.rightVolume ?? null : null,
     babyId,
     userId,
     date: getLocalDateString(startTime),
@@ -630,6 +855,7 @@ export async function createPumpSession(
     isActive: false,
     createdAt: now,
     updatedAt: now,
+    loggedBy: userId,
   });
   return docRef.id;
 }
@@ -648,6 +874,15 @@ export function subscribeToPumpSessions(
   );
 }
 
+// Every pump session started on or after `since`, however many there are
+export function subscribeToPumpSessionsSince(
+  babyId: string,
+  since: string,
+  callback: (sessions: PumpSession[]) => void
+): () => void {
+  return subscribeToCollectionSince<PumpSession>('pumpSessions', 'babyId', babyId, 'startTime', since, callback);
+}
+
 // ============ BOTTLE SESSIONS ============
 export async function createBottleSession(
   babyId: string,
@@ -664,14 +899,17 @@ export async function createBottleSession(
     date: getLocalDateString(timestamp),
     createdAt: now,
     updatedAt: now,
+    loggedBy: userId,
   });
   return docRef.id;
 }
 
+// Log a bottle from the stash, deducting everything that went into it. With keepLeftover,
+// whatever the baby didn't drink goes back to the stash as a leftover to use up soon.
 export async function createBottleSessionFromMilkStash(
   babyId: string,
   userId: string,
-  input: CreateBottleSessionInput & { milkStashId: string }
+  { keepLeftover = false, ...input }: CreateBottleSessionInput & { milkStashId: string; keepLeftover?: boolean }
 ): Promise<string> {
   markPendingWrite();
 
@@ -686,7 +924,7 @@ export async function createBottleSessionFromMilkStash(
     throw new Error('Selected milk bottle has already been used.');
   }
 
-  const usedVolumeInStashUnit = convertVolume(input.volume, input.volumeUnit, stash.volumeUnit);
+  const usedVolumeInStashUnit = convertVolume(getBottleOfferedVolume(input), input.volumeUnit, stash.volumeUnit);
   const remainingVolume = stash.volume - usedVolumeInStashUnit;
   const volumeTolerance = 0.0001;
 
@@ -707,8 +945,40 @@ export async function createBottleSessionFromMilkStash(
     date: getLocalDateString(timestamp),
     createdAt: now,
     updatedAt: now,
+    loggedBy: userId,
   });
 
+  const leftoverVolume = convertVolume(getBottleLeftoverVolume(input), input.volumeUnit, stash.volumeUnit);
+  if (keepLeftover && leftoverVolume > volumeTolerance) {
+    batch.set(doc(collection(db, 'milkStash')), {
+      userId,
+      babyId: stash.babyId ?? babyId,
+      date: getLocalDateString(new Date()),
+      volume: leftoverVolume,
+      volumeUnit: stash.volumeUnit,
+      location: stash.location,
+      pumpedDate: stash.pumpedDate,
+      expirationDate: new Date(Date.now() + LEFTOVER_MILK_MINUTES * 60 * 1000).toISOString(),
+      isUsed: false,
+      usedDate: null,
+      isInUse: false,
+      inUseStartDate: null,
+      leftoverSince: now,
+      thawStartedAt: stash.thawStartedAt ?? null,
+      thawedAt: stash.thawedAt ?? null,
+      stateHistory: getMilkStashHistory(stash),
+      withdrawals: [],
+      notes: stash.notes ?? null,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  const withdrawals = [
+    ...(stash.withdrawals ?? []),
+    { userId, babyId, volume: usedVolumeInStashUnit, at: now, bottleSessionId: bottleRef.id },
+  ];
+
   if (remainingVolume <= volumeTolerance) {
     batch.update(stashRef, {
       volume: 0,
@@ -716,112 +986,585 @@ export async function createBottleSessionFromMilkStash(
       usedDate: now,
       isInUse: false,
       inUseStartDate: null,
+      withdrawals,
       updatedAt: now,
     });
   } else {
     batch.update(stashRef, {
       volume: remainingVolume,
+      withdrawals,
       updatedAt: now,
     });
   }
 
-  await batch.commit();
-  return bottleRef.id;
+  await batch.commit();
+  return bottleRef.id;
+}
+
+// Log a formula bottle and deduct its powder from the container. Logging from a sealed
+// container opens it, and the container's prepared bottle is the one being fed.
+export async function createBottleSessionFromFormula(
+  babyId: string,
+  userId: string,
+  input: CreateBottleSessionInput & { formulaContainerId: string }
+): Promise<string> {
+  markPendingWrite();
+
+  const containerRef = doc(db, 'formulaContainers', input.formulaContainerId);
+  const containerSnap = await getDoc(containerRef);
+  if (!containerSnap.exists()) {
+    throw new Error('Selected formula container was not found.');
+  }
+
+  const container = convertTimestamps(containerSnap.data()) as FormulaContainer;
+  if (container.isFinished) {
+    throw new Error('Selected formula container is already finished.');
+  }
+
+  const now = new Date().toISOString();
+  const timestamp = new Date(input.timestamp);
+  const bottleRef = doc(collection(db, 'bottleSessions'));
+  const batch = writeBatch(db);
+
+  // Scoops are rarely exact, so a bottle that needs more than is left empties the container
+  const remainingAmount = Math.max(0, container.remainingAmount - getFormulaAmountForVolume(container, getBottleOfferedVolume(input), input.volumeUnit));
+  const isFinished = remainingAmount <= 0.0001;
+
+  batch.set(bottleRef, {
+    ...input,
+    babyId,
+    userId,
+    date: getLocalDateString(timestamp),
+    formulaAmount: container.remainingAmount - (isFinished ? 0 : remainingAmount),
+    createdAt: now,
+    updatedAt: now,
+    loggedBy: userId,
+  });
+
+  batch.update(containerRef, {
+    remainingAmount: isFinished ? 0 : remainingAmount,
+    openedDate: container.openedDate ?? now,
+    preparedAt: null,
+    isFinished,
+    finishedDate: isFinished ? now : null,
+    updatedAt: now,
+  });
+
+  await batch.commit();
+  return bottleRef.id;
+}
+
+// Put powder back in the container a formula bottle was made from when the bottle is edited
+// or deleted (after is null), so the container shows what's really left. A container the
+// bottle emptied is reopened; one finished by hand stays finished.
+async function addFormulaCorrectionToBatch(
+  batch: WriteBatch,
+  before: BottleSession,
+  after: BottleSession | null
+): Promise<Pick<BottleSession, 'formulaAmount'>> {
+  if (!before.formulaContainerId) return {};
+  if (after
+    && after.contentType === before.contentType
+    && after.volumeUnit === before.volumeUnit
+    && getBottleOfferedVolume(after) === getBottleOfferedVolume(before)) {
+    return {};
+  }
+
+  const containerRef = doc(db, 'formulaContainers', before.formulaContainerId);
+  const containerSnap = await getDoc(containerRef);
+  if (!containerSnap.exists()) return {};
+
+  const container = convertTimestamps(containerSnap.data()) as FormulaContainer;
+  const deducted = before.formulaAmount
+    ?? getFormulaAmountForVolume(container, getBottleOfferedVolume(before), before.volumeUnit);
+  const needed = after && after.contentType === 'formula'
+    ? getFormulaAmountForVolume(container, getBottleOfferedVolume(after), after.volumeUnit)
+    : 0;
+  const emptiedByBottle = container.isFinished && container.finishedDate === before.createdAt;
+  if (Math.abs(needed - deducted) < 0.0001 || (container.isFinished && !emptiedByBottle)) {
+    return {};
+  }
+
+  const now = new Date().toISOString();
+  const available = container.remainingAmount + deducted;
+  const remainingAmount = Math.min(container.totalAmount, Math.max(0, available - needed));
+  const isFinished = remainingAmount <= 0.0001;
+  batch.update(containerRef, {
+    remainingAmount: isFinished ? 0 : remainingAmount,
+    isFinished,
+    finishedDate: isFinished ? (container.finishedDate ?? now) : null,
+    updatedAt: now,
+  });
+  return { formulaAmount: Math.min(needed, available) };
+}
+
+export function subscribeToBottleSessions(
+  babyId: string,
+  callback: (sessions: BottleSession[]) => void
+): () => void {
+  return subscribeToCollectionSimple<BottleSession>(
+    'bottleSessions',
+    'babyId',
+    babyId,
+    'timestamp',
+    'desc',
+    callback
+  );
+}
+
+// Every bottle given on or after `since`, however many there are
+export function subscribeToBottleSessionsSince(
+  babyId: string,
+  since: string,
+  callback: (sessions: BottleSession[]) => void
+): () => void {
+  return subscribeToCollectionSince<BottleSession>('bottleSessions', 'babyId', babyId, 'timestamp', since, callback);
+}
+
+// ============ MILK STASH ============
+// Stash items belong to the household of the baby they're stored for, so every caregiver
+// sharing that baby's owner's babies can use them
+export async function createMilkStash(babyId: string, userId: string, input: CreateMilkStashInput): Promise<string> {
+  markPendingWrite();
+  const now = new Date().toISOString();
+  const expirationDate = calculateMilkExpiration(input.pumpedDate, input.location);
+
+  const docRef = await addDoc(collection(db, 'milkStash'), {
+    ...input,
+    babyId,
+    userId,
+    date: getLocalDateString(new Date()),
+    expirationDate,
+    isUsed: false,
+    usedDate: null,
+    isInUse: false,
+    inUseStartDate: null,
+    thawStartedAt: null,
+    thawedAt: null,
+    stateHistory: [{ event: 'stored', location: input.location, at: now }],
+    withdrawals: [],
+    createdAt: now,
+    updatedAt: now,
+  });
+  return docRef.id;
+}
+
+// Move an item to another storage spot. Taking frozen milk out starts thawing.
+export async function moveMilkStash(stashId: string, to: MilkStorageLocation): Promise<void> {
+  markPendingWrite();
+  const stashRef = doc(db, 'milkStash', stashId);
+  const stashSnap = await getDoc(stashRef);
+  if (!stashSnap.exists()) {
+    throw new Error(`Milk stash entry ${stashId} not found`);
+  }
+
+  const stash = { id: stashSnap.id, ...convertTimestamps(stashSnap.data()) } as MilkStash;
+  if (!canMoveMilk(stash, to)) {
+    throw new Error(getMilkThawState(stash) ? 'Thawed milk can\'t be refrozen.' : `Milk can't be moved to the ${MILK_STORAGE_CONFIG[to].label.toLowerCase()}.`);
+  }
+
+  const at = new Date();
+  const now = at.toISOString();
+  const startsThawing = MILK_STORAGE_CONFIG[stash.location].isFrozen && !MILK_STORAGE_CONFIG[to].isFrozen;
+
+  await updateDoc(stashRef, {
+    location: to,
+    expirationDate: getMovedMilkExpiration(stash, to, at),
+    ...(startsThawing ? { thawStartedAt: now, thawedAt: null } : {}),
+    stateHistory: [
+      ...getMilkStashHistory(stash),
+      { event: startsThawing ? 'thawStarted' : 'moved', location: to, at: now },
+    ],
+    updatedAt: now,
+  });
+}
+
+export async function markMilkStashThawed(stashId: string): Promise<void> {
+  markPendingWrite();
+  const stashRef = doc(db, 'milkStash', stashId);
+  const stashSnap = await getDoc(stashRef);
+  if (!stashSnap.exists()) {
+    throw new Error(`Milk stash entry ${stashId} not found`);
+  }
+
+  const stash = { id: stashSnap.id, ...convertTimestamps(stashSnap.data()) } as MilkStash;
+  // Only milk moved out of the freezer can thaw; fresh fridge milk keeps its own expiry
+  if (getMilkThawState(stash) !== 'thawing') {
+    throw new Error('Only milk that is thawing can be marked thawed.');
+  }
+  const now = new Date().toISOString();
+
+  await updateDoc(stashRef, {
+    thawedAt: now,
+    expirationDate: getThawedMilkExpiration(now),
+    stateHistory: [...getMilkStashHistory(stash), { event: 'thawed', location: stash.location, at: now }],
+    updatedAt: now,
+  });
+}
+
+export async function markMilkStashInUse(stashId: string, inUse: boolean): Promise<void> {
+  await updateDoc(doc(db, 'milkStash', stashId), {
+    isInUse: inUse,
+    inUseStartDate: inUse ? new Date().toISOString() : null,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export async function markMilkStashUsed(stashId: string): Promise<void> {
+  await updateDoc(doc(db, 'milkStash', stashId), {
+    isUsed: true,
+    usedDate: new Date().toISOString(),
+    isInUse: false,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+// Take milk from an item without logging a bottle, e.g. milk that was poured out or used
+// elsewhere. Using all of it marks the item used.
+export async function withdrawFromMilkStash(
+  stashId: string,
+  userId: string,
+  volume: number,
+  babyId: string | null = null
+): Promise<void> {
+  markPendingWrite();
+  const stashRef = doc(db, 'milkStash', stashId);
+  const stashSnap = await getDoc(stashRef);
+  if (!stashSnap.exists()) {
+    throw new Error(`Milk stash entry ${stashId} not found`);
+  }
+
+  const stash = convertTimestamps(stashSnap.data()) as MilkStash;
+  const now = new Date().toISOString();
+  const takenVolume = Math.min(volume, stash.volume);
+  const remainingVolume = stash.volume - takenVolume;
+
+  await updateDoc(stashRef, {
+    volume: remainingVolume,
+    ...(remainingVolume <= 0 ? { isUsed: true, usedDate: now, isInUse: false, inUseStartDate: null } : {}),
+    withdrawals: [
+      ...(stash.withdrawals ?? []),
+      { userId, babyId, volume: takenVolume, at: now, bottleSessionId: null },
+    ],
+    updatedAt: now,
+  });
+}
+
+// Pour several fridge bags into the one that expires first. The others are marked used and
+// point at the bag they went into.
+export async function combineMilkStash(stashIds: string[]): Promise<string> {
+  markPendingWrite();
+  const snaps = await Promise.all(stashIds.map((stashId) => getDoc(doc(db, 'milkStash', stashId))));
+  const missing = snaps.find((snap) => !snap.exists());
+  if (missing) {
+    throw new Error(`Milk stash entry ${missing.id} not found`);
+  }
+
+  const items = snaps.map((snap) => ({ id: snap.id, ...convertTimestamps(snap.data()!) }) as MilkStash);
+  if (!canCombineMilk(items)) {
+    throw new Error('Only two or more fridge bags that aren\'t in use can be combined.');
+  }
+
+  const target = [...items].sort((a, b) => new Date(a.expirationDate).getTime() - new Date(b.expirationDate).getTime())[0];
+  const now = new Date().toISOString();
+  const batch = writeBatch(db);
+
+  batch.update(doc(db, 'milkStash', target.id), {
+    ...getCombinedMilk(items, target.volumeUnit),
+    stateHistory: [...getMilkStashHistory(target), { event: 'combined', location: target.location, at: now }],
+    updatedAt: now,
+  });
+
+  for (const item of items) {
+    if (item.id === target.id) continue;
+    batch.update(doc(db, 'milkStash', item.id), {
+      volume: 0,
+      isUsed: true,
+      usedDate: now,
+      combinedIntoId: target.id,
+      stateHistory: [...getMilkStashHistory(item), { event: 'combined', location: item.location, at: now }],
+      updatedAt: now,
+    });
+  }
+
+  await batch.commit();
+  return target.id;
+}
+
+export async function updateMilkStashVolume(stashId: string, newVolume: number): Promise<void> {
+  await updateDoc(doc(db, 'milkStash', stashId), {
+    volume: newVolume,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export async function deleteMilkStashEntry(stashId: string): Promise<void> {
+  await deleteWithRecord('milkStash', stashId);
+}
+
+export async function deleteMilkStashEntries(stashIds: string[]): Promise<void> {
+  if (stashIds.length === 0) return;
+
+  const batch = writeBatch(db);
+  await Promise.all(stashIds.map((stashId) => addDeleteToBatch(batch, 'milkStash', stashId)));
+  await batch.commit();
+}
+
+// Subscribe to the stash shared by a household's babies (see getHouseholdBabyIds)
+export function subscribeToMilkStash(
+  babyIds: string[],
+  callback: (stash: MilkStash[]) => void
+): () => void {
+  if (babyIds.length === 0) {
+    callback([]);
+    return () => {};
+  }
+
+  // Custom query with two where clauses, sort client-side
+  const q = query(
+    collection(db, 'milkStash'),
+    where('babyId', 'in', babyIds),
+    where('isUsed', '==', false)
+  );
+  return onSnapshot(q, (snapshot) => {
+    const items = snapshot.docs.map((docSnap) => ({
+      id: docSnap.id,
+      ...convertTimestamps(docSnap.data()),
+    })) as MilkStash[];
+    // Sort by expiration date ascending
+    items.sort((a, b) => new Date(a.expirationDate).getTime() - new Date(b.expirationDate).getTime());
+    callback(items);
+  }, (error) => {
+    console.error('Error subscribing to milkStash:', error);
+    callback([]);
+  });
+}
+
+// Move items added before they were shared into a baby's household. Items were per-user
+// then, so only the person who added them can find and move them.
+async function migrateToHousehold(collectionPath: string, userId: string, babyId: string): Promise<number> {
+  const snapshot = await getDocs(query(collection(db, collectionPath), where('userId', '==', userId)));
+  const legacyDocs = snapshot.docs.filter((docSnap) => !docSnap.data().babyId);
+  if (legacyDocs.length === 0) return 0;
+
+  markPendingWrite();
+  const batch = writeBatch(db);
+  for (const docSnap of legacyDocs) {
+    batch.update(docSnap.ref, { babyId, updatedAt: new Date().toISOString() });
+  }
+  await batch.commit();
+  return legacyDocs.length;
+}
+
+export async function migrateMilkStashToHousehold(userId: string, babyId: string): Promise<number> {
+  return migrateToHousehold('milkStash', userId, babyId);
+}
+
+// ============ FORMULA INVENTORY ============
+export async function createFormulaContainer(babyId: string, userId: string, input: CreateFormulaContainerInput): Promise<string> {
+  markPendingWrite();
+  const now = new Date().toISOString();
+
+  const docRef = await addDoc(collection(db, 'formulaContainers'), {
+    ...input,
+    remainingAmount: input.remainingAmount ?? input.totalAmount,
+    openedDate: input.openedDate ?? null,
+    openExpiryDays: input.openExpiryDays ?? DEFAULT_FORMULA_OPEN_EXPIRY_DAYS,
+    notes: input.notes ?? null,
+    babyId,
+    userId,
+    preparedAt: null,
+    isFinished: false,
+    finishedDate: null,
+    createdAt: now,
+    updatedAt: now,
+  });
+  return docRef.id;
+}
+
+export async function updateFormulaContainer(
+  containerId: string,
+  updates: Partial<Pick<FormulaContainer, 'brand' | 'remainingAmount' | 'amountPerOz' | 'openedDate' | 'openExpiryDays' | 'notes'>>
+): Promise<void> {
+  markPendingWrite();
+  await updateDoc(doc(db, 'formulaContainers', containerId), {
+    ...updates,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+// Start or clear the room-temperature timer for a bottle mixed from this container
+export async function markFormulaBottlePrepared(containerId: string, prepared: boolean): Promise<void> {
+  markPendingWrite();
+  const now = new Date().toISOString();
+  await updateDoc(doc(db, 'formulaContainers', containerId), {
+    preparedAt: prepared ? now : null,
+    updatedAt: now,
+  });
+}
+
+export async function markFormulaContainerFinished(containerId: string): Promise<void> {
+  markPendingWrite();
+  const now = new Date().toISOString();
+  await updateDoc(doc(db, 'formulaContainers', containerId), {
+    isFinished: true,
+    finishedDate: now,
+    preparedAt: null,
+    updatedAt: now,
+  });
+}
+
+export async function deleteFormulaContainer(containerId: string): Promise<void> {
+  await deleteDoc(doc(db, 'formulaContainers', containerId));
 }
 
-export function subscribeToBottleSessions(
-  babyId: string,
-  callback: (sessions: BottleSession[]) => void
+export function subscribeToFormulaContainers(
+  babyIds: string[],
+  callback: (containers: FormulaContainer[]) => void
 ): () => void {
-  return subscribeToCollectionSimple<BottleSession>(
-    'bottleSessions',
-    'babyId',
-    babyId,
-    'timestamp',
-    'desc',
-    callback
+  if (babyIds.length === 0) {
+    callback([]);
+    return () => {};
+  }
+
+  const q = query(
+    collection(db, 'formulaContainers'),
+    where('babyId', 'in', babyIds),
+    where('isFinished', '==', false)
   );
+  return onSnapshot(q, (snapshot) => {
+    const items = snapshot.docs.map((docSnap) => ({
+      id: docSnap.id,
+      ...convertTimestamps(docSnap.data()),
+    })) as FormulaContainer[];
+    // Opened containers first, oldest first, then sealed ones in the order they were added
+    items.sort((a, b) => {
+      if (!!a.openedDate !== !!b.openedDate) return a.openedDate ? -1 : 1;
+      const aTime = new Date(a.openedDate ?? a.createdAt).getTime();
+      const bTime = new Date(b.openedDate ?? b.createdAt).getTime();
+      return aTime - bTime;
+    });
+    callback(items);
+  }, (error) => {
+    console.error('Error subscribing to formulaContainers:', error);
+    callback([]);
+  });
 }
 
-// ============ MILK STASH ============
-export async function createMilkStash(userId: string, input: CreateMilkStashInput): Promise<string> {
+export async function migrateFormulaContainersToHousehold(userId: string, babyId: string): Promise<number> {
+  return migrateToHousehold('formulaContainers', userId, babyId);
+}
+
+// ============ PUMP PARTS ============
+export async function createPumpPart(userId: string, input: CreatePumpPartInput): Promise<string> {
   markPendingWrite();
   const now = new Date().toISOString();
-  const expirationDate = calculateMilkExpiration(input.pumpedDate, input.location);
 
-  const docRef = await addDoc(collection(db, 'milkStash'), {
+  const docRef = await addDoc(collection(db, 'pumpParts'), {
     ...input,
+    name: input.name ?? null,
+    notes: input.notes ?? null,
     userId,
-    date: getLocalDateString(new Date()),
-    expirationDate,
-    isUsed: false,
-    usedDate: null,
-    isInUse: false,
-    inUseStartDate: null,
+    replacedDates: [],
     createdAt: now,
     updatedAt: now,
   });
   return docRef.id;
 }
 
-export async function markMilkStashInUse(stashId: string, inUse: boolean): Promise<void> {
-  await updateDoc(doc(db, 'milkStash', stashId), {
-    isInUse: inUse,
-    inUseStartDate: inUse ? new Date().toISOString() : null,
+export async function updatePumpPart(
+  partId: string,
+  updates: Partial<Pick<PumpPart, 'name' | 'installedDate' | 'replaceEvery' | 'replaceEveryUnit' | 'notes'>>
+): Promise<void> {
+  markPendingWrite();
+  await updateDoc(doc(db, 'pumpParts', partId), {
+    ...updates,
     updatedAt: new Date().toISOString(),
   });
 }
 
-export async function markMilkStashUsed(stashId: string): Promise<void> {
-  await updateDoc(doc(db, 'milkStash', stashId), {
-    isUsed: true,
-    usedDate: new Date().toISOString(),
-    isInUse: false,
-    updatedAt: new Date().toISOString(),
+// Swap in a new part: wear starts over and the old install date goes into its history
+export async function replacePumpPart(partId: string): Promise<void> {
+  const docSnap = await getDoc(doc(db, 'pumpParts', partId));
+  if (!docSnap.exists()) {
+    throw new Error(`Pump part ${partId} not found`);
+  }
+
+  markPendingWrite();
+  const part = convertTimestamps(docSnap.data()) as PumpPart;
+  const now = new Date().toISOString();
+  await updateDoc(doc(db, 'pumpParts', partId), {
+    installedDate: now,
+    replacedDates: [...(part.replacedDates ?? []), part.installedDate],
+    updatedAt: now,
   });
 }
 
-export async function updateMilkStashVolume(stashId: string, newVolume: number): Promise<void> {
-  await updateDoc(doc(db, 'milkStash', stashId), {
-    volume: newVolume,
-    updatedAt: new Date().toISOString(),
+export async function deletePumpPart(partId: string): Promise<void> {
+  await deleteDoc(doc(db, 'pumpParts', partId));
+}
+
+export function subscribeToPumpParts(
+  userId: string,
+  callback: (parts: PumpPart[]) => void
+): () => void {
+  const q = query(collection(db, 'pumpParts'), where('userId', '==', userId));
+  return onSnapshot(q, (snapshot) => {
+    const items = snapshot.docs.map((docSnap) => ({
+      id: docSnap.id,
+      ...convertTimestamps(docSnap.data()),
+    })) as PumpPart[];
+    // In the order they were added
+    items.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    callback(items);
+  }, (error) => {
+    console.error('Error subscribing to pumpParts:', error);
+    callback([]);
   });
 }
 
-export async function deleteMilkStashEntry(stashId: string): Promise<void> {
-  await deleteDoc(doc(db, 'milkStash', stashId));
+// A part owner's pump sessions for any baby since `since` (see getPumpPartWearStart), for part wear
+export function subscribeToPumpPartSessions(
+  userId: string,
+  since: string,
+  callback: (sessions: PumpSession[]) => void
+): () => void {
+  return subscribeToCollectionSince<PumpSession>('pumpSessions', 'userId', userId, 'startTime', since, callback);
 }
 
-export async function deleteMilkStashEntries(stashIds: string[]): Promise<void> {
-  if (stashIds.length === 0) return;
+// ============ CLEANING LOG ============
+export async function createCleaningLog(userId: string, input: CreateCleaningLogInput): Promise<string> {
+  markPendingWrite();
+  const now = new Date().toISOString();
 
-  const batch = writeBatch(db);
-  for (const stashId of stashIds) {
-    batch.delete(doc(db, 'milkStash', stashId));
-  }
-  await batch.commit();
+  const docRef = await addDoc(collection(db, 'cleaningLogs'), {
+    ...input,
+    notes: input.notes ?? null,
+    userId,
+    createdAt: now,
+    updatedAt: now,
+  });
+  return docRef.id;
 }
 
-export function subscribeToMilkStash(
+export async function deleteCleaningLog(logId: string): Promise<void> {
+  await deleteDoc(doc(db, 'cleaningLogs', logId));
+}
+
+export function subscribeToCleaningLogs(
   userId: string,
-  callback: (stash: MilkStash[]) => void
+  callback: (logs: CleaningLog[]) => void
 ): () => void {
-  // Custom query with two where clauses, sort client-side
-  const q = query(
-    collection(db, 'milkStash'),
-    where('userId', '==', userId),
-    where('isUsed', '==', false)
-  );
+  const q = query(collection(db, 'cleaningLogs'), where('userId', '==', userId));
   return onSnapshot(q, (snapshot) => {
     const items = snapshot.docs.map((docSnap) => ({
       id: docSnap.id,
       ...convertTimestamps(docSnap.data()),
-    })) as MilkStash[];
-    // Sort by expiration date ascending
-    items.sort((a, b) => new Date(a.expirationDate).getTime() - new Date(b.expirationDate).getTime());
+    })) as CleaningLog[];
+    items.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
     callback(items);
   }, (error) => {
-    console.error('Error subscribing to milkStash:', error);
+    console.error('Error subscribing to cleaningLogs:', error);
     callback([]);
   });
 }
@@ -846,6 +1589,7 @@ export async function createSleepSession(
     isActive: true,
     createdAt: now,
     updatedAt: now,
+    loggedBy: userId,
   });
   return docRef.id;
 }
@@ -880,6 +1624,7 @@ export async function createCompleteSleepSession(
     babyMood: input.babyMood || null,
     createdAt: now,
     updatedAt: now,
+    loggedBy: userId,
   });
   return docRef.id;
 }
@@ -895,18 +1640,96 @@ export async function endSleepSession(
     throw new Error(`Sleep session ${sessionId} not found`);
   }
 
-  const session = convertTimestamps(docSnap.data());
-  const startTime = new Date(session.startTime);
-  const end = new Date(endTime);
-  const duration = Math.max(0, Math.floor((end.getTime() - startTime.getTime()) / 1000));
+  const session = convertTimestamps(docSnap.data()) as SleepSession;
+  // A waking still open when the sleep ends finishes with it
+  const wakings = (session.wakings ?? []).map((waking) =>
+    waking.endTime ? waking : { ...waking, endTime }
+  );
 
   await updateDoc(doc(db, 'sleepSessions', sessionId), {
     endTime,
-    duration,
+    duration: calculateSleepDuration(session.startTime, endTime, wakings),
+    ...(session.wakings && { wakings }),
     isActive: false,
     notes: notes ?? session.notes ?? null,
     babyMood: babyMood ?? session.babyMood ?? null,
     updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
+  });
+}
+
+// Start a waking in the middle of a sleep; the sleep timer keeps running
+export async function startNightWaking(
+  sessionId: string,
+  reason: NightWakingReason,
+  startTime: string = new Date().toISOString()
+): Promise<string> {
+  markPendingWrite();
+  const docSnap = await getDoc(doc(db, 'sleepSessions', sessionId));
+  if (!docSnap.exists()) {
+    throw new Error(`Sleep session ${sessionId} not found`);
+  }
+
+  const session = convertTimestamps(docSnap.data()) as SleepSession;
+  const waking: NightWaking = {
+    id: crypto.randomUUID(),
+    startTime,
+    endTime: null,
+    reason,
+    feedingSessionId: null,
+    bottleSessionId: null,
+    diaperChangeId: null,
+  };
+
+  await updateDoc(doc(db, 'sleepSessions', sessionId), {
+    wakings: [...(session.wakings ?? []), waking],
+    updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
+  });
+  return waking.id;
+}
+
+// Update a waking, e.g. to end it when the baby is back asleep or link the feed and
+// diaper change logged while awake
+export async function updateNightWaking(
+  sessionId: string,
+  wakingId: string,
+  updates: Partial<Omit<NightWaking, 'id'>>
+): Promise<void> {
+  markPendingWrite();
+  const docSnap = await getDoc(doc(db, 'sleepSessions', sessionId));
+  if (!docSnap.exists()) {
+    throw new Error(`Sleep session ${sessionId} not found`);
+  }
+
+  const session = convertTimestamps(docSnap.data()) as SleepSession;
+  const wakings = (session.wakings ?? []).map((waking) =>
+    waking.id === wakingId ? { ...waking, ...updates } : waking
+  );
+
+  await updateDoc(doc(db, 'sleepSessions', sessionId), {
+    wakings,
+    ...(session.endTime && { duration: calculateSleepDuration(session.startTime, session.endTime, wakings) }),
+    updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
+  });
+}
+
+export async function deleteNightWaking(sessionId: string, wakingId: string): Promise<void> {
+  markPendingWrite();
+  const docSnap = await getDoc(doc(db, 'sleepSessions', sessionId));
+  if (!docSnap.exists()) {
+    throw new Error(`Sleep session ${sessionId} not found`);
+  }
+
+  const session = convertTimestamps(docSnap.data()) as SleepSession;
+  const wakings = (session.wakings ?? []).filter((waking) => waking.id !== wakingId);
+
+  await updateDoc(doc(db, 'sleepSessions', sessionId), {
+    wakings,
+    ...(session.endTime && { duration: calculateSleepDuration(session.startTime, session.endTime, wakings) }),
+    updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
   });
 }
 
@@ -941,6 +1764,7 @@ export async function createDiaperChange(
     date: getLocalDateString(timestamp),
     createdAt: now,
     updatedAt: now,
+    loggedBy: userId,
   });
   return docRef.id;
 }
@@ -981,6 +1805,7 @@ export async function createGrowthEntry(
     notes: input.notes ?? null,
     createdAt: now,
     updatedAt: now,
+    loggedBy: userId,
   });
   return docRef.id;
 }
@@ -1017,6 +1842,7 @@ export async function createMilestone(
     notes: input.notes ?? null,
     createdAt: now,
     updatedAt: now,
+    loggedBy: userId,
   });
   return docRef.id;
 }
@@ -1029,6 +1855,7 @@ export async function markMilestoneAchieved(
     isAchieved: true,
     achievedDate,
     updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
   });
 }
 
@@ -1064,6 +1891,7 @@ export async function createMedicine(
     isActive: true,
     createdAt: now,
     updatedAt: now,
+    loggedBy: userId,
   });
   return docRef.id;
 }
@@ -1072,6 +1900,7 @@ export async function updateMedicine(medicineId: string, updates: Partial<Medici
   await updateDoc(doc(db, 'medicines', medicineId), {
     ...updates,
     updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
   });
 }
 
@@ -1107,22 +1936,38 @@ export async function createMedicineLog(
     notes: input.notes ?? null,
     createdAt: now,
     updatedAt: now,
+    loggedBy: userId,
   });
   return docRef.id;
 }
 
+// Logs for one medicine, or for all of the baby's medicines when medicineId is null. Always filtered
+// on babyId, which the security rules need to check access before running the query.
 export function subscribeToMedicineLogs(
-  medicineId: string,
+  babyId: string,
+  medicineId: string | null,
   callback: (logs: MedicineLog[]) => void
 ): () => void {
-  return subscribeToCollectionSimple<MedicineLog>(
-    'medicineLogs',
-    'medicineId',
-    medicineId,
-    'timestamp',
-    'desc',
-    callback
+  if (!medicineId) {
+    return subscribeToCollectionSimple<MedicineLog>('medicineLogs', 'babyId', babyId, 'timestamp', 'desc', callback);
+  }
+
+  const q = query(
+    collection(db, 'medicineLogs'),
+    where('babyId', '==', babyId),
+    where('medicineId', '==', medicineId)
   );
+  return onSnapshot(q, (snapshot) => {
+    const logs = snapshot.docs.map((docSnap) => ({
+      id: docSnap.id,
+      ...convertTimestamps(docSnap.data()),
+    })) as MedicineLog[];
+    logs.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    callback(logs.slice(0, DEFAULT_QUERY_LIMIT));
+  }, (error) => {
+    console.error('Error subscribing to medicineLogs:', error);
+    callback([]);
+  });
 }
 
 // ============ VACCINATIONS ============
@@ -1141,12 +1986,60 @@ export async function createVaccination(
     location: input.location ?? null,
     notes: input.notes ?? null,
     reminderEnabled: input.reminderEnabled ?? true,
+    scheduleId: input.scheduleId ?? null,
+    doseKey: input.doseKey ?? null,
     createdAt: now,
     updatedAt: now,
+    loggedBy: userId,
   });
   return docRef.id;
 }
 
+// Applies a schedule template plan (see vaccinationSchedulePlanner) in a single batch
+export async function applyVaccinationSchedule(
+  babyId: string,
+  userId: string,
+  plan: {
+    create: CreateVaccinationInput[];
+    update: { id: string; changes: Partial<CreateVaccinationInput> }[];
+    remove: string[];
+  }
+): Promise<void> {
+  const now = new Date().toISOString();
+  const batch = writeBatch(db);
+
+  for (const input of plan.create) {
+    batch.set(doc(collection(db, 'vaccinations')), {
+      ...input,
+      babyId,
+      userId,
+      administeredDate: input.administeredDate ?? null,
+      location: input.location ?? null,
+      notes: input.notes ?? null,
+      reminderEnabled: input.reminderEnabled ?? true,
+      scheduleId: input.scheduleId ?? null,
+      doseKey: input.doseKey ?? null,
+      createdAt: now,
+      updatedAt: now,
+      loggedBy: userId,
+    });
+  }
+
+  for (const { id, changes } of plan.update) {
+    batch.update(doc(db, 'vaccinations', id), {
+      ...changes,
+      updatedAt: now,
+      updatedBy: userId,
+    });
+  }
+
+  for (const id of plan.remove) {
+    batch.delete(doc(db, 'vaccinations', id));
+  }
+
+  await batch.commit();
+}
+
 export async function markVaccinationAdministered(
   vaccinationId: string,
   administeredDate: string,
@@ -1156,6 +2049,18 @@ export async function markVaccinationAdministered(
     administeredDate,
     location: location ?? null,
     updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
+  });
+}
+
+export async function updateVaccinationReminder(
+  vaccinationId: string,
+  reminderEnabled: boolean
+): Promise<void> {
+  await updateDoc(doc(db, 'vaccinations', vaccinationId), {
+    reminderEnabled,
+    updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
   });
 }
 
@@ -1192,6 +2097,7 @@ export async function createTeethingEvent(
     notes: input.notes ?? null,
     createdAt: now,
     updatedAt: now,
+    loggedBy: userId,
   });
   return docRef.id;
 }
@@ -1203,6 +2109,7 @@ export async function updateTeethingEvent(
   await updateDoc(doc(db, 'teethingEvents', eventId), {
     ...updates,
     updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
   });
 }
 
@@ -1240,6 +2147,7 @@ export async function createSolidFood(
     notes: input.notes ?? null,
     createdAt: now,
     updatedAt: now,
+    loggedBy: userId,
   });
   return docRef.id;
 }
@@ -1276,10 +2184,26 @@ export async function createDiaryEntry(
     mood: input.mood ?? null,
     createdAt: now,
     updatedAt: now,
+    loggedBy: userId,
   });
   return docRef.id;
 }
 
+export async function updateDiaryEntry(
+  entryId: string,
+  updates: Partial<CreateDiaryEntryInput>
+): Promise<void> {
+  await updateDoc(doc(db, 'diaryEntries', entryId), {
+    ...updates,
+    updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
+  });
+}
+
+export async function deleteDiaryEntry(entryId: string): Promise<void> {
+  await deleteWithRecord('diaryEntries', entryId);
+}
+
 export function subscribeToDiaryEntries(
   babyId: string,
   callback: (entries: DiaryEntry[]) => void
@@ -1311,6 +2235,7 @@ export async function createPediatricianNote(
     resolvedDate: null,
     createdAt: now,
     updatedAt: now,
+    loggedBy: userId,
   });
   return docRef.id;
 }
@@ -1324,6 +2249,7 @@ export async function resolvePediatricianNote(
     resolution,
     resolvedDate: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
   });
 }
 
@@ -1351,7 +2277,8 @@ export async function getOrCreateSettings(userId: string): Promise<AppSettings>
 
   if (!snapshot.empty) {
     const doc = snapshot.docs[0];
-    return { id: doc.id, ...convertTimestamps(doc.data()) } as AppSettings;
+    // Settings saved before a field existed pick up its default
+    return { ...DEFAULT_SETTINGS, id: doc.id, ...convertTimestamps(doc.data()) } as AppSettings;
   }
 
   // Create default settings
@@ -1393,13 +2320,106 @@ export function subscribeToSettings(
       return;
     }
     const docSnap = snapshot.docs[0];
-    callback({ id: docSnap.id, ...convertTimestamps(docSnap.data()) } as AppSettings);
+    callback({ ...DEFAULT_SETTINGS, id: docSnap.id, ...convertTimestamps(docSnap.data()) } as AppSettings);
   }, (error) => {
     console.error('Error subscribing to settings:', error);
     callback(null);
   });
 }
 
+// ============ USER PROFILES ============
+
+// Firestore caps 'in' queries at 30 values
+const PROFILE_QUERY_BATCH_SIZE = 30;
+
+// Get the signed-in user's profile, creating it on first sign-in. Users who set names in
+// settings before profiles existed keep their own name; the partner name is dropped since
+// each partner now names themselves in their own profile. Sign-up and the app shell both
+// call this as a new account signs in, so the profile is created in a transaction and a
+// profile the other one created first is returned as is.
+export async function getOrCreateUserProfile(user: {
+  uid: string;
+  displayName?: string | null;
+  email?: string | null;
+}): Promise<UserProfile> {
+  const profileRef = doc(db, 'userProfiles', user.uid);
+  const profileSnap = await getDoc(profileRef);
+  if (profileSnap.exists()) {
+    return { id: profileSnap.id, ...convertTimestamps(profileSnap.data()) } as UserProfile;
+  }
+
+  const settingsSnapshot = await getDocs(
+    query(collection(db, 'appSettings'), where('userId', '==', user.uid))
+  );
+  const settingsDoc = settingsSnapshot.docs[0];
+  const legacyNames = (settingsDoc?.data() ?? {}) as LegacySettingsNames;
+
+  const now = new Date().toISOString();
+  const profile: Omit<UserProfile, 'id'> = {
+    displayName: legacyNames.userName?.trim().slice(0, USER_DISPLAY_NAME_MAX_LENGTH) || getDefaultDisplayName(user),
+    avatarColor: getDefaultAvatarColor(user.uid),
+    relationship: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  return runTransaction(db, async (transaction) => {
+    const existing = await transaction.get(profileRef);
+    if (existing.exists()) {
+      return { id: existing.id, ...convertTimestamps(existing.data()) } as UserProfile;
+    }
+
+    transaction.set(profileRef, profile);
+    if (settingsDoc && ('userName' in legacyNames || 'partnerName' in legacyNames)) {
+      transaction.update(settingsDoc.ref, { userName: deleteField(), partnerName: deleteField() });
+    }
+    return { id: user.uid, ...profile };
+  });
+}
+
+export async function updateUserProfile(userId: string, input: UpdateUserProfileInput): Promise<void> {
+  markPendingWrite();
+  await updateDoc(doc(db, 'userProfiles', userId), {
+    ...input,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+// Subscribe to the profiles of a set of users, e.g. everyone sharing the user's babies
+export function subscribeToUserProfiles(
+  userIds: string[],
+  callback: (profiles: UserProfileMap) => void
+): () => void {
+  const ids = Array.from(new Set(userIds));
+  if (ids.length === 0) {
+    callback({});
+    return () => {};
+  }
+
+  const batches: UserProfileMap[] = [];
+  const unsubscribes: (() => void)[] = [];
+  for (let i = 0; i < ids.length; i += PROFILE_QUERY_BATCH_SIZE) {
+    const batchIndex = batches.length;
+    batches.push({});
+    const q = query(
+      collection(db, 'userProfiles'),
+      where(documentId(), 'in', ids.slice(i, i + PROFILE_QUERY_BATCH_SIZE))
+    );
+    unsubscribes.push(onSnapshot(q, (snapshot) => {
+      const profiles: UserProfileMap = {};
+      snapshot.docs.forEach((docSnap) => {
+        profiles[docSnap.id] = { id: docSnap.id, ...convertTimestamps(docSnap.data()) } as UserProfile;
+      });
+      batches[batchIndex] = profiles;
+      callback(Object.assign({}, ...batches));
+    }, (error) => {
+      console.error('Error subscribing to user profiles:', error);
+    }));
+  }
+
+  return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+}
+
 // ============ UPDATE SESSION OPERATIONS ============
 
 // Update a sleep session
@@ -1418,21 +2438,28 @@ export async function updateSleepSession(
     throw new Error(`Sleep session ${sessionId} not found`);
   }
 
-  const session = convertTimestamps(docSnap.data());
-  const startTime = updates.startTime ? new Date(updates.startTime) : new Date(session.startTime);
-  const endTime = updates.endTime ? new Date(updates.endTime) : (session.endTime ? new Date(session.endTime) : null);
+  const session = convertTimestamps(docSnap.data()) as SleepSession;
+  const startTime = new Date(updates.startTime ?? session.startTime);
+  const endTime = updates.endTime ?? session.endTime;
+  // A waking still open when the sleep ends finishes with it, as in endSleepSession
+  const wakings = endTime
+    ? session.wakings?.map((waking) => (waking.endTime ? waking : { ...waking, endTime }))
+    : session.wakings;
 
+  // Wakings outside the edited times no longer count against the sleep
   const duration = endTime
-    ? Math.max(0, Math.floor((endTime.getTime() - startTime.getTime()) / 1000))
+    ? calculateSleepDuration(startTime.toISOString(), endTime, wakings)
     : session.duration;
 
   await updateDoc(doc(db, 'sleepSessions', sessionId), {
     ...updates,
     date: getLocalDateString(startTime),
     duration,
+    ...(wakings && { wakings }),
     // Mark session as inactive if endTime is provided
     ...(updates.endTime && { isActive: false }),
     updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
   });
 }
 
@@ -1453,18 +2480,22 @@ export async function updateFeedingSession(
     throw new Error(`Feeding session ${sessionId} not found`);
   }
 
-  const session = convertTimestamps(docSnap.data());
+  const session = convertTimestamps(docSnap.data()) as FeedingSession;
   const startTime = updates.startTime ? new Date(updates.startTime) : new Date(session.startTime);
-  const endTime = updates.endTime ? new Date(updates.endTime) : new Date(session.endTime);
-  const duration = Math.max(0, Math.floor((endTime.getTime() - startTime.getTime()) / 1000));
+  const endTime = updates.endTime ? new Date(updates.endTime) : new Date(session.endTime!);
+  const totalDuration = Math.max(0, Math.floor((endTime.getTime() - startTime.getTime()) / 1000));
+  const segments = editFeedingSegments(session, startTime, endTime, totalDuration, updates.breastSide);
 
   await updateDoc(doc(db, 'feedingSessions', sessionId), {
     ...updates,
+    breastSide: segments[segments.length - 1].side,
+    segments,
     date: getLocalDateString(startTime),
-    duration,
+    duration: segments.reduce((sum, segment) => sum + segment.duration, 0),
     // Mark session as inactive if endTime is provided
     ...(updates.endTime && { isActive: false }),
     updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
   });
 }
 
@@ -1476,6 +2507,8 @@ export async function updatePumpSession(
     endTime?: string;
     side?: 'left' | 'right' | 'both';
     volume?: number;
+    leftVolume?: number | null;
+    rightVolume?: number | null;
     volumeUnit?: 'oz' | 'ml';
     notes?: string | null;
     momMood?: MomMood | null;
@@ -1493,11 +2526,15 @@ export async function updatePumpSession(
 
   await updateDoc(doc(db, 'pumpSessions', sessionId), {
     ...updates,
+    // Moving off both sides drops the split
+    ...(updates.side && updates.side !== 'both' && { leftVolume: null, rightVolume: null }),
     date: getLocalDateString(startTime),
     duration,
+    ...(session.program && { phases: getPumpSessionPhases(session.program, duration) }),
     // Mark session as inactive if endTime is provided
     ...(updates.endTime && { isActive: false }),
     updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
   });
 }
 
@@ -1507,6 +2544,7 @@ export async function updateBottleSession(
   updates: {
     timestamp?: string;
     volume?: number;
+    offeredVolume?: number | null;
     volumeUnit?: 'oz' | 'ml';
     contentType?: 'breastMilk' | 'formula' | 'mixed';
     milkStashId?: string | null;
@@ -1516,33 +2554,46 @@ export async function updateBottleSession(
 ): Promise<void> {
   const timestamp = updates.timestamp ? new Date(updates.timestamp) : undefined;
   const dateUpdate = timestamp ? { date: getLocalDateString(timestamp) } : {};
+  const sessionRef = doc(db, 'bottleSessions', sessionId);
+  const sessionSnap = await getDoc(sessionRef);
+  const before = { id: sessionId, ...convertTimestamps(sessionSnap.data() ?? {}) } as BottleSession;
+  const batch = writeBatch(db);
+  const formulaUpdate = await addFormulaCorrectionToBatch(batch, before, { ...before, ...updates });
 
-  await updateDoc(doc(db, 'bottleSessions', sessionId), {
+  batch.update(sessionRef, {
     ...updates,
     ...dateUpdate,
+    ...formulaUpdate,
     updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
   });
+  await batch.commit();
 }
 
 // ============ DELETE SESSION OPERATIONS ============
 export async function deleteSleepSession(sessionId: string): Promise<void> {
-  await deleteDoc(doc(db, 'sleepSessions', sessionId));
+  await deleteWithRecord('sleepSessions', sessionId);
 }
 
 export async function deleteFeedingSession(sessionId: string): Promise<void> {
-  await deleteDoc(doc(db, 'feedingSessions', sessionId));
+  await deleteWithRecord('feedingSessions', sessionId);
 }
 
 export async function deletePumpSession(sessionId: string): Promise<void> {
-  await deleteDoc(doc(db, 'pumpSessions', sessionId));
+  await deleteWithRecord('pumpSessions', sessionId);
 }
 
 export async function deleteBottleSession(sessionId: string): Promise<void> {
-  await deleteDoc(doc(db, 'bottleSessions', sessionId));
+  const batch = writeBatch(db);
+  const entry = await addDeleteToBatch(batch, 'bottleSessions', sessionId);
+  if (entry) {
+    await addFormulaCorrectionToBatch(batch, { id: sessionId, ...convertTimestamps(entry) } as BottleSession, null);
+  }
+  await batch.commit();
 }
 
 export async function deleteDiaperChange(changeId: string): Promise<void> {
-  await deleteDoc(doc(db, 'diaperChanges', changeId));
+  await deleteWithRecord('diaperChanges', changeId);
 }
 
 export async function updateDiaperChange(
@@ -1552,11 +2603,17 @@ export async function updateDiaperChange(
     timestamp?: string;
     notes?: string | null;
     babyMood?: BabyMood | null;
+    stoolColor?: StoolColor | null;
+    stoolConsistency?: StoolConsistency | null;
+    stoolAmount?: StoolAmount | null;
+    hasBlood?: boolean;
+    hasMucus?: boolean;
   }
 ): Promise<void> {
   const updateData: Record<string, unknown> = {
     ...updates,
     updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
   };
 
   if (updates.timestamp) {
@@ -1586,6 +2643,7 @@ export async function createPlaySession(
     babyMood: input.babyMood || null,
     createdAt: now,
     updatedAt: now,
+    loggedBy: userId,
   });
   return docRef.id;
 }
@@ -1618,6 +2676,7 @@ export async function createCompletePlaySession(
     babyMood: input.babyMood || null,
     createdAt: now,
     updatedAt: now,
+    loggedBy: userId,
   });
   return docRef.id;
 }
@@ -1645,6 +2704,7 @@ export async function endPlaySession(
     notes: notes ?? session.notes ?? null,
     babyMood: babyMood ?? session.babyMood ?? null,
     updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
   });
 }
 
@@ -1663,7 +2723,7 @@ export function subscribeToPlaySessions(
 }
 
 export async function deletePlaySession(sessionId: string): Promise<void> {
-  await deleteDoc(doc(db, 'playSessions', sessionId));
+  await deleteWithRecord('playSessions', sessionId);
 }
 
 export async function updatePlaySession(
@@ -1693,6 +2753,7 @@ export async function updatePlaySession(
     ...updates,
     duration,
     updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
   });
 }
 
@@ -1715,6 +2776,7 @@ export async function createWalkSession(
     babyMood: input.babyMood || null,
     createdAt: now,
     updatedAt: now,
+    loggedBy: userId,
   });
   return docRef.id;
 }
@@ -1745,6 +2807,7 @@ export async function createCompleteWalkSession(
     babyMood: input.babyMood || null,
     createdAt: now,
     updatedAt: now,
+    loggedBy: userId,
   });
   return docRef.id;
 }
@@ -1772,6 +2835,7 @@ export async function endWalkSession(
     notes: notes ?? session.notes ?? null,
     babyMood: babyMood ?? session.babyMood ?? null,
     updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
   });
 }
 
@@ -1790,7 +2854,7 @@ export function subscribeToWalkSessions(
 }
 
 export async function deleteWalkSession(sessionId: string): Promise<void> {
-  await deleteDoc(doc(db, 'walkSessions', sessionId));
+  await deleteWithRecord('walkSessions', sessionId);
 }
 
 export async function updateWalkSession(
@@ -1819,10 +2883,28 @@ export async function updateWalkSession(
     ...updates,
     duration,
     updatedAt: new Date().toISOString(),
+    updatedBy: getActorId(),
   });
 }
 
 // ============ GENERIC DELETE OPERATION ============
 export async function deleteDocument(collectionPath: string, docId: string): Promise<void> {
-  await deleteDoc(doc(db, collectionPath, docId));
+  await deleteWithRecord(collectionPath, docId);
+}
+
+// Who deleted what for a baby, newest first
+export function subscribeToDeletedEntries(
+  babyId: string,
+  callback: (records: DeletedEntry[]) => void,
+  queryLimit?: number
+): () => void {
+  return subscribeToCollectionSimple<DeletedEntry>(
+    'deletedEntries',
+    'babyId',
+    babyId,
+    'deletedAt',
+    'desc',
+    callback,
+    queryLimit
+  );
 }
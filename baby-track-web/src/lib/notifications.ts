@@ -44,8 +44,17 @@ const STORAGE_KEYS = {
   MEDICINE_NOTIFIED_TODAY: 'notification_medicine_today',
   MEDICINE_NOTIFIED_DATE: 'notification_medicine_date',
   MILK_EXPIRY_NOTIFIED: 'notification_milk_expiry_notified',
+  FORMULA_NOTIFIED: 'notification_formula_notified',
+  DAILY_SUMMARY_SENT: 'notification_daily_summary_sent',
+  VACCINATION_REMINDER_NOTIFIED: 'notification_vaccination_reminder_notified',
+  SLEEP_LAST_NOTIFIED_WAKE: 'notification_sleep_last_wake',
+  PUMP_SCHEDULE_NOTIFIED: 'notification_pump_schedule_notified',
+  PUMP_PART_NOTIFIED: 'notification_pump_part_notified',
+  OUTPUT_ALERT_LAST_NOTIFIED: 'notification_output_alert_last',
 };
 
+export type DailySummaryKind = 'morning' | 'evening';
+
 export function getLastFeedingNotification(): string | null {
   return localStorage.getItem(STORAGE_KEYS.FEEDING_LAST_NOTIFIED);
 }
@@ -78,6 +87,15 @@ export function setLastDiaperActivity(timestamp: string): void {
   localStorage.setItem(STORAGE_KEYS.DIAPER_LAST_ACTIVITY, timestamp);
 }
 
+// Wake-up time the last sleep reminder was sent for, so each awake period gets one reminder
+export function getLastSleepReminderWakeTime(): string | null {
+  return localStorage.getItem(STORAGE_KEYS.SLEEP_LAST_NOTIFIED_WAKE);
+}
+
+export function setLastSleepReminderWakeTime(timestamp: string): void {
+  localStorage.setItem(STORAGE_KEYS.SLEEP_LAST_NOTIFIED_WAKE, timestamp);
+}
+
 export function getMedicineNotifiedToday(): Set<string> {
   const today = new Date().toISOString().split('T')[0];
   const storedDate = localStorage.getItem(STORAGE_KEYS.MEDICINE_NOTIFIED_DATE);
@@ -134,3 +152,136 @@ export function clearMilkExpiryNotified(milkStashId: string): void {
   notified.delete(milkStashId);
   localStorage.setItem(STORAGE_KEYS.MILK_EXPIRY_NOTIFIED, JSON.stringify([...notified]));
 }
+
+// Keys for formula alerts already sent: prepared bottles, opened containers and low stock.
+// Pass isCurrent to forget keys for bottles and containers that are gone, so the set
+// doesn't grow with every prepared bottle.
+export function getFormulaNotified(isCurrent?: (key: string) => boolean): Set<string> {
+  const stored = localStorage.getItem(STORAGE_KEYS.FORMULA_NOTIFIED);
+  if (!stored) return new Set();
+  try {
+    const keys = JSON.parse(stored) as string[];
+    if (!isCurrent) return new Set(keys);
+
+    const current = keys.filter(isCurrent);
+    if (current.length < keys.length) {
+      localStorage.setItem(STORAGE_KEYS.FORMULA_NOTIFIED, JSON.stringify(current));
+    }
+    return new Set(current);
+  } catch {
+    return new Set();
+  }
+}
+
+export function markFormulaNotified(key: string): void {
+  const notified = getFormulaNotified();
+  notified.add(key);
+  localStorage.setItem(STORAGE_KEYS.FORMULA_NOTIFIED, JSON.stringify([...notified]));
+}
+
+export function clearFormulaNotified(key: string): void {
+  const notified = getFormulaNotified();
+  notified.delete(key);
+  localStorage.setItem(STORAGE_KEYS.FORMULA_NOTIFIED, JSON.stringify([...notified]));
+}
+
+// Keyed by part and install date, so a replaced part is reminded again when it wears out
+export function getPumpPartNotified(): Set<string> {
+  const stored = localStorage.getItem(STORAGE_KEYS.PUMP_PART_NOTIFIED);
+  if (!stored) return new Set();
+  try {
+    return new Set(JSON.parse(stored));
+  } catch {
+    return new Set();
+  }
+}
+
+export function markPumpPartNotified(key: string): void {
+  const notified = getPumpPartNotified();
+  notified.add(key);
+  localStorage.setItem(STORAGE_KEYS.PUMP_PART_NOTIFIED, JSON.stringify([...notified]));
+}
+
+// Planned pump times already reminded, keyed "yyyy-MM-dd HH:mm". Only today's are kept.
+export function getPumpScheduleNotified(date: string): Set<string> {
+  const stored = localStorage.getItem(STORAGE_KEYS.PUMP_SCHEDULE_NOTIFIED);
+  if (!stored) return new Set();
+  try {
+    return new Set((JSON.parse(stored) as string[]).filter((key) => key.startsWith(date)));
+  } catch {
+    return new Set();
+  }
+}
+
+export function markPumpScheduleNotified(date: string, time: string): void {
+  const notified = getPumpScheduleNotified(date);
+  notified.add(`${date} ${time}`);
+  localStorage.setItem(STORAGE_KEYS.PUMP_SCHEDULE_NOTIFIED, JSON.stringify([...notified]));
+}
+
+// When each baby's low diaper output alert last went out, keyed by baby id
+function getOutputAlertTimes(): Record<string, string> {
+  const stored = localStorage.getItem(STORAGE_KEYS.OUTPUT_ALERT_LAST_NOTIFIED);
+  if (!stored) return {};
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return {};
+  }
+}
+
+export function getLastOutputAlert(babyId: string): string | null {
+  return getOutputAlertTimes()[babyId] ?? null;
+}
+
+export function setLastOutputAlert(babyId: string, timestamp: string): void {
+  const times = getOutputAlertTimes();
+  times[babyId] = timestamp;
+  localStorage.setItem(STORAGE_KEYS.OUTPUT_ALERT_LAST_NOTIFIED, JSON.stringify(times));
+}
+
+// Date (yyyy-MM-dd) each baby's daily summaries were last sent, keyed "<kind>:<babyId>",
+// so reloads don't repeat them and switching babies doesn't hold back the other baby's
+function getDailySummarySentDates(): Record<string, string> {
+  const stored = localStorage.getItem(STORAGE_KEYS.DAILY_SUMMARY_SENT);
+  if (!stored) return {};
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return {};
+  }
+}
+
+export function wasDailySummarySent(kind: DailySummaryKind, babyId: string, date: string): boolean {
+  return getDailySummarySentDates()[`${kind}:${babyId}`] === date;
+}
+
+// Only today's entries are kept
+export function markDailySummarySent(kind: DailySummaryKind, babyId: string, date: string): void {
+  const sent = Object.fromEntries(
+    Object.entries(getDailySummarySentDates()).filter(([, sentDate]) => sentDate === date)
+  );
+  sent[`${kind}:${babyId}`] = date;
+  localStorage.setItem(STORAGE_KEYS.DAILY_SUMMARY_SENT, JSON.stringify(sent));
+}
+
+// Keyed by vaccination, scheduled date and stage, so a rescheduled dose is reminded again
+export function getVaccinationReminderKey(vaccinationId: string, scheduledDate: string, stage: string): string {
+  return `${vaccinationId}:${scheduledDate}:${stage}`;
+}
+
+export function getVaccinationRemindersNotified(): Set<string> {
+  const stored = localStorage.getItem(STORAGE_KEYS.VACCINATION_REMINDER_NOTIFIED);
+  if (!stored) return new Set();
+  try {
+    return new Set(JSON.parse(stored));
+  } catch {
+    return new Set();
+  }
+}
+
+export function markVaccinationRemindersNotified(keys: string[]): void {
+  const notified = getVaccinationRemindersNotified();
+  keys.forEach((key) => notified.add(key));
+  localStorage.setItem(STORAGE_KEYS.VACCINATION_REMINDER_NOTIFIED, JSON.stringify([...notified]));
+}
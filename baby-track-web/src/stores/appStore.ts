@@ -1,6 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { Baby, AppSettings } from '@/types';
+import type { Baby, AppSettings, UserProfileMap } from '@/types';
 import { isNightModeTime } from '@/types';
 import { MAX_FAVORITES } from '@/features/featureCatalog';
 import type { FeatureId } from '@/features/featureCatalog';
@@ -20,6 +20,9 @@ interface AppState {
   // Settings
   settings: AppSettings | null;
 
+  // Profiles of the current user and everyone sharing their babies
+  userProfiles: UserProfileMap;
+
   // UI State
   nightMode: boolean;
   sidebarOpen: boolean;
@@ -39,6 +42,7 @@ interface AppState {
   setSelectedBaby: (baby: Baby | null) => void;
   setBabies: (babies: Baby[]) => void;
   setSettings: (settings: AppSettings | null) => void;
+  setUserProfiles: (profiles: UserProfileMap) => void;
   setNightMode: (enabled: boolean) => void;
   setFavoriteFeatureIds: (featureIds: FeatureId[]) => void;
   toggleFavoriteFeature: (featureId: FeatureId) => void;
@@ -58,6 +62,7 @@ const initialState = {
   selectedBaby: null,
   babies: [],
   settings: null,
+  userProfiles: {},
   nightMode: false,
   sidebarOpen: false,
   favoriteFeatureIds: [],
@@ -110,6 +115,8 @@ export const useAppStore = create<AppState>()(
         get().updateNightModeFromSettings();
       },
 
+      setUserProfiles: (userProfiles) => set({ userProfiles }),
+
       setNightMode: (enabled) => set({ nightMode: enabled }),
 
       setFavoriteFeatureIds: (featureIds) =>
@@ -54,6 +54,8 @@ function resetStore() {
     medicines: [],
     medicineLogs: {},
     milkStash: [],
+    pumpParts: [],
+    pumpPartSessions: [],
     lastRefreshAt: null,
   });
 }
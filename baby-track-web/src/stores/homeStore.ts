@@ -6,6 +6,7 @@ import type {
   Medicine,
   MedicineLog,
   MilkStash,
+  PumpPart,
   PumpSession,
   SleepSession,
 } from '@/types';
@@ -21,6 +22,8 @@ interface HomeDataState {
   medicines: Medicine[];
   medicineLogs: Record<string, MedicineLog[]>;
   milkStash: MilkStash[];
+  pumpParts: PumpPart[];
+  pumpPartSessions: PumpSession[]; // The part owner's sessions for any baby, for part wear
   lastRefreshAt: string | null;
   setContext: (userId: string | null, babyId: string | null) => void;
   resetHomeData: () => void;
@@ -36,6 +39,8 @@ interface HomeDataState {
   setMedicines: (medicines: Medicine[]) => void;
   setMedicineLogs: (medicineId: string, logs: MedicineLog[]) => void;
   setMilkStash: (stash: MilkStash[]) => void;
+  setPumpParts: (parts: PumpPart[]) => void;
+  setPumpPartSessions: (sessions: PumpSession[]) => void;
   addOptimisticMedicineLog: (medicineId: string, log: MedicineLog) => void;
   removeMedicineLog: (medicineId: string, logId: string) => void;
   updateMedicineOptimistically: (medicineId: string, updates: Partial<Medicine>) => void;
@@ -56,6 +61,8 @@ const initialState = {
   medicines: [],
   medicineLogs: {},
   milkStash: [],
+  pumpParts: [],
+  pumpPartSessions: [],
   lastRefreshAt: null,
 };
 
@@ -82,6 +89,8 @@ export const useHomeStore = create<HomeDataState>()((set) => ({
       medicines: [],
       medicineLogs: {},
       milkStash: [],
+      pumpParts: [],
+      pumpPartSessions: [],
       lastRefreshAt: null,
     }),
 
@@ -146,6 +155,12 @@ export const useHomeStore = create<HomeDataState>()((set) => ({
   setMilkStash: (milkStash) =>
     set({ milkStash: [...milkStash] }),
 
+  setPumpParts: (pumpParts) =>
+    set({ pumpParts: [...pumpParts] }),
+
+  setPumpPartSessions: (pumpPartSessions) =>
+    set({ pumpPartSessions: [...pumpPartSessions] }),
+
   addOptimisticMedicineLog: (medicineId, log) =>
     set((state) => ({
       medicineLogs: {
@@ -62,6 +62,9 @@ export const toast = {
     useToastStore.getState().addToast(message, 'warning', duration),
   info: (message: string, duration?: number) =>
     useToastStore.getState().addToast(message, 'info', duration),
+  // Success toast with a follow-up action, e.g. printing what was just saved
+  withAction: (message: string, action: ToastAction, duration = 8000) =>
+    useToastStore.getState().addToast(message, 'success', duration, action),
   // Toast with undo action
   withUndo: (message: string, onUndo: () => void, duration = 5000) => {
     // Use an object to hold the id so the closure can access it
@@ -1,5 +1,5 @@
 import { vi } from 'vitest';
-import type { Baby, SleepSession, AppSettings } from '@/types';
+import type { Baby, SleepSession, AppSettings, UserProfile } from '@/types';
 
 // Mock baby
 export const mockBaby: Baby = {
@@ -7,11 +7,14 @@ export const mockBaby: Baby = {
   userId: 'user-1',
   name: 'Test Baby',
   birthDate: '2024-01-01',
+  sex: null,
+  dueDate: null,
+  gestationalAgeDays: null,
   color: 'purple',
   photoUrl: null,
   isActive: true,
   sharedWith: [],
-  shareCode: null,
+  roles: {},
   createdAt: '2024-01-01T00:00:00.000Z',
   updatedAt: '2024-01-01T00:00:00.000Z',
 };
@@ -20,8 +23,6 @@ export const mockBaby: Baby = {
 export const mockSettings: AppSettings = {
   id: 'settings-1',
   userId: 'user-1',
-  userName: null,
-  partnerName: null,
   preferredVolumeUnit: 'oz',
   preferredWeightUnit: 'lbs',
   preferredLengthUnit: 'in',
@@ -38,6 +39,11 @@ export const mockSettings: AppSettings = {
   sleepReminderEnabled: false,
   medicineReminderEnabled: true,
   medicineReminderMinutesBefore: 15,
+  vaccinationReminderEnabled: true,
+  vaccinationReminderDaysBefore: 3,
+  outputAlertEnabled: false,
+  pumpScheduleEnabled: false,
+  pumpScheduleTimes: [],
   dailySummaryEnabled: false,
   morningSummaryEnabled: true,
   morningSummaryHour: 8,
@@ -47,6 +53,17 @@ export const mockSettings: AppSettings = {
   updatedAt: '2024-01-01T00:00:00.000Z',
 };
 
+// Create mock user profile
+export const createMockUserProfile = (overrides: Partial<UserProfile> = {}): UserProfile => ({
+  id: 'user-1',
+  displayName: 'Test Parent',
+  avatarColor: 'blue',
+  relationship: null,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
 // Create mock sleep session
 export const createMockSleepSession = (overrides: Partial<SleepSession> = {}): SleepSession => ({
   id: `session-${Math.random().toString(36).substr(2, 9)}`,
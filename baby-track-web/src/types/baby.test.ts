@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateBabyAge,
+  calculateCorrectedAge,
+  formatBabyAge,
+  getBabyRole,
+  getCorrectedBirthDate,
+  getDevelopmentalAgeMonths,
+  getHouseholdBabyIds,
+  getPrematurityDays,
+  roleCan,
+  roleCanFinish,
+} from './baby';
+
+const now = new Date('2024-07-01T12:00:00.000Z');
+
+describe('calculateBabyAge', () => {
+  it('describes chronological age', () => {
+    expect(calculateBabyAge('2024-03-01', now)?.text).toBe('4 months old');
+  });
+
+  it('supports a custom suffix', () => {
+    expect(calculateBabyAge('2024-06-28', now, 'corrected')?.text).toBe('3 days corrected');
+  });
+});
+
+describe('getPrematurityDays', () => {
+  it('prefers the due date', () => {
+    expect(getPrematurityDays({ birthDate: '2024-03-01', dueDate: '2024-05-01', gestationalAgeDays: 200 })).toBe(61);
+  });
+
+  it('falls back to gestational age at birth', () => {
+    expect(getPrematurityDays({ birthDate: '2024-03-01', dueDate: null, gestationalAgeDays: 32 * 7 })).toBe(56);
+  });
+
+  it('is zero without prematurity details', () => {
+    expect(getPrematurityDays({ birthDate: '2024-03-01', dueDate: null, gestationalAgeDays: null })).toBe(0);
+  });
+});
+
+describe('corrected age', () => {
+  const preterm = { birthDate: '2024-03-01', dueDate: '2024-05-01', gestationalAgeDays: null };
+
+  it('counts from the due date for babies born before 37 weeks', () => {
+    expect(getCorrectedBirthDate(preterm)).toBe('2024-05-01');
+    expect(calculateCorrectedAge(preterm, now)?.text).toBe('8 weeks and 5 days corrected');
+  });
+
+  it('does not correct babies born at 37 weeks or later', () => {
+    const lateTerm = { birthDate: '2024-03-01', dueDate: null, gestationalAgeDays: 38 * 7 };
+    expect(getCorrectedBirthDate(lateTerm)).toBeNull();
+    expect(calculateCorrectedAge(lateTerm, now)).toBeNull();
+  });
+
+  it('shows gestational age before the due date', () => {
+    const early = { birthDate: '2024-06-01', dueDate: '2024-07-29', gestationalAgeDays: null };
+    expect(calculateCorrectedAge(early, now)?.text).toBe('36w 0d gestational');
+  });
+
+  it('stops correcting at 24 months corrected', () => {
+    expect(calculateCorrectedAge(preterm, new Date('2026-06-01T12:00:00.000Z'))).toBeNull();
+  });
+
+  it('drives developmental age and the header text', () => {
+    expect(getDevelopmentalAgeMonths(preterm, now)).toBeCloseTo(61.5 / 30.4375, 1);
+    expect(formatBabyAge(preterm, now)).toBe('4 months old · 8 weeks and 5 days corrected');
+  });
+});
+
+describe('getBabyRole', () => {
+  const baby = {
+    userId: 'owner',
+    sharedWith: ['caregiver', 'legacy'],
+    roles: { caregiver: 'caregiver' as const },
+  };
+
+  it('resolves the owner, assigned roles and users without access', () => {
+    expect(getBabyRole(baby, 'owner')).toBe('owner');
+    expect(getBabyRole(baby, 'caregiver')).toBe('caregiver');
+    expect(getBabyRole(baby, 'stranger')).toBeNull();
+    expect(getBabyRole(baby, null)).toBeNull();
+  });
+
+  it('treats shared users from before roles existed as co-parents', () => {
+    expect(getBabyRole(baby, 'legacy')).toBe('coParent');
+    expect(getBabyRole({ userId: 'owner', sharedWith: ['legacy'] }, 'legacy')).toBe('coParent');
+  });
+});
+
+describe('roleCan', () => {
+  it('lets caregivers log but not change history or medical records', () => {
+    expect(roleCan('caregiver', 'log')).toBe(true);
+    expect(roleCan('caregiver', 'editHistory')).toBe(false);
+    expect(roleCan('caregiver', 'deleteHistory')).toBe(false);
+    expect(roleCan('caregiver', 'editMedical')).toBe(false);
+  });
+
+  it('keeps sharing with the owner and viewers read-only', () => {
+    expect(roleCan('owner', 'manageSharing')).toBe(true);
+    expect(roleCan('coParent', 'manageSharing')).toBe(false);
+    expect(roleCan('coParent', 'editMedical')).toBe(true);
+    expect(roleCan('viewer', 'log')).toBe(false);
+    expect(roleCan(null, 'log')).toBe(false);
+  });
+});
+
+describe('roleCanFinish', () => {
+  const timer = { userId: 'owner', loggedBy: 'caregiver', isActive: true };
+
+  it('lets caregivers finish only their own running timers', () => {
+    expect(roleCanFinish('caregiver', timer, 'caregiver')).toBe(true);
+    expect(roleCanFinish('caregiver', timer, 'other-caregiver')).toBe(false);
+    expect(roleCanFinish('caregiver', { ...timer, isActive: false }, 'caregiver')).toBe(false);
+    expect(roleCanFinish('caregiver', { userId: 'caregiver', isActive: true }, 'caregiver')).toBe(true);
+  });
+
+  it('lets editors finish any entry and viewers none', () => {
+    expect(roleCanFinish('coParent', timer, 'co-parent')).toBe(true);
+    expect(roleCanFinish('owner', { ...timer, isActive: false }, 'owner')).toBe(true);
+    expect(roleCanFinish('viewer', { ...timer, loggedBy: 'viewer' }, 'viewer')).toBe(false);
+  });
+});
+
+describe('getHouseholdBabyIds', () => {
+  const babies = [
+    { id: 'baby-b', userId: 'owner-1' },
+    { id: 'baby-a', userId: 'owner-1' },
+    { id: 'baby-c', userId: 'owner-2' },
+  ];
+
+  it('groups the babies of the same owner', () => {
+    expect(getHouseholdBabyIds(babies, 'baby-b')).toEqual(['baby-a', 'baby-b']);
+    expect(getHouseholdBabyIds(babies, 'baby-c')).toEqual(['baby-c']);
+  });
+
+  it('falls back to the baby itself when it is not loaded', () => {
+    expect(getHouseholdBabyIds(babies, 'baby-x')).toEqual(['baby-x']);
+  });
+});
@@ -1,22 +1,33 @@
-import { BabyColor } from './enums';
+import { BabyColor, BabyRole, BabySex } from './enums';
+import { getLoggedBy, type CaregiverAttribution } from './caregiver';
+
+// Roles that can be given to shared users; there is exactly one owner
+export type SharedBabyRole = Exclude<BabyRole, 'owner'>;
 
 export interface Baby {
   id: string;
   userId: string;
   name: string;
   birthDate: string | null; // ISO date string
+  sex: BabySex | null;
+  dueDate: string | null; // ISO date string, for babies born early
+  gestationalAgeDays: number | null; // Gestational age at birth in days (e.g. 32w3d = 227)
   photoUrl: string | null;
   color: BabyColor;
   createdAt: string;
   updatedAt: string;
   isActive: boolean;
   sharedWith: string[]; // Array of user IDs who have access
-  shareCode: string | null; // Code for inviting partners
+  roles?: Record<string, SharedBabyRole>; // Role per shared user ID; missing for babies shared before roles existed
+  lastInviteId?: string | null; // Invite used by the latest person to join, checked by the security rules
 }
 
 export interface CreateBabyInput {
   name: string;
   birthDate?: string | null;
+  sex?: BabySex | null;
+  dueDate?: string | null;
+  gestationalAgeDays?: number | null;
   photoUrl?: string | null;
   color?: BabyColor;
 }
@@ -24,17 +35,85 @@ export interface CreateBabyInput {
 export interface UpdateBabyInput {
   name?: string;
   birthDate?: string | null;
+  sex?: BabySex | null;
+  dueDate?: string | null;
+  gestationalAgeDays?: number | null;
   photoUrl?: string | null;
   color?: BabyColor;
   isActive?: boolean;
 }
 
+// Actions gated by role. 'log' covers adding entries and finishing in-progress timers.
+export type BabyPermission =
+  | 'log'
+  | 'editHistory'
+  | 'deleteHistory'
+  | 'editMedical'
+  | 'editBaby'
+  | 'manageSharing'
+  | 'deleteBaby';
+
+const BABY_ROLE_PERMISSIONS: Record<BabyRole, BabyPermission[]> = {
+  owner: ['log', 'editHistory', 'deleteHistory', 'editMedical', 'editBaby', 'manageSharing', 'deleteBaby'],
+  coParent: ['log', 'editHistory', 'deleteHistory', 'editMedical', 'editBaby'],
+  caregiver: ['log'],
+  viewer: [],
+};
+
+// Shared users without a stored role joined before roles existed and keep full co-parent access
+export const DEFAULT_SHARED_ROLE: SharedBabyRole = 'coParent';
+
+export function getBabyRole(baby: Pick<Baby, 'userId' | 'sharedWith' | 'roles'>, userId: string | null): BabyRole | null {
+  if (!userId) return null;
+  if (baby.userId === userId) return 'owner';
+  if (!baby.sharedWith?.includes(userId)) return null;
+  return baby.roles?.[userId] ?? DEFAULT_SHARED_ROLE;
+}
+
+export function roleCan(role: BabyRole | null, permission: BabyPermission): boolean {
+  return role !== null && BABY_ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Whether the role may stop, pause or save an entry. Caregivers can only finish timers they
+// started themselves, matching isFinishingOwnTimer in the security rules.
+export function roleCanFinish(
+  role: BabyRole | null,
+  entry: CaregiverAttribution & { userId?: string; isActive?: boolean },
+  userId: string | null
+): boolean {
+  if (roleCan(role, 'editHistory')) return true;
+  return roleCan(role, 'log') && entry.isActive === true && userId !== null && getLoggedBy(entry) === userId;
+}
+
+// The babies sharing a household with the given baby: every baby of the same owner the user
+// can see. Household data like the milk stash is shared across them.
+export function getHouseholdBabyIds(babies: Pick<Baby, 'id' | 'userId'>[], babyId: string): string[] {
+  const baby = babies.find((b) => b.id === babyId);
+  if (!baby) return [babyId];
+  return babies.filter((b) => b.userId === baby.userId).map((b) => b.id).sort();
+}
+
+export interface BabyAge {
+  months: number;
+  weeks: number;
+  days: number;
+  totalDays: number;
+  text: string;
+}
+
+type PrematurityFields = Pick<Baby, 'birthDate' | 'dueDate' | 'gestationalAgeDays'>;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const FULL_TERM_DAYS = 40 * 7;
+// Age is only corrected for babies born before 37 weeks, and only until 24 months corrected
+const PRETERM_DAYS = 37 * 7;
+const CORRECTED_AGE_LIMIT_MONTHS = 24;
+
 // Helper to calculate baby's age
-export function calculateBabyAge(birthDate: string | null): { months: number; weeks: number; days: number; totalDays: number; text: string } | null {
+export function calculateBabyAge(birthDate: string | null, now: Date = new Date(), suffix = 'old'): BabyAge | null {
   if (!birthDate) return null;
 
   const birth = new Date(birthDate);
-  const now = new Date();
 
   // Calculate total days
   const totalDays = Math.floor((now.getTime() - birth.getTime()) / (1000 * 60 * 60 * 24));
@@ -54,23 +133,86 @@ export function calculateBabyAge(birthDate: string | null): { months: number; we
   let text = '';
   if (totalDays < 7) {
     // Less than a week: show days only
-    text = `${totalDays} day${totalDays !== 1 ? 's' : ''} old`;
+    text = `${totalDays} day${totalDays !== 1 ? 's' : ''} ${suffix}`;
   } else if (weeks < 12) {
     // Less than 12 weeks: show weeks and days
     if (remainingDays === 0) {
-      text = `${weeks} week${weeks !== 1 ? 's' : ''} old`;
+      text = `${weeks} week${weeks !== 1 ? 's' : ''} ${suffix}`;
     } else {
-      text = `${weeks} week${weeks !== 1 ? 's' : ''} and ${remainingDays} day${remainingDays !== 1 ? 's' : ''} old`;
+      text = `${weeks} week${weeks !== 1 ? 's' : ''} and ${remainingDays} day${remainingDays !== 1 ? 's' : ''} ${suffix}`;
     }
   } else if (months < 24) {
     // Less than 2 years: show months
-    text = `${months} month${months !== 1 ? 's' : ''} old`;
+    text = `${months} month${months !== 1 ? 's' : ''} ${suffix}`;
   } else {
     // 2+ years: show years and months
     const years = Math.floor(months / 12);
     const remainingMonths = months % 12;
-    text = `${years} year${years !== 1 ? 's' : ''}${remainingMonths > 0 ? `, ${remainingMonths} month${remainingMonths !== 1 ? 's' : ''}` : ''} old`;
+    text = `${years} year${years !== 1 ? 's' : ''}${remainingMonths > 0 ? `, ${remainingMonths} month${remainingMonths !== 1 ? 's' : ''}` : ''} ${suffix}`;
   }
 
   return { months, weeks, days: remainingDays, totalDays, text };
 }
+
+// How many days before full term the baby was born, from the due date or gestational age
+export function getPrematurityDays(baby: PrematurityFields): number {
+  if (baby.dueDate && baby.birthDate) {
+    const days = Math.round((new Date(baby.dueDate.split('T')[0]).getTime() - new Date(baby.birthDate.split('T')[0]).getTime()) / DAY_MS);
+    return Math.max(0, days);
+  }
+  if (baby.gestationalAgeDays) {
+    return Math.max(0, FULL_TERM_DAYS - baby.gestationalAgeDays);
+  }
+  return 0;
+}
+
+export function isPreterm(baby: PrematurityFields): boolean {
+  return FULL_TERM_DAYS - getPrematurityDays(baby) < PRETERM_DAYS;
+}
+
+// The date corrected age counts from (the due date), or null when no correction applies
+export function getCorrectedBirthDate(baby: PrematurityFields): string | null {
+  if (!baby.birthDate || !isPreterm(baby)) return null;
+
+  const corrected = new Date(baby.birthDate.split('T')[0]);
+  corrected.setUTCDate(corrected.getUTCDate() + getPrematurityDays(baby));
+  return corrected.toISOString().split('T')[0];
+}
+
+// Corrected age for preterm babies, until they reach 24 months corrected
+export function calculateCorrectedAge(baby: PrematurityFields, now: Date = new Date()): BabyAge | null {
+  const correctedBirthDate = getCorrectedBirthDate(baby);
+  const age = calculateBabyAge(correctedBirthDate, now, 'corrected');
+  if (!age || age.months >= CORRECTED_AGE_LIMIT_MONTHS) return null;
+
+  if (age.totalDays < 0) {
+    // Before the due date, corrected age is expressed as gestational age
+    const gestationalDays = FULL_TERM_DAYS + age.totalDays;
+    const weeks = Math.floor(gestationalDays / 7);
+    const days = gestationalDays % 7;
+    return { ...age, text: `${weeks}w ${days}d gestational` };
+  }
+
+  return age;
+}
+
+// Age in fractional months used for developmental expectations (milestones, teething, sleep).
+// Uses corrected age while it applies, chronological age otherwise.
+export function getDevelopmentalAgeMonths(baby: PrematurityFields, now: Date = new Date()): number | null {
+  if (!baby.birthDate) return null;
+
+  const startDate = calculateCorrectedAge(baby, now) ? getCorrectedBirthDate(baby) : baby.birthDate;
+  if (!startDate) return null;
+
+  const days = (now.getTime() - new Date(startDate).getTime()) / DAY_MS;
+  return Math.max(0, days / 30.4375);
+}
+
+// Age line for headers: chronological age, plus corrected age while it applies
+export function formatBabyAge(baby: PrematurityFields, now: Date = new Date()): string | null {
+  const age = calculateBabyAge(baby.birthDate, now);
+  if (!age) return null;
+
+  const corrected = calculateCorrectedAge(baby, now);
+  return corrected ? `${age.text} · ${corrected.text}` : age.text;
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import type { DeletedEntry } from './caregiver';
+import { formatCaregiverAttribution, formatDeletionAttribution, getCaregiverName, getLoggedBy } from './caregiver';
+import { createMockUserProfile } from '@/test/mocks';
+
+const profiles = {
+  'user-1': createMockUserProfile({ id: 'user-1', displayName: 'Dana' }),
+  'user-2': createMockUserProfile({ id: 'user-2', displayName: 'Sam' }),
+};
+
+describe('getCaregiverName', () => {
+  it('names caregivers from their profiles', () => {
+    expect(getCaregiverName('user-1', 'user-1', profiles)).toBe('Dana');
+    expect(getCaregiverName('user-2', 'user-1', profiles)).toBe('Sam');
+    expect(getCaregiverName(null, 'user-1', profiles)).toBeNull();
+  });
+
+  it('falls back to You and Partner without a profile name', () => {
+    expect(getCaregiverName('user-1', 'user-1', {})).toBe('You');
+    expect(getCaregiverName('user-3', 'user-1', profiles)).toBe('Partner');
+    expect(getCaregiverName('user-1', 'user-1', { 'user-1': createMockUserProfile({ id: 'user-1', displayName: null }) })).toBe('You');
+  });
+});
+
+describe('formatCaregiverAttribution', () => {
+  it('falls back to the creating user for entries logged before attribution', () => {
+    expect(getLoggedBy({ userId: 'user-2' })).toBe('user-2');
+    expect(formatCaregiverAttribution({ userId: 'user-2' }, 'user-1', profiles)).toBe('Logged by Sam');
+  });
+
+  it('mentions who edited an entry someone else logged', () => {
+    expect(
+      formatCaregiverAttribution({ userId: 'user-1', loggedBy: 'user-1', updatedBy: 'user-2' }, 'user-1', profiles)
+    ).toBe('Logged by Dana · edited by Sam');
+    expect(
+      formatCaregiverAttribution({ userId: 'user-1', loggedBy: 'user-1', updatedBy: 'user-1' }, 'user-1', profiles)
+    ).toBe('Logged by Dana');
+  });
+});
+
+describe('formatDeletionAttribution', () => {
+  const record: DeletedEntry = {
+    id: 'deleted-1',
+    babyId: 'baby-1',
+    collection: 'bottleSessions',
+    entryId: 'bottle-1',
+    entry: {},
+    loggedBy: 'user-1',
+    deletedBy: 'user-2',
+    deletedAt: '2024-03-01T10:00:00.000Z',
+  };
+
+  it('names who deleted an entry and who had logged it', () => {
+    expect(formatDeletionAttribution(record, 'user-1', profiles)).toBe('Logged by Dana · deleted by Sam');
+    expect(formatDeletionAttribution({ ...record, loggedBy: 'user-2' }, 'user-1', profiles)).toBe('Deleted by Sam');
+    expect(formatDeletionAttribution({ ...record, loggedBy: null }, 'user-1', profiles)).toBe('Deleted by Sam');
+  });
+});
@@ -0,0 +1,73 @@
+import type { UserProfile } from './userProfile';
+
+// Who logged an entry and who last changed it.
+// Optional because entries saved before attribution existed don't have them.
+export interface CaregiverAttribution {
+  loggedBy?: string | null;
+  updatedBy?: string | null;
+}
+
+// Profiles of the people sharing the selected babies, keyed by user id
+export type UserProfileMap = Record<string, UserProfile>;
+
+// Display name for a caregiver id from their profile, or 'You'/'Partner' before they've set one
+export function getCaregiverName(
+  caregiverId: string | null | undefined,
+  currentUserId: string | null,
+  profiles: UserProfileMap
+): string | null {
+  if (!caregiverId) return null;
+  const displayName = profiles[caregiverId]?.displayName;
+  if (displayName) return displayName;
+  return caregiverId === currentUserId ? 'You' : 'Partner';
+}
+
+// Who logged an entry, falling back to the creating user for older entries
+export function getLoggedBy(entry: CaregiverAttribution & { userId?: string }): string | null {
+  return entry.loggedBy ?? entry.userId ?? null;
+}
+
+// "Logged by Dana · edited by Sam", or null for entries without attribution
+export function formatCaregiverAttribution(
+  entry: CaregiverAttribution & { userId?: string },
+  currentUserId: string | null,
+  profiles: UserProfileMap
+): string | null {
+  const loggedById = getLoggedBy(entry);
+  const loggedBy = getCaregiverName(loggedById, currentUserId, profiles);
+  const updatedBy = entry.updatedBy && entry.updatedBy !== loggedById
+    ? getCaregiverName(entry.updatedBy, currentUserId, profiles)
+    : null;
+
+  if (loggedBy && updatedBy) return `Logged by ${loggedBy} · edited by ${updatedBy}`;
+  if (loggedBy) return `Logged by ${loggedBy}`;
+  if (updatedBy) return `Edited by ${updatedBy}`;
+  return null;
+}
+
+// Written alongside each deleted baby entry so everyone sharing the baby can see who removed it
+export interface DeletedEntry {
+  id: string;
+  babyId: string;
+  collection: string; // Firestore collection the entry was deleted from
+  entryId: string;
+  entry: Record<string, unknown>; // The entry as it was when deleted
+  loggedBy: string | null;
+  deletedBy: string;
+  deletedAt: string;
+}
+
+// "Logged by Dana · deleted by Sam", or "Deleted by Sam" when the same person did both
+export function formatDeletionAttribution(
+  record: DeletedEntry,
+  currentUserId: string | null,
+  profiles: UserProfileMap
+): string | null {
+  const deletedBy = getCaregiverName(record.deletedBy, currentUserId, profiles);
+  if (!deletedBy) return null;
+  const loggedBy = record.loggedBy && record.loggedBy !== record.deletedBy
+    ? getCaregiverName(record.loggedBy, currentUserId, profiles)
+    : null;
+
+  return loggedBy ? `Logged by ${loggedBy} · deleted by ${deletedBy}` : `Deleted by ${deletedBy}`;
+}
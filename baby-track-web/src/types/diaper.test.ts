@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import type { DiaperChange } from './diaper';
+import { getExpectedDiaperOutput, getStoolAlert, getStoolColorTrend, isInMeconiumWindow } from './diaper';
+
+const birthDate = '2024-03-01T00:00:00.000Z';
+
+const change = (timestamp: string, overrides: Partial<DiaperChange> = {}): DiaperChange => ({
+  id: `change-${timestamp}`,
+  babyId: 'baby-1',
+  userId: 'user-1',
+  date: timestamp.split('T')[0],
+  type: 'full',
+  timestamp,
+  notes: null,
+  babyMood: null,
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  ...overrides,
+});
+
+describe('isInMeconiumWindow', () => {
+  it('covers the first days after birth', () => {
+    expect(isInMeconiumWindow('2024-03-04T12:00:00.000Z', birthDate)).toBe(true);
+    expect(isInMeconiumWindow('2024-03-06T00:00:00.000Z', birthDate)).toBe(false);
+    expect(isInMeconiumWindow('2024-03-02T00:00:00.000Z', null)).toBe(false);
+  });
+});
+
+describe('getStoolAlert', () => {
+  it('flags pale and red stool at any age', () => {
+    expect(getStoolAlert(change('2024-03-02T08:00:00.000Z', { stoolColor: 'pale' }), birthDate)).toBe('Pale / white stool');
+    expect(getStoolAlert(change('2024-04-02T08:00:00.000Z', { stoolColor: 'red' }), birthDate)).toBe('Red stool');
+  });
+
+  it('only flags black stool once meconium should have passed', () => {
+    expect(getStoolAlert(change('2024-03-02T08:00:00.000Z', { stoolColor: 'black' }), birthDate)).toBeNull();
+    expect(getStoolAlert(change('2024-03-10T08:00:00.000Z', { stoolColor: 'black' }), birthDate)).toBe('Black / tarry stool');
+    expect(getStoolAlert(change('2024-03-02T08:00:00.000Z', { stoolColor: 'black' }), null)).toBe('Black / tarry stool');
+  });
+
+  it('flags blood and leaves normal stool alone', () => {
+    expect(getStoolAlert(change('2024-03-10T08:00:00.000Z', { stoolColor: 'yellow', hasBlood: true }), birthDate)).toBe('Blood in stool');
+    expect(getStoolAlert(change('2024-03-10T08:00:00.000Z', { stoolColor: 'yellow', hasMucus: true }), birthDate)).toBeNull();
+    expect(getStoolAlert(change('2024-03-10T08:00:00.000Z'), birthDate)).toBeNull();
+  });
+});
+
+describe('getStoolColorTrend', () => {
+  it('groups logged colors by day, oldest first', () => {
+    const changes = [
+      change('2024-03-03T09:00:00.000Z', { stoolColor: 'green' }),
+      change('2024-03-01T20:00:00.000Z', { stoolColor: 'black' }),
+      change('2024-03-03T07:00:00.000Z', { stoolColor: 'darkGreen' }),
+      change('2024-03-02T07:00:00.000Z', { type: 'wet' }),
+      change('2024-03-05T07:00:00.000Z', { stoolColor: 'yellow' }),
+    ];
+
+    expect(getStoolColorTrend(changes)).toEqual([
+      { date: '2024-03-01', colors: ['black'] },
+      { date: '2024-03-03', colors: ['darkGreen', 'green'] },
+      { date: '2024-03-05', colors: ['yellow'] },
+    ]);
+  });
+});
+
+describe('getExpectedDiaperOutput', () => {
+  it('rises through the newborn days, then expects six wet diapers', () => {
+    expect(getExpectedDiaperOutput(1)).toEqual({ wet: 1, dirty: 1 });
+    expect(getExpectedDiaperOutput(5)).toEqual({ wet: 5, dirty: 3 });
+    expect(getExpectedDiaperOutput(6)).toEqual({ wet: 6, dirty: 3 });
+    expect(getExpectedDiaperOutput(30)).toEqual({ wet: 6, dirty: 0 });
+  });
+});
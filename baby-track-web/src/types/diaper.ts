@@ -1,6 +1,7 @@
-import { DiaperType, BabyMood } from './enums';
+import { DiaperType, BabyMood, StoolColor, StoolConsistency, StoolAmount, STOOL_COLOR_CONFIG } from './enums';
+import type { CaregiverAttribution } from './caregiver';
 
-export interface DiaperChange {
+export interface DiaperChange extends CaregiverAttribution {
   id: string;
   babyId: string;
   userId: string;
@@ -9,6 +10,12 @@ export interface DiaperChange {
   timestamp: string;
   notes: string | null;
   babyMood: BabyMood | null;
+  // Stool details, only for full diapers; missing on changes logged before they existed
+  stoolColor?: StoolColor | null;
+  stoolConsistency?: StoolConsistency | null;
+  stoolAmount?: StoolAmount | null;
+  hasBlood?: boolean;
+  hasMucus?: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -18,6 +25,11 @@ export interface CreateDiaperChangeInput {
   timestamp: string;
   notes?: string | null;
   babyMood?: BabyMood | null;
+  stoolColor?: StoolColor | null;
+  stoolConsistency?: StoolConsistency | null;
+  stoolAmount?: StoolAmount | null;
+  hasBlood?: boolean;
+  hasMucus?: boolean;
 }
 
 export function getDiaperStats(changes: DiaperChange[], startDate: Date, endDate: Date): {
@@ -37,3 +49,84 @@ export function getDiaperStats(changes: DiaperChange[], startDate: Date, endDate
     full: filtered.filter(c => (c.type as string) !== 'wet').length,
   };
 }
+
+// Stool details as edited together in the diaper form
+export interface StoolDetails {
+  stoolColor: StoolColor | null;
+  stoolConsistency: StoolConsistency | null;
+  stoolAmount: StoolAmount | null;
+  hasBlood: boolean;
+  hasMucus: boolean;
+}
+
+export const EMPTY_STOOL_DETAILS: StoolDetails = {
+  stoolColor: null,
+  stoolConsistency: null,
+  stoolAmount: null,
+  hasBlood: false,
+  hasMucus: false,
+};
+
+// Days after birth when black, tarry meconium is still expected
+export const MECONIUM_WINDOW_DAYS = 5;
+
+export function isInMeconiumWindow(timestamp: string, birthDate: string | null): boolean {
+  if (!birthDate) return false;
+  const days = (new Date(timestamp).getTime() - new Date(birthDate).getTime()) / (1000 * 60 * 60 * 24);
+  return days < MECONIUM_WINDOW_DAYS;
+}
+
+// Why a stool needs a call to the pediatrician, or null when it looks normal.
+// Black stool is only flagged once the meconium window has passed, or when the birth date is unknown.
+export function getStoolAlert(
+  change: Pick<DiaperChange, 'timestamp' | 'stoolColor' | 'hasBlood'>,
+  birthDate: string | null
+): string | null {
+  const alert = change.stoolColor ? STOOL_COLOR_CONFIG[change.stoolColor].alert : null;
+  if (alert === 'always' || (alert === 'afterMeconium' && !isInMeconiumWindow(change.timestamp, birthDate))) {
+    return `${STOOL_COLOR_CONFIG[change.stoolColor!].label} stool`;
+  }
+  if (change.hasBlood) {
+    return 'Blood in stool';
+  }
+  return null;
+}
+
+export interface StoolColorDay {
+  date: string;
+  colors: StoolColor[]; // In the order they were logged
+}
+
+// Logged stool colors grouped by day, oldest first, to show the move from meconium to yellow
+export function getStoolColorTrend(changes: DiaperChange[]): StoolColorDay[] {
+  const byDate = new Map<string, StoolColor[]>();
+  const sorted = changes
+    .filter((change) => change.stoolColor)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  for (const change of sorted) {
+    const colors = byDate.get(change.date) ?? [];
+    colors.push(change.stoolColor!);
+    byDate.set(change.date, colors);
+  }
+
+  return Array.from(byDate, ([date, colors]) => ({ date, colors }));
+}
+
+export interface ExpectedDiaperOutput {
+  wet: number;
+  dirty: number;
+}
+
+// Newborn output rises day by day until this day of life, then settles
+export const NEWBORN_OUTPUT_DAYS = 6;
+
+// Minimum wet and dirty diapers a day: one more each day for a newborn (dirty levelling off at 3),
+// then 6+ wet. Dirty counts vary too much after the newborn days to judge.
+export function getExpectedDiaperOutput(dayOfLife: number): ExpectedDiaperOutput {
+  if (dayOfLife <= NEWBORN_OUTPUT_DAYS) {
+    const day = Math.max(1, dayOfLife);
+    return { wet: day, dirty: Math.min(day, 3) };
+  }
+  return { wet: 6, dirty: 0 };
+}
@@ -1,6 +1,7 @@
 import { BabyMood } from './enums';
+import type { CaregiverAttribution } from './caregiver';
 
-export interface DiaryEntry {
+export interface DiaryEntry extends CaregiverAttribution {
   id: string;
   babyId: string;
   userId: string;
@@ -58,6 +58,14 @@ export const BOTTLE_CONTENT_CONFIG: Record<BottleContentType, { label: string; c
   mixed: { label: 'Mixed', color: '#9c27b0' },
 };
 
+// Formula Amount Unit (how powder in a formula container is measured)
+export type FormulaAmountUnit = 'scoops' | 'g';
+
+export const FORMULA_AMOUNT_UNIT_CONFIG: Record<FormulaAmountUnit, { label: string; perOzLabel: string; defaultPerOz: number }> = {
+  scoops: { label: 'Scoops', perOzLabel: 'Scoops per oz', defaultPerOz: 0.5 },
+  g: { label: 'Grams', perOzLabel: 'Grams per oz', defaultPerOz: 4.4 },
+};
+
 // Sleep Type
 export type SleepType = 'nap' | 'night';
 
@@ -66,6 +74,15 @@ export const SLEEP_TYPE_CONFIG: Record<SleepType, { label: string; color: string
   night: { label: 'Night', color: '#3f51b5', icon: 'moon' },
 };
 
+// Night Waking Reason
+export type NightWakingReason = 'feed' | 'diaper' | 'comfort';
+
+export const NIGHT_WAKING_REASON_CONFIG: Record<NightWakingReason, { label: string; icon: string }> = {
+  feed: { label: 'Feed', icon: 'milk' },
+  diaper: { label: 'Diaper', icon: 'leaf' },
+  comfort: { label: 'Comfort', icon: 'heart' },
+};
+
 // Diaper Type
 export type DiaperType = 'wet' | 'full';
 
@@ -74,12 +91,100 @@ export const DIAPER_TYPE_CONFIG: Record<DiaperType, { label: string; color: stri
   full: { label: 'Full', color: '#795548', icon: 'circle' },
 };
 
+// Stool Color (following the stool color cards pediatricians use)
+export type StoolColor = 'black' | 'darkGreen' | 'green' | 'yellow' | 'mustard' | 'brown' | 'red' | 'pale';
+
+// 'always' colors need a pediatrician; 'afterMeconium' ones are normal in the first days only
+export type StoolColorAlert = 'always' | 'afterMeconium';
+
+export const STOOL_COLOR_CONFIG: Record<StoolColor, { label: string; color: string; alert: StoolColorAlert | null }> = {
+  black: { label: 'Black / tarry', color: '#212121', alert: 'afterMeconium' },
+  darkGreen: { label: 'Dark green', color: '#33521f', alert: null },
+  green: { label: 'Green', color: '#7c9a2d', alert: null },
+  yellow: { label: 'Yellow', color: '#f2c94c', alert: null },
+  mustard: { label: 'Mustard', color: '#c99a2e', alert: null },
+  brown: { label: 'Brown', color: '#8d5524', alert: null },
+  red: { label: 'Red', color: '#c62828', alert: 'always' },
+  pale: { label: 'Pale / white', color: '#eee8d5', alert: 'always' },
+};
+
+// Stool Consistency
+export type StoolConsistency = 'sticky' | 'watery' | 'seedy' | 'soft' | 'formed' | 'hard';
+
+export const STOOL_CONSISTENCY_CONFIG: Record<StoolConsistency, { label: string }> = {
+  sticky: { label: 'Sticky' },
+  watery: { label: 'Watery' },
+  seedy: { label: 'Seedy' },
+  soft: { label: 'Soft' },
+  formed: { label: 'Formed' },
+  hard: { label: 'Hard' },
+};
+
+// Stool Amount
+export type StoolAmount = 'small' | 'medium' | 'large';
+
+export const STOOL_AMOUNT_CONFIG: Record<StoolAmount, { label: string }> = {
+  small: { label: 'Small' },
+  medium: { label: 'Medium' },
+  large: { label: 'Large' },
+};
+
 // Milk Storage Location
-export type MilkStorageLocation = 'fridge' | 'freezer';
+export type MilkStorageLocation = 'fridge' | 'coolerBag' | 'freezer' | 'deepFreezer';
+
+export const MILK_STORAGE_CONFIG: Record<
+  MilkStorageLocation,
+  { label: string; expirationDays: number; isFrozen: boolean; icon: string; color: string }
+> = {
+  fridge: { label: 'Fridge', expirationDays: 4, isFrozen: false, icon: 'thermometer-snowflake', color: '#2196f3' },
+  coolerBag: { label: 'Cooler Bag', expirationDays: 1, isFrozen: false, icon: 'briefcase', color: '#ff9800' },
+  freezer: { label: 'Freezer', expirationDays: 180, isFrozen: true, icon: 'snowflake', color: '#3f51b5' },
+  deepFreezer: { label: 'Deep Freezer', expirationDays: 365, isFrozen: true, icon: 'snowflake', color: '#1a237e' },
+};
+
+// Milk Stash Event (a change in where or how a stash item is kept)
+export type MilkStashEvent = 'stored' | 'moved' | 'thawStarted' | 'thawed' | 'combined';
+
+export const MILK_STASH_EVENT_CONFIG: Record<MilkStashEvent, { label: string }> = {
+  stored: { label: 'Stored' },
+  moved: { label: 'Moved' },
+  thawStarted: { label: 'Started thawing' },
+  thawed: { label: 'Thawed' },
+  combined: { label: 'Combined' },
+};
 
-export const MILK_STORAGE_CONFIG: Record<MilkStorageLocation, { label: string; expirationDays: number; icon: string; color: string }> = {
-  fridge: { label: 'Fridge', expirationDays: 4, icon: 'thermometer-snowflake', color: '#2196f3' },
-  freezer: { label: 'Freezer', expirationDays: 180, icon: 'snowflake', color: '#3f51b5' },
+// Pump Part (wears out with use and needs replacing)
+export type PumpPartType = 'valve' | 'duckbill' | 'membrane' | 'backflowProtector' | 'flange' | 'tubing' | 'other';
+
+export type PumpPartIntervalUnit = 'hours' | 'days';
+
+// Default replacement intervals follow typical manufacturer guidance for daily pumping
+export const PUMP_PART_CONFIG: Record<
+  PumpPartType,
+  { label: string; pluralLabel: string; defaultInterval: number; defaultIntervalUnit: PumpPartIntervalUnit }
+> = {
+  valve: { label: 'Valve', pluralLabel: 'Valves', defaultInterval: 60, defaultIntervalUnit: 'hours' },
+  duckbill: { label: 'Duckbill', pluralLabel: 'Duckbills', defaultInterval: 60, defaultIntervalUnit: 'hours' },
+  membrane: { label: 'Membrane', pluralLabel: 'Membranes', defaultInterval: 90, defaultIntervalUnit: 'hours' },
+  backflowProtector: { label: 'Backflow Protector', pluralLabel: 'Backflow Protectors', defaultInterval: 90, defaultIntervalUnit: 'days' },
+  flange: { label: 'Flange', pluralLabel: 'Flanges', defaultInterval: 180, defaultIntervalUnit: 'days' },
+  tubing: { label: 'Tubing', pluralLabel: 'Tubing', defaultInterval: 180, defaultIntervalUnit: 'days' },
+  other: { label: 'Other Part', pluralLabel: 'Other Parts', defaultInterval: 90, defaultIntervalUnit: 'days' },
+};
+
+// Cleaning Log
+export type CleaningItem = 'bottles' | 'pumpParts';
+
+export const CLEANING_ITEM_CONFIG: Record<CleaningItem, { label: string; color: string }> = {
+  bottles: { label: 'Bottles', color: '#e91e63' },
+  pumpParts: { label: 'Pump Parts', color: '#2196f3' },
+};
+
+export type CleaningMethod = 'washed' | 'sterilized';
+
+export const CLEANING_METHOD_CONFIG: Record<CleaningMethod, { label: string }> = {
+  washed: { label: 'Washed' },
+  sterilized: { label: 'Sterilized' },
 };
 
 // Food Category
@@ -149,6 +254,45 @@ export const BABY_COLOR_CONFIG: Record<BabyColor, { label: string; hex: string }
   green: { label: 'Green', hex: '#4caf50' },
 };
 
+// Baby Sex (selects the sex-specific WHO growth references)
+export type BabySex = 'male' | 'female';
+
+export const BABY_SEX_CONFIG: Record<BabySex, { label: string }> = {
+  male: { label: 'Boy' },
+  female: { label: 'Girl' },
+};
+
+// Baby Sharing Roles (the owner is Baby.userId; the others are assigned per shared user)
+export type BabyRole = 'owner' | 'coParent' | 'caregiver' | 'viewer';
+
+export const BABY_ROLE_CONFIG: Record<BabyRole, { label: string; description: string }> = {
+  owner: { label: 'Owner', description: 'Full access, including sharing and deleting the baby' },
+  coParent: { label: 'Co-parent', description: 'Can log, edit history, medical records and baby details' },
+  caregiver: { label: 'Caregiver', description: 'Can log new entries but not edit or delete history or medical records' },
+  viewer: { label: 'Viewer', description: 'Can view everything but not make changes' },
+};
+
+// Caregiver's relationship to the baby, shown next to their name
+export type UserRelationship = 'mom' | 'dad' | 'parent' | 'grandma' | 'grandpa' | 'nanny' | 'other';
+
+export const USER_RELATIONSHIP_CONFIG: Record<UserRelationship, { label: string }> = {
+  mom: { label: 'Mom' },
+  dad: { label: 'Dad' },
+  parent: { label: 'Parent' },
+  grandma: { label: 'Grandma' },
+  grandpa: { label: 'Grandpa' },
+  nanny: { label: 'Nanny' },
+  other: { label: 'Other' },
+};
+
+// Vaccination Schedule Templates
+export type VaccinationScheduleId = 'usCdc' | 'israelMoh';
+
+export const VACCINATION_SCHEDULE_CONFIG: Record<VaccinationScheduleId, { label: string; description: string }> = {
+  usCdc: { label: 'US (CDC)', description: 'CDC recommended child immunization schedule' },
+  israelMoh: { label: 'Israel (Ministry of Health)', description: 'Tipat Halav routine vaccination schedule' },
+};
+
 // Teething Symptoms
 export type TeethingSymptom =
   | 'drooling'
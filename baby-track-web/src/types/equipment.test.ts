@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import type { CleaningLog, PumpPart } from './equipment';
+import { getLastCleaned, getPumpPartName, getPumpPartWear, getPumpPartWearStart } from './equipment';
+
+const part = (overrides: Partial<PumpPart> = {}): PumpPart => ({
+  id: 'part-1',
+  userId: 'user-1',
+  type: 'valve',
+  name: null,
+  installedDate: '2024-02-01T00:00:00.000Z',
+  replaceEvery: 2,
+  replaceEveryUnit: 'hours',
+  replacedDates: [],
+  notes: null,
+  createdAt: '2024-02-01T00:00:00.000Z',
+  updatedAt: '2024-02-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const session = (startTime: string, duration: number, overrides: { userId?: string; isActive?: boolean } = {}) => ({
+  userId: 'user-1',
+  isActive: false,
+  startTime,
+  duration,
+  ...overrides,
+});
+
+const now = new Date('2024-02-10T00:00:00.000Z');
+
+describe('getPumpPartWear', () => {
+  it('adds up the owner\'s finished pump time since the part went in', () => {
+    const sessions = [
+      session('2024-01-31T08:00:00.000Z', 3600), // Before the part went in
+      session('2024-02-02T08:00:00.000Z', 3600),
+      session('2024-02-03T08:00:00.000Z', 2700),
+      session('2024-02-03T09:00:00.000Z', 3600, { userId: 'user-2' }),
+      session('2024-02-04T08:00:00.000Z', 3600, { isActive: true }),
+    ];
+
+    expect(getPumpPartWear(part(), sessions, now)).toEqual({ used: 1.8, fraction: 0.875, isDueSoon: false, isDue: false });
+    expect(getPumpPartWear(part({ replaceEvery: 1.5 }), sessions, now)).toMatchObject({ isDueSoon: true, isDue: true });
+  });
+
+  it('counts days in use for parts replaced on a calendar', () => {
+    const wear = getPumpPartWear(part({ replaceEvery: 10, replaceEveryUnit: 'days' }), [], now);
+    expect(wear).toEqual({ used: 9, fraction: 0.9, isDueSoon: true, isDue: false });
+  });
+});
+
+describe('getPumpPartWearStart', () => {
+  it('starts from the oldest part tracked in pump hours', () => {
+    const parts = [
+      part({ id: 'valves', installedDate: '2024-02-05T00:00:00.000Z' }),
+      part({ id: 'membranes', installedDate: '2024-01-20T00:00:00.000Z' }),
+      part({ id: 'tubing', installedDate: '2023-12-01T00:00:00.000Z', replaceEveryUnit: 'days' }),
+    ];
+
+    expect(getPumpPartWearStart(parts)).toBe('2024-01-20T00:00:00.000Z');
+    expect(getPumpPartWearStart([parts[2]])).toBeNull();
+  });
+});
+
+describe('getPumpPartName', () => {
+  it('falls back to the part type', () => {
+    expect(getPumpPartName(part())).toBe('Valves');
+    expect(getPumpPartName(part({ name: 'Spare flanges' }))).toBe('Spare flanges');
+  });
+});
+
+describe('getLastCleaned', () => {
+  it('finds the latest cleaning of each item', () => {
+    const log = (id: string, timestamp: string, items: CleaningLog['items']): CleaningLog => ({
+      id,
+      userId: 'user-1',
+      timestamp,
+      items,
+      method: 'sterilized',
+      notes: null,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    });
+    const logs = [
+      log('a', '2024-02-08T08:00:00.000Z', ['bottles', 'pumpParts']),
+      log('b', '2024-02-09T08:00:00.000Z', ['bottles']),
+    ];
+
+    const last = getLastCleaned(logs);
+    expect(last.bottles?.id).toBe('b');
+    expect(last.pumpParts?.id).toBe('a');
+    expect(getLastCleaned([])).toEqual({});
+  });
+});
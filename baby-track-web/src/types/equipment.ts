@@ -0,0 +1,101 @@
+import { PumpPartType, PumpPartIntervalUnit, PUMP_PART_CONFIG, CleaningItem, CleaningMethod } from './enums';
+import type { PumpSession } from './feeding';
+
+// A pump part in use, replaced after so many pump hours or days since it went in
+export interface PumpPart {
+  id: string;
+  userId: string;
+  type: PumpPartType;
+  name: string | null; // e.g. "Spectra valves", defaults to the part type
+  installedDate: string; // ISO datetime the current part went in
+  replaceEvery: number;
+  replaceEveryUnit: PumpPartIntervalUnit;
+  replacedDates: string[]; // Earlier install dates, oldest first
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreatePumpPartInput {
+  type: PumpPartType;
+  name?: string | null;
+  installedDate: string;
+  replaceEvery: number;
+  replaceEveryUnit: PumpPartIntervalUnit;
+  notes?: string | null;
+}
+
+// Bottles or pump parts washed or sterilized
+export interface CleaningLog {
+  id: string;
+  userId: string;
+  timestamp: string;
+  items: CleaningItem[];
+  method: CleaningMethod;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateCleaningLogInput {
+  timestamp: string;
+  items: CleaningItem[];
+  method: CleaningMethod;
+  notes?: string | null;
+}
+
+export interface PumpPartWear {
+  used: number; // Pump hours or days since the part went in, in the part's own unit
+  fraction: number; // used / replaceEvery
+  isDueSoon: boolean;
+  isDue: boolean;
+}
+
+// Share of the interval used before a part shows as due soon
+export const PUMP_PART_DUE_SOON_FRACTION = 0.9;
+
+export function getPumpPartName(part: Pick<PumpPart, 'type' | 'name'>): string {
+  return part.name || PUMP_PART_CONFIG[part.type].pluralLabel;
+}
+
+// Wear from the part owner's finished pump sessions since it went in, or from days in use
+export function getPumpPartWear(
+  part: PumpPart,
+  pumpSessions: Pick<PumpSession, 'userId' | 'startTime' | 'duration' | 'isActive'>[],
+  now: Date = new Date()
+): PumpPartWear {
+  const installedAt = new Date(part.installedDate).getTime();
+  const used = part.replaceEveryUnit === 'hours'
+    ? pumpSessions
+      .filter((session) => session.userId === part.userId && !session.isActive
+        && new Date(session.startTime).getTime() >= installedAt)
+      .reduce((sum, session) => sum + session.duration, 0) / 3600
+    : Math.max(0, now.getTime() - installedAt) / (24 * 60 * 60 * 1000);
+
+  const rounded = Math.round(used * 10) / 10;
+  const fraction = part.replaceEvery > 0 ? used / part.replaceEvery : 0;
+  return { used: rounded, fraction, isDueSoon: fraction >= PUMP_PART_DUE_SOON_FRACTION, isDue: fraction >= 1 };
+}
+
+// When the oldest part tracked in pump hours went in: wear only needs the owner's sessions from then on.
+// Null when no part is tracked in pump hours.
+export function getPumpPartWearStart(parts: PumpPart[]): string | null {
+  return parts
+    .filter((part) => part.replaceEveryUnit === 'hours')
+    .reduce<string | null>((oldest, part) =>
+      !oldest || new Date(part.installedDate) < new Date(oldest) ? part.installedDate : oldest, null);
+}
+
+// The most recent cleaning of each kind of item
+export function getLastCleaned(logs: CleaningLog[]): Partial<Record<CleaningItem, CleaningLog>> {
+  const last: Partial<Record<CleaningItem, CleaningLog>> = {};
+  for (const log of logs) {
+    for (const item of log.items) {
+      const current = last[item];
+      if (!current || new Date(log.timestamp) > new Date(current.timestamp)) {
+        last[item] = log;
+      }
+    }
+  }
+  return last;
+}
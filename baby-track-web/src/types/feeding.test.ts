@@ -1,6 +1,48 @@
 import { describe, it, expect } from 'vitest';
-import type { FeedingSession, PumpSession } from './feeding';
-import { formatDuration, convertVolume, calculateMilkExpiration, getRoomTempExpirationMinutes, getLastBreastActivity, getSuggestedBreastSide } from './feeding';
+import type { BreastfeedingSegment, FeedingSession, FormulaContainer, MilkStash, PumpSession } from './feeding';
+import {
+  formatDuration,
+  convertVolume,
+  calculateMilkExpiration,
+  getRoomTempExpirationMinutes,
+  getLastBreastActivity,
+  getSuggestedBreastSide,
+  getFeedingSegments,
+  getFeedingSideDurations,
+  switchFeedingSegments,
+  editFeedingSegments,
+  formatFeedingSides,
+  parsePumpVolumeInput,
+  getPumpSideVolumes,
+  formatPumpVolume,
+  getPreparedFormulaExpirationMinutes,
+  getFormulaAmountForVolume,
+  getFormulaOpenExpirationDate,
+  isFormulaContainerExpired,
+  getFormulaStockOz,
+  isFormulaStockLow,
+  getDefaultFormulaContainer,
+  getLeftoverExpirationMinutes,
+  getBottleLeftoverVolume,
+  parseBottleVolumeInput,
+  formatBottleVolume,
+  canMoveMilk,
+  getMovedMilkExpiration,
+  getMilkStashHistory,
+  getMilkThawState,
+  getMilkUseOrder,
+  canCombineMilk,
+  getCombinedMilk,
+  projectMilkSupply,
+  getMilkLabelLink,
+  parseMilkLabelCode,
+  POWER_PUMP_PROGRAM,
+  getPumpProgramSeconds,
+  getPumpPhaseAt,
+  getPumpSessionPhases,
+  getPumpScheduleSlots,
+  getPumpScheduleAdherence,
+} from './feeding';
 
 describe('formatDuration', () => {
   it('formats seconds only', () => {
@@ -104,6 +146,12 @@ describe('calculateMilkExpiration', () => {
     expect(diffDays).toBe(180);
   });
 
+  it('uses the cooler bag and deep freezer limits', () => {
+    const pumpedDate = '2024-01-15T10:00:00.000Z';
+    expect(calculateMilkExpiration(pumpedDate, 'coolerBag')).toBe('2024-01-16T10:00:00.000Z');
+    expect(calculateMilkExpiration(pumpedDate, 'deepFreezer')).toBe('2025-01-14T10:00:00.000Z');
+  });
+
   // Edge case: end of month
   it('handles month boundaries correctly', () => {
     const pumpedDate = '2024-01-30T10:00:00.000Z';
@@ -233,4 +281,396 @@ describe('getSuggestedBreastSide', () => {
       source: 'feeding',
     });
   });
+
+  it('suggests the side after the one a switched feed ended on', () => {
+    const switchedSession: FeedingSession = {
+      ...baseFeedingSession,
+      breastSide: 'right',
+      segments: [
+        { side: 'left', startTime: '2024-01-15T09:00:00.000Z', endTime: '2024-01-15T09:08:00.000Z', duration: 480, pausedDuration: 0 },
+        { side: 'right', startTime: '2024-01-15T09:08:00.000Z', endTime: '2024-01-15T09:15:00.000Z', duration: 420, pausedDuration: 0 },
+      ],
+    };
+
+    expect(getSuggestedBreastSide([switchedSession], [])).toBe('left');
+  });
+});
+
+describe('breastfeeding segments', () => {
+  const legacySession = {
+    breastSide: 'left' as const,
+    startTime: '2024-01-15T09:00:00.000Z',
+    endTime: '2024-01-15T09:15:00.000Z',
+    duration: 840,
+    totalPausedDuration: 60,
+  };
+
+  const openLeft: BreastfeedingSegment = {
+    side: 'left',
+    startTime: '2024-01-15T09:00:00.000Z',
+    endTime: null,
+    duration: 0,
+    pausedDuration: 60,
+  };
+
+  it('reads a session from before side switching as one segment', () => {
+    expect(getFeedingSegments(legacySession)).toEqual([
+      { side: 'left', startTime: legacySession.startTime, endTime: legacySession.endTime, duration: 840, pausedDuration: 60 },
+    ]);
+    expect(getFeedingSideDurations(legacySession)).toEqual({ left: 840, right: 0 });
+    expect(formatFeedingSides(legacySession)).toBe('Left');
+  });
+
+  it('closes the current side without its pauses when switching', () => {
+    const segments = switchFeedingSegments([openLeft], 'right', new Date('2024-01-15T09:10:00.000Z'));
+
+    expect(segments).toEqual([
+      { ...openLeft, endTime: '2024-01-15T09:10:00.000Z', duration: 540 },
+      { side: 'right', startTime: '2024-01-15T09:10:00.000Z', endTime: null, duration: 0, pausedDuration: 0 },
+    ]);
+    expect(formatFeedingSides({ ...legacySession, segments })).toBe('Left → Right');
+  });
+
+  it('counts a pause still running at the switch against the side being left', () => {
+    const segments = switchFeedingSegments(
+      [openLeft],
+      'right',
+      new Date('2024-01-15T09:10:00.000Z'),
+      '2024-01-15T09:07:00.000Z'
+    );
+
+    expect(segments[0]).toMatchObject({ pausedDuration: 240, duration: 360 });
+  });
+
+  it('moves switched sides with an edited start time and fits the last side to the new total', () => {
+    const session = {
+      ...legacySession,
+      segments: [
+        { side: 'left' as const, startTime: '2024-01-15T09:00:00.000Z', endTime: '2024-01-15T09:08:00.000Z', duration: 480, pausedDuration: 0 },
+        { side: 'right' as const, startTime: '2024-01-15T09:08:00.000Z', endTime: '2024-01-15T09:15:00.000Z', duration: 420, pausedDuration: 0 },
+      ],
+    };
+
+    const segments = editFeedingSegments(
+      session,
+      new Date('2024-01-15T08:30:00.000Z'),
+      new Date('2024-01-15T08:50:00.000Z'),
+      1200
+    );
+
+    expect(segments[0]).toMatchObject({ startTime: '2024-01-15T08:30:00.000Z', endTime: '2024-01-15T08:38:00.000Z', duration: 480 });
+    expect(segments[1]).toMatchObject({ startTime: '2024-01-15T08:38:00.000Z', endTime: '2024-01-15T08:50:00.000Z', duration: 720 });
+  });
+});
+
+describe('pump side volumes', () => {
+  it('adds the left and right amounts into the total for a both-sides session', () => {
+    expect(parsePumpVolumeInput('both', '', '2.5', '1.5')).toEqual({ volume: 4, leftVolume: 2.5, rightVolume: 1.5 });
+    expect(parsePumpVolumeInput('both', '', '3', '')).toEqual({ volume: 3, leftVolume: 3, rightVolume: 0 });
+  });
+
+  it('logs the total alone without a split or for a single side', () => {
+    expect(parsePumpVolumeInput('both', '4', '', '')).toEqual({ volume: 4, leftVolume: null, rightVolume: null });
+    expect(parsePumpVolumeInput('left', '2', '1', '1')).toEqual({ volume: 2, leftVolume: null, rightVolume: null });
+    expect(parsePumpVolumeInput('right', '', '', '')).toEqual({ volume: 0, leftVolume: null, rightVolume: null });
+  });
+
+  it('rejects invalid amounts', () => {
+    expect(parsePumpVolumeInput('both', '', '-1', '2')).toBeNull();
+    expect(parsePumpVolumeInput('left', 'abc', '', '')).toBeNull();
+  });
+
+  it('reads each side from single-side and split sessions', () => {
+    expect(getPumpSideVolumes({ side: 'right', volume: 3 })).toEqual({ left: 0, right: 3 });
+    expect(getPumpSideVolumes({ side: 'both', volume: 4, leftVolume: 2.5, rightVolume: 1.5 })).toEqual({ left: 2.5, right: 1.5 });
+    expect(getPumpSideVolumes({ side: 'both', volume: 4 })).toBeNull();
+  });
+
+  it('shows the split next to the total', () => {
+    expect(formatPumpVolume({ side: 'both', volume: 4, volumeUnit: 'oz', leftVolume: 2.5, rightVolume: 1.5 })).toBe(
+      '4 oz (L 2.5 · R 1.5)'
+    );
+    expect(formatPumpVolume({ side: 'both', volume: 4, volumeUnit: 'oz', leftVolume: null, rightVolume: null })).toBe('4 oz');
+    expect(formatPumpVolume({ side: 'left', volume: 120, volumeUnit: 'ml' })).toBe('120 ml');
+  });
+});
+
+describe('formula inventory', () => {
+  const now = new Date('2024-03-10T12:00:00.000Z');
+  const baseContainer: FormulaContainer = {
+    id: 'formula-1',
+    userId: 'user-1',
+    brand: 'Similac',
+    amountUnit: 'scoops',
+    totalAmount: 60,
+    remainingAmount: 40,
+    amountPerOz: 0.5,
+    openedDate: '2024-03-01T08:00:00.000Z',
+    openExpiryDays: 30,
+    preparedAt: null,
+    isFinished: false,
+    finishedDate: null,
+    notes: null,
+    createdAt: '2024-03-01T08:00:00.000Z',
+    updatedAt: '2024-03-01T08:00:00.000Z',
+  };
+
+  it('counts down the room-temperature window for a prepared bottle', () => {
+    expect(getPreparedFormulaExpirationMinutes('2024-03-10T11:30:00.000Z', now)).toBe(90);
+    expect(getPreparedFormulaExpirationMinutes('2024-03-10T09:00:00.000Z', now)).toBe(0);
+  });
+
+  it('converts a bottle volume into powder', () => {
+    expect(getFormulaAmountForVolume(baseContainer, 4, 'oz')).toBe(2);
+    expect(getFormulaAmountForVolume({ amountPerOz: 4.4 }, 29.5735, 'ml')).toBeCloseTo(4.4, 5);
+  });
+
+  it('expires an opened container after its open window', () => {
+    expect(getFormulaOpenExpirationDate(baseContainer)).toBe('2024-03-31T08:00:00.000Z');
+    expect(isFormulaContainerExpired(baseContainer, now)).toBe(false);
+    expect(isFormulaContainerExpired(baseContainer, new Date('2024-04-01T00:00:00.000Z'))).toBe(true);
+    expect(getFormulaOpenExpirationDate({ openedDate: null, openExpiryDays: 30 })).toBeNull();
+  });
+
+  it('sums the prepared ounces left in usable containers', () => {
+    const expired = { ...baseContainer, id: 'formula-2', openedDate: '2024-01-01T08:00:00.000Z' };
+    const sealed = { ...baseContainer, id: 'formula-3', openedDate: null, remainingAmount: 60 };
+
+    expect(getFormulaStockOz([baseContainer, expired, sealed], now)).toBe(200);
+    expect(isFormulaStockLow([baseContainer, expired, sealed], now)).toBe(false);
+    expect(isFormulaStockLow([{ ...baseContainer, remainingAmount: 20 }], now)).toBe(true);
+    expect(isFormulaStockLow([], now)).toBe(false);
+  });
+
+  it('picks the container to deduct from', () => {
+    const sealed = { ...baseContainer, id: 'sealed', openedDate: null };
+    const olderOpened = { ...baseContainer, id: 'older', openedDate: '2024-02-20T08:00:00.000Z' };
+    const prepared = { ...sealed, id: 'prepared', preparedAt: '2024-03-10T11:50:00.000Z' };
+    const expired = { ...baseContainer, id: 'expired', openedDate: '2024-01-01T08:00:00.000Z' };
+
+    expect(getDefaultFormulaContainer([sealed, baseContainer, olderOpened, prepared], now)?.id).toBe('prepared');
+    expect(getDefaultFormulaContainer([sealed, baseContainer, olderOpened, expired], now)?.id).toBe('older');
+    expect(getDefaultFormulaContainer([expired, sealed], now)?.id).toBe('sealed');
+    expect(getDefaultFormulaContainer([expired], now)).toBeNull();
+  });
+});
+
+describe('offered and consumed bottle volumes', () => {
+  it('treats the volume as offered when nothing was left', () => {
+    expect(getBottleLeftoverVolume({ volume: 4 })).toBe(0);
+    expect(getBottleLeftoverVolume({ volume: 3, offeredVolume: 4 })).toBe(1);
+  });
+
+  it('parses the offered and consumed amounts', () => {
+    expect(parseBottleVolumeInput('4', '')).toEqual({ volume: 4, offeredVolume: null });
+    expect(parseBottleVolumeInput('4', '2.5')).toEqual({ volume: 2.5, offeredVolume: 4 });
+    expect(parseBottleVolumeInput('4', '4')).toEqual({ volume: 4, offeredVolume: null });
+    expect(parseBottleVolumeInput('4', '0')).toEqual({ volume: 0, offeredVolume: 4 });
+  });
+
+  it('rejects a consumed amount larger than the bottle', () => {
+    expect(parseBottleVolumeInput('4', '5')).toBeNull();
+    expect(parseBottleVolumeInput('', '2')).toBeNull();
+    expect(parseBottleVolumeInput('4', 'abc')).toBeNull();
+  });
+
+  it('shows what was drunk out of what was offered', () => {
+    expect(formatBottleVolume({ volume: 3, offeredVolume: 4, volumeUnit: 'oz' })).toBe('3 of 4 oz');
+    expect(formatBottleVolume({ volume: 120, offeredVolume: null, volumeUnit: 'ml' })).toBe('120 ml');
+  });
+
+  it('counts down the leftover window', () => {
+    const now = new Date('2024-03-10T12:00:00.000Z');
+    expect(getLeftoverExpirationMinutes('2024-03-10T11:00:00.000Z', now)).toBe(60);
+    expect(getLeftoverExpirationMinutes('2024-03-10T09:00:00.000Z', now)).toBe(0);
+  });
+});
+
+describe('milk storage moves and thawing', () => {
+  const frozenItem = {
+    location: 'freezer' as const,
+    pumpedDate: '2024-01-01T10:00:00.000Z',
+    expirationDate: '2024-06-29T10:00:00.000Z',
+    thawStartedAt: null,
+    thawedAt: null,
+    leftoverSince: null,
+  };
+  const at = new Date('2024-02-01T08:00:00.000Z');
+
+  it('starts thawing when frozen milk leaves the freezer', () => {
+    // 12 hours to thaw, then 24 hours to use
+    expect(getMovedMilkExpiration(frozenItem, 'fridge', at)).toBe('2024-02-02T20:00:00.000Z');
+  });
+
+  it('keeps fresh milk to its fridge life, capped by a cooler bag', () => {
+    const fresh = { ...frozenItem, location: 'fridge' as const, pumpedDate: '2024-01-31T08:00:00.000Z' };
+    expect(getMovedMilkExpiration(fresh, 'coolerBag', at)).toBe('2024-02-02T08:00:00.000Z');
+    expect(getMovedMilkExpiration(fresh, 'deepFreezer', at)).toBe('2025-01-30T08:00:00.000Z');
+
+    const older = { ...fresh, pumpedDate: '2024-01-28T10:00:00.000Z' };
+    expect(getMovedMilkExpiration(older, 'coolerBag', at)).toBe('2024-02-01T10:00:00.000Z');
+  });
+
+  it('never refreezes thawing or thawed milk', () => {
+    const thawing = { ...frozenItem, location: 'fridge' as const, thawStartedAt: '2024-02-01T08:00:00.000Z' };
+    expect(getMilkThawState(thawing)).toBe('thawing');
+    expect(canMoveMilk(thawing, 'freezer')).toBe(false);
+    expect(canMoveMilk(thawing, 'coolerBag')).toBe(true);
+    expect(getMilkThawState({ ...thawing, thawedAt: '2024-02-01T18:00:00.000Z' })).toBe('thawed');
+    expect(canMoveMilk(frozenItem, 'deepFreezer')).toBe(true);
+    expect(canMoveMilk(frozenItem, 'freezer')).toBe(false);
+    expect(canMoveMilk({ ...frozenItem, leftoverSince: '2024-02-01T08:00:00.000Z' }, 'fridge')).toBe(false);
+  });
+
+  it('reads items without history as stored once', () => {
+    expect(getMilkStashHistory({ location: 'fridge', createdAt: '2024-01-01T10:00:00.000Z' })).toEqual([
+      { event: 'stored', location: 'fridge', at: '2024-01-01T10:00:00.000Z' },
+    ]);
+  });
+});
+
+describe('milk stash picking and supply', () => {
+  const now = new Date('2024-02-08T12:00:00.000Z');
+  const bag = (overrides: Partial<MilkStash>): MilkStash => ({
+    id: 'bag',
+    userId: 'user-1',
+    babyId: 'baby-1',
+    date: '2024-02-06',
+    volume: 4,
+    volumeUnit: 'oz',
+    location: 'fridge',
+    pumpedDate: '2024-02-06T08:00:00.000Z',
+    expirationDate: '2024-02-10T08:00:00.000Z',
+    isUsed: false,
+    usedDate: null,
+    isInUse: false,
+    inUseStartDate: null,
+    notes: null,
+    createdAt: '2024-02-06T08:00:00.000Z',
+    updatedAt: '2024-02-06T08:00:00.000Z',
+    ...overrides,
+  });
+
+  it('orders bags by expiry, then pumped date, leaving out expired ones', () => {
+    const order = getMilkUseOrder([
+      bag({ id: 'frozen', location: 'freezer', expirationDate: '2024-08-01T08:00:00.000Z' }),
+      bag({ id: 'newer', pumpedDate: '2024-02-07T08:00:00.000Z' }),
+      bag({ id: 'older' }),
+      bag({ id: 'expired', expirationDate: '2024-02-08T08:00:00.000Z' }),
+    ], now);
+
+    expect(order.map((item) => item.id)).toEqual(['older', 'newer', 'frozen']);
+  });
+
+  it('combines fridge bags at the earliest expiry', () => {
+    const first = bag({ id: 'a', volume: 2, expirationDate: '2024-02-11T08:00:00.000Z' });
+    const second = bag({ id: 'b', volume: 60, volumeUnit: 'ml', pumpedDate: '2024-02-05T08:00:00.000Z', expirationDate: '2024-02-09T08:00:00.000Z' });
+
+    expect(canCombineMilk([first, second])).toBe(true);
+    expect(canCombineMilk([first])).toBe(false);
+    expect(canCombineMilk([first, { ...second, location: 'freezer' }])).toBe(false);
+    expect(getCombinedMilk([first, second], 'oz')).toEqual({
+      volume: 4,
+      volumeUnit: 'oz',
+      pumpedDate: '2024-02-05T08:00:00.000Z',
+      expirationDate: '2024-02-09T08:00:00.000Z',
+      thawStartedAt: null,
+      thawedAt: null,
+    });
+  });
+
+  it('projects days of supply from trailing bottles less pump output', () => {
+    const stash = [bag({ volume: 20 }), bag({ volume: 8, location: 'freezer', expirationDate: '2024-08-01T08:00:00.000Z' })];
+    const bottles = [
+      { timestamp: '2024-02-07T09:00:00.000Z', contentType: 'breastMilk' as const, volume: 40, offeredVolume: 42, volumeUnit: 'oz' as const },
+      { timestamp: '2024-02-07T10:00:00.000Z', contentType: 'formula' as const, volume: 30, volumeUnit: 'oz' as const },
+      { timestamp: '2024-01-20T10:00:00.000Z', contentType: 'breastMilk' as const, volume: 30, volumeUnit: 'oz' as const },
+    ];
+    const pumps = [
+      { startTime: '2024-02-06T07:00:00.000Z', volume: 14, volumeUnit: 'oz' as const, isActive: false },
+      { startTime: '2024-02-08T11:00:00.000Z', volume: 0, volumeUnit: 'oz' as const, isActive: true },
+    ];
+
+    const projection = projectMilkSupply(stash, bottles, pumps, now);
+    expect(projection.stashOz).toBe(28);
+    expect(projection.dailyBottleOz).toBe(6);
+    expect(projection.dailyPumpOz).toBe(2);
+    expect(projection.days).toBe(7);
+  });
+
+  it('has no end date when pumping keeps up', () => {
+    const projection = projectMilkSupply(
+      [bag({})],
+      [],
+      [{ startTime: '2024-02-07T07:00:00.000Z', volume: 7, volumeUnit: 'oz', isActive: false }],
+      now
+    );
+    expect(projection.days).toBeNull();
+  });
+});
+
+describe('milk labels', () => {
+  it('links a label to its stash entry', () => {
+    expect(getMilkLabelLink('abc123', 'https://app.example')).toBe('https://app.example/more/milk-stash?stash=abc123');
+  });
+
+  it('reads a scanned link or a pasted id', () => {
+    expect(parseMilkLabelCode('https://app.example/more/milk-stash?stash=abc123')).toBe('abc123');
+    expect(parseMilkLabelCode('  abc123 ')).toBe('abc123');
+    expect(parseMilkLabelCode('https://app.example/home')).toBeNull();
+    expect(parseMilkLabelCode('')).toBeNull();
+  });
+});
+
+describe('power pumping', () => {
+  it('runs an hour of alternating pump and rest phases', () => {
+    expect(getPumpProgramSeconds(POWER_PUMP_PROGRAM)).toBe(3600);
+    expect(getPumpPhaseAt(POWER_PUMP_PROGRAM, 0)).toEqual({ index: 0, phase: { kind: 'pump', minutes: 20 }, remainingSeconds: 1200 });
+    expect(getPumpPhaseAt(POWER_PUMP_PROGRAM, 1200)).toEqual({ index: 1, phase: { kind: 'rest', minutes: 10 }, remainingSeconds: 600 });
+    expect(getPumpPhaseAt(POWER_PUMP_PROGRAM, 3599)?.index).toBe(4);
+    expect(getPumpPhaseAt(POWER_PUMP_PROGRAM, 3600)).toBeNull();
+  });
+
+  it('records the phases a session went through', () => {
+    expect(getPumpSessionPhases(POWER_PUMP_PROGRAM, 1500)).toEqual([
+      { kind: 'pump', plannedMinutes: 20, startOffset: 0, duration: 1200 },
+      { kind: 'rest', plannedMinutes: 10, startOffset: 1200, duration: 300 },
+    ]);
+    expect(getPumpSessionPhases(POWER_PUMP_PROGRAM, 4000)).toHaveLength(5);
+    expect(getPumpSessionPhases(POWER_PUMP_PROGRAM, 0)).toEqual([]);
+  });
+});
+
+describe('pump schedule', () => {
+  const day = new Date('2024-02-07T00:00:00.000Z');
+  const session = (id: string, startTime: string) => ({ id, startTime });
+
+  it('matches planned times to nearby sessions', () => {
+    const now = new Date('2024-02-07T13:00:00.000Z');
+    const sessions = [
+      session('a', '2024-02-07T06:20:00.000Z'),
+      session('b', '2024-02-07T06:40:00.000Z'),
+    ];
+    const slots = getPumpScheduleSlots(['12:30', '06:00', '09:00', '18:00'], sessions, day, now);
+
+    expect(slots.map((slot) => [slot.time, slot.status, slot.sessionId])).toEqual([
+      ['06:00', 'done', 'a'],
+      ['09:00', 'missed', null],
+      ['12:30', 'due', null],
+      ['18:00', 'upcoming', null],
+    ]);
+  });
+
+  it('counts only the slots that have already passed', () => {
+    const now = new Date('2024-02-07T13:00:00.000Z');
+    const sessions = [
+      session('a', '2024-02-06T06:10:00.000Z'),
+      session('b', '2024-02-06T18:00:00.000Z'),
+      session('c', '2024-02-07T05:50:00.000Z'),
+    ];
+
+    expect(getPumpScheduleAdherence(['06:00', '18:00'], sessions, 2, now)).toEqual({ planned: 3, done: 3, rate: 1 });
+    expect(getPumpScheduleAdherence(['06:00', '12:00', '18:00'], sessions, 2, now)).toEqual({ planned: 5, done: 3, rate: 0.6 });
+    expect(getPumpScheduleAdherence([], sessions, 2, now).rate).toBeNull();
+  });
 });
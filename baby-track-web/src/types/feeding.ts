@@ -1,13 +1,26 @@
-import { BreastSide, PumpSide, BottleContentType, VolumeUnit, BabyMood, MomMood, MilkStorageLocation } from './enums';
+import { BREAST_SIDE_CONFIG, BreastSide, PumpSide, BottleContentType, VolumeUnit, BabyMood, MomMood, MilkStorageLocation, MILK_STORAGE_CONFIG, MilkStashEvent, FormulaAmountUnit } from './enums';
+import type { CaregiverAttribution } from './caregiver';
+
+// One stretch of nursing on a single side within a breastfeeding session
+export interface BreastfeedingSegment {
+  side: BreastSide;
+  startTime: string; // ISO datetime
+  endTime: string | null; // null while nursing on this side
+  duration: number; // seconds, excluding pauses; 0 until the segment ends
+  pausedDuration: number; // seconds paused during this segment
+}
 
 // Breastfeeding Session
-export interface FeedingSession {
+export interface FeedingSession extends CaregiverAttribution {
   id: string;
   babyId: string;
   userId: string;
   date: string; // ISO date
-  duration: number; // seconds
-  breastSide: BreastSide;
+  duration: number; // seconds, the sum of the segment durations
+  breastSide: BreastSide; // Side currently or last nursed on
+  // Sides in the order nursed. Missing on sessions logged before side switching,
+  // which read as a single segment through getFeedingSegments.
+  segments?: BreastfeedingSegment[];
   startTime: string; // ISO datetime
   endTime: string | null; // ISO datetime, null when session is active
   isActive: boolean;
@@ -27,14 +40,14 @@ export interface CreateFeedingSessionInput {
   breastSide: BreastSide;
   startTime: string;
   endTime: string;
+  segments?: BreastfeedingSegment[]; // Defaults to one segment on breastSide
   notes?: string | null;
   babyMood?: BabyMood | null;
   momMood?: MomMood | null;
-  loggedBy?: string | null;
 }
 
 // Pump Session
-export interface PumpSession {
+export interface PumpSession extends CaregiverAttribution {
   id: string;
   babyId: string;
   userId: string;
@@ -48,35 +61,66 @@ export interface PumpSession {
   pausedAt: string | null; // ISO datetime when paused
   totalPausedDuration: number; // total seconds spent paused
   side: PumpSide;
-  volume: number;
+  volume: number; // Total across both sides
+  // Split of a both-sides session. Null or missing when only the total was logged.
+  leftVolume?: number | null;
+  rightVolume?: number | null;
   volumeUnit: VolumeUnit;
   notes: string | null;
   momMood: MomMood | null;
+  // Power-pumping program the timer ran, and the phases as they actually went once saved
+  program?: PumpProgramPhase[] | null;
+  phases?: PumpSessionPhase[] | null;
   createdAt: string;
   updatedAt: string;
 }
 
+// One step of a power-pumping program
+export interface PumpProgramPhase {
+  kind: 'pump' | 'rest';
+  minutes: number;
+}
+
+// A program step as it ran, cut short if the session stopped partway through
+export interface PumpSessionPhase {
+  kind: 'pump' | 'rest';
+  plannedMinutes: number;
+  startOffset: number; // seconds into the session
+  duration: number; // seconds
+}
+
 export interface CreatePumpSessionInput {
   startTime: string;
   endTime: string;
   side: PumpSide;
   volume: number;
+  leftVolume?: number | null;
+  rightVolume?: number | null;
   volumeUnit: VolumeUnit;
   notes?: string | null;
   momMood?: MomMood | null;
 }
 
+export interface PumpVolumeEntry {
+  volume: number;
+  leftVolume: number | null;
+  rightVolume: number | null;
+}
+
 // Bottle Session
-export interface BottleSession {
+export interface BottleSession extends CaregiverAttribution {
   id: string;
   babyId: string;
   userId: string;
   date: string;
   timestamp: string;
-  volume: number;
+  volume: number; // consumed
+  offeredVolume?: number | null; // prepared, when the baby didn't finish the bottle
   volumeUnit: VolumeUnit;
   contentType: BottleContentType;
   milkStashId?: string | null;
+  formulaContainerId?: string | null; // container the powder was deducted from
+  formulaAmount?: number | null; // powder deducted, in the container's unit
   notes: string | null;
   babyMood: BabyMood | null;
   createdAt: string;
@@ -86,9 +130,11 @@ export interface BottleSession {
 export interface CreateBottleSessionInput {
   timestamp: string;
   volume: number;
+  offeredVolume?: number | null;
   volumeUnit: VolumeUnit;
   contentType: BottleContentType;
   milkStashId?: string | null;
+  formulaContainerId?: string | null;
   notes?: string | null;
   babyMood?: BabyMood | null;
 }
@@ -96,7 +142,10 @@ export interface CreateBottleSessionInput {
 // Milk Stash
 export interface MilkStash {
   id: string;
-  userId: string;
+  userId: string; // Who stored it
+  // Baby whose household the stash belongs to; everyone sharing the owner's babies sees it.
+  // Missing on per-user items stored before the stash was shared, until they're migrated.
+  babyId?: string;
   date: string;
   volume: number;
   volumeUnit: VolumeUnit;
@@ -107,11 +156,35 @@ export interface MilkStash {
   usedDate: string | null;
   isInUse: boolean;
   inUseStartDate: string | null;
+  // ISO datetime the rest of a partly drunk bottle came back, null or missing for stored milk
+  leftoverSince?: string | null;
+  thawStartedAt?: string | null; // ISO datetime it left the freezer
+  thawedAt?: string | null; // ISO datetime thawing finished
+  // Missing on items stored before history was kept, which read as one stored entry
+  // through getMilkStashHistory
+  stateHistory?: MilkStashStateChange[];
+  withdrawals?: MilkStashWithdrawal[];
+  combinedIntoId?: string | null; // The bag this one was poured into
   notes: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+// Milk taken from a stash item, in the item's unit
+export interface MilkStashWithdrawal {
+  userId: string;
+  babyId: string | null; // Null when it was used up without feeding a baby
+  volume: number;
+  at: string; // ISO datetime
+  bottleSessionId: string | null;
+}
+
+export interface MilkStashStateChange {
+  event: MilkStashEvent;
+  location: MilkStorageLocation;
+  at: string; // ISO datetime
+}
+
 export interface CreateMilkStashInput {
   volume: number;
   volumeUnit: VolumeUnit;
@@ -120,6 +193,47 @@ export interface CreateMilkStashInput {
   notes?: string | null;
 }
 
+// Formula Inventory
+export interface FormulaContainer {
+  id: string;
+  userId: string; // Who added it
+  // Baby whose household the container belongs to, like the milk stash. Missing on
+  // containers added before they were shared, until they're migrated.
+  babyId?: string;
+  brand: string;
+  amountUnit: FormulaAmountUnit;
+  totalAmount: number; // powder in a full container
+  remainingAmount: number;
+  amountPerOz: number; // powder per fl oz of prepared formula
+  openedDate: string | null; // ISO datetime, null while sealed
+  openExpiryDays: number; // days the powder keeps once opened
+  preparedAt: string | null; // ISO datetime a bottle mixed from this container was prepared
+  isFinished: boolean;
+  finishedDate: string | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateFormulaContainerInput {
+  brand: string;
+  amountUnit: FormulaAmountUnit;
+  totalAmount: number;
+  remainingAmount?: number;
+  amountPerOz: number;
+  openedDate?: string | null;
+  openExpiryDays?: number;
+  notes?: string | null;
+}
+
+export const MILK_THAWING_HOURS = 12; // Longest thaw in the fridge, so forgotten thaws still expire
+export const THAWED_MILK_HOURS = 24; // Use within 24 hours of thawing
+export const LEFTOVER_MILK_MINUTES = 120; // Use within 2 hours of the baby finishing
+export const DEFAULT_FORMULA_OPEN_EXPIRY_DAYS = 30;
+export const PREPARED_FORMULA_ROOM_TEMP_MINUTES = 120; // 2 hours
+export const FORMULA_LOW_STOCK_OZ = 48; // Prepared ounces left across all containers
+export const MILK_SUPPLY_TRAILING_DAYS = 7; // Window for average bottle use and pump output
+
 export interface BreastActivityReference {
   side: BreastSide;
   timestamp: string;
@@ -149,11 +263,152 @@ export function formatDuration(seconds: number): string {
 
 export function calculateMilkExpiration(pumpedDate: string, location: MilkStorageLocation): string {
   const date = new Date(pumpedDate);
-  const days = location === 'fridge' ? 4 : 180;
-  date.setDate(date.getDate() + days);
+  date.setDate(date.getDate() + MILK_STORAGE_CONFIG[location].expirationDays);
   return date.toISOString();
 }
 
+export function getMilkThawState(item: Pick<MilkStash, 'thawStartedAt' | 'thawedAt'>): 'thawing' | 'thawed' | null {
+  if (item.thawedAt) return 'thawed';
+  if (item.thawStartedAt) return 'thawing';
+  return null;
+}
+
+export function getThawedMilkExpiration(thawedAt: string): string {
+  return new Date(new Date(thawedAt).getTime() + THAWED_MILK_HOURS * 60 * 60 * 1000).toISOString();
+}
+
+// Milk that has started thawing can't be refrozen, and leftovers stay where they are
+export function canMoveMilk(
+  item: Pick<MilkStash, 'location' | 'thawStartedAt' | 'thawedAt' | 'leftoverSince'>,
+  to: MilkStorageLocation
+): boolean {
+  if (item.leftoverSince || to === item.location) return false;
+  return !(MILK_STORAGE_CONFIG[to].isFrozen && getMilkThawState(item));
+}
+
+// Expiration after a move. Leaving the freezer starts thawing, which expires a day after
+// thawing finishes. Fresh milk keeps its fridge life, capped by how long the new spot keeps it.
+export function getMovedMilkExpiration(
+  item: Pick<MilkStash, 'location' | 'pumpedDate' | 'expirationDate' | 'thawStartedAt' | 'thawedAt'>,
+  to: MilkStorageLocation,
+  at: Date
+): string {
+  if (MILK_STORAGE_CONFIG[to].isFrozen) return calculateMilkExpiration(item.pumpedDate, to);
+  if (MILK_STORAGE_CONFIG[item.location].isFrozen) {
+    return getThawedMilkExpiration(new Date(at.getTime() + MILK_THAWING_HOURS * 60 * 60 * 1000).toISOString());
+  }
+
+  const base = getMilkThawState(item) ? item.expirationDate : calculateMilkExpiration(item.pumpedDate, 'fridge');
+  const limit = new Date(at);
+  limit.setDate(limit.getDate() + MILK_STORAGE_CONFIG[to].expirationDays);
+  return new Date(Math.min(new Date(base).getTime(), limit.getTime())).toISOString();
+}
+
+export function getMilkStashHistory(
+  item: Pick<MilkStash, 'stateHistory' | 'location' | 'createdAt'>
+): MilkStashStateChange[] {
+  if (item.stateHistory && item.stateHistory.length > 0) return item.stateHistory;
+  return [{ event: 'stored', location: item.location, at: item.createdAt }];
+}
+
+// Bags in the order they should be used: soonest expiry first, then oldest milk. Used and
+// expired bags are left out.
+export function getMilkUseOrder(stash: MilkStash[], now: Date = new Date()): MilkStash[] {
+  return stash
+    .filter((item) => !item.isUsed && new Date(item.expirationDate).getTime() > now.getTime())
+    .sort((a, b) =>
+      new Date(a.expirationDate).getTime() - new Date(b.expirationDate).getTime()
+      || new Date(a.pumpedDate).getTime() - new Date(b.pumpedDate).getTime()
+    );
+}
+
+// Only fridge bags that are still stored whole can be poured together
+export function canCombineMilk(items: MilkStash[]): boolean {
+  return items.length > 1 && items.every((item) =>
+    item.location === 'fridge' && !item.isUsed && !item.isInUse && !item.leftoverSince
+  );
+}
+
+// The bag that results from pouring several together. It keeps the earliest expiry and pumped
+// date, and counts as thawed if any of its milk was.
+export function getCombinedMilk(
+  items: MilkStash[],
+  volumeUnit: VolumeUnit
+): Pick<MilkStash, 'volume' | 'volumeUnit' | 'pumpedDate' | 'expirationDate' | 'thawStartedAt' | 'thawedAt'> {
+  const earliest = (values: (string | null | undefined)[]) =>
+    values.filter((value): value is string => !!value)
+      .sort((a, b) => new Date(a).getTime() - new Date(b).getTime())[0] ?? null;
+
+  return {
+    volume: Math.round(items.reduce((sum, item) => sum + convertVolume(item.volume, item.volumeUnit, volumeUnit), 0) * 10) / 10,
+    volumeUnit,
+    pumpedDate: earliest(items.map((item) => item.pumpedDate)) ?? items[0].pumpedDate,
+    expirationDate: earliest(items.map((item) => item.expirationDate)) ?? items[0].expirationDate,
+    thawStartedAt: earliest(items.map((item) => item.thawStartedAt)),
+    thawedAt: earliest(items.map((item) => item.thawedAt)),
+  };
+}
+
+export interface MilkSupplyProjection {
+  stashOz: number;
+  dailyBottleOz: number;
+  dailyPumpOz: number;
+  days: number | null; // Null when pumping keeps up with bottles
+}
+
+// Start of the trailing window projectMilkSupply averages over
+export function getMilkSupplyWindowStart(now: Date = new Date()): Date {
+  return new Date(now.getTime() - MILK_SUPPLY_TRAILING_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// How long the stash lasts at the trailing daily breast milk bottle use, less what's being
+// pumped. Mixed bottles are left out as their breast milk share isn't known.
+export function projectMilkSupply(
+  stash: MilkStash[],
+  bottleSessions: Pick<BottleSession, 'timestamp' | 'contentType' | 'volume' | 'offeredVolume' | 'volumeUnit'>[],
+  pumpSessions: Pick<PumpSession, 'startTime' | 'volume' | 'volumeUnit' | 'isActive'>[],
+  now: Date = new Date()
+): MilkSupplyProjection {
+  const since = getMilkSupplyWindowStart(now).getTime();
+  const inWindow = (date: string) => {
+    const time = new Date(date).getTime();
+    return time >= since && time <= now.getTime();
+  };
+
+  const stashOz = getMilkUseOrder(stash, now)
+    .reduce((sum, item) => sum + convertVolume(item.volume, item.volumeUnit, 'oz'), 0);
+  const bottleOz = bottleSessions
+    .filter((session) => session.contentType === 'breastMilk' && inWindow(session.timestamp))
+    .reduce((sum, session) => sum + convertVolume(getBottleOfferedVolume(session), session.volumeUnit, 'oz'), 0);
+  const pumpOz = pumpSessions
+    .filter((session) => !session.isActive && inWindow(session.startTime))
+    .reduce((sum, session) => sum + convertVolume(session.volume, session.volumeUnit, 'oz'), 0);
+
+  const dailyBottleOz = bottleOz / MILK_SUPPLY_TRAILING_DAYS;
+  const dailyPumpOz = pumpOz / MILK_SUPPLY_TRAILING_DAYS;
+  const dailyDraw = dailyBottleOz - dailyPumpOz;
+
+  return {
+    stashOz,
+    dailyBottleOz,
+    dailyPumpOz,
+    days: dailyDraw > 0 ? stashOz / dailyDraw : null,
+  };
+}
+
+// What a bag's label QR code holds: a link that opens the entry in the milk stash
+export function getMilkLabelLink(stashId: string, origin: string = window.location.origin): string {
+  return `${origin}/more/milk-stash?stash=${encodeURIComponent(stashId)}`;
+}
+
+// Accepts a scanned label link or a pasted stash id, returning the id
+export function parseMilkLabelCode(input: string): string | null {
+  const trimmed = input.trim();
+  const fromLink = trimmed.match(/[?&]stash=([^&#\s]+)/);
+  const stashId = fromLink ? decodeURIComponent(fromLink[1]) : trimmed;
+  return /^[A-Za-z0-9_-]+$/.test(stashId) ? stashId : null;
+}
+
 export function getRoomTempExpirationMinutes(inUseStartDate: string): number {
   const start = new Date(inUseStartDate);
   const now = new Date();
@@ -161,6 +416,102 @@ export function getRoomTempExpirationMinutes(inUseStartDate: string): number {
   return Math.max(0, 240 - elapsedMinutes); // 4 hours = 240 minutes
 }
 
+// Minutes left to use breast milk left over from a feed
+export function getLeftoverExpirationMinutes(leftoverSince: string, now: Date = new Date()): number {
+  const elapsedMinutes = (now.getTime() - new Date(leftoverSince).getTime()) / (1000 * 60);
+  return Math.max(0, LEFTOVER_MILK_MINUTES - elapsedMinutes);
+}
+
+// How much went into the bottle. Sessions where the baby finished only record `volume`.
+export function getBottleOfferedVolume(session: Pick<BottleSession, 'volume' | 'offeredVolume'>): number {
+  return session.offeredVolume ?? session.volume;
+}
+
+export function getBottleLeftoverVolume(session: Pick<BottleSession, 'volume' | 'offeredVolume'>): number {
+  return Math.max(0, getBottleOfferedVolume(session) - session.volume);
+}
+
+// Offered and consumed amounts from a bottle form. Leaving consumed blank means the whole
+// bottle was drunk; null when either amount is invalid or more was drunk than offered.
+export function parseBottleVolumeInput(
+  offered: string,
+  consumed: string
+): Pick<BottleSession, 'volume' | 'offeredVolume'> | null {
+  const offeredValue = parseFloat(offered);
+  if (isNaN(offeredValue) || offeredValue <= 0) return null;
+  if (!consumed.trim()) return { volume: offeredValue, offeredVolume: null };
+
+  const consumedValue = parseFloat(consumed);
+  if (isNaN(consumedValue) || consumedValue < 0 || consumedValue > offeredValue) return null;
+  return { volume: consumedValue, offeredVolume: consumedValue === offeredValue ? null : offeredValue };
+}
+
+// "3 of 4 oz" when some was left, otherwise "4 oz"
+export function formatBottleVolume(session: Pick<BottleSession, 'volume' | 'offeredVolume' | 'volumeUnit'>): string {
+  if (getBottleLeftoverVolume(session) <= 0) return `${session.volume} ${session.volumeUnit}`;
+  return `${session.volume} of ${getBottleOfferedVolume(session)} ${session.volumeUnit}`;
+}
+
+// Minutes left before a bottle of mixed formula at room temperature should be discarded
+export function getPreparedFormulaExpirationMinutes(preparedAt: string, now: Date = new Date()): number {
+  const elapsedMinutes = (now.getTime() - new Date(preparedAt).getTime()) / (1000 * 60);
+  return Math.max(0, PREPARED_FORMULA_ROOM_TEMP_MINUTES - elapsedMinutes);
+}
+
+// Powder needed to prepare a bottle, in the container's unit
+export function getFormulaAmountForVolume(
+  container: Pick<FormulaContainer, 'amountPerOz'>,
+  volume: number,
+  volumeUnit: VolumeUnit
+): number {
+  return convertVolume(volume, volumeUnit, 'oz') * container.amountPerOz;
+}
+
+// When an opened container should be thrown out, or null while it's still sealed
+export function getFormulaOpenExpirationDate(
+  container: Pick<FormulaContainer, 'openedDate' | 'openExpiryDays'>
+): string | null {
+  if (!container.openedDate) return null;
+  const date = new Date(container.openedDate);
+  date.setDate(date.getDate() + container.openExpiryDays);
+  return date.toISOString();
+}
+
+export function isFormulaContainerExpired(
+  container: Pick<FormulaContainer, 'openedDate' | 'openExpiryDays'>,
+  now: Date = new Date()
+): boolean {
+  const expirationDate = getFormulaOpenExpirationDate(container);
+  return !!expirationDate && new Date(expirationDate).getTime() <= now.getTime();
+}
+
+// Ounces of prepared formula the usable containers can still make
+export function getFormulaStockOz(containers: FormulaContainer[], now: Date = new Date()): number {
+  return containers
+    .filter((container) => !container.isFinished && !isFormulaContainerExpired(container, now))
+    .reduce((sum, container) => sum + (container.amountPerOz > 0 ? container.remainingAmount / container.amountPerOz : 0), 0);
+}
+
+export function isFormulaStockLow(containers: FormulaContainer[], now: Date = new Date()): boolean {
+  return containers.length > 0 && getFormulaStockOz(containers, now) < FORMULA_LOW_STOCK_OZ;
+}
+
+// Container a new formula bottle comes from: one with a prepared bottle waiting, then the
+// opened container that expires first, then a sealed one. Expired containers are skipped.
+export function getDefaultFormulaContainer(
+  containers: FormulaContainer[],
+  now: Date = new Date()
+): FormulaContainer | null {
+  const usable = containers.filter((container) => !container.isFinished && !isFormulaContainerExpired(container, now));
+  const prepared = usable.find((container) => container.preparedAt);
+  if (prepared) return prepared;
+
+  const opened = usable
+    .filter((container) => container.openedDate)
+    .sort((a, b) => new Date(getFormulaOpenExpirationDate(a)!).getTime() - new Date(getFormulaOpenExpirationDate(b)!).getTime());
+  return opened[0] ?? usable[0] ?? null;
+}
+
 export function convertVolume(value: number, from: VolumeUnit, to: VolumeUnit): number {
   if (from === to) return value;
   if (from === 'oz' && to === 'ml') return value * 29.5735;
@@ -168,6 +519,274 @@ export function convertVolume(value: number, from: VolumeUnit, to: VolumeUnit):
   return value;
 }
 
+// A session's segments, treating single-side sessions logged before segments existed as one segment
+export function getFeedingSegments(
+  session: Pick<FeedingSession, 'segments' | 'breastSide' | 'startTime' | 'endTime' | 'duration' | 'totalPausedDuration'>
+): BreastfeedingSegment[] {
+  if (session.segments && session.segments.length > 0) return session.segments;
+  return [
+    {
+      side: session.breastSide,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      duration: session.duration,
+      pausedDuration: session.totalPausedDuration || 0,
+    },
+  ];
+}
+
+// Seconds nursed on each side
+export function getFeedingSideDurations(
+  session: Parameters<typeof getFeedingSegments>[0]
+): Record<BreastSide, number> {
+  return getFeedingSegments(session).reduce(
+    (totals, segment) => ({ ...totals, [segment.side]: totals[segment.side] + segment.duration }),
+    { left: 0, right: 0 }
+  );
+}
+
+// Seconds nursed in a segment up to `at`, excluding pauses, for closing a segment that's still open
+export function getSegmentElapsedSeconds(segment: BreastfeedingSegment, at: Date, pausedAt: string | null = null): number {
+  const end = pausedAt ? new Date(pausedAt) : at;
+  const elapsed = Math.floor((end.getTime() - new Date(segment.startTime).getTime()) / 1000);
+  return Math.max(0, elapsed - segment.pausedDuration);
+}
+
+// Close the open segment and start nursing on `side`. Switching while paused resumes the
+// session, so the pause so far belongs to the side being left.
+export function switchFeedingSegments(
+  segments: BreastfeedingSegment[],
+  side: BreastSide,
+  at: Date,
+  pausedAt: string | null = null
+): BreastfeedingSegment[] {
+  const now = at.toISOString();
+  const closed = segments.map((segment) => {
+    if (segment.endTime) return segment;
+    const additionalPaused = pausedAt ? Math.max(0, Math.floor((at.getTime() - new Date(pausedAt).getTime()) / 1000)) : 0;
+    const pausedDuration = segment.pausedDuration + additionalPaused;
+    return {
+      ...segment,
+      endTime: now,
+      pausedDuration,
+      duration: getSegmentElapsedSeconds({ ...segment, pausedDuration }, at),
+    };
+  });
+  return [...closed, { side, startTime: now, endTime: null, duration: 0, pausedDuration: 0 }];
+}
+
+// Segments after editing a session's times. A single-side session takes the new times and
+// side as is; with several sides, the segments move with the start time and the last side
+// absorbs any change to the total duration.
+export function editFeedingSegments(
+  session: Parameters<typeof getFeedingSegments>[0],
+  startTime: Date,
+  endTime: Date,
+  totalDuration: number,
+  side?: BreastSide
+): BreastfeedingSegment[] {
+  const segments = getFeedingSegments(session);
+  if (segments.length === 1) {
+    return [{
+      side: side ?? segments[0].side,
+      startTime: startTime.toISOString(),
+      endTime: endTime.toISOString(),
+      duration: totalDuration,
+      pausedDuration: 0,
+    }];
+  }
+
+  const offsetMs = startTime.getTime() - new Date(session.startTime).getTime();
+  const shift = (time: string) => new Date(new Date(time).getTime() + offsetMs).toISOString();
+  const earlier = segments.slice(0, -1).map((segment) => ({
+    ...segment,
+    startTime: shift(segment.startTime),
+    endTime: segment.endTime ? shift(segment.endTime) : null,
+  }));
+  const earlierDuration = earlier.reduce((sum, segment) => sum + segment.duration, 0);
+  const last = segments[segments.length - 1];
+
+  return [
+    ...earlier,
+    {
+      ...last,
+      startTime: shift(last.startTime),
+      endTime: endTime.toISOString(),
+      duration: Math.max(0, totalDuration - earlierDuration),
+    },
+  ];
+}
+
+// "Left" for a single-side feed, "Left → Right" when sides were switched
+export function formatFeedingSides(session: Parameters<typeof getFeedingSegments>[0]): string {
+  return getFeedingSegments(session)
+    .map((segment) => BREAST_SIDE_CONFIG[segment.side].label)
+    .join(' → ');
+}
+
+// Total and per-side volumes from the pump form. Left and right only apply to a both-sides
+// session, and their sum becomes the total; without them the total is logged on its own.
+// Null when an entered value isn't a valid volume.
+export function parsePumpVolumeInput(
+  side: PumpSide,
+  total: string,
+  left: string,
+  right: string
+): PumpVolumeEntry | null {
+  const parse = (value: string) => (value.trim() === '' ? 0 : parseFloat(value));
+  const isValid = (value: number) => !isNaN(value) && value >= 0;
+
+  if (side === 'both' && (left.trim() || right.trim())) {
+    const leftVolume = parse(left);
+    const rightVolume = parse(right);
+    if (!isValid(leftVolume) || !isValid(rightVolume)) return null;
+    return { volume: Math.round((leftVolume + rightVolume) * 100) / 100, leftVolume, rightVolume };
+  }
+
+  const volume = parse(total);
+  return isValid(volume) ? { volume, leftVolume: null, rightVolume: null } : null;
+}
+
+// Volume from each side, or null for a both-sides session logged as a total only
+export function getPumpSideVolumes(
+  session: Pick<PumpSession, 'side' | 'volume' | 'leftVolume' | 'rightVolume'>
+): Record<BreastSide, number> | null {
+  if (session.side === 'left') return { left: session.volume, right: 0 };
+  if (session.side === 'right') return { left: 0, right: session.volume };
+  if (session.leftVolume == null || session.rightVolume == null) return null;
+  return { left: session.leftVolume, right: session.rightVolume };
+}
+
+// "4 oz", or "4 oz (L 2.5 · R 1.5)" when a both-sides session has its split
+export function formatPumpVolume(
+  session: Pick<PumpSession, 'side' | 'volume' | 'volumeUnit' | 'leftVolume' | 'rightVolume'>
+): string {
+  const total = `${session.volume} ${session.volumeUnit}`;
+  const sides = session.side === 'both' ? getPumpSideVolumes(session) : null;
+  return sides ? `${total} (L ${sides.left} · R ${sides.right})` : total;
+}
+
+// The classic hour of power pumping: 20 on, 10 off, 10 on, 10 off, 10 on
+export const POWER_PUMP_PROGRAM: PumpProgramPhase[] = [
+  { kind: 'pump', minutes: 20 },
+  { kind: 'rest', minutes: 10 },
+  { kind: 'pump', minutes: 10 },
+  { kind: 'rest', minutes: 10 },
+  { kind: 'pump', minutes: 10 },
+];
+
+export interface PumpPhaseStatus {
+  index: number;
+  phase: PumpProgramPhase;
+  remainingSeconds: number;
+}
+
+export function getPumpProgramSeconds(program: PumpProgramPhase[]): number {
+  return program.reduce((sum, phase) => sum + phase.minutes * 60, 0);
+}
+
+// The phase running after the given seconds of (unpaused) session time, or null once the program is done
+export function getPumpPhaseAt(program: PumpProgramPhase[], elapsedSeconds: number): PumpPhaseStatus | null {
+  let phaseEnd = 0;
+  for (let index = 0; index < program.length; index++) {
+    phaseEnd += program[index].minutes * 60;
+    if (elapsedSeconds < phaseEnd) {
+      return { index, phase: program[index], remainingSeconds: phaseEnd - elapsedSeconds };
+    }
+  }
+  return null;
+}
+
+// The phases a session of this length went through, for saving with the session
+export function getPumpSessionPhases(program: PumpProgramPhase[], durationSeconds: number): PumpSessionPhase[] {
+  const phases: PumpSessionPhase[] = [];
+  let startOffset = 0;
+  for (const phase of program) {
+    if (startOffset >= durationSeconds) break;
+    const duration = Math.min(phase.minutes * 60, durationSeconds - startOffset);
+    phases.push({ kind: phase.kind, plannedMinutes: phase.minutes, startOffset, duration });
+    startOffset += phase.minutes * 60;
+  }
+  return phases;
+}
+
+// A session within this many minutes of a planned time counts toward it
+export const PUMP_SCHEDULE_WINDOW_MINUTES = 45;
+
+export type PumpScheduleSlotStatus = 'done' | 'due' | 'missed' | 'upcoming';
+
+export interface PumpScheduleSlot {
+  time: string; // HH:mm
+  scheduledAt: Date;
+  status: PumpScheduleSlotStatus;
+  sessionId: string | null;
+}
+
+export interface PumpScheduleAdherence {
+  planned: number; // Slots already due or past
+  done: number;
+  rate: number | null; // 0-1, null with nothing planned yet
+}
+
+// Planned pump times on the given day, each matched to the nearest session started within the
+// window. A session only counts toward one slot.
+export function getPumpScheduleSlots(
+  times: string[],
+  sessions: Pick<PumpSession, 'id' | 'startTime'>[],
+  day: Date,
+  now: Date = new Date()
+): PumpScheduleSlot[] {
+  const windowMs = PUMP_SCHEDULE_WINDOW_MINUTES * 60 * 1000;
+  const matched = new Set<string>();
+
+  return [...times].sort().map((time) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    const scheduledAt = new Date(day);
+    scheduledAt.setHours(hours, minutes, 0, 0);
+
+    const session = sessions
+      .filter((s) => !matched.has(s.id))
+      .map((s) => ({ id: s.id, offset: Math.abs(new Date(s.startTime).getTime() - scheduledAt.getTime()) }))
+      .filter((s) => s.offset <= windowMs)
+      .sort((a, b) => a.offset - b.offset)[0];
+
+    if (session) {
+      matched.add(session.id);
+      return { time, scheduledAt, status: 'done' as const, sessionId: session.id };
+    }
+
+    const status: PumpScheduleSlotStatus = now.getTime() > scheduledAt.getTime() + windowMs
+      ? 'missed'
+      : now.getTime() >= scheduledAt.getTime() - windowMs ? 'due' : 'upcoming';
+    return { time, scheduledAt, status, sessionId: null };
+  });
+}
+
+// How many planned sessions were pumped over the last few days, today included.
+// Slots still upcoming or open don't count either way.
+export function getPumpScheduleAdherence(
+  times: string[],
+  sessions: Pick<PumpSession, 'id' | 'startTime'>[],
+  days: number,
+  now: Date = new Date()
+): PumpScheduleAdherence {
+  let planned = 0;
+  let done = 0;
+  for (let offset = 0; offset < days; offset++) {
+    const day = new Date(now);
+    day.setDate(day.getDate() - offset);
+    getPumpScheduleSlots(times, sessions, day, now).forEach((slot) => {
+      if (slot.status === 'done') {
+        planned++;
+        done++;
+      } else if (slot.status === 'missed') {
+        planned++;
+      }
+    });
+  }
+  return { planned, done, rate: planned > 0 ? done / planned : null };
+}
+
 export function getLastBreastActivity(
   feedingSessions: FeedingSession[],
   pumpSessions: PumpSession[]
@@ -175,7 +794,7 @@ export function getLastBreastActivity(
   const feedingActivities: BreastActivityReference[] = feedingSessions
     .filter((session) => !session.isActive)
     .map((session) => ({
-      side: session.breastSide,
+      side: getFeedingSegments(session).at(-1)!.side,
       timestamp: session.endTime ?? session.startTime,
       source: 'feeding' as const,
     }));
@@ -1,6 +1,7 @@
-import { WeightUnit, LengthUnit, MilestoneCategory } from './enums';
+import { WeightUnit, LengthUnit, MilestoneCategory, COMMON_MILESTONES } from './enums';
+import type { CaregiverAttribution } from './caregiver';
 
-export interface GrowthEntry {
+export interface GrowthEntry extends CaregiverAttribution {
   id: string;
   babyId: string;
   userId: string;
@@ -29,7 +30,7 @@ export interface CreateGrowthEntryInput {
   notes?: string | null;
 }
 
-export interface Milestone {
+export interface Milestone extends CaregiverAttribution {
   id: string;
   babyId: string;
   userId: string;
@@ -51,6 +52,16 @@ export interface CreateMilestoneInput {
   photoUrl?: string | null;
 }
 
+// Common milestones whose typical window includes the given (corrected) age in months
+export function getExpectedMilestones(ageMonths: number): typeof COMMON_MILESTONES {
+  return COMMON_MILESTONES.filter(
+    (milestone) =>
+      !!milestone.typicalAgeMonths &&
+      ageMonths >= milestone.typicalAgeMonths[0] &&
+      ageMonths <= milestone.typicalAgeMonths[1]
+  );
+}
+
 // Unit conversion helpers
 export function convertWeight(value: number, from: WeightUnit, to: WeightUnit): number {
   if (from === to) return value;
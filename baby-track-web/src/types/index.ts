@@ -13,3 +13,7 @@ export * from './diary';
 export * from './settings';
 export * from './play';
 export * from './walks';
+export * from './caregiver';
+export * from './invite';
+export * from './userProfile';
+export * from './equipment';
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { getInviteLink, getInviteRole, getInviteStatus, parseInviteToken } from './invite';
+import type { BabyInvite } from './invite';
+
+const now = new Date('2024-03-10T09:00:00.000Z');
+
+const createInvite = (overrides: Partial<BabyInvite> = {}): BabyInvite => ({
+  id: 'ABCD2345',
+  babyId: 'baby-1',
+  babyName: 'Test Baby',
+  createdBy: 'user-1',
+  role: null,
+  expiresAt: '2024-03-17T09:00:00.000Z',
+  maxUses: 1,
+  usedBy: [],
+  revokedAt: null,
+  createdAt: '2024-03-10T08:00:00.000Z',
+  updatedAt: '2024-03-10T08:00:00.000Z',
+  ...overrides,
+});
+
+describe('getInviteStatus', () => {
+  it('is pending until used up, expired or revoked', () => {
+    expect(getInviteStatus(createInvite(), now)).toBe('pending');
+    expect(getInviteStatus(createInvite({ usedBy: ['user-2'] }), now)).toBe('used');
+    expect(getInviteStatus(createInvite({ maxUses: 3, usedBy: ['user-2'] }), now)).toBe('pending');
+    expect(getInviteStatus(createInvite({ expiresAt: '2024-03-10T08:59:00.000Z' }), now)).toBe('expired');
+    expect(getInviteStatus(createInvite({ revokedAt: '2024-03-10T08:30:00.000Z', usedBy: ['user-2'] }), now)).toBe('revoked');
+  });
+});
+
+describe('getInviteRole', () => {
+  it('falls back to viewer when no role was preassigned', () => {
+    expect(getInviteRole(createInvite())).toBe('viewer');
+    expect(getInviteRole(createInvite({ role: 'caregiver' }))).toBe('caregiver');
+  });
+});
+
+describe('parseInviteToken', () => {
+  it('accepts typed codes and pasted links', () => {
+    expect(parseInviteToken(' abcd2345 ')).toBe('ABCD2345');
+    expect(parseInviteToken(getInviteLink('ABCD2345', 'https://example.com'))).toBe('ABCD2345');
+    expect(parseInviteToken('https://example.com/join/abcd2345/')).toBe('ABCD2345');
+  });
+
+  it('rejects anything that is not a full token', () => {
+    expect(parseInviteToken('ABC234')).toBeNull();
+    expect(parseInviteToken('ABCD-2345')).toBeNull();
+    expect(parseInviteToken('')).toBeNull();
+  });
+});
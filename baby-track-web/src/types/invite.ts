@@ -0,0 +1,56 @@
+import type { SharedBabyRole } from './baby';
+
+// Invitation to share a baby, stored at invites/{token}
+export interface BabyInvite {
+  id: string; // The token, entered as a code or opened as /join/:token
+  babyId: string;
+  babyName: string; // Shown to the invitee before they have access to the baby
+  createdBy: string;
+  role: SharedBabyRole | null; // null: joins as a viewer until the owner picks a role
+  expiresAt: string;
+  maxUses: number;
+  usedBy: string[];
+  revokedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateBabyInviteInput {
+  role: SharedBabyRole | null;
+  expiresInDays: number;
+  maxUses: number;
+}
+
+export type BabyInviteStatus = 'pending' | 'used' | 'expired' | 'revoked';
+
+export const INVITE_TOKEN_LENGTH = 8;
+
+// Role for people joining through an invite without a preassigned role
+export const UNASSIGNED_INVITE_ROLE: SharedBabyRole = 'viewer';
+
+export const INVITE_EXPIRY_OPTIONS = [1, 7, 30];
+
+export const INVITE_MAX_USES_OPTIONS = [1, 3, 10];
+
+export function getInviteStatus(invite: BabyInvite, now: Date = new Date()): BabyInviteStatus {
+  if (invite.revokedAt) return 'revoked';
+  if (invite.usedBy.length >= invite.maxUses) return 'used';
+  if (new Date(invite.expiresAt).getTime() <= now.getTime()) return 'expired';
+  return 'pending';
+}
+
+export function getInviteRole(invite: Pick<BabyInvite, 'role'>): SharedBabyRole {
+  return invite.role ?? UNASSIGNED_INVITE_ROLE;
+}
+
+export function getInviteLink(token: string, origin: string = window.location.origin): string {
+  return `${origin}/join/${token}`;
+}
+
+// Accepts a typed code or a pasted /join/:token link, returning the normalized token
+export function parseInviteToken(input: string): string | null {
+  const trimmed = input.trim();
+  const fromLink = trimmed.match(/\/join\/([a-z0-9]+)\/?$/i);
+  const token = (fromLink ? fromLink[1] : trimmed).toUpperCase();
+  return /^[A-Z0-9]+$/.test(token) && token.length === INVITE_TOKEN_LENGTH ? token : null;
+}
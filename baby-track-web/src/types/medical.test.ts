@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { getDaysUntilVaccination, getVaccinationReminderStage } from './medical';
+import type { Vaccination } from './medical';
+
+const now = new Date('2024-03-10T09:00:00.000Z');
+
+const createVaccination = (overrides: Partial<Vaccination> = {}): Vaccination => ({
+  id: 'vaccination-1',
+  babyId: 'baby-1',
+  userId: 'user-1',
+  name: 'DTaP',
+  scheduledDate: '2024-03-13',
+  administeredDate: null,
+  location: null,
+  notes: null,
+  reminderEnabled: true,
+  scheduleId: null,
+  doseKey: null,
+  createdAt: '2024-01-15T00:00:00.000Z',
+  updatedAt: '2024-01-15T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('getDaysUntilVaccination', () => {
+  it('counts whole days from the given date', () => {
+    expect(getDaysUntilVaccination('2024-03-13', now)).toBe(3);
+    expect(getDaysUntilVaccination('2024-03-10', now)).toBe(0);
+    expect(getDaysUntilVaccination('2024-03-08', now)).toBe(-2);
+  });
+});
+
+describe('getVaccinationReminderStage', () => {
+  it('reminds ahead within the lead time', () => {
+    expect(getVaccinationReminderStage(createVaccination(), 3, now)).toBe('upcoming');
+    expect(getVaccinationReminderStage(createVaccination(), 1, now)).toBeNull();
+  });
+
+  it('reminds on the day and once overdue', () => {
+    expect(getVaccinationReminderStage(createVaccination({ scheduledDate: '2024-03-10' }), 3, now)).toBe('due');
+    expect(getVaccinationReminderStage(createVaccination({ scheduledDate: '2024-03-01' }), 3, now)).toBe('overdue');
+  });
+
+  it('skips doses already given or with reminders turned off', () => {
+    expect(getVaccinationReminderStage(createVaccination({ administeredDate: '2024-03-01' }), 3, now)).toBeNull();
+    expect(getVaccinationReminderStage(createVaccination({ reminderEnabled: false }), 3, now)).toBeNull();
+  });
+});
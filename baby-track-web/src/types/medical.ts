@@ -1,7 +1,8 @@
-import { MedicationFrequency, TeethingSymptom, ToothPosition } from './enums';
+import { MedicationFrequency, TeethingSymptom, ToothPosition, TOOTH_POSITION_CONFIG, VaccinationScheduleId } from './enums';
+import type { CaregiverAttribution } from './caregiver';
 
 // Medicine
-export interface Medicine {
+export interface Medicine extends CaregiverAttribution {
   id: string;
   babyId: string;
   userId: string;
@@ -26,7 +27,7 @@ export interface CreateMedicineInput {
 }
 
 // Medicine Log
-export interface MedicineLog {
+export interface MedicineLog extends CaregiverAttribution {
   id: string;
   medicineId: string;
   babyId: string;
@@ -45,7 +46,7 @@ export interface CreateMedicineLogInput {
 }
 
 // Vaccination
-export interface Vaccination {
+export interface Vaccination extends CaregiverAttribution {
   id: string;
   babyId: string;
   userId: string;
@@ -55,6 +56,11 @@ export interface Vaccination {
   location: string | null;
   notes: string | null;
   reminderEnabled: boolean;
+  scheduleId: VaccinationScheduleId | null; // Set when generated from a schedule template
+  doseKey: string | null; // Stable dose id within templates, e.g. 'hepB-1'
+  // Added by the schedule planner; false on hand-entered doses it linked to a dose key.
+  // Missing on doses generated before the flag, which all have a dose key.
+  generated?: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -66,10 +72,13 @@ export interface CreateVaccinationInput {
   location?: string | null;
   notes?: string | null;
   reminderEnabled?: boolean;
+  scheduleId?: VaccinationScheduleId | null;
+  doseKey?: string | null;
+  generated?: boolean;
 }
 
 // Teething Event
-export interface TeethingEvent {
+export interface TeethingEvent extends CaregiverAttribution {
   id: string;
   babyId: string;
   userId: string;
@@ -93,7 +102,7 @@ export interface CreateTeethingEventInput {
 }
 
 // Pediatrician Note
-export interface PediatricianNote {
+export interface PediatricianNote extends CaregiverAttribution {
   id: string;
   babyId: string;
   userId: string;
@@ -156,9 +165,9 @@ export function getVaccinationStatus(vaccination: Vaccination): 'completed' | 'o
   return 'upcoming';
 }
 
-export function getDaysUntilVaccination(scheduledDate: string): number {
+export function getDaysUntilVaccination(scheduledDate: string, now: Date = new Date()): number {
   const scheduled = new Date(scheduledDate);
-  const today = new Date();
+  const today = new Date(now);
   today.setHours(0, 0, 0, 0);
   scheduled.setHours(0, 0, 0, 0);
 
@@ -166,6 +175,24 @@ export function getDaysUntilVaccination(scheduledDate: string): number {
   return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
 }
 
+export type VaccinationReminderStage = 'upcoming' | 'due' | 'overdue';
+
+// Which reminder a vaccination needs today, if any
+export function getVaccinationReminderStage(
+  vaccination: Vaccination,
+  daysBefore: number,
+  now: Date = new Date()
+): VaccinationReminderStage | null {
+  if (vaccination.administeredDate || !vaccination.reminderEnabled) return null;
+
+  const daysUntil = getDaysUntilVaccination(vaccination.scheduledDate, now);
+
+  if (daysUntil < 0) return 'overdue';
+  if (daysUntil === 0) return 'due';
+  if (daysUntil <= daysBefore) return 'upcoming';
+  return null;
+}
+
 export const TEETHING_REMEDIES = [
   'Cold teething ring',
   'Chilled washcloth',
@@ -178,3 +205,11 @@ export const TEETHING_REMEDIES = [
   'Extra cuddles',
   'Distraction/play',
 ];
+
+// Teeth whose typical eruption window includes the given (corrected) age in months
+export function getTeethInEruptionWindow(ageMonths: number): ToothPosition[] {
+  return (Object.keys(TOOTH_POSITION_CONFIG) as ToothPosition[]).filter((position) => {
+    const [from, to] = TOOTH_POSITION_CONFIG[position].typicalAgeMonths;
+    return ageMonths >= from && ageMonths <= to;
+  });
+}
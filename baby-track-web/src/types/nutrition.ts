@@ -1,6 +1,7 @@
 import { FoodCategory, FoodReaction, FoodPreference } from './enums';
+import type { CaregiverAttribution } from './caregiver';
 
-export interface SolidFood {
+export interface SolidFood extends CaregiverAttribution {
   id: string;
   babyId: string;
   userId: string;
@@ -1,8 +1,9 @@
 import { BabyMood } from './enums';
+import type { CaregiverAttribution } from './caregiver';
 
 export type PlayType = 'tummy_time' | 'free_play' | 'sensory' | 'reading' | 'outdoor';
 
-export interface PlaySession {
+export interface PlaySession extends CaregiverAttribution {
   id: string;
   babyId: string;
   userId: string;
@@ -4,10 +4,6 @@ export interface AppSettings {
   id: string;
   userId: string;
 
-  // User Info
-  userName: string | null;
-  partnerName: string | null;
-
   // Unit Preferences
   preferredVolumeUnit: VolumeUnit;
   preferredWeightUnit: WeightUnit;
@@ -31,6 +27,13 @@ export interface AppSettings {
   sleepReminderEnabled: boolean;
   medicineReminderEnabled: boolean;
   medicineReminderMinutesBefore: number;
+  vaccinationReminderEnabled: boolean;
+  vaccinationReminderDaysBefore: number;
+  outputAlertEnabled: boolean; // Alert when diapers fall short for the baby's age
+
+  // Pumping Schedule
+  pumpScheduleEnabled: boolean; // Remind at each planned time
+  pumpScheduleTimes: string[]; // HH:mm, planned sessions each day
 
   // Daily Summaries
   dailySummaryEnabled: boolean;
@@ -44,8 +47,6 @@ export interface AppSettings {
 }
 
 export interface UpdateAppSettingsInput {
-  userName?: string | null;
-  partnerName?: string | null;
   preferredVolumeUnit?: VolumeUnit;
   preferredWeightUnit?: WeightUnit;
   preferredLengthUnit?: LengthUnit;
@@ -62,6 +63,11 @@ export interface UpdateAppSettingsInput {
   sleepReminderEnabled?: boolean;
   medicineReminderEnabled?: boolean;
   medicineReminderMinutesBefore?: number;
+  vaccinationReminderEnabled?: boolean;
+  vaccinationReminderDaysBefore?: number;
+  outputAlertEnabled?: boolean;
+  pumpScheduleEnabled?: boolean;
+  pumpScheduleTimes?: string[];
   dailySummaryEnabled?: boolean;
   morningSummaryEnabled?: boolean;
   morningSummaryHour?: number;
@@ -69,9 +75,13 @@ export interface UpdateAppSettingsInput {
   eveningSummaryHour?: number;
 }
 
+// Names kept in settings before user profiles existed; moved into the profile on first load
+export interface LegacySettingsNames {
+  userName?: string | null;
+  partnerName?: string | null;
+}
+
 export const DEFAULT_SETTINGS: Omit<AppSettings, 'id' | 'userId' | 'createdAt' | 'updatedAt'> = {
-  userName: null,
-  partnerName: null,
   preferredVolumeUnit: 'oz',
   preferredWeightUnit: 'lbs',
   preferredLengthUnit: 'in',
@@ -88,6 +98,11 @@ export const DEFAULT_SETTINGS: Omit<AppSettings, 'id' | 'userId' | 'createdAt' |
   sleepReminderEnabled: false,
   medicineReminderEnabled: true,
   medicineReminderMinutesBefore: 15,
+  vaccinationReminderEnabled: true,
+  vaccinationReminderDaysBefore: 3,
+  outputAlertEnabled: false,
+  pumpScheduleEnabled: false,
+  pumpScheduleTimes: [],
   dailySummaryEnabled: false,
   morningSummaryEnabled: true,
   morningSummaryHour: 8,
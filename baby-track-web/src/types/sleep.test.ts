@@ -1,6 +1,13 @@
 import { describe, it, expect } from 'vitest';
-import { formatSleepDuration, calculateSleepQuality } from './sleep';
-import type { SleepSession } from './sleep';
+import {
+  formatSleepDuration,
+  calculateSleepQuality,
+  calculateSleepDuration,
+  getSleepStretches,
+  getLongestSleepStretch,
+  getOpenNightWaking,
+} from './sleep';
+import type { NightWaking, SleepSession } from './sleep';
 
 describe('formatSleepDuration', () => {
   it('formats minutes only', () => {
@@ -114,3 +121,62 @@ describe('calculateSleepQuality', () => {
     expect(Number.isNaN(result.averageDuration)).toBe(false);
   });
 });
+
+describe('night wakings', () => {
+  const createWaking = (startTime: string, endTime: string | null): NightWaking => ({
+    id: startTime,
+    startTime,
+    endTime,
+    reason: 'feed',
+    feedingSessionId: null,
+    bottleSessionId: null,
+    diaperChangeId: null,
+  });
+
+  const wakings = [
+    createWaking('2024-01-16T02:30:00.000Z', '2024-01-16T03:00:00.000Z'),
+    createWaking('2024-01-15T23:00:00.000Z', '2024-01-15T23:15:00.000Z'),
+  ];
+
+  it('splits a sleep into stretches around its wakings', () => {
+    expect(getSleepStretches('2024-01-15T20:00:00.000Z', '2024-01-16T06:00:00.000Z', wakings)).toEqual([
+      3 * 3600, // 20:00 - 23:00
+      3.25 * 3600, // 23:15 - 02:30
+      3 * 3600, // 03:00 - 06:00
+    ]);
+  });
+
+  it('excludes time awake from the sleep duration', () => {
+    expect(calculateSleepDuration('2024-01-15T20:00:00.000Z', '2024-01-16T06:00:00.000Z', wakings)).toBe(
+      10 * 3600 - 45 * 60
+    );
+    expect(calculateSleepDuration('2024-01-15T20:00:00.000Z', '2024-01-16T06:00:00.000Z')).toBe(10 * 3600);
+  });
+
+  it('counts an open waking as awake until the sleep ends', () => {
+    expect(
+      calculateSleepDuration('2024-01-15T20:00:00.000Z', '2024-01-16T06:00:00.000Z', [
+        createWaking('2024-01-16T05:00:00.000Z', null),
+      ])
+    ).toBe(9 * 3600);
+  });
+
+  it('ignores wakings outside the sleep', () => {
+    expect(
+      calculateSleepDuration('2024-01-15T20:00:00.000Z', '2024-01-15T22:00:00.000Z', wakings)
+    ).toBe(2 * 3600);
+  });
+
+  it('finds the longest stretch and the open waking', () => {
+    const session = {
+      startTime: '2024-01-15T20:00:00.000Z',
+      endTime: '2024-01-16T06:00:00.000Z',
+      wakings,
+    };
+    expect(getLongestSleepStretch(session)).toBe(3.25 * 3600);
+    expect(getOpenNightWaking(session)).toBeNull();
+    expect(getOpenNightWaking({ wakings: [createWaking('2024-01-16T05:00:00.000Z', null)] })?.id).toBe(
+      '2024-01-16T05:00:00.000Z'
+    );
+  });
+});
@@ -1,14 +1,28 @@
-import { SleepType, BabyMood } from './enums';
+import { SleepType, BabyMood, NightWakingReason } from './enums';
+import type { CaregiverAttribution } from './caregiver';
 
-export interface SleepSession {
+// A stretch awake in the middle of a night sleep
+export interface NightWaking {
+  id: string;
+  startTime: string;
+  endTime: string | null; // null while the baby is still awake
+  reason: NightWakingReason;
+  // The entries logged while awake, if any
+  feedingSessionId: string | null;
+  bottleSessionId: string | null;
+  diaperChangeId: string | null;
+}
+
+export interface SleepSession extends CaregiverAttribution {
   id: string;
   babyId: string;
   userId: string;
   date: string;
-  duration: number; // seconds
+  duration: number; // seconds asleep, excluding wakings
   startTime: string;
   endTime: string | null;
   type: SleepType;
+  wakings?: NightWaking[]; // Missing on sleeps without logged wakings
   isActive: boolean;
   notes: string | null;
   babyMood: BabyMood | null;
@@ -39,6 +53,57 @@ export function formatSleepDuration(seconds: number): string {
   return `${minutes}m`;
 }
 
+// Uninterrupted stretches of sleep between startTime and endTime, in seconds and in order
+export function getSleepStretches(
+  startTime: string,
+  endTime: string,
+  wakings: NightWaking[] = []
+): number[] {
+  const sleepEndMs = new Date(endTime).getTime();
+  const sorted = [...wakings].sort(
+    (a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+  );
+
+  const stretches: number[] = [];
+  let cursorMs = new Date(startTime).getTime();
+  for (const waking of sorted) {
+    const wakeStartMs = Math.min(new Date(waking.startTime).getTime(), sleepEndMs);
+    const wakeEndMs = Math.min(waking.endTime ? new Date(waking.endTime).getTime() : sleepEndMs, sleepEndMs);
+    if (wakeStartMs > cursorMs) {
+      stretches.push(Math.floor((wakeStartMs - cursorMs) / 1000));
+    }
+    cursorMs = Math.max(cursorMs, wakeEndMs);
+  }
+  if (sleepEndMs > cursorMs) {
+    stretches.push(Math.floor((sleepEndMs - cursorMs) / 1000));
+  }
+
+  return stretches.filter((seconds) => seconds > 0);
+}
+
+// Seconds asleep between startTime and endTime, excluding time awake during wakings
+export function calculateSleepDuration(
+  startTime: string,
+  endTime: string,
+  wakings: NightWaking[] = []
+): number {
+  return getSleepStretches(startTime, endTime, wakings).reduce((sum, seconds) => sum + seconds, 0);
+}
+
+// Longest uninterrupted stretch of a sleep, measured up to `at` while it's still going
+export function getLongestSleepStretch(
+  session: Pick<SleepSession, 'startTime' | 'endTime' | 'wakings'>,
+  at: Date = new Date()
+): number {
+  const stretches = getSleepStretches(session.startTime, session.endTime ?? at.toISOString(), session.wakings);
+  return stretches.length > 0 ? Math.max(...stretches) : 0;
+}
+
+// The waking the baby is still up from, if any
+export function getOpenNightWaking(session: Pick<SleepSession, 'wakings'>): NightWaking | null {
+  return session.wakings?.find((waking) => !waking.endTime) ?? null;
+}
+
 export function calculateSleepQuality(sessions: SleepSession[], type: SleepType): {
   totalDuration: number;
   averageDuration: number;
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { getDefaultAvatarColor, getDefaultDisplayName, getProfileInitials } from './userProfile';
+
+describe('getDefaultDisplayName', () => {
+  it('prefers the provider name, then the email name', () => {
+    expect(getDefaultDisplayName({ displayName: 'Dana Levi', email: 'dana@example.com' })).toBe('Dana Levi');
+    expect(getDefaultDisplayName({ displayName: null, email: 'sam.k@example.com' })).toBe('sam.k');
+    expect(getDefaultDisplayName({ displayName: '  ', email: null })).toBeNull();
+  });
+});
+
+describe('getDefaultAvatarColor', () => {
+  it('gives the same user the same color', () => {
+    expect(getDefaultAvatarColor('user-1')).toBe(getDefaultAvatarColor('user-1'));
+  });
+});
+
+describe('getProfileInitials', () => {
+  it('uses the first and last word', () => {
+    expect(getProfileInitials('Dana Levi')).toBe('DL');
+    expect(getProfileInitials('grandma ruth ann')).toBe('GA');
+    expect(getProfileInitials('Sam')).toBe('S');
+    expect(getProfileInitials(null)).toBe('?');
+  });
+});
@@ -0,0 +1,45 @@
+import type { BabyColor, UserRelationship } from './enums';
+
+// Public profile of a signed-in user, stored at userProfiles/{uid} and readable by anyone
+// they share a baby with
+export interface UserProfile {
+  id: string; // Firebase UID
+  displayName: string | null;
+  avatarColor: BabyColor;
+  relationship: UserRelationship | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UpdateUserProfileInput {
+  displayName?: string | null;
+  avatarColor?: BabyColor;
+  relationship?: UserRelationship | null;
+}
+
+export const USER_DISPLAY_NAME_MAX_LENGTH = 40;
+
+const AVATAR_COLORS: BabyColor[] = ['blue', 'teal', 'orange', 'green', 'purple', 'pink'];
+
+// Stable starting color per user so partners don't all default to the same avatar
+export function getDefaultAvatarColor(userId: string): BabyColor {
+  let hash = 0;
+  for (const char of userId) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return AVATAR_COLORS[hash % AVATAR_COLORS.length];
+}
+
+// Name to seed a new profile with: the sign-in provider's name, else the part of the email before @
+export function getDefaultDisplayName(user: { displayName?: string | null; email?: string | null }): string | null {
+  const name = user.displayName?.trim() || user.email?.split('@')[0]?.trim();
+  return name ? name.slice(0, USER_DISPLAY_NAME_MAX_LENGTH) : null;
+}
+
+// One or two letters for the avatar circle
+export function getProfileInitials(name: string | null | undefined): string {
+  const words = (name ?? '').trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '?';
+  if (words.length === 1) return words[0].charAt(0).toUpperCase();
+  return (words[0].charAt(0) + words[words.length - 1].charAt(0)).toUpperCase();
+}
@@ -1,6 +1,7 @@
 import { BabyMood } from './enums';
+import type { CaregiverAttribution } from './caregiver';
 
-export interface WalkSession {
+export interface WalkSession extends CaregiverAttribution {
   id: string;
   babyId: string;
   userId: string;